@@ -1,7 +1,9 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  // O pdfkit lê as métricas das fontes padrão do disco; não pode ser empacotado.
+  // O exceljs depende de módulos de stream/zip do Node e também fica de fora.
+  serverExternalPackages: ["pdfkit", "exceljs"],
 };
 
 export default nextConfig;
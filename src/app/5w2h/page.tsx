@@ -1,96 +1,215 @@
 "use client";
 
-import { useEffect, useMemo, useRef, useState } from "react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import { toPng } from "html-to-image";
-import { CheckCircle2, CirclePlus, Download, Trash2 } from "lucide-react";
+import {
+  CheckCircle2,
+  CirclePlus,
+  Download,
+  Trash2,
+  Upload,
+} from "lucide-react";
+import { ActionPlanEntry, ActionPlanItem } from "@/types/dashboard";
 
-type FiveWTwoHItem = {
-  id: string;
-  what: string;
-  why: string;
-  where: string;
-  when: string;
-  who: string;
-  how: string;
-  howMuch: string;
-  status: "em_andamento" | "concluido";
-};
+type Draft = Omit<ActionPlanItem, "status" | "dueDate">;
+
+type HostGroupOption = { groupid: string; name: string };
 
-const STORAGE_KEY = "noc-dashboard:5w2h";
+// Chave usada quando o plano ficava só no navegador; lida apenas para importar.
+const LEGACY_STORAGE_KEY = "noc-dashboard:5w2h";
+
+const EMPTY_DRAFT: Draft = {
+  what: "",
+  why: "",
+  where: "",
+  when: "",
+  who: "",
+  how: "",
+  howMuch: "",
+};
 
 export const dynamic = "force-dynamic";
 
 export default function FiveWTwoHPage() {
-  const [items, setItems] = useState<FiveWTwoHItem[]>([]);
-  const [draft, setDraft] = useState<Omit<FiveWTwoHItem, "id" | "status">>({
-    what: "",
-    why: "",
-    where: "",
-    when: "",
-    who: "",
-    how: "",
-    howMuch: "",
-  });
-  const [status, setStatus] = useState<FiveWTwoHItem["status"]>("em_andamento");
+  const [items, setItems] = useState<ActionPlanEntry[]>([]);
+  const [groups, setGroups] = useState<HostGroupOption[]>([]);
+  const [draft, setDraft] = useState<Draft>(EMPTY_DRAFT);
+  const [status, setStatus] =
+    useState<ActionPlanItem["status"]>("em_andamento");
+  const [dueDate, setDueDate] = useState("");
+  const [groupId, setGroupId] = useState("");
+  const [eventIds, setEventIds] = useState("");
+  const [legacyItems, setLegacyItems] = useState<ActionPlanItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
   const [exporting, setExporting] = useState(false);
   const tableRef = useRef<HTMLDivElement>(null);
 
-  useEffect(() => {
+  const loadItems = useCallback(async () => {
     try {
-      const saved = window.localStorage.getItem(STORAGE_KEY);
-      if (saved) {
-        const parsed = JSON.parse(saved) as FiveWTwoHItem[];
-        setItems(parsed);
+      setLoading(true);
+      const response = await fetch("/api/action-plans");
+      const payload = await response.json().catch(() => null);
+      if (!response.ok) {
+        throw new Error(payload?.error ?? "Falha ao carregar o plano.");
       }
-    } catch {
-      // ignore storage errors
+      setItems(payload.items as ActionPlanEntry[]);
+      setError(null);
+    } catch (loadError) {
+      setError(
+        loadError instanceof Error
+          ? loadError.message
+          : "Falha ao carregar o plano."
+      );
+    } finally {
+      setLoading(false);
     }
   }, []);
 
   useEffect(() => {
+    loadItems();
+    fetch("/api/host-groups")
+      .then((response) => (response.ok ? response.json() : null))
+      .then((payload) => setGroups(payload?.groups ?? []))
+      .catch(() => setGroups([]));
+
+    // Criação a partir de um incidente: /5w2h?eventId=&groupId=&what=&where=&why=
+    const params = new URLSearchParams(window.location.search);
+    if (params.get("eventId") || params.get("what")) {
+      setDraft((prev) => ({
+        ...prev,
+        what: params.get("what") ?? prev.what,
+        why: params.get("why") ?? prev.why,
+        where: params.get("where") ?? prev.where,
+      }));
+      setEventIds(params.get("eventId") ?? "");
+      setGroupId(params.get("groupId") ?? "");
+    }
+
     try {
-      window.localStorage.setItem(STORAGE_KEY, JSON.stringify(items));
+      const saved = window.localStorage.getItem(LEGACY_STORAGE_KEY);
+      const parsed = saved ? (JSON.parse(saved) as ActionPlanItem[]) : [];
+      setLegacyItems(Array.isArray(parsed) ? parsed : []);
     } catch {
       // ignore storage errors
     }
-  }, [items]);
+  }, [loadItems]);
+
+  const saveItem = async (body: Record<string, unknown>) => {
+    const response = await fetch("/api/action-plans", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    });
+    const payload = await response.json().catch(() => null);
+    if (!response.ok) {
+      throw new Error(payload?.error ?? "Falha ao salvar o item.");
+    }
+    return payload.item as ActionPlanEntry;
+  };
+
+  const addItem = async () => {
+    const complete = Object.values(draft).every((value) => value.trim().length);
+    if (!complete || saving) return;
+    try {
+      setSaving(true);
+      const item = await saveItem({
+        ...draft,
+        status,
+        dueDate: dueDate || null,
+        groupIds: groupId ? [groupId] : [],
+        eventIds: eventIds
+          .split(/[\s,;]+/)
+          .map((value) => value.replace(/^#/, ""))
+          .filter((value) => /^\d+$/.test(value)),
+      });
+      setItems((prev) => [...prev, item]);
+      setDraft(EMPTY_DRAFT);
+      setStatus("em_andamento");
+      setDueDate("");
+      setEventIds("");
+      setError(null);
+    } catch (saveError) {
+      setError(
+        saveError instanceof Error ? saveError.message : "Falha ao salvar."
+      );
+    } finally {
+      setSaving(false);
+    }
+  };
 
-  const addItem = () => {
-    const trimmed = Object.values(draft).every((value) => value.trim().length);
-    if (!trimmed) return;
-    const newItem: FiveWTwoHItem = {
-      id: crypto.randomUUID(),
-      ...draft,
-      status,
-    };
-    setItems((prev) => [...prev, newItem]);
-    setDraft({
-      what: "",
-      why: "",
-      where: "",
-      when: "",
-      who: "",
-      how: "",
-      howMuch: "",
+  const updateItem = async (id: string, init: RequestInit) => {
+    try {
+      const response = await fetch(`/api/action-plans/${id}`, {
+        ...init,
+        headers: { "Content-Type": "application/json" },
+      });
+      const payload = await response.json().catch(() => null);
+      if (!response.ok) {
+        throw new Error(payload?.error ?? "Falha ao atualizar o item.");
+      }
+      return payload;
+    } catch (updateError) {
+      setError(
+        updateError instanceof Error
+          ? updateError.message
+          : "Falha ao atualizar o item."
+      );
+      return null;
+    }
+  };
+
+  const toggleStatus = async (item: ActionPlanEntry) => {
+    const payload = await updateItem(item.id, {
+      method: "PATCH",
+      body: JSON.stringify({
+        status: item.status === "concluido" ? "em_andamento" : "concluido",
+      }),
     });
-    setStatus("em_andamento");
+    if (payload?.item) {
+      setItems((prev) =>
+        prev.map((entry) => (entry.id === item.id ? payload.item : entry))
+      );
+    }
   };
 
-  const toggleStatus = (id: string) => {
-    setItems((prev) =>
-      prev.map((item) =>
-        item.id === id
-          ? {
-              ...item,
-              status: item.status === "concluido" ? "em_andamento" : "concluido",
-            }
-          : item
-      )
-    );
+  const removeItem = async (id: string) => {
+    if (!window.confirm("Remover este item do plano?")) return;
+    const payload = await updateItem(id, { method: "DELETE" });
+    if (payload?.removed) {
+      setItems((prev) => prev.filter((item) => item.id !== id));
+    }
   };
 
-  const removeItem = (id: string) => {
-    setItems((prev) => prev.filter((item) => item.id !== id));
+  const importLegacyItems = async () => {
+    if (saving || !legacyItems.length) return;
+    try {
+      setSaving(true);
+      for (const item of legacyItems) {
+        await saveItem({
+          what: item.what || "Sem título",
+          why: item.why ?? "",
+          where: item.where ?? "",
+          when: item.when ?? "",
+          who: item.who ?? "",
+          how: item.how ?? "",
+          howMuch: item.howMuch ?? "",
+          status: item.status === "concluido" ? "concluido" : "em_andamento",
+        });
+      }
+      window.localStorage.removeItem(LEGACY_STORAGE_KEY);
+      setLegacyItems([]);
+      await loadItems();
+    } catch (importError) {
+      setError(
+        importError instanceof Error
+          ? importError.message
+          : "Falha ao importar os itens."
+      );
+    } finally {
+      setSaving(false);
+    }
   };
 
   const handleExport = async () => {
@@ -107,13 +226,18 @@ export default function FiveWTwoHPage() {
       document.body.appendChild(link);
       link.click();
       document.body.removeChild(link);
-    } catch (error) {
-      console.error("Falha ao exportar tabela 5W2H", error);
+    } catch (exportError) {
+      console.error("Falha ao exportar tabela 5W2H", exportError);
     } finally {
       setExporting(false);
     }
   };
 
+  const groupNames = useMemo(
+    () => new Map(groups.map((group) => [group.groupid, group.name])),
+    [groups]
+  );
+
   const sortedItems = useMemo(
     () =>
       [...items].sort((a, b) => {
@@ -135,11 +259,23 @@ export default function FiveWTwoHPage() {
               Plano 5W2H das atividades do NOC
             </h1>
             <p className="text-sm text-slate-500">
-              Acrescente, acompanhe e exporte o plano de acoes em formato de imagem
-              com fundo transparente para usar em apresentacoes.
+              Plano compartilhado pela equipe. Itens vinculados a um host group
+              entram no relatório mensal do cliente; a tabela pode ser exportada
+              como imagem com fundo transparente.
             </p>
           </div>
           <div className="flex flex-wrap gap-2">
+            {legacyItems.length > 0 && (
+              <button
+                type="button"
+                onClick={importLegacyItems}
+                disabled={saving}
+                className="inline-flex items-center gap-2 rounded-2xl border border-amber-200 bg-amber-50 px-4 py-2 text-sm font-semibold text-amber-700 shadow-sm transition hover:bg-amber-100 disabled:cursor-not-allowed disabled:opacity-60"
+              >
+                <Upload className="h-4 w-4" />
+                Importar {legacyItems.length} item(ns) deste navegador
+              </button>
+            )}
             <button
               type="button"
               onClick={handleExport}
@@ -152,42 +288,60 @@ export default function FiveWTwoHPage() {
           </div>
         </header>
 
+        {error && (
+          <div className="rounded-2xl border border-rose-200 bg-rose-50 p-4 text-sm text-rose-600">
+            {error}
+          </div>
+        )}
+
         <section className="rounded-3xl bg-white p-6 shadow-sm ring-1 ring-slate-200">
           <div className="flex flex-col gap-4 lg:flex-row lg:flex-wrap">
             <Field
               label="What"
               value={draft.what}
-              onChange={(value) => setDraft((prev) => ({ ...prev, what: value }))}
+              onChange={(value) =>
+                setDraft((prev) => ({ ...prev, what: value }))
+              }
               placeholder="O que sera feito"
             />
             <Field
               label="Why"
               value={draft.why}
-              onChange={(value) => setDraft((prev) => ({ ...prev, why: value }))}
+              onChange={(value) =>
+                setDraft((prev) => ({ ...prev, why: value }))
+              }
               placeholder="Por que"
             />
             <Field
               label="Where"
               value={draft.where}
-              onChange={(value) => setDraft((prev) => ({ ...prev, where: value }))}
+              onChange={(value) =>
+                setDraft((prev) => ({ ...prev, where: value }))
+              }
               placeholder="Onde"
             />
             <Field
               label="When"
               value={draft.when}
-              onChange={(value) => setDraft((prev) => ({ ...prev, when: value }))}
+              onChange={(value) =>
+                setDraft((prev) => ({ ...prev, when: value }))
+              }
               placeholder="Quando"
             />
             <Field
               label="Who"
               value={draft.who}
-              onChange={(value) => setDraft((prev) => ({ ...prev, who: value }))}
+              onChange={(value) =>
+                setDraft((prev) => ({ ...prev, who: value }))
+              }
               placeholder="Responsavel"
             />
             <Field
               label="How"
               value={draft.how}
-              onChange={(value) => setDraft((prev) => ({ ...prev, how: value }))}
+              onChange={(value) =>
+                setDraft((prev) => ({ ...prev, how: value }))
+              }
               placeholder="Como sera feito"
             />
             <Field
@@ -198,6 +352,35 @@ export default function FiveWTwoHPage() {
               }
               placeholder="Quanto custa / esforco"
             />
+            <Field
+              label="Prazo"
+              type="date"
+              value={dueDate}
+              onChange={setDueDate}
+            />
+            <div className="flex w-full flex-col gap-2 lg:w-[calc(50%-0.5rem)] xl:w-[calc(33%-0.5rem)]">
+              <label className="text-xs font-semibold uppercase tracking-[0.2em] text-slate-500">
+                Host group
+              </label>
+              <select
+                value={groupId}
+                onChange={(event) => setGroupId(event.target.value)}
+                className="h-12 rounded-2xl border border-slate-200 bg-white px-3 text-sm font-semibold text-slate-900 shadow-sm focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-100"
+              >
+                <option value="">Sem vínculo</option>
+                {groups.map((group) => (
+                  <option key={group.groupid} value={group.groupid}>
+                    {group.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <Field
+              label="Eventos Zabbix"
+              value={eventIds}
+              onChange={setEventIds}
+              placeholder="IDs separados por vírgula"
+            />
             <div className="flex w-full flex-col gap-2 lg:w-auto">
               <label className="text-xs font-semibold uppercase tracking-[0.2em] text-slate-500">
                 Status
@@ -205,7 +388,7 @@ export default function FiveWTwoHPage() {
               <select
                 value={status}
                 onChange={(event) =>
-                  setStatus(event.target.value as FiveWTwoHItem["status"])
+                  setStatus(event.target.value as ActionPlanItem["status"])
                 }
                 className="h-12 rounded-2xl border border-slate-200 bg-white px-3 text-sm font-semibold text-slate-900 shadow-sm focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-100"
               >
@@ -217,16 +400,20 @@ export default function FiveWTwoHPage() {
               <button
                 type="button"
                 onClick={addItem}
-                className="inline-flex items-center gap-2 rounded-2xl bg-slate-900 px-5 py-3 text-sm font-semibold text-white shadow-sm transition hover:bg-slate-700"
+                disabled={saving}
+                className="inline-flex items-center gap-2 rounded-2xl bg-slate-900 px-5 py-3 text-sm font-semibold text-white shadow-sm transition hover:bg-slate-700 disabled:cursor-not-allowed disabled:opacity-60"
               >
                 <CirclePlus className="h-4 w-4" />
-                Adicionar
+                {saving ? "Salvando..." : "Adicionar"}
               </button>
             </div>
           </div>
         </section>
 
-        <section ref={tableRef} className="space-y-3 rounded-3xl bg-transparent">
+        <section
+          ref={tableRef}
+          className="space-y-3 rounded-3xl bg-transparent"
+        >
           <div className="flex items-center gap-2 text-sm font-semibold text-slate-600">
             Tarefas:{" "}
             <span className="rounded-full bg-slate-900 px-3 py-1 text-xs font-semibold text-white">
@@ -245,49 +432,103 @@ export default function FiveWTwoHPage() {
               <span className="text-center">Status</span>
             </div>
             <div className="divide-y divide-slate-200 bg-transparent">
-              {sortedItems.length === 0 ? (
+              {loading ? (
+                <div className="px-4 py-6 text-sm text-slate-500">
+                  Carregando plano...
+                </div>
+              ) : sortedItems.length === 0 ? (
                 <div className="px-4 py-6 text-sm text-slate-500">
                   Nenhuma tarefa cadastrada ainda.
                 </div>
               ) : (
-                sortedItems.map((item) => (
-                  <div
-                    key={item.id}
-                    className="grid grid-cols-8 items-center gap-3 px-4 py-3 text-sm text-slate-800"
-                  >
-                    <span className="font-semibold text-slate-900">
-                      {item.what}
-                    </span>
-                    <span className="text-slate-600">{item.why}</span>
-                    <span className="text-slate-600">{item.where}</span>
-                    <span className="text-slate-600">{item.when}</span>
-                    <span className="text-slate-600">{item.who}</span>
-                    <span className="text-slate-600">{item.how}</span>
-                    <span className="text-slate-600">{item.howMuch}</span>
-                    <div className="flex items-center justify-center gap-2">
-                      <button
-                        type="button"
-                        onClick={() => toggleStatus(item.id)}
-                        className={`inline-flex items-center gap-2 rounded-full px-3 py-1 text-xs font-semibold ${
-                          item.status === "concluido"
-                            ? "bg-emerald-50 text-emerald-700 ring-1 ring-emerald-100"
-                            : "bg-amber-50 text-amber-700 ring-1 ring-amber-100"
-                        }`}
-                      >
-                        <CheckCircle2 className="h-4 w-4" />
-                        {item.status === "concluido" ? "Concluido" : "Em andamento"}
-                      </button>
-                      <button
-                        type="button"
-                        onClick={() => removeItem(item.id)}
-                        className="rounded-full p-2 text-slate-400 transition hover:bg-slate-100 hover:text-slate-700"
-                        aria-label="Remover"
-                      >
-                        <Trash2 className="h-4 w-4" />
-                      </button>
+                sortedItems.map((item) => {
+                  const lastChange = item.history[item.history.length - 1];
+                  return (
+                    <div
+                      key={item.id}
+                      className="grid grid-cols-8 items-center gap-3 px-4 py-3 text-sm text-slate-800"
+                    >
+                      <div>
+                        <span className="font-semibold text-slate-900">
+                          {item.what}
+                        </span>
+                        {(item.eventIds.length > 0 ||
+                          item.groupIds.length > 0) && (
+                          <p className="mt-1 text-[11px] text-slate-500">
+                            {[
+                              ...item.eventIds.map((id) => `#${id}`),
+                              ...item.groupIds.map(
+                                (id) => groupNames.get(id) ?? `Grupo ${id}`
+                              ),
+                            ].join(" · ")}
+                          </p>
+                        )}
+                      </div>
+                      <span className="text-slate-600">{item.why}</span>
+                      <span className="text-slate-600">{item.where}</span>
+                      <div className="text-slate-600">
+                        {item.when}
+                        {item.dueDate && (
+                          <p className="text-[11px] font-semibold text-slate-500">
+                            Prazo:{" "}
+                            {new Date(
+                              `${item.dueDate}T12:00:00`
+                            ).toLocaleDateString("pt-BR")}
+                          </p>
+                        )}
+                      </div>
+                      <span className="text-slate-600">{item.who}</span>
+                      <span className="text-slate-600">{item.how}</span>
+                      <span className="text-slate-600">{item.howMuch}</span>
+                      <div className="flex flex-col items-center gap-1">
+                        <div className="flex items-center justify-center gap-2">
+                          <button
+                            type="button"
+                            onClick={() => toggleStatus(item)}
+                            className={`inline-flex items-center gap-2 rounded-full px-3 py-1 text-xs font-semibold ${
+                              item.status === "concluido"
+                                ? "bg-emerald-50 text-emerald-700 ring-1 ring-emerald-100"
+                                : "bg-amber-50 text-amber-700 ring-1 ring-amber-100"
+                            }`}
+                          >
+                            <CheckCircle2 className="h-4 w-4" />
+                            {item.status === "concluido"
+                              ? "Concluido"
+                              : "Em andamento"}
+                          </button>
+                          <button
+                            type="button"
+                            onClick={() => removeItem(item.id)}
+                            className="rounded-full p-2 text-slate-400 transition hover:bg-slate-100 hover:text-slate-700"
+                            aria-label="Remover"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </button>
+                        </div>
+                        {lastChange && (
+                          <p
+                            className="text-[11px] text-slate-400"
+                            title={item.history
+                              .map(
+                                (change) =>
+                                  `${new Date(change.at).toLocaleString("pt-BR")} — ${
+                                    change.status === "concluido"
+                                      ? "Concluido"
+                                      : "Em andamento"
+                                  }${change.by ? ` (${change.by})` : ""}`
+                              )
+                              .join("\n")}
+                          >
+                            {new Date(lastChange.at).toLocaleDateString(
+                              "pt-BR"
+                            )}
+                            {lastChange.by ? ` · ${lastChange.by}` : ""}
+                          </p>
+                        )}
+                      </div>
                     </div>
-                  </div>
-                ))
+                  );
+                })
               )}
             </div>
           </div>
@@ -302,11 +543,13 @@ function Field({
   value,
   onChange,
   placeholder,
+  type = "text",
 }: {
   label: string;
   value: string;
   onChange: (value: string) => void;
   placeholder?: string;
+  type?: "text" | "date";
 }) {
   return (
     <div className="flex w-full flex-col gap-2 lg:w-[calc(50%-0.5rem)] xl:w-[calc(33%-0.5rem)]">
@@ -314,6 +557,7 @@ function Field({
         {label}
       </label>
       <input
+        type={type}
         value={value}
         onChange={(event) => onChange(event.target.value)}
         placeholder={placeholder}
@@ -0,0 +1,107 @@
+import { NextResponse } from "next/server";
+import {
+  actionPlanPatchSchema,
+  deleteActionPlan,
+  getActionPlan,
+  updateActionPlan,
+} from "@/lib/action-plans";
+import { getSession } from "@/lib/auth";
+
+export const dynamic = "force-dynamic";
+
+type RouteContext = {
+  params: Promise<{ id: string }>;
+};
+
+export async function GET(_request: Request, context: RouteContext) {
+  const { id } = await context.params;
+  try {
+    const item = await getActionPlan(id);
+    if (!item) {
+      return NextResponse.json(
+        { error: "Item 5W2H não encontrado." },
+        { status: 404 }
+      );
+    }
+    return NextResponse.json({ item });
+  } catch (error) {
+    console.error("[action-plans] Failed to load item", error);
+    return NextResponse.json(
+      {
+        error:
+          error instanceof Error
+            ? error.message
+            : "Não foi possível carregar o item 5W2H.",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PATCH(request: Request, context: RouteContext) {
+  const { id } = await context.params;
+  const payload = await request.json().catch(() => null);
+  const parseResult = actionPlanPatchSchema.safeParse(payload ?? {});
+
+  if (!parseResult.success) {
+    return NextResponse.json(
+      {
+        error: "Parâmetros inválidos",
+        details: parseResult.error.flatten(),
+      },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const session = await getSession();
+    const item = await updateActionPlan(
+      id,
+      parseResult.data,
+      session?.name ?? null
+    );
+    if (!item) {
+      return NextResponse.json(
+        { error: "Item 5W2H não encontrado." },
+        { status: 404 }
+      );
+    }
+    return NextResponse.json({ item });
+  } catch (error) {
+    console.error("[action-plans] Failed to update item", error);
+    return NextResponse.json(
+      {
+        error:
+          error instanceof Error
+            ? error.message
+            : "Não foi possível atualizar o item 5W2H.",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(_request: Request, context: RouteContext) {
+  const { id } = await context.params;
+  try {
+    const removed = await deleteActionPlan(id);
+    if (!removed) {
+      return NextResponse.json(
+        { error: "Item 5W2H não encontrado." },
+        { status: 404 }
+      );
+    }
+    return NextResponse.json({ removed: true });
+  } catch (error) {
+    console.error("[action-plans] Failed to delete item", error);
+    return NextResponse.json(
+      {
+        error:
+          error instanceof Error
+            ? error.message
+            : "Não foi possível remover o item 5W2H.",
+      },
+      { status: 500 }
+    );
+  }
+}
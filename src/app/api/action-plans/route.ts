@@ -0,0 +1,84 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import {
+  actionPlanInputSchema,
+  createActionPlan,
+  listActionPlans,
+} from "@/lib/action-plans";
+import { getSession } from "@/lib/auth";
+
+export const dynamic = "force-dynamic";
+
+const querySchema = z.object({
+  groupId: z.string().trim().min(1).optional(),
+  eventId: z.string().regex(/^\d+$/).optional(),
+  status: z.enum(["em_andamento", "concluido"]).optional(),
+});
+
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const parseResult = querySchema.safeParse(
+    Object.fromEntries(searchParams.entries())
+  );
+
+  if (!parseResult.success) {
+    return NextResponse.json(
+      {
+        error: "Parâmetros inválidos",
+        details: parseResult.error.flatten(),
+      },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const items = await listActionPlans(parseResult.data);
+    return NextResponse.json({ items });
+  } catch (error) {
+    console.error("[action-plans] Failed to list items", error);
+    return NextResponse.json(
+      {
+        error:
+          error instanceof Error
+            ? error.message
+            : "Não foi possível carregar o plano de ação.",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: Request) {
+  const payload = await request.json().catch(() => null);
+  const parseResult = actionPlanInputSchema.safeParse(payload ?? {});
+
+  if (!parseResult.success) {
+    return NextResponse.json(
+      {
+        error: "Parâmetros inválidos",
+        details: parseResult.error.flatten(),
+      },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const session = await getSession();
+    const item = await createActionPlan(
+      parseResult.data,
+      session?.name ?? null
+    );
+    return NextResponse.json({ item }, { status: 201 });
+  } catch (error) {
+    console.error("[action-plans] Failed to create item", error);
+    return NextResponse.json(
+      {
+        error:
+          error instanceof Error
+            ? error.message
+            : "Não foi possível salvar o item 5W2H.",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,55 @@
+import { NextResponse } from "next/server";
+import { recordAlertVerdict } from "@/lib/alert-verdicts";
+import { z } from "zod";
+
+export const dynamic = "force-dynamic";
+
+type RouteContext = {
+  params: Promise<{ eventId: string }>;
+};
+
+const bodySchema = z
+  .object({
+    verdict: z.enum(["tp", "fp", "fn"]),
+    reason: z.string().trim().max(500).optional(),
+  })
+  .refine((body) => body.verdict === "tp" || (body.reason?.length ?? 0) >= 3, {
+    message: "Informe o motivo para falsos positivos/negativos.",
+    path: ["reason"],
+  });
+
+export async function POST(request: Request, context: RouteContext) {
+  const { eventId } = await context.params;
+  const payload = await request.json().catch(() => null);
+  const parseResult = bodySchema.safeParse(payload ?? {});
+
+  if (!/^\d+$/.test(eventId) || !parseResult.success) {
+    return NextResponse.json(
+      {
+        error: "Parâmetros inválidos",
+        details: parseResult.success ? undefined : parseResult.error.flatten(),
+      },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const verdict = await recordAlertVerdict({
+      eventId,
+      verdict: parseResult.data.verdict,
+      reason: parseResult.data.reason || null,
+    });
+    return NextResponse.json({ verdict });
+  } catch (error) {
+    console.error("[alert-verdicts] Failed to record verdict", error);
+    return NextResponse.json(
+      {
+        error:
+          error instanceof Error
+            ? error.message
+            : "Não foi possível registrar o veredito.",
+      },
+      { status: 500 }
+    );
+  }
+}
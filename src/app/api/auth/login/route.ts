@@ -0,0 +1,60 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { authenticateUser, createSessionCookie } from "@/lib/auth";
+import { isAuthEnabled } from "@/lib/auth-session";
+
+export const dynamic = "force-dynamic";
+
+const bodySchema = z.object({
+  username: z.string().trim().min(1),
+  password: z.string().min(1),
+});
+
+export async function POST(request: Request) {
+  if (!isAuthEnabled()) {
+    return NextResponse.json(
+      { error: "Login desativado (DASHBOARD_AUTH_SECRET não definido)." },
+      { status: 404 }
+    );
+  }
+
+  const payload = await request.json().catch(() => null);
+  const parseResult = bodySchema.safeParse(payload ?? {});
+
+  if (!parseResult.success) {
+    return NextResponse.json(
+      {
+        error: "Parâmetros inválidos",
+        details: parseResult.error.flatten(),
+      },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const user = await authenticateUser(
+      parseResult.data.username,
+      parseResult.data.password
+    );
+    if (!user) {
+      return NextResponse.json(
+        { error: "Usuário ou senha inválidos." },
+        { status: 401 }
+      );
+    }
+    const response = NextResponse.json({ user });
+    response.cookies.set(await createSessionCookie(user));
+    return response;
+  } catch (error) {
+    console.error("[auth] Failed to authenticate", error);
+    return NextResponse.json(
+      {
+        error:
+          error instanceof Error
+            ? error.message
+            : "Não foi possível autenticar agora.",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createSessionCookie, findUserByIdentity } from "@/lib/auth";
+import { fetchOidcIdentity, OIDC_STATE_COOKIE } from "@/lib/auth-oidc";
+import { safeNextPath } from "@/lib/auth-session";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(request: NextRequest) {
+  const url = request.nextUrl;
+  const [expectedState, ...nextParts] = (
+    request.cookies.get(OIDC_STATE_COOKIE)?.value ?? ""
+  ).split(":");
+  const next = safeNextPath(nextParts.join(":"));
+  const code = url.searchParams.get("code");
+
+  const fail = (message: string) => {
+    const loginUrl = new URL("/login", url.origin);
+    loginUrl.searchParams.set("error", message);
+    const response = NextResponse.redirect(loginUrl);
+    response.cookies.delete(OIDC_STATE_COOKIE);
+    return response;
+  };
+
+  if (
+    !code ||
+    !expectedState ||
+    url.searchParams.get("state") !== expectedState
+  ) {
+    return fail("Login SSO inválido ou expirado. Tente novamente.");
+  }
+
+  try {
+    const identity = await fetchOidcIdentity(url.origin, code);
+    if (!identity.email) {
+      return fail("O IdP não informou um e-mail verificado para esta conta.");
+    }
+    const user = await findUserByIdentity(identity);
+    if (!user) {
+      return fail(`Usuário ${identity.email} não cadastrado no dashboard.`);
+    }
+    const response = NextResponse.redirect(new URL(next, url.origin));
+    response.cookies.set(await createSessionCookie(user));
+    response.cookies.delete(OIDC_STATE_COOKIE);
+    return response;
+  } catch (error) {
+    console.error("[auth] Failed to complete OIDC login", error);
+    return fail(
+      error instanceof Error
+        ? error.message
+        : "Não foi possível concluir o login."
+    );
+  }
+}
@@ -0,0 +1,40 @@
+import { randomBytes } from "node:crypto";
+import { NextResponse } from "next/server";
+import {
+  buildAuthorizationUrl,
+  isOidcEnabled,
+  OIDC_STATE_COOKIE,
+} from "@/lib/auth-oidc";
+import { safeNextPath } from "@/lib/auth-session";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(request: Request) {
+  const url = new URL(request.url);
+  if (!isOidcEnabled()) {
+    return NextResponse.redirect(new URL("/login", url.origin));
+  }
+
+  const state = randomBytes(16).toString("hex");
+  const next = safeNextPath(url.searchParams.get("next"));
+  try {
+    const response = NextResponse.redirect(
+      await buildAuthorizationUrl(url.origin, state)
+    );
+    response.cookies.set({
+      name: OIDC_STATE_COOKIE,
+      value: `${state}:${next}`,
+      httpOnly: true,
+      sameSite: "lax",
+      secure: process.env.NODE_ENV === "production",
+      path: "/",
+      maxAge: 600,
+    });
+    return response;
+  } catch (error) {
+    console.error("[auth] Failed to start OIDC login", error);
+    const loginUrl = new URL("/login", url.origin);
+    loginUrl.searchParams.set("error", "Provedor de login indisponível.");
+    return NextResponse.redirect(loginUrl);
+  }
+}
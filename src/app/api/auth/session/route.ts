@@ -0,0 +1,36 @@
+import { NextResponse } from "next/server";
+import { getSession, getUser } from "@/lib/auth";
+import { isAuthEnabled } from "@/lib/auth-session";
+
+export const dynamic = "force-dynamic";
+
+export async function GET() {
+  if (!isAuthEnabled()) {
+    return NextResponse.json({ authEnabled: false, user: null });
+  }
+
+  try {
+    const session = await getSession();
+    if (!session) {
+      return NextResponse.json(
+        { error: "Sessão expirada. Faça login." },
+        { status: 401 }
+      );
+    }
+    return NextResponse.json({
+      authEnabled: true,
+      user: await getUser(session.sub),
+    });
+  } catch (error) {
+    console.error("[auth] Failed to load session", error);
+    return NextResponse.json(
+      {
+        error:
+          error instanceof Error
+            ? error.message
+            : "Não foi possível carregar a sessão.",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,72 @@
+import { NextResponse } from "next/server";
+import { deleteUser, getSession, saveUser, userInputSchema } from "@/lib/auth";
+
+export const dynamic = "force-dynamic";
+
+type RouteContext = {
+  params: Promise<{ id: string }>;
+};
+
+export async function PUT(request: Request, context: RouteContext) {
+  const { id } = await context.params;
+  const payload = await request.json().catch(() => null);
+  const parseResult = userInputSchema.safeParse(payload ?? {});
+
+  if (!parseResult.success) {
+    return NextResponse.json(
+      {
+        error: "Parâmetros inválidos",
+        details: parseResult.error.flatten(),
+      },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const user = await saveUser(parseResult.data, id);
+    return NextResponse.json({ user });
+  } catch (error) {
+    console.error("[auth] Failed to update user", error);
+    return NextResponse.json(
+      {
+        error:
+          error instanceof Error
+            ? error.message
+            : "Não foi possível atualizar o usuário.",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(_request: Request, context: RouteContext) {
+  const { id } = await context.params;
+  try {
+    const session = await getSession();
+    if (session?.sub === id) {
+      return NextResponse.json(
+        { error: "Não é possível remover o próprio usuário." },
+        { status: 400 }
+      );
+    }
+    const removed = await deleteUser(id);
+    if (!removed) {
+      return NextResponse.json(
+        { error: "Usuário não encontrado." },
+        { status: 404 }
+      );
+    }
+    return NextResponse.json({ ok: true });
+  } catch (error) {
+    console.error("[auth] Failed to delete user", error);
+    return NextResponse.json(
+      {
+        error:
+          error instanceof Error
+            ? error.message
+            : "Não foi possível remover o usuário.",
+      },
+      { status: 500 }
+    );
+  }
+}
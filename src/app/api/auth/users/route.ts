@@ -0,0 +1,53 @@
+import { NextResponse } from "next/server";
+import { listUsers, saveUser, userInputSchema } from "@/lib/auth";
+
+export const dynamic = "force-dynamic";
+
+export async function GET() {
+  try {
+    const users = await listUsers();
+    return NextResponse.json({ users });
+  } catch (error) {
+    console.error("[auth] Failed to list users", error);
+    return NextResponse.json(
+      {
+        error:
+          error instanceof Error
+            ? error.message
+            : "Não foi possível carregar os usuários.",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: Request) {
+  const payload = await request.json().catch(() => null);
+  const parseResult = userInputSchema.safeParse(payload ?? {});
+
+  if (!parseResult.success) {
+    return NextResponse.json(
+      {
+        error: "Parâmetros inválidos",
+        details: parseResult.error.flatten(),
+      },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const user = await saveUser(parseResult.data);
+    return NextResponse.json({ user }, { status: 201 });
+  } catch (error) {
+    console.error("[auth] Failed to create user", error);
+    return NextResponse.json(
+      {
+        error:
+          error instanceof Error
+            ? error.message
+            : "Não foi possível criar o usuário.",
+      },
+      { status: 500 }
+    );
+  }
+}
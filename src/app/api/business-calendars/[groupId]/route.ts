@@ -0,0 +1,149 @@
+import { NextResponse } from "next/server";
+import {
+  deleteBusinessCalendar,
+  getBusinessCalendarConfig,
+  saveBusinessCalendar,
+} from "@/lib/business-calendar";
+import { RequestError } from "@/lib/request-error";
+import { z } from "zod";
+
+export const dynamic = "force-dynamic";
+
+type RouteContext = {
+  params: Promise<{ groupId: string }>;
+};
+
+const clockSchema = z
+  .string()
+  .regex(/^([01]\d|2[0-3]):[0-5]\d$|^24:00$/, "Use HH:mm");
+
+const windowSchema = z
+  .object({ start: clockSchema, end: clockSchema })
+  .refine((value) => value.start < value.end, {
+    message: "O fim do expediente deve ser posterior ao início.",
+  });
+
+const windowsSchema = z.array(windowSchema).max(8);
+
+const bodySchema = z.object({
+  name: z.string().trim().min(1).nullable().optional(),
+  timezone: z
+    .string()
+    .trim()
+    .refine(isValidTimezone, { message: "Fuso horário inválido." })
+    .optional(),
+  weekly: z
+    .object({
+      mon: windowsSchema.optional(),
+      tue: windowsSchema.optional(),
+      wed: windowsSchema.optional(),
+      thu: windowsSchema.optional(),
+      fri: windowsSchema.optional(),
+      sat: windowsSchema.optional(),
+      sun: windowsSchema.optional(),
+    })
+    .optional(),
+  holidaySets: z.array(z.string().trim().min(1)).optional(),
+  exceptions: z
+    .array(
+      z.object({
+        date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Use AAAA-MM-DD"),
+        label: z.string().trim().min(1).nullable().default(null),
+        windows: windowsSchema.default([]),
+      })
+    )
+    .optional(),
+});
+
+export async function GET(_request: Request, context: RouteContext) {
+  const { groupId } = await context.params;
+  try {
+    const calendar = await getBusinessCalendarConfig(groupId);
+    return NextResponse.json({ calendar });
+  } catch (error) {
+    console.error("[business-calendars] Failed to load calendar", error);
+    return NextResponse.json(
+      {
+        error:
+          error instanceof Error
+            ? error.message
+            : "Não foi possível carregar o calendário comercial.",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PUT(request: Request, context: RouteContext) {
+  const { groupId } = await context.params;
+  const payload = await request.json().catch(() => null);
+  const parseResult = bodySchema.safeParse(payload ?? {});
+
+  if (!parseResult.success) {
+    return NextResponse.json(
+      {
+        error: "Parâmetros inválidos",
+        details: parseResult.error.flatten(),
+      },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const calendar = await saveBusinessCalendar(groupId, parseResult.data);
+    return NextResponse.json({ calendar });
+  } catch (error) {
+    if (error instanceof RequestError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      );
+    }
+    console.error("[business-calendars] Failed to save calendar", error);
+    return NextResponse.json(
+      {
+        error:
+          error instanceof Error
+            ? error.message
+            : "Não foi possível salvar o calendário comercial.",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(_request: Request, context: RouteContext) {
+  const { groupId } = await context.params;
+  try {
+    const removed = await deleteBusinessCalendar(groupId);
+    if (!removed) {
+      return NextResponse.json(
+        { error: "Calendário comercial não encontrado." },
+        { status: 404 }
+      );
+    }
+    return NextResponse.json({
+      calendar: await getBusinessCalendarConfig(groupId),
+    });
+  } catch (error) {
+    console.error("[business-calendars] Failed to delete calendar", error);
+    return NextResponse.json(
+      {
+        error:
+          error instanceof Error
+            ? error.message
+            : "Não foi possível remover o calendário comercial.",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+function isValidTimezone(value: string) {
+  try {
+    new Intl.DateTimeFormat("pt-BR", { timeZone: value });
+    return true;
+  } catch {
+    return false;
+  }
+}
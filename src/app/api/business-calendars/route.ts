@@ -0,0 +1,33 @@
+import { NextResponse } from "next/server";
+import {
+  getDefaultBusinessCalendar,
+  listBusinessCalendars,
+  listHolidaySets,
+} from "@/lib/business-calendar";
+
+export const dynamic = "force-dynamic";
+
+export async function GET() {
+  try {
+    const [calendars, holidaySets] = await Promise.all([
+      listBusinessCalendars(),
+      listHolidaySets(),
+    ]);
+    return NextResponse.json({
+      defaults: getDefaultBusinessCalendar(),
+      calendars,
+      holidaySets,
+    });
+  } catch (error) {
+    console.error("[business-calendars] Failed to list calendars", error);
+    return NextResponse.json(
+      {
+        error:
+          error instanceof Error
+            ? error.message
+            : "Não foi possível carregar os calendários comerciais.",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,46 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { buildErrorBudgetRanking } from "@/lib/error-budget";
+
+export const dynamic = "force-dynamic";
+
+const querySchema = z.object({
+  month: z
+    .string()
+    .regex(/^\d{4}-\d{2}$/)
+    .optional(),
+});
+
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const parseResult = querySchema.safeParse({
+    month: searchParams.get("month") ?? undefined,
+  });
+
+  if (!parseResult.success) {
+    return NextResponse.json(
+      {
+        error: "Parâmetros inválidos",
+        details: parseResult.error.flatten(),
+      },
+      { status: 400 }
+    );
+  }
+
+  const month = parseResult.data.month ?? new Date().toISOString().slice(0, 7);
+
+  try {
+    return NextResponse.json(await buildErrorBudgetRanking(month));
+  } catch (error) {
+    console.error("[error-budget] Failed to build error budget ranking", error);
+    return NextResponse.json(
+      {
+        error:
+          error instanceof Error
+            ? error.message
+            : "Não foi possível calcular o orçamento de erro.",
+      },
+      { status: 500 }
+    );
+  }
+}
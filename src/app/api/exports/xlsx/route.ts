@@ -0,0 +1,92 @@
+import { NextResponse } from "next/server";
+import { slugifyFileName } from "@/lib/table-export";
+import { buildXlsxWorkbook, XLSX_CONTENT_TYPE } from "@/lib/xlsx-export";
+import { z } from "zod";
+
+export const dynamic = "force-dynamic";
+
+const MAX_ROWS = 100_000;
+
+const cellSchema = z.union([z.string(), z.number(), z.boolean(), z.null()]);
+
+const bodySchema = z.object({
+  fileName: z.string().trim().min(1).max(120),
+  title: z.string().trim().min(1).max(200),
+  metadata: z
+    .array(
+      z.object({ label: z.string().max(120), value: z.string().max(2000) })
+    )
+    .max(50),
+  sheets: z
+    .array(
+      z.object({
+        name: z.string().trim().min(1).max(100),
+        columns: z
+          .array(
+            z.object({
+              key: z.string().min(1),
+              header: z.string().min(1),
+              type: z.enum([
+                "text",
+                "integer",
+                "number",
+                "percent",
+                "duration",
+                "datetime",
+              ]),
+              width: z.number().min(4).max(120).optional(),
+            })
+          )
+          .min(1)
+          .max(60),
+        rows: z.array(z.record(z.string(), cellSchema)),
+      })
+    )
+    .min(1)
+    .max(20)
+    .refine(
+      (sheets) =>
+        sheets.reduce((total, sheet) => total + sheet.rows.length, 0) <=
+        MAX_ROWS,
+      { message: `Limite de ${MAX_ROWS} linhas por exportação.` }
+    ),
+});
+
+/** Converte as tabelas já montadas na tela (`src/lib/table-export.ts`) em XLSX. */
+export async function POST(request: Request) {
+  const payload = await request.json().catch(() => null);
+  const parseResult = bodySchema.safeParse(payload ?? {});
+
+  if (!parseResult.success) {
+    return NextResponse.json(
+      {
+        error: "Parâmetros inválidos",
+        details: parseResult.error.flatten(),
+      },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const workbook = parseResult.data;
+    const buffer = await buildXlsxWorkbook(workbook);
+    const fileName = `${slugifyFileName(workbook.fileName, "export")}.xlsx`;
+    return new NextResponse(new Uint8Array(buffer), {
+      headers: {
+        "Content-Type": XLSX_CONTENT_TYPE,
+        "Content-Disposition": `attachment; filename="${fileName}"`,
+      },
+    });
+  } catch (error) {
+    console.error("[exports] Failed to build workbook", error);
+    return NextResponse.json(
+      {
+        error:
+          error instanceof Error
+            ? error.message
+            : "Não foi possível gerar a planilha.",
+      },
+      { status: 500 }
+    );
+  }
+}
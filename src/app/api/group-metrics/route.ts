@@ -1,22 +1,27 @@
 import { NextResponse } from "next/server";
-import { buildDashboardMetrics } from "@/lib/metrics";
+import { getGroupMetricsOverview } from "@/lib/metrics-snapshots";
 import { getZabbixBaseUrl } from "@/lib/zabbix";
+import { authorizeGroupScope } from "@/lib/auth";
+import {
+  periodQueryFields,
+  readPeriodQuery,
+  refinePeriodQuery,
+} from "@/lib/periods";
 import { z } from "zod";
 
 export const dynamic = "force-dynamic";
 
-const querySchema = z.object({
-  month: z
-    .string()
-    .regex(/^\d{4}-\d{2}$/)
-    .optional(),
-  groupIds: z.string().optional(),
-});
+const querySchema = z
+  .object({
+    ...periodQueryFields,
+    groupIds: z.string().optional(),
+  })
+  .superRefine(refinePeriodQuery);
 
 export async function GET(request: Request) {
   const { searchParams } = new URL(request.url);
   const parseResult = querySchema.safeParse({
-    month: searchParams.get("month") ?? undefined,
+    ...readPeriodQuery((key) => searchParams.get(key)),
     groupIds: searchParams.get("groupIds") ?? undefined,
   });
 
@@ -30,7 +35,7 @@ export async function GET(request: Request) {
     );
   }
 
-  const { month, groupIds } = parseResult.data;
+  const { month, groupIds, ...period } = parseResult.data;
   const selectedMonth =
     month ?? new Date().toISOString().slice(0, 7); /* AAAA-MM */
   const parsedGroupIds = groupIds
@@ -40,30 +45,27 @@ export async function GET(request: Request) {
         .filter(Boolean)
     : undefined;
 
-  try {
-    const metrics = await buildDashboardMetrics(
-      { month: selectedMonth, groupIds: parsedGroupIds },
-      {
-        includeGroupStats: true,
-        includeAlertDetails: true,
-        includeAvailabilityInsights: true,
-      }
+  const access = await authorizeGroupScope(parsedGroupIds);
+  if (!access.ok) {
+    return NextResponse.json(
+      { error: access.error },
+      { status: access.status }
     );
+  }
+
+  try {
+    const overview = await getGroupMetricsOverview({
+      period: { ...period, month: selectedMonth },
+      groupIds: access.groupIds,
+    });
     const zabbixBaseUrl = getZabbixBaseUrl();
 
     return NextResponse.json({
+      ...overview,
       meta: {
-        period: metrics.meta.period,
-        generatedAt: metrics.meta.generatedAt,
+        ...overview.meta,
         ...(zabbixBaseUrl ? { zabbixBaseUrl } : {}),
       },
-      kpis: metrics.kpis,
-      availability: metrics.availability,
-      reachability: metrics.reachability,
-      totals: metrics.groupTotals,
-      groups: metrics.groupSummaries ?? [],
-      severitySummary: metrics.severitySummary,
-      criticalAlerts: metrics.criticalAlerts,
     });
   } catch (error) {
     console.error("[group-metrics] Failed to build overview", error);
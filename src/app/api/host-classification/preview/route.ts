@@ -0,0 +1,42 @@
+import { NextResponse } from "next/server";
+import { previewHostClassification } from "@/lib/host-classification";
+import { z } from "zod";
+
+export const dynamic = "force-dynamic";
+
+const querySchema = z.object({
+  groupId: z.string().trim().min(1).optional(),
+});
+
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const parseResult = querySchema.safeParse({
+    groupId: searchParams.get("groupId") ?? undefined,
+  });
+
+  if (!parseResult.success) {
+    return NextResponse.json(
+      {
+        error: "Parâmetros inválidos",
+        details: parseResult.error.flatten(),
+      },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const preview = await previewHostClassification(parseResult.data.groupId);
+    return NextResponse.json(preview);
+  } catch (error) {
+    console.error("[host-classification] Failed to build preview", error);
+    return NextResponse.json(
+      {
+        error:
+          error instanceof Error
+            ? error.message
+            : "Não foi possível classificar os hosts.",
+      },
+      { status: 500 }
+    );
+  }
+}
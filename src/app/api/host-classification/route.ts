@@ -0,0 +1,22 @@
+import { NextResponse } from "next/server";
+import { loadHostClassificationConfig } from "@/lib/host-classification";
+
+export const dynamic = "force-dynamic";
+
+export async function GET() {
+  try {
+    const config = await loadHostClassificationConfig();
+    return NextResponse.json({ config });
+  } catch (error) {
+    console.error("[host-classification] Failed to load rules", error);
+    return NextResponse.json(
+      {
+        error:
+          error instanceof Error
+            ? error.message
+            : "Não foi possível carregar as regras de classificação.",
+      },
+      { status: 500 }
+    );
+  }
+}
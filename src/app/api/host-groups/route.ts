@@ -1,12 +1,20 @@
 import { NextResponse } from "next/server";
 import { fetchHostGroups } from "@/lib/zabbix";
+import { getGroupRestriction } from "@/lib/auth";
 
 export const dynamic = "force-dynamic";
 
 export async function GET() {
   try {
-    const groups = await fetchHostGroups();
-    return NextResponse.json({ groups });
+    const [groups, allowed] = await Promise.all([
+      fetchHostGroups(),
+      getGroupRestriction(),
+    ]);
+    return NextResponse.json({
+      groups: allowed
+        ? groups.filter((group) => allowed.includes(group.groupid))
+        : groups,
+    });
   } catch (error) {
     console.error("[host-groups] Failed to fetch host groups", error);
     return NextResponse.json(
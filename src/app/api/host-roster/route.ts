@@ -1,6 +1,7 @@
 import { NextResponse } from "next/server";
 import { z } from "zod";
 import { fetchHosts, fetchProxiesByIds } from "@/lib/zabbix";
+import { authorizeGroupScope } from "@/lib/auth";
 
 export const dynamic = "force-dynamic";
 
@@ -29,8 +30,16 @@ export async function GET(request: Request) {
         .filter(Boolean)
     : undefined;
 
+  const access = await authorizeGroupScope(parsedGroupIds);
+  if (!access.ok) {
+    return NextResponse.json(
+      { error: access.error },
+      { status: access.status }
+    );
+  }
+
   try {
-    const hosts = await fetchHosts(parsedGroupIds);
+    const hosts = await fetchHosts(access.groupIds);
     const proxyIds = Array.from(
       new Set(
         hosts
@@ -0,0 +1,75 @@
+import { NextResponse } from "next/server";
+import { buildHostDetail } from "@/lib/host-detail";
+import { getGroupRestriction } from "@/lib/auth";
+import { z } from "zod";
+
+export const dynamic = "force-dynamic";
+
+type RouteContext = {
+  params: Promise<{ hostid: string }>;
+};
+
+const querySchema = z.object({
+  hostid: z.string().regex(/^\d+$/),
+  month: z
+    .string()
+    .regex(/^\d{4}-\d{2}$/)
+    .optional(),
+  groupId: z.string().optional(),
+});
+
+export async function GET(request: Request, context: RouteContext) {
+  const { hostid } = await context.params;
+  const { searchParams } = new URL(request.url);
+  const parseResult = querySchema.safeParse({
+    hostid,
+    month: searchParams.get("month") ?? undefined,
+    groupId: searchParams.get("groupId") ?? undefined,
+  });
+
+  if (!parseResult.success) {
+    return NextResponse.json(
+      {
+        error: "Parâmetros inválidos",
+        details: parseResult.error.flatten(),
+      },
+      { status: 400 }
+    );
+  }
+
+  const { month, groupId } = parseResult.data;
+
+  try {
+    const [detail, allowed] = await Promise.all([
+      buildHostDetail({
+        hostid,
+        month: month ?? new Date().toISOString().slice(0, 7),
+        groupId: groupId || undefined,
+      }),
+      getGroupRestriction(),
+    ]);
+    // Para clientes, host fora dos seus grupos é tratado como inexistente.
+    if (
+      !detail ||
+      (allowed &&
+        !detail.host.groups.some((group) => allowed.includes(group.groupid)))
+    ) {
+      return NextResponse.json(
+        { error: "Host não encontrado." },
+        { status: 404 }
+      );
+    }
+    return NextResponse.json(detail);
+  } catch (error) {
+    console.error("[hosts] Failed to build host detail", error);
+    return NextResponse.json(
+      {
+        error:
+          error instanceof Error
+            ? error.message
+            : "Não foi possível carregar o detalhe do host.",
+      },
+      { status: 500 }
+    );
+  }
+}
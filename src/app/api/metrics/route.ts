@@ -1,22 +1,27 @@
 import { NextResponse } from "next/server";
-import { buildDashboardMetrics } from "@/lib/metrics";
+import { getDashboardMetrics } from "@/lib/metrics-snapshots";
+import { authorizeGroupScope } from "@/lib/auth";
+import {
+  periodQueryFields,
+  readPeriodQuery,
+  refinePeriodQuery,
+} from "@/lib/periods";
 import { z } from "zod";
 
 export const dynamic = "force-dynamic";
 
-const querySchema = z.object({
-  month: z
-    .string()
-    .regex(/^\d{4}-\d{2}$/)
-    .optional(),
-  groupId: z.string().optional(),
-  groupIds: z.string().optional(),
-});
+const querySchema = z
+  .object({
+    ...periodQueryFields,
+    groupId: z.string().optional(),
+    groupIds: z.string().optional(),
+  })
+  .superRefine(refinePeriodQuery);
 
 export async function GET(request: Request) {
   const { searchParams } = new URL(request.url);
   const parseResult = querySchema.safeParse({
-    month: searchParams.get("month") ?? undefined,
+    ...readPeriodQuery((key) => searchParams.get(key)),
     groupId: searchParams.get("groupId") ?? undefined,
     groupIds: searchParams.get("groupIds") ?? undefined,
   });
@@ -31,7 +36,7 @@ export async function GET(request: Request) {
     );
   }
 
-  const { month, groupId, groupIds } = parseResult.data;
+  const { month, groupId, groupIds, ...period } = parseResult.data;
 
   const selectedMonth =
     month ??
@@ -43,11 +48,25 @@ export async function GET(request: Request) {
         .filter(Boolean)
     : undefined;
 
+  const requestedGroupIds = [
+    ...(groupId ? [groupId] : []),
+    ...(parsedGroupIds ?? []),
+  ];
+  const access = await authorizeGroupScope(
+    requestedGroupIds.length ? requestedGroupIds : undefined
+  );
+  if (!access.ok) {
+    return NextResponse.json(
+      { error: access.error },
+      { status: access.status }
+    );
+  }
+
   try {
-    const metrics = await buildDashboardMetrics({
-      month: selectedMonth,
+    const metrics = await getDashboardMetrics({
+      period: { ...period, month: selectedMonth },
       groupId: groupId || undefined,
-      groupIds: parsedGroupIds,
+      groupIds: groupId ? parsedGroupIds : access.groupIds,
     });
     return NextResponse.json({ metrics });
   } catch (error) {
@@ -0,0 +1,42 @@
+import { NextResponse } from "next/server";
+import { listNotificationDeliveries } from "@/lib/notifications";
+import { z } from "zod";
+
+export const dynamic = "force-dynamic";
+
+const querySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(500).optional(),
+});
+
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const parseResult = querySchema.safeParse({
+    limit: searchParams.get("limit") ?? undefined,
+  });
+
+  if (!parseResult.success) {
+    return NextResponse.json(
+      {
+        error: "Parâmetros inválidos",
+        details: parseResult.error.flatten(),
+      },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const deliveries = await listNotificationDeliveries(parseResult.data.limit);
+    return NextResponse.json({ deliveries });
+  } catch (error) {
+    console.error("[notifications] Failed to list deliveries", error);
+    return NextResponse.json(
+      {
+        error:
+          error instanceof Error
+            ? error.message
+            : "Não foi possível listar os envios.",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,57 @@
+import { NextResponse } from "next/server";
+import {
+  getNotificationConfig,
+  notificationConfigSchema,
+  saveNotificationConfig,
+} from "@/lib/notifications";
+
+export const dynamic = "force-dynamic";
+
+export async function GET() {
+  try {
+    const config = await getNotificationConfig();
+    return NextResponse.json({ config });
+  } catch (error) {
+    console.error("[notifications] Failed to load config", error);
+    return NextResponse.json(
+      {
+        error:
+          error instanceof Error
+            ? error.message
+            : "Não foi possível carregar as regras de notificação.",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PUT(request: Request) {
+  const payload = await request.json().catch(() => null);
+  const parseResult = notificationConfigSchema.safeParse(payload ?? {});
+
+  if (!parseResult.success) {
+    return NextResponse.json(
+      {
+        error: "Parâmetros inválidos",
+        details: parseResult.error.flatten(),
+      },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const config = await saveNotificationConfig(parseResult.data);
+    return NextResponse.json({ config });
+  } catch (error) {
+    console.error("[notifications] Failed to save config", error);
+    return NextResponse.json(
+      {
+        error:
+          error instanceof Error
+            ? error.message
+            : "Não foi possível salvar as regras de notificação.",
+      },
+      { status: 500 }
+    );
+  }
+}
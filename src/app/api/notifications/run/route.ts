@@ -0,0 +1,40 @@
+import { NextResponse } from "next/server";
+import { runNotifications } from "@/lib/notifications";
+import { z } from "zod";
+
+export const dynamic = "force-dynamic";
+
+const runSchema = z.object({
+  dryRun: z.boolean().optional(),
+});
+
+export async function POST(request: Request) {
+  const payload = await request.json().catch(() => null);
+  const parseResult = runSchema.safeParse(payload ?? {});
+
+  if (!parseResult.success) {
+    return NextResponse.json(
+      {
+        error: "Parâmetros inválidos",
+        details: parseResult.error.flatten(),
+      },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const result = await runNotifications(parseResult.data);
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error("[notifications] Failed to run rules", error);
+    return NextResponse.json(
+      {
+        error:
+          error instanceof Error
+            ? error.message
+            : "Não foi possível avaliar as regras de notificação.",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,46 @@
+import { NextResponse } from "next/server";
+import { sendTestNotification } from "@/lib/notifications";
+import { z } from "zod";
+
+export const dynamic = "force-dynamic";
+
+const testSchema = z.object({
+  channelId: z.string().trim().min(1),
+});
+
+export async function POST(request: Request) {
+  const payload = await request.json().catch(() => null);
+  const parseResult = testSchema.safeParse(payload ?? {});
+
+  if (!parseResult.success) {
+    return NextResponse.json(
+      {
+        error: "Parâmetros inválidos",
+        details: parseResult.error.flatten(),
+      },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const delivery = await sendTestNotification(parseResult.data.channelId);
+    if (!delivery) {
+      return NextResponse.json(
+        { error: "Canal não encontrado." },
+        { status: 404 }
+      );
+    }
+    return NextResponse.json({ delivery });
+  } catch (error) {
+    console.error("[notifications] Failed to send test", error);
+    return NextResponse.json(
+      {
+        error:
+          error instanceof Error
+            ? error.message
+            : "Não foi possível enviar a notificação de teste.",
+      },
+      { status: 500 }
+    );
+  }
+}
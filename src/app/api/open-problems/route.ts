@@ -1,12 +1,28 @@
 import { NextResponse } from "next/server";
 import { listOpenProblems } from "@/lib/open-problems";
+import { getGroupRestriction } from "@/lib/auth";
+import { fetchHostGroups } from "@/lib/zabbix";
 
 export const dynamic = "force-dynamic";
 
 export async function GET() {
   try {
-    const payload = await listOpenProblems();
-    return NextResponse.json(payload);
+    const [payload, allowed] = await Promise.all([
+      listOpenProblems(),
+      getGroupRestriction(),
+    ]);
+    if (!allowed) {
+      return NextResponse.json(payload);
+    }
+    const allowedNames = new Set(
+      (await fetchHostGroups())
+        .filter((group) => allowed.includes(group.groupid))
+        .map((group) => group.name)
+    );
+    const problems = payload.problems.filter((problem) =>
+      problem.groupNames.some((name) => allowedNames.has(name))
+    );
+    return NextResponse.json({ ...payload, problems, total: problems.length });
   } catch (error) {
     console.error("[open-problems] Failed to list open problems", error);
     return NextResponse.json(
@@ -0,0 +1,57 @@
+import { subscribeOpenProblems } from "@/lib/open-problems-feed";
+
+export const dynamic = "force-dynamic";
+
+const HEARTBEAT_MS = 25_000;
+
+export async function GET(request: Request) {
+  const encoder = new TextEncoder();
+  let cleanup = () => {};
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      let closed = false;
+      const send = (chunk: string) => {
+        if (closed) return;
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          cleanup();
+        }
+      };
+
+      const unsubscribe = subscribeOpenProblems((message) => {
+        send(`event: ${message.type}\ndata: ${JSON.stringify(message.data)}\n\n`);
+      });
+      // Comentários periódicos evitam que proxies encerrem a conexão ociosa.
+      const heartbeat = setInterval(() => send(": ping\n\n"), HEARTBEAT_MS);
+
+      cleanup = () => {
+        if (closed) return;
+        closed = true;
+        clearInterval(heartbeat);
+        unsubscribe();
+        try {
+          controller.close();
+        } catch {
+          // conexão já encerrada
+        }
+      };
+
+      send("retry: 5000\n\n");
+      request.signal.addEventListener("abort", () => cleanup());
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream; charset=utf-8",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+      "X-Accel-Buffering": "no",
+    },
+  });
+}
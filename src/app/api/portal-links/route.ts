@@ -0,0 +1,62 @@
+import { NextResponse } from "next/server";
+import {
+  createPortalLink,
+  isPortalEnabled,
+  MAX_PORTAL_LINK_DAYS,
+} from "@/lib/portal";
+import { RequestError } from "@/lib/request-error";
+import { z } from "zod";
+
+export const dynamic = "force-dynamic";
+
+const bodySchema = z.object({
+  groupId: z.string().regex(/^\d+$/),
+  days: z.coerce.number().int().min(1).max(MAX_PORTAL_LINK_DAYS).optional(),
+});
+
+export async function POST(request: Request) {
+  const payload = await request.json().catch(() => null);
+  const parseResult = bodySchema.safeParse(payload ?? {});
+
+  if (!parseResult.success) {
+    return NextResponse.json(
+      {
+        error: "Parâmetros inválidos",
+        details: parseResult.error.flatten(),
+      },
+      { status: 400 }
+    );
+  }
+
+  if (!isPortalEnabled()) {
+    return NextResponse.json(
+      { error: "Defina DASHBOARD_PORTAL_SECRET para gerar links do portal." },
+      { status: 409 }
+    );
+  }
+
+  try {
+    const link = await createPortalLink(
+      parseResult.data.groupId,
+      parseResult.data.days
+    );
+    return NextResponse.json({ link });
+  } catch (error) {
+    if (error instanceof RequestError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      );
+    }
+    console.error("[portal-links] Failed to create portal link", error);
+    return NextResponse.json(
+      {
+        error:
+          error instanceof Error
+            ? error.message
+            : "Não foi possível gerar o link do portal.",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,62 @@
+import { NextResponse } from "next/server";
+import { formatInTimeZone } from "date-fns-tz";
+import { buildPortalView, verifyPortalToken } from "@/lib/portal";
+import { z } from "zod";
+
+export const dynamic = "force-dynamic";
+
+const DEFAULT_TIMEZONE = process.env.DASHBOARD_TIMEZONE ?? "America/Sao_Paulo";
+
+type RouteContext = {
+  params: Promise<{ token: string }>;
+};
+
+const querySchema = z.object({
+  month: z
+    .string()
+    .regex(/^\d{4}-\d{2}$/)
+    .optional(),
+});
+
+export async function GET(request: Request, context: RouteContext) {
+  const { token } = await context.params;
+  const { searchParams } = new URL(request.url);
+  const parseResult = querySchema.safeParse({
+    month: searchParams.get("month") ?? undefined,
+  });
+
+  if (!parseResult.success) {
+    return NextResponse.json(
+      {
+        error: "Parâmetros inválidos",
+        details: parseResult.error.flatten(),
+      },
+      { status: 400 }
+    );
+  }
+
+  const access = verifyPortalToken(token);
+  if (!access) {
+    return NextResponse.json(
+      { error: "Link inválido ou expirado." },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const view = await buildPortalView({
+      groupId: access.groupId,
+      month:
+        parseResult.data.month ??
+        formatInTimeZone(new Date(), DEFAULT_TIMEZONE, "yyyy-MM"),
+      expiresAt: access.exp,
+    });
+    return NextResponse.json(view);
+  } catch (error) {
+    console.error("[portal] Failed to build portal view", error);
+    return NextResponse.json(
+      { error: "Não foi possível carregar os indicadores agora." },
+      { status: 500 }
+    );
+  }
+}
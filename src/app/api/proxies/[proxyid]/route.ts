@@ -0,0 +1,49 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { buildProxyDetail } from "@/lib/proxy-health";
+
+export const dynamic = "force-dynamic";
+
+type RouteContext = {
+  params: Promise<{ proxyid: string }>;
+};
+
+const paramsSchema = z.object({
+  proxyid: z.string().regex(/^\d+$/),
+});
+
+export async function GET(_request: Request, context: RouteContext) {
+  const parseResult = paramsSchema.safeParse(await context.params);
+
+  if (!parseResult.success) {
+    return NextResponse.json(
+      {
+        error: "Parâmetros inválidos",
+        details: parseResult.error.flatten(),
+      },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const detail = await buildProxyDetail(parseResult.data.proxyid);
+    if (!detail) {
+      return NextResponse.json(
+        { error: "Proxy não encontrado." },
+        { status: 404 }
+      );
+    }
+    return NextResponse.json(detail);
+  } catch (error) {
+    console.error("[proxies] Failed to build proxy detail", error);
+    return NextResponse.json(
+      {
+        error:
+          error instanceof Error
+            ? error.message
+            : "Não foi possível carregar o detalhe do proxy.",
+      },
+      { status: 500 }
+    );
+  }
+}
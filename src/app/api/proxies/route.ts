@@ -0,0 +1,21 @@
+import { NextResponse } from "next/server";
+import { buildProxyHealth } from "@/lib/proxy-health";
+
+export const dynamic = "force-dynamic";
+
+export async function GET() {
+  try {
+    return NextResponse.json(await buildProxyHealth());
+  } catch (error) {
+    console.error("[proxies] Failed to build proxy health", error);
+    return NextResponse.json(
+      {
+        error:
+          error instanceof Error
+            ? error.message
+            : "Não foi possível carregar os proxies.",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,159 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { buildAlertNoiseReport } from "@/lib/alert-noise-report";
+import { resolveGroupAlertReportRange } from "@/lib/group-alert-report";
+import { RequestError } from "@/lib/request-error";
+import {
+  buildAlertNoiseSheet,
+  csvSafe,
+  slugifyFileName,
+} from "@/lib/table-export";
+import { buildXlsxWorkbook, XLSX_CONTENT_TYPE } from "@/lib/xlsx-export";
+import { AlertNoiseReport } from "@/types/dashboard";
+
+export const dynamic = "force-dynamic";
+
+const querySchema = z.object({
+  groupId: z.string().trim().min(1).optional(),
+  from: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, "Use AAAA-MM-DD")
+    .optional(),
+  to: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, "Use AAAA-MM-DD")
+    .optional(),
+  lastDays: z.coerce.number().int().min(1).max(366).optional(),
+  flapMinutes: z.coerce.number().int().min(1).max(1440).optional(),
+  format: z.enum(["json", "csv", "xlsx"]).optional(),
+});
+
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const parseResult = querySchema.safeParse(
+    Object.fromEntries(searchParams.entries())
+  );
+
+  if (!parseResult.success) {
+    return NextResponse.json(
+      {
+        error: "Parâmetros inválidos",
+        details: parseResult.error.flatten(),
+      },
+      { status: 400 }
+    );
+  }
+
+  const query = parseResult.data;
+  let report: AlertNoiseReport;
+  try {
+    report = await buildAlertNoiseReport({
+      groupId:
+        query.groupId && query.groupId !== "all" ? query.groupId : undefined,
+      range: resolveGroupAlertReportRange({
+        from: query.from,
+        to: query.to,
+        lastDays: query.lastDays,
+      }),
+      flapWindowMinutes: query.flapMinutes,
+    });
+  } catch (error) {
+    if (error instanceof RequestError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      );
+    }
+    console.error("[alert-noise] Failed to build report", error);
+    return NextResponse.json(
+      {
+        error:
+          error instanceof Error
+            ? error.message
+            : "Não foi possível gerar o relatório de ruído.",
+      },
+      { status: 500 }
+    );
+  }
+
+  if (!query.format || query.format === "json") {
+    return NextResponse.json(report);
+  }
+
+  const fileName = `${slugifyFileName(
+    report.groupLabel,
+    "host-groups"
+  )}-alert-noise-${report.range.from}_${report.range.to}`;
+
+  if (query.format === "xlsx") {
+    try {
+      const buffer = await buildXlsxWorkbook({
+        fileName,
+        title: `Ruído de alertas - ${report.groupLabel}`,
+        metadata: [
+          { label: "Escopo", value: report.groupLabel },
+          {
+            label: "Período",
+            value: `${report.range.from} a ${report.range.to}`,
+          },
+          {
+            label: "Janela de flap",
+            value: `${report.flapWindowMinutes} min`,
+          },
+          {
+            label: "Alerta curto",
+            value: `< ${report.shortAlertMinutes} min`,
+          },
+        ],
+        sheets: [buildAlertNoiseSheet(report.entries)],
+      });
+      return new NextResponse(new Uint8Array(buffer), {
+        headers: {
+          "Content-Type": XLSX_CONTENT_TYPE,
+          "Content-Disposition": `attachment; filename="${fileName}.xlsx"`,
+        },
+      });
+    } catch (error) {
+      console.error("[alert-noise] Failed to build workbook", error);
+      return NextResponse.json(
+        {
+          error:
+            error instanceof Error
+              ? error.message
+              : "Não foi possível gerar a planilha do relatório.",
+        },
+        { status: 500 }
+      );
+    }
+  }
+
+  const header =
+    "rank,trigger_id,alerta,host,item_keys,severidade,disparos,flaps,em_aberto,duracao_mediana_min,alertas_curtos_pct,taxa_ack_pct,ultimo_disparo";
+  const rows = report.entries.map((entry, index) =>
+    [
+      index + 1,
+      entry.triggerId,
+      csvSafe(entry.name),
+      csvSafe(entry.hostName),
+      csvSafe(entry.itemKeys.join(" | ")),
+      entry.severityLabel,
+      entry.fires,
+      entry.flaps,
+      entry.openNow,
+      entry.medianDurationMinutes !== null
+        ? entry.medianDurationMinutes.toFixed(2)
+        : "",
+      entry.shortAlertPct.toFixed(2),
+      entry.ackRatePct.toFixed(2),
+      entry.lastFiredAt,
+    ].join(",")
+  );
+
+  const csv = `\uFEFF${[header, ...rows].join("\n")}`;
+  return new NextResponse(csv, {
+    headers: {
+      "Content-Type": "text/csv; charset=utf-8",
+      "Content-Disposition": `attachment; filename="${fileName}.csv"`,
+    },
+  });
+}
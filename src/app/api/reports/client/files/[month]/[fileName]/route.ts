@@ -0,0 +1,45 @@
+import { NextResponse } from "next/server";
+import { readClientReportFile } from "@/lib/client-report-scheduler";
+
+export const dynamic = "force-dynamic";
+
+type RouteContext = {
+  params: Promise<{ month: string; fileName: string }>;
+};
+
+export async function GET(_request: Request, context: RouteContext) {
+  const { month, fileName } = await context.params;
+  if (!/^\d{4}-\d{2}$/.test(month) || !fileName.endsWith(".pdf")) {
+    return NextResponse.json(
+      { error: "Relatório não encontrado." },
+      { status: 404 }
+    );
+  }
+
+  try {
+    const pdf = await readClientReportFile(month, fileName);
+    if (!pdf) {
+      return NextResponse.json(
+        { error: "Relatório não encontrado." },
+        { status: 404 }
+      );
+    }
+    return new NextResponse(new Uint8Array(pdf), {
+      headers: {
+        "Content-Type": "application/pdf",
+        "Content-Disposition": `attachment; filename="${fileName}"`,
+      },
+    });
+  } catch (error) {
+    console.error("[client-report] Failed to read file", error);
+    return NextResponse.json(
+      {
+        error:
+          error instanceof Error
+            ? error.message
+            : "Não foi possível ler o relatório.",
+      },
+      { status: 500 }
+    );
+  }
+}
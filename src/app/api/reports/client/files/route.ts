@@ -0,0 +1,63 @@
+import { NextResponse } from "next/server";
+import {
+  listClientReportFiles,
+  runClientReportJob,
+} from "@/lib/client-report-scheduler";
+import { z } from "zod";
+
+export const dynamic = "force-dynamic";
+
+const runSchema = z.object({
+  month: z.string().regex(/^\d{4}-\d{2}$/, "Use AAAA-MM"),
+  groupIds: z.array(z.string().trim().min(1)).optional(),
+  overwrite: z.boolean().optional(),
+});
+
+export async function GET() {
+  try {
+    const files = await listClientReportFiles();
+    return NextResponse.json({ files });
+  } catch (error) {
+    console.error("[client-report] Failed to list files", error);
+    return NextResponse.json(
+      {
+        error:
+          error instanceof Error
+            ? error.message
+            : "Não foi possível listar os relatórios gerados.",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: Request) {
+  const payload = await request.json().catch(() => null);
+  const parseResult = runSchema.safeParse(payload ?? {});
+
+  if (!parseResult.success) {
+    return NextResponse.json(
+      {
+        error: "Parâmetros inválidos",
+        details: parseResult.error.flatten(),
+      },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const files = await runClientReportJob(parseResult.data);
+    return NextResponse.json({ files });
+  } catch (error) {
+    console.error("[client-report] Failed to run job", error);
+    return NextResponse.json(
+      {
+        error:
+          error instanceof Error
+            ? error.message
+            : "Não foi possível gerar os relatórios.",
+      },
+      { status: 500 }
+    );
+  }
+}
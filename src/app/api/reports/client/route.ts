@@ -0,0 +1,74 @@
+import { NextResponse } from "next/server";
+import { actionPlanItemSchema, buildClientReport } from "@/lib/client-report";
+import { authorizeGroupScope } from "@/lib/auth";
+import { z } from "zod";
+
+export const dynamic = "force-dynamic";
+
+const reportSchema = z.object({
+  month: z.string().regex(/^\d{4}-\d{2}$/, "Use AAAA-MM"),
+  groupId: z.string().trim().min(1),
+  actionItems: z.array(actionPlanItemSchema).max(200).optional(),
+});
+
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  return respondWithReport(
+    reportSchema.safeParse({
+      month: searchParams.get("month") ?? undefined,
+      groupId: searchParams.get("groupId") ?? undefined,
+    })
+  );
+}
+
+/**
+ * Mesmo relatório do GET. `actionItems` no corpo substitui o plano 5W2H
+ * cadastrado para o host group.
+ */
+export async function POST(request: Request) {
+  const payload = await request.json().catch(() => null);
+  return respondWithReport(reportSchema.safeParse(payload ?? {}));
+}
+
+async function respondWithReport(
+  parseResult: ReturnType<typeof reportSchema.safeParse>
+) {
+  if (!parseResult.success) {
+    return NextResponse.json(
+      {
+        error: "Parâmetros inválidos",
+        details: parseResult.error.flatten(),
+      },
+      { status: 400 }
+    );
+  }
+
+  const access = await authorizeGroupScope([parseResult.data.groupId]);
+  if (!access.ok) {
+    return NextResponse.json(
+      { error: access.error },
+      { status: access.status }
+    );
+  }
+
+  try {
+    const report = await buildClientReport(parseResult.data);
+    return new NextResponse(new Uint8Array(report.pdf), {
+      headers: {
+        "Content-Type": "application/pdf",
+        "Content-Disposition": `attachment; filename="${report.fileName}"`,
+      },
+    });
+  } catch (error) {
+    console.error("[client-report] Failed to build report", error);
+    return NextResponse.json(
+      {
+        error:
+          error instanceof Error
+            ? error.message
+            : "Não foi possível gerar o relatório em PDF.",
+      },
+      { status: 500 }
+    );
+  }
+}
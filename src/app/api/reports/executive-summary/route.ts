@@ -0,0 +1,71 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { authorizeGroupScope } from "@/lib/auth";
+import { buildExecutiveSummary } from "@/lib/executive-summary";
+import { RequestError } from "@/lib/request-error";
+
+export const dynamic = "force-dynamic";
+
+const querySchema = z
+  .object({
+    groupId: z.string().trim().min(1),
+    period: z.enum(["quarter", "year"]).default("quarter"),
+    year: z.coerce.number().int().min(2000).max(2100),
+    quarter: z.coerce.number().int().min(1).max(4).optional(),
+  })
+  .refine((value) => value.period === "year" || value.quarter, {
+    message: "Informe o trimestre (1 a 4).",
+    path: ["quarter"],
+  });
+
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const parseResult = querySchema.safeParse({
+    groupId: searchParams.get("groupId") ?? undefined,
+    period: searchParams.get("period") ?? undefined,
+    year: searchParams.get("year") ?? undefined,
+    quarter: searchParams.get("quarter") ?? undefined,
+  });
+
+  if (!parseResult.success) {
+    return NextResponse.json(
+      {
+        error: "Parâmetros inválidos",
+        details: parseResult.error.flatten(),
+      },
+      { status: 400 }
+    );
+  }
+
+  const { groupId, period, year, quarter } = parseResult.data;
+  const access = await authorizeGroupScope([groupId]);
+  if (!access.ok) {
+    return NextResponse.json(
+      { error: access.error },
+      { status: access.status }
+    );
+  }
+
+  try {
+    return NextResponse.json(
+      await buildExecutiveSummary({ groupId, kind: period, year, quarter })
+    );
+  } catch (error) {
+    if (error instanceof RequestError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      );
+    }
+    console.error("[executive-summary] Failed to build summary", error);
+    return NextResponse.json(
+      {
+        error:
+          error instanceof Error
+            ? error.message
+            : "Não foi possível gerar o resumo executivo.",
+      },
+      { status: 500 }
+    );
+  }
+}
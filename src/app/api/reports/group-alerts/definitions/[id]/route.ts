@@ -0,0 +1,97 @@
+import { NextResponse } from "next/server";
+import {
+  deleteGroupAlertReportDefinition,
+  getGroupAlertReportDefinition,
+  groupAlertReportDefinitionSchema,
+  updateGroupAlertReportDefinition,
+} from "@/lib/group-alert-report-definitions";
+
+export const dynamic = "force-dynamic";
+
+type RouteContext = {
+  params: Promise<{ id: string }>;
+};
+
+const NOT_FOUND_MESSAGE = "Relatório salvo não encontrado.";
+
+export async function GET(_request: Request, context: RouteContext) {
+  const { id } = await context.params;
+  try {
+    const definition = await getGroupAlertReportDefinition(id);
+    if (!definition) {
+      return NextResponse.json({ error: NOT_FOUND_MESSAGE }, { status: 404 });
+    }
+    return NextResponse.json({ definition });
+  } catch (error) {
+    console.error("[group-alerts] Failed to load definition", error);
+    return NextResponse.json(
+      {
+        error:
+          error instanceof Error
+            ? error.message
+            : "Não foi possível carregar o relatório salvo.",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PUT(request: Request, context: RouteContext) {
+  const { id } = await context.params;
+  const payload = await request.json().catch(() => null);
+  const parseResult = groupAlertReportDefinitionSchema.safeParse(payload ?? {});
+
+  if (!parseResult.success) {
+    return NextResponse.json(
+      {
+        error: "Parâmetros inválidos",
+        details: parseResult.error.flatten(),
+      },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const definition = await updateGroupAlertReportDefinition(
+      id,
+      parseResult.data
+    );
+    if (!definition) {
+      return NextResponse.json({ error: NOT_FOUND_MESSAGE }, { status: 404 });
+    }
+    return NextResponse.json({ definition });
+  } catch (error) {
+    console.error("[group-alerts] Failed to update definition", error);
+    return NextResponse.json(
+      {
+        error:
+          error instanceof Error
+            ? error.message
+            : "Não foi possível atualizar o relatório salvo.",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(_request: Request, context: RouteContext) {
+  const { id } = await context.params;
+  try {
+    const removed = await deleteGroupAlertReportDefinition(id);
+    if (!removed) {
+      return NextResponse.json({ error: NOT_FOUND_MESSAGE }, { status: 404 });
+    }
+    return NextResponse.json({ removed: true });
+  } catch (error) {
+    console.error("[group-alerts] Failed to delete definition", error);
+    return NextResponse.json(
+      {
+        error:
+          error instanceof Error
+            ? error.message
+            : "Não foi possível remover o relatório salvo.",
+      },
+      { status: 500 }
+    );
+  }
+}
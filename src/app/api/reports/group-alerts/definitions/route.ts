@@ -0,0 +1,59 @@
+import { NextResponse } from "next/server";
+import {
+  createGroupAlertReportDefinition,
+  groupAlertReportDefinitionSchema,
+  listGroupAlertReportDefinitions,
+} from "@/lib/group-alert-report-definitions";
+
+export const dynamic = "force-dynamic";
+
+export async function GET() {
+  try {
+    const definitions = await listGroupAlertReportDefinitions();
+    return NextResponse.json({ definitions });
+  } catch (error) {
+    console.error("[group-alerts] Failed to list definitions", error);
+    return NextResponse.json(
+      {
+        error:
+          error instanceof Error
+            ? error.message
+            : "Não foi possível carregar os relatórios salvos.",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: Request) {
+  const payload = await request.json().catch(() => null);
+  const parseResult = groupAlertReportDefinitionSchema.safeParse(payload ?? {});
+
+  if (!parseResult.success) {
+    return NextResponse.json(
+      {
+        error: "Parâmetros inválidos",
+        details: parseResult.error.flatten(),
+      },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const definition = await createGroupAlertReportDefinition(
+      parseResult.data
+    );
+    return NextResponse.json({ definition }, { status: 201 });
+  } catch (error) {
+    console.error("[group-alerts] Failed to save definition", error);
+    return NextResponse.json(
+      {
+        error:
+          error instanceof Error
+            ? error.message
+            : "Não foi possível salvar o relatório.",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,172 @@
+import { NextResponse } from "next/server";
+import {
+  buildGroupAlertReport,
+  findGroupAlertReportGroup,
+} from "@/lib/group-alert-report";
+import { authorizeGroupScope } from "@/lib/auth";
+import { resolveGroupAlertReportRequest } from "@/lib/group-alert-report-definitions";
+import { RequestError } from "@/lib/request-error";
+import {
+  buildGroupAlertRecordsSheet,
+  csvSafe,
+  slugifyFileName,
+} from "@/lib/table-export";
+import { buildXlsxWorkbook, XLSX_CONTENT_TYPE } from "@/lib/xlsx-export";
+import { z } from "zod";
+
+export const dynamic = "force-dynamic";
+
+const querySchema = z
+  .object({
+    definition: z.string().trim().min(1).optional(),
+    groupId: z.string().trim().min(1).optional(),
+    groupName: z.string().trim().min(1).optional(),
+    from: z
+      .string()
+      .regex(/^\d{4}-\d{2}-\d{2}$/, "Use AAAA-MM-DD")
+      .optional(),
+    to: z
+      .string()
+      .regex(/^\d{4}-\d{2}-\d{2}$/, "Use AAAA-MM-DD")
+      .optional(),
+    lastDays: z.coerce.number().int().min(1).max(366).optional(),
+    format: z.enum(["csv", "xlsx"]).optional(),
+  })
+  .refine((value) => value.definition || value.groupId || value.groupName, {
+    message: "Informe definition, groupId ou groupName.",
+  });
+
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const parseResult = querySchema.safeParse(
+    Object.fromEntries(searchParams.entries())
+  );
+
+  if (!parseResult.success) {
+    return NextResponse.json(
+      {
+        error: "Parâmetros inválidos",
+        details: parseResult.error.flatten(),
+      },
+      { status: 400 }
+    );
+  }
+
+  let report;
+  let range;
+  try {
+    const query = parseResult.data;
+    const resolved = await resolveGroupAlertReportRequest({
+      definitionId: query.definition,
+      groupId: query.groupId,
+      groupName: query.groupName,
+      from: query.from,
+      to: query.to,
+      lastDays: query.lastDays,
+    });
+    range = resolved.range;
+    // O grupo pode vir por nome ou definição: confere o id já resolvido
+    // antes de consultar os alertas no Zabbix.
+    const group = await findGroupAlertReportGroup(resolved);
+    const access = await authorizeGroupScope([group.groupid]);
+    if (!access.ok) {
+      return NextResponse.json(
+        { error: access.error },
+        { status: access.status }
+      );
+    }
+    report = await buildGroupAlertReport({
+      groupId: group.groupid,
+      start: range.start,
+      end: range.end,
+    });
+  } catch (error) {
+    if (error instanceof RequestError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      );
+    }
+    console.error("[group-alerts] Failed to build report", error);
+    return NextResponse.json(
+      {
+        error:
+          error instanceof Error
+            ? error.message
+            : "Não foi possível gerar o relatório do host group.",
+      },
+      { status: 500 }
+    );
+  }
+
+  if (parseResult.data.format === "xlsx") {
+    try {
+      const buffer = await buildXlsxWorkbook({
+        fileName: buildFileName(report.groupLabel, range.from, range.to),
+        title: `Alertas - ${report.groupLabel}`,
+        metadata: [
+          { label: "Host group", value: report.groupLabel },
+          { label: "Período", value: `${range.from} a ${range.to}` },
+        ],
+        sheets: [buildGroupAlertRecordsSheet(report.alerts)],
+      });
+      return new NextResponse(new Uint8Array(buffer), {
+        headers: {
+          "Content-Type": XLSX_CONTENT_TYPE,
+          "Content-Disposition": `attachment; filename="${buildFileName(
+            report.groupLabel,
+            range.from,
+            range.to
+          )}.xlsx"`,
+        },
+      });
+    } catch (error) {
+      console.error("[group-alerts] Failed to build workbook", error);
+      return NextResponse.json(
+        {
+          error:
+            error instanceof Error
+              ? error.message
+              : "Não foi possível gerar a planilha do relatório.",
+        },
+        { status: 500 }
+      );
+    }
+  }
+
+  const header =
+    "original_problem_id,alerta,severidade,hosts,abertura,fechamento,detecao_min,resposta_min,resolucao_min,primeiro_ack,marco_resposta,ticket_itsm";
+  const rows = report.alerts.map((alert) => {
+    const hosts = alert.hosts.map((host) => host.name).join(" | ");
+    const cells = [
+      alert.eventId,
+      csvSafe(alert.name),
+      alert.severityLabel,
+      csvSafe(hosts),
+      alert.openedAt,
+      alert.closedAt ?? "",
+      alert.detectionMinutes ?? "",
+      alert.responseMinutes ?? "",
+      alert.resolutionMinutes,
+      alert.firstAckAt ?? "",
+      alert.respondedAt ?? "",
+      alert.ticketOpened ? "SIM" : "NAO",
+    ];
+    return cells.join(",");
+  });
+
+  const csv = [header, ...rows].join("\n");
+  const headers = new Headers({
+    "Content-Type": "text/csv; charset=utf-8",
+    "Content-Disposition": `attachment; filename="${buildFileName(
+      report.groupLabel,
+      range.from,
+      range.to
+    )}.csv"`,
+  });
+  return new NextResponse(csv, { headers });
+}
+
+function buildFileName(groupLabel: string, from: string, to: string) {
+  return `${slugifyFileName(groupLabel, "host-group")}-alerts-${from}_${to}`;
+}
@@ -2,7 +2,10 @@ import { NextResponse } from "next/server";
 import { formatInTimeZone } from "date-fns-tz";
 import { ptBR } from "date-fns/locale";
 import { buildReachabilityReport } from "@/lib/reachability-report";
+import { readPeriodQuery, resolvePeriod } from "@/lib/periods";
 import { formatDurationMinutes } from "@/lib/time-format";
+import { buildReachabilityAlertsSheet, csvSafe } from "@/lib/table-export";
+import { buildXlsxWorkbook, XLSX_CONTENT_TYPE } from "@/lib/xlsx-export";
 
 const DEFAULT_TIMEZONE =
   process.env.DASHBOARD_TIMEZONE ?? "America/Sao_Paulo";
@@ -26,6 +29,18 @@ export async function GET(request: Request) {
   }
 
   const month = searchParams.get("month") ?? new Date().toISOString().slice(0, 7);
+  const period = {
+    ...readPeriodQuery((key) => searchParams.get(key)),
+    month,
+  };
+  try {
+    resolvePeriod(period);
+  } catch (error) {
+    return new NextResponse(
+      error instanceof Error ? error.message : "Periodo invalido.",
+      { status: 400 }
+    );
+  }
   const windowParam = searchParams.get("window");
   const window = windowParam === "overall" ? "overall" : "business";
 
@@ -33,12 +48,35 @@ export async function GET(request: Request) {
     groupId: isAllScope ? undefined : groupId ?? undefined,
     groupIds,
     scope: isAllScope ? "all" : "group",
-    month,
+    period,
     window,
     page: 1,
     pageSize: Number.MAX_SAFE_INTEGER,
   });
 
+  const filenameScope = isAllScope ? "all" : groupId ?? "group";
+  const periodKey = report.range.key.replace(/[^\w-]+/g, "");
+  const fileName = `reachability-alerts-${filenameScope}-${periodKey}-${window}`;
+
+  if (searchParams.get("format") === "xlsx") {
+    const buffer = await buildXlsxWorkbook({
+      fileName,
+      title: `Disponibilidade host - ${report.groupLabel}`,
+      metadata: [
+        { label: "Escopo", value: report.groupLabel },
+        { label: "Período", value: report.monthLabel },
+        { label: "Janela", value: report.windowLabel },
+      ],
+      sheets: [buildReachabilityAlertsSheet(report.alerts, isAllScope)],
+    });
+    return new NextResponse(new Uint8Array(buffer), {
+      headers: {
+        "Content-Type": XLSX_CONTENT_TYPE,
+        "Content-Disposition": `attachment; filename="${fileName}.xlsx"`,
+      },
+    });
+  }
+
   const header = isAllScope
     ? "host_group,event_id,alerta,severidade,tipo,item_keys,hosts,abertura,dia_semana_abertura,janela_abertura,fechamento,downtime_janela,downtime_total,status"
     : "event_id,alerta,severidade,tipo,item_keys,hosts,abertura,dia_semana_abertura,janela_abertura,fechamento,downtime_janela,downtime_total,status";
@@ -68,23 +106,13 @@ export async function GET(request: Request) {
   });
 
   const csv = `\uFEFF${[header, ...rows].join("\n")}`;
-  const filenameScope = isAllScope ? "all" : groupId ?? "group";
   const headers = new Headers({
     "Content-Type": "text/csv; charset=utf-8",
-    "Content-Disposition": `attachment; filename="reachability-alerts-${filenameScope}-${month}-${window}.csv"`,
+    "Content-Disposition": `attachment; filename="${fileName}.csv"`,
   });
   return new NextResponse(csv, { headers });
 }
 
-function csvSafe(value: string): string {
-  if (!value) return "";
-  const normalized = value.replace(/"/g, '""');
-  if (normalized.includes(",") || normalized.includes('"')) {
-    return `"${normalized}"`;
-  }
-  return normalized;
-}
-
 function formatExportDate(value: string | null): string {
   if (!value) return "";
   try {
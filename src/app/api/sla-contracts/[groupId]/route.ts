@@ -0,0 +1,104 @@
+import { NextResponse } from "next/server";
+import {
+  deleteSlaContract,
+  getSlaContract,
+  saveSlaContract,
+} from "@/lib/sla-contracts";
+import { z } from "zod";
+
+export const dynamic = "force-dynamic";
+
+type RouteContext = {
+  params: Promise<{ groupId: string }>;
+};
+
+const percentTarget = z.number().min(0).max(100).nullable().optional();
+const minutesTarget = z.number().min(0).nullable().optional();
+
+const bodySchema = z.object({
+  name: z.string().trim().min(1).nullable().optional(),
+  targets: z.object({
+    availabilityPct: percentTarget,
+    businessAvailabilityPct: percentTarget,
+    reachabilityPct: percentTarget,
+    detectionMinutes: minutesTarget,
+    responseMinutes: minutesTarget,
+    resolutionMinutes: minutesTarget,
+  }),
+});
+
+export async function GET(_request: Request, context: RouteContext) {
+  const { groupId } = await context.params;
+  try {
+    const contract = await getSlaContract(groupId);
+    return NextResponse.json({ contract });
+  } catch (error) {
+    console.error("[sla-contracts] Failed to load contract", error);
+    return NextResponse.json(
+      {
+        error:
+          error instanceof Error
+            ? error.message
+            : "Não foi possível carregar o contrato de SLA.",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PUT(request: Request, context: RouteContext) {
+  const { groupId } = await context.params;
+  const payload = await request.json().catch(() => null);
+  const parseResult = bodySchema.safeParse(payload ?? {});
+
+  if (!parseResult.success) {
+    return NextResponse.json(
+      {
+        error: "Parâmetros inválidos",
+        details: parseResult.error.flatten(),
+      },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const contract = await saveSlaContract(groupId, parseResult.data);
+    return NextResponse.json({ contract });
+  } catch (error) {
+    console.error("[sla-contracts] Failed to save contract", error);
+    return NextResponse.json(
+      {
+        error:
+          error instanceof Error
+            ? error.message
+            : "Não foi possível salvar o contrato de SLA.",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(_request: Request, context: RouteContext) {
+  const { groupId } = await context.params;
+  try {
+    const removed = await deleteSlaContract(groupId);
+    if (!removed) {
+      return NextResponse.json(
+        { error: "Contrato de SLA não encontrado." },
+        { status: 404 }
+      );
+    }
+    return NextResponse.json({ contract: await getSlaContract(groupId) });
+  } catch (error) {
+    console.error("[sla-contracts] Failed to delete contract", error);
+    return NextResponse.json(
+      {
+        error:
+          error instanceof Error
+            ? error.message
+            : "Não foi possível remover o contrato de SLA.",
+      },
+      { status: 500 }
+    );
+  }
+}
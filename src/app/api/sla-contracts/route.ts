@@ -0,0 +1,22 @@
+import { NextResponse } from "next/server";
+import { getDefaultSlaTargets, listSlaContracts } from "@/lib/sla-contracts";
+
+export const dynamic = "force-dynamic";
+
+export async function GET() {
+  try {
+    const contracts = await listSlaContracts();
+    return NextResponse.json({ defaults: getDefaultSlaTargets(), contracts });
+  } catch (error) {
+    console.error("[sla-contracts] Failed to list contracts", error);
+    return NextResponse.json(
+      {
+        error:
+          error instanceof Error
+            ? error.message
+            : "Não foi possível carregar os contratos de SLA.",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,62 @@
+import { NextResponse } from "next/server";
+import { isClosedMonth, recomputeSnapshot } from "@/lib/metrics-snapshots";
+import { z } from "zod";
+
+export const dynamic = "force-dynamic";
+
+const bodySchema = z.object({
+  kind: z.enum(["metrics", "group-metrics"]).default("group-metrics"),
+  month: z.string().regex(/^\d{4}-\d{2}$/),
+  groupId: z.string().optional(),
+  groupIds: z.union([z.string(), z.array(z.string())]).optional(),
+});
+
+export async function POST(request: Request) {
+  const payload = await request.json().catch(() => null);
+  const parseResult = bodySchema.safeParse(payload ?? {});
+
+  if (!parseResult.success) {
+    return NextResponse.json(
+      {
+        error: "Parâmetros inválidos",
+        details: parseResult.error.flatten(),
+      },
+      { status: 400 }
+    );
+  }
+
+  const { kind, month, groupId, groupIds } = parseResult.data;
+  if (!isClosedMonth(month)) {
+    return NextResponse.json(
+      { error: "Somente meses encerrados podem ser recalculados." },
+      { status: 409 }
+    );
+  }
+
+  const parsedGroupIds = (Array.isArray(groupIds)
+    ? groupIds
+    : (groupIds ?? "").split(",")
+  )
+    .map((value) => value.trim())
+    .filter(Boolean);
+
+  try {
+    const snapshot = await recomputeSnapshot(kind, {
+      month,
+      groupId: groupId || undefined,
+      groupIds: parsedGroupIds.length ? parsedGroupIds : undefined,
+    });
+    return NextResponse.json({ snapshot });
+  } catch (error) {
+    console.error("[snapshots] Failed to recompute snapshot", error);
+    return NextResponse.json(
+      {
+        error:
+          error instanceof Error
+            ? error.message
+            : "Não foi possível recalcular o snapshot.",
+      },
+      { status: 500 }
+    );
+  }
+}
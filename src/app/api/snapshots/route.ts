@@ -0,0 +1,22 @@
+import { NextResponse } from "next/server";
+import { listSnapshots } from "@/lib/metrics-snapshots";
+
+export const dynamic = "force-dynamic";
+
+export async function GET() {
+  try {
+    const snapshots = await listSnapshots();
+    return NextResponse.json({ snapshots });
+  } catch (error) {
+    console.error("[snapshots] Failed to list snapshots", error);
+    return NextResponse.json(
+      {
+        error:
+          error instanceof Error
+            ? error.message
+            : "Não foi possível listar os snapshots.",
+      },
+      { status: 500 }
+    );
+  }
+}
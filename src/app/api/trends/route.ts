@@ -0,0 +1,75 @@
+import { NextResponse } from "next/server";
+import { buildTrends } from "@/lib/trends";
+import { authorizeGroupScope } from "@/lib/auth";
+import { RequestError } from "@/lib/request-error";
+import { z } from "zod";
+
+export const dynamic = "force-dynamic";
+
+const querySchema = z
+  .object({
+    from: z.string().regex(/^\d{4}-\d{2}$/),
+    to: z.string().regex(/^\d{4}-\d{2}$/),
+    groupIds: z.string().optional(),
+  })
+  .refine((value) => value.from <= value.to, {
+    message: "O mês inicial deve ser anterior ao mês final.",
+    path: ["from"],
+  });
+
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const parseResult = querySchema.safeParse({
+    from: searchParams.get("from") ?? undefined,
+    to: searchParams.get("to") ?? undefined,
+    groupIds: searchParams.get("groupIds") ?? undefined,
+  });
+
+  if (!parseResult.success) {
+    return NextResponse.json(
+      {
+        error: "Parâmetros inválidos",
+        details: parseResult.error.flatten(),
+      },
+      { status: 400 }
+    );
+  }
+
+  const { from, to, groupIds } = parseResult.data;
+  const parsedGroupIds = groupIds
+    ? groupIds
+        .split(",")
+        .map((value) => value.trim())
+        .filter(Boolean)
+    : undefined;
+
+  const access = await authorizeGroupScope(parsedGroupIds);
+  if (!access.ok) {
+    return NextResponse.json(
+      { error: access.error },
+      { status: access.status }
+    );
+  }
+
+  try {
+    const trends = await buildTrends({ from, to, groupIds: access.groupIds });
+    return NextResponse.json(trends);
+  } catch (error) {
+    if (error instanceof RequestError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      );
+    }
+    console.error("[trends] Failed to build trends", error);
+    return NextResponse.json(
+      {
+        error:
+          error instanceof Error
+            ? error.message
+            : "Não foi possível carregar as tendências.",
+      },
+      { status: 500 }
+    );
+  }
+}
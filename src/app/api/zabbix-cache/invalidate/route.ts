@@ -0,0 +1,31 @@
+import { NextResponse } from "next/server";
+import { getZabbixCacheStats, invalidateZabbixCache } from "@/lib/zabbix";
+import { z } from "zod";
+
+export const dynamic = "force-dynamic";
+
+const bodySchema = z.object({
+  method: z
+    .string()
+    .trim()
+    .regex(/^[a-z]+\.get$/i, "Informe um método de leitura (ex.: host.get)")
+    .optional(),
+});
+
+export async function POST(request: Request) {
+  const payload = await request.json().catch(() => null);
+  const parseResult = bodySchema.safeParse(payload ?? {});
+
+  if (!parseResult.success) {
+    return NextResponse.json(
+      {
+        error: "Parâmetros inválidos",
+        details: parseResult.error.flatten(),
+      },
+      { status: 400 }
+    );
+  }
+
+  const removed = invalidateZabbixCache(parseResult.data.method);
+  return NextResponse.json({ removed, stats: getZabbixCacheStats() });
+}
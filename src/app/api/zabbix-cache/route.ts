@@ -0,0 +1,8 @@
+import { NextResponse } from "next/server";
+import { getZabbixCacheStats } from "@/lib/zabbix";
+
+export const dynamic = "force-dynamic";
+
+export async function GET() {
+  return NextResponse.json(getZabbixCacheStats());
+}
@@ -0,0 +1,380 @@
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import { formatInTimeZone } from "date-fns-tz";
+import { buildHostDetail } from "@/lib/host-detail";
+import { getGroupRestriction } from "@/lib/auth";
+import { HostTimeline } from "@/components/host-timeline";
+import { AlertVerdictControl } from "@/components/alert-verdict-control";
+import { HostAlertAcknowledge, HostDetailResponse } from "@/types/dashboard";
+
+export const dynamic = "force-dynamic";
+
+const DEFAULT_TIMEZONE = process.env.DASHBOARD_TIMEZONE ?? "America/Sao_Paulo";
+
+const ACTION_LABELS: Record<HostAlertAcknowledge["actions"][number], string> = {
+  acknowledge: "ACK",
+  message: "Mensagem",
+  severity: "Severidade",
+  close: "Fechamento",
+  unacknowledge: "Remoção de ACK",
+};
+
+type PageProps = {
+  params: Promise<{ hostid: string }>;
+  searchParams: Promise<{ month?: string; groupId?: string }>;
+};
+
+export default async function HostDetailPage({
+  params,
+  searchParams,
+}: PageProps) {
+  const { hostid } = await params;
+  const query = await searchParams;
+  const month =
+    query.month && /^\d{4}-\d{2}$/.test(query.month)
+      ? query.month
+      : formatInTimeZone(new Date(), DEFAULT_TIMEZONE, "yyyy-MM");
+  const groupId = query.groupId || undefined;
+
+  if (!/^\d+$/.test(hostid)) {
+    notFound();
+  }
+
+  let detail: HostDetailResponse | null = null;
+  let error: string | null = null;
+  try {
+    detail = await buildHostDetail({ hostid, month, groupId });
+  } catch (loadError) {
+    console.error("[hosts] Failed to build host detail", loadError);
+    error =
+      loadError instanceof Error
+        ? loadError.message
+        : "Não foi possível carregar o detalhe do host.";
+  }
+  if (!detail && !error) {
+    notFound();
+  }
+  const allowed = await getGroupRestriction();
+  if (
+    detail &&
+    allowed &&
+    !detail.host.groups.some((group) => allowed.includes(group.groupid))
+  ) {
+    notFound();
+  }
+
+  const buildHref = (target: string) =>
+    `/hosts/${hostid}?month=${target}${groupId ? `&groupId=${groupId}` : ""}`;
+  const formatDate = (value: string | null) =>
+    value
+      ? formatInTimeZone(new Date(value), DEFAULT_TIMEZONE, "dd/MM HH:mm")
+      : "—";
+
+  return (
+    <main className="min-h-screen bg-slate-100 py-10">
+      <div className="mx-auto w-full max-w-6xl space-y-8 px-4 sm:px-6 lg:px-10">
+        <header className="flex flex-wrap items-start justify-between gap-6 rounded-3xl bg-white p-6 shadow-sm ring-1 ring-slate-200">
+          <div>
+            <p className="text-xs font-semibold uppercase tracking-[0.4em] text-slate-500">
+              Host · {detail?.meta.period.label ?? month}
+            </p>
+            <h1 className="mt-2 text-3xl font-semibold text-slate-900">
+              {detail?.host.name ?? `Host ${hostid}`}
+            </h1>
+            {detail && (
+              <p className="mt-1 text-sm text-slate-500">
+                Calendário comercial: {detail.meta.calendar.label}
+              </p>
+            )}
+          </div>
+          <div className="flex flex-wrap gap-3">
+            <Link
+              href={buildHref(shiftMonth(month, -1))}
+              className="rounded-2xl border border-slate-200 px-4 py-3 text-sm font-semibold text-slate-600 transition hover:border-slate-300 hover:text-slate-900"
+            >
+              ← Mês anterior
+            </Link>
+            <Link
+              href={buildHref(shiftMonth(month, 1))}
+              className="rounded-2xl border border-slate-200 px-4 py-3 text-sm font-semibold text-slate-600 transition hover:border-slate-300 hover:text-slate-900"
+            >
+              Próximo mês →
+            </Link>
+            <Link
+              href="/"
+              className="rounded-2xl border border-slate-200 px-6 py-3 text-sm font-semibold text-slate-600 transition hover:border-slate-300 hover:text-slate-900"
+            >
+              Voltar para o dashboard
+            </Link>
+            <a
+              href={`/api/hosts/${hostid}?month=${month}${
+                groupId ? `&groupId=${groupId}` : ""
+              }`}
+              className="rounded-2xl bg-slate-900 px-6 py-3 text-sm font-semibold text-white transition hover:bg-slate-800"
+              target="_blank"
+              rel="noreferrer"
+            >
+              Baixar JSON
+            </a>
+          </div>
+        </header>
+
+        {error && (
+          <div className="rounded-2xl border border-rose-200 bg-rose-50 p-4 text-sm text-rose-600">
+            {error}
+          </div>
+        )}
+
+        {detail && (
+          <>
+            <section className="grid gap-4 md:grid-cols-5">
+              {[
+                {
+                  label: "Disponibilidade",
+                  value: `${detail.downtime.availabilityPct.toFixed(2)}%`,
+                },
+                {
+                  label: "Disponibilidade comercial",
+                  value: `${detail.downtime.businessAvailabilityPct.toFixed(2)}%`,
+                },
+                {
+                  label: "Indisponível (total)",
+                  value: formatMinutes(detail.downtime.totalMinutes),
+                },
+                {
+                  label: "Horário comercial",
+                  value: formatMinutes(detail.downtime.businessMinutes),
+                },
+                {
+                  label: "Fora do horário",
+                  value: formatMinutes(detail.downtime.offMinutes),
+                },
+              ].map((card) => (
+                <div
+                  key={card.label}
+                  className="rounded-3xl bg-white p-5 shadow-sm ring-1 ring-slate-200"
+                >
+                  <p className="text-xs font-semibold uppercase tracking-widest text-slate-400">
+                    {card.label}
+                  </p>
+                  <p className="mt-2 text-2xl font-semibold text-slate-900">
+                    {card.value}
+                  </p>
+                </div>
+              ))}
+            </section>
+
+            <section className="grid gap-4 rounded-3xl bg-white p-6 text-sm text-slate-600 shadow-sm ring-1 ring-slate-200 md:grid-cols-2">
+              <div className="space-y-2">
+                <p>
+                  <span className="font-semibold text-slate-900">Status:</span>{" "}
+                  {detail.host.active ? "Monitorado" : "Desabilitado"}
+                </p>
+                <p>
+                  <span className="font-semibold text-slate-900">Proxy:</span>{" "}
+                  {detail.host.proxy ?? "Servidor Zabbix (sem proxy)"}
+                </p>
+                <p>
+                  <span className="font-semibold text-slate-900">Grupos:</span>{" "}
+                  {detail.host.groups.map((group) => group.name).join(", ") ||
+                    "—"}
+                </p>
+                <p>
+                  <span className="font-semibold text-slate-900">
+                    Templates:
+                  </span>{" "}
+                  {detail.host.templates.join(", ") || "—"}
+                </p>
+                <p>
+                  <span className="font-semibold text-slate-900">
+                    Inventário:
+                  </span>{" "}
+                  {[
+                    detail.host.inventory.type,
+                    detail.host.inventory.os,
+                    detail.host.inventory.hardware,
+                  ]
+                    .filter(Boolean)
+                    .join(" · ") || "—"}
+                </p>
+              </div>
+              <div>
+                <p className="pb-2 font-semibold text-slate-900">Interfaces</p>
+                {detail.host.interfaces.length ? (
+                  <ul className="space-y-1">
+                    {detail.host.interfaces.map((entry, index) => (
+                      <li key={`${entry.type}-${entry.ip}-${index}`}>
+                        <span className="font-semibold">{entry.type}</span>{" "}
+                        {entry.ip || entry.dns}
+                        {entry.port ? `:${entry.port}` : ""}
+                        {entry.main ? " (principal)" : ""}
+                      </li>
+                    ))}
+                  </ul>
+                ) : (
+                  <p>—</p>
+                )}
+              </div>
+            </section>
+
+            <section className="rounded-3xl bg-white p-6 shadow-sm ring-1 ring-slate-200">
+              <h2 className="pb-1 text-lg font-semibold text-slate-900">
+                Linha do tempo de indisponibilidade
+              </h2>
+              <p className="pb-4 text-sm text-slate-500">
+                Intervalos consolidados dos alertas do host (sem sobreposição),
+                como no cálculo de disponibilidade.
+              </p>
+              <HostTimeline
+                timeline={detail.timeline}
+                maintenance={detail.maintenance}
+                periodStart={detail.meta.period.start}
+                periodEnd={detail.meta.period.end}
+                timezone={DEFAULT_TIMEZONE}
+              />
+              {detail.intervals.length > 0 && (
+                <div className="mt-6 overflow-x-auto rounded-2xl border border-slate-100">
+                  <table className="min-w-full divide-y divide-slate-100 text-sm text-slate-600">
+                    <thead className="bg-slate-50 text-xs font-semibold uppercase tracking-wide text-slate-500">
+                      <tr>
+                        <th className="px-4 py-3 text-left">Início</th>
+                        <th className="px-4 py-3 text-left">Fim</th>
+                        <th className="px-4 py-3 text-right">Total</th>
+                        <th className="px-4 py-3 text-right">Comercial</th>
+                        <th className="px-4 py-3 text-right">Fora</th>
+                        <th className="px-4 py-3 text-right">Manutenção</th>
+                        <th className="px-4 py-3 text-right">Alertas</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-slate-50 bg-white">
+                      {detail.intervals.map((interval) => (
+                        <tr key={interval.start}>
+                          <td className="px-4 py-2">
+                            {formatDate(interval.start)}
+                          </td>
+                          <td className="px-4 py-2">
+                            {formatDate(interval.end)}
+                          </td>
+                          <td className="px-4 py-2 text-right font-semibold text-slate-900">
+                            {formatMinutes(interval.totalMinutes)}
+                          </td>
+                          <td className="px-4 py-2 text-right">
+                            {formatMinutes(interval.businessMinutes)}
+                          </td>
+                          <td className="px-4 py-2 text-right">
+                            {formatMinutes(interval.offMinutes)}
+                          </td>
+                          <td className="px-4 py-2 text-right">
+                            {interval.maintenanceMinutes
+                              ? formatMinutes(interval.maintenanceMinutes)
+                              : "—"}
+                          </td>
+                          <td className="px-4 py-2 text-right">
+                            {interval.eventIds.length}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </section>
+
+            <section className="rounded-3xl bg-white p-6 shadow-sm ring-1 ring-slate-200">
+              <h2 className="pb-4 text-lg font-semibold text-slate-900">
+                Alertas no período ({detail.alerts.length})
+              </h2>
+              {detail.alerts.length === 0 ? (
+                <p className="text-sm text-slate-500">
+                  Nenhum alerta para este host no período.
+                </p>
+              ) : (
+                <div className="space-y-3">
+                  {detail.alerts.map((alert) => (
+                    <details
+                      key={alert.eventId}
+                      className="rounded-2xl border border-slate-100 bg-slate-50/60 p-4"
+                    >
+                      <summary className="flex cursor-pointer flex-wrap items-center justify-between gap-2">
+                        <span className="font-semibold text-slate-900">
+                          {alert.name}
+                        </span>
+                        <span className="text-xs text-slate-500">
+                          #{alert.eventId} · Severidade {alert.severity} ·{" "}
+                          {formatDate(alert.openedAt)} →{" "}
+                          {alert.isOpen
+                            ? "em aberto"
+                            : formatDate(alert.closedAt)}{" "}
+                          · {formatMinutes(alert.durationMinutes)}
+                        </span>
+                      </summary>
+                      <div className="mt-3 space-y-3 text-sm text-slate-600">
+                        <p>
+                          Detecção:{" "}
+                          {formatOptionalMinutes(alert.detectionMinutes)} ·
+                          Resposta:{" "}
+                          {formatOptionalMinutes(alert.responseMinutes)} ·
+                          Resolução:{" "}
+                          {formatOptionalMinutes(alert.resolutionMinutes)}
+                        </p>
+                        <AlertVerdictControl
+                          eventId={alert.eventId}
+                          verdict={alert.verdict}
+                        />
+                        {alert.acknowledges.length ? (
+                          <ol className="space-y-1 border-l-2 border-slate-200 pl-4">
+                            {alert.acknowledges.map((ack, index) => (
+                              <li key={`${ack.at}-${index}`}>
+                                <span className="font-semibold text-slate-800">
+                                  {formatDate(ack.at)}
+                                </span>{" "}
+                                ·{" "}
+                                {ack.user ??
+                                  (ack.userid
+                                    ? `usuário ${ack.userid}`
+                                    : "—")}{" "}
+                                ·{" "}
+                                {ack.actions
+                                  .map((action) => ACTION_LABELS[action])
+                                  .join(", ")}
+                                {ack.message ? ` — ${ack.message}` : ""}
+                              </li>
+                            ))}
+                          </ol>
+                        ) : (
+                          <p className="text-slate-400">
+                            Sem histórico de ACK.
+                          </p>
+                        )}
+                      </div>
+                    </details>
+                  ))}
+                </div>
+              )}
+            </section>
+          </>
+        )}
+      </div>
+    </main>
+  );
+}
+
+function shiftMonth(month: string, delta: number) {
+  const [year, monthIndex] = month.split("-").map(Number);
+  return new Date(Date.UTC(year, monthIndex - 1 + delta, 1))
+    .toISOString()
+    .slice(0, 7);
+}
+
+function formatMinutes(value: number) {
+  if (value >= 60) {
+    const hours = Math.floor(value / 60);
+    const minutes = Math.round(value % 60);
+    return minutes ? `${hours}h ${minutes}min` : `${hours}h`;
+  }
+  return `${Math.round(value)} min`;
+}
+
+function formatOptionalMinutes(value: number | null) {
+  return value === null ? "—" : formatMinutes(value);
+}
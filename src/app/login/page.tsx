@@ -0,0 +1,57 @@
+import { redirect } from "next/navigation";
+import { LoginForm } from "@/components/login-form";
+import { getSession } from "@/lib/auth";
+import { isAuthEnabled, safeNextPath } from "@/lib/auth-session";
+import { getOidcProviderName, isOidcEnabled } from "@/lib/auth-oidc";
+
+export const dynamic = "force-dynamic";
+
+type SearchParams = Record<string, string | string[] | undefined>;
+
+export default async function LoginPage({
+  searchParams,
+}: {
+  searchParams?: SearchParams | Promise<SearchParams>;
+}) {
+  const resolvedParams = await Promise.resolve(searchParams);
+  const next = safeNextPath(getFirst(resolvedParams?.next));
+  const error = getFirst(resolvedParams?.error);
+
+  if (!isAuthEnabled() || (await getSession())) {
+    redirect(next);
+  }
+
+  return (
+    <main className="flex min-h-screen items-center justify-center bg-slate-100 px-4 py-10">
+      <div className="w-full max-w-md space-y-6 rounded-3xl bg-white p-8 shadow-sm ring-1 ring-slate-200">
+        <div>
+          <p className="text-xs font-semibold uppercase tracking-[0.45em] text-slate-500">
+            Operação Contego
+          </p>
+          <h1 className="mt-2 text-2xl font-semibold text-slate-900">
+            Entrar no dashboard
+          </h1>
+        </div>
+        {error && (
+          <p className="rounded-2xl border border-rose-200 bg-rose-50 px-4 py-3 text-sm text-rose-700">
+            {error}
+          </p>
+        )}
+        <LoginForm next={next} />
+        {isOidcEnabled() && (
+          <a
+            href={`/api/auth/oidc/login?next=${encodeURIComponent(next)}`}
+            className="inline-flex w-full items-center justify-center rounded-2xl border border-slate-200 px-6 py-3 text-sm font-semibold text-slate-700 transition hover:border-slate-300 hover:text-slate-900"
+          >
+            Entrar com {getOidcProviderName()}
+          </a>
+        )}
+      </div>
+    </main>
+  );
+}
+
+function getFirst(value: string | string[] | undefined): string | undefined {
+  if (Array.isArray(value)) return value[0];
+  return value;
+}
@@ -1,9 +1,13 @@
 import Link from "next/link";
 import { GlobalOverview } from "@/components/global-overview";
+import { SessionMenu } from "@/components/session-menu";
+import { getSession } from "@/lib/auth";
 
 export const dynamic = "force-dynamic";
 
-export default function Home() {
+export default async function Home() {
+  const session = await getSession();
+
   return (
     <main className="min-h-screen bg-slate-100 py-10">
       <div className="mx-auto w-full space-y-6 px-4 sm:px-6 lg:px-10 xl:px-16">
@@ -16,14 +20,19 @@ export default function Home() {
               Painel principal
             </h1>
           </div>
-          <Link
-            href="/zabbix-dashboard"
-            className="rounded-2xl bg-slate-900 px-5 py-3 text-sm font-semibold text-white shadow transition hover:bg-slate-700"
-          >
-            Abrir dashboard do Zabbix
-          </Link>
+          <div className="flex flex-wrap items-center gap-3">
+            {session?.role !== "client" && (
+              <Link
+                href="/zabbix-dashboard"
+                className="rounded-2xl bg-slate-900 px-5 py-3 text-sm font-semibold text-white shadow transition hover:bg-slate-700"
+              >
+                Abrir dashboard do Zabbix
+              </Link>
+            )}
+            {session && <SessionMenu name={session.name} role={session.role} />}
+          </div>
         </header>
-        <GlobalOverview />
+        <GlobalOverview restricted={session?.role === "client"} />
       </div>
     </main>
   );
@@ -0,0 +1,360 @@
+import { ReactNode } from "react";
+import Link from "next/link";
+import { subMonths } from "date-fns";
+import { formatInTimeZone } from "date-fns-tz";
+import { ptBR } from "date-fns/locale";
+import { Activity, Bolt, Clock3, Search } from "lucide-react";
+import { buildPortalView, verifyPortalToken } from "@/lib/portal";
+import { formatDurationMinutes, formatMinutes } from "@/lib/time-format";
+import { MetricCard } from "@/components/dashboard/metric-card";
+import { AvailabilityCard } from "@/components/dashboard/availability-card";
+import { SeverityTable } from "@/components/severity-table";
+import { PortalView } from "@/types/dashboard";
+
+export const dynamic = "force-dynamic";
+
+const DEFAULT_TIMEZONE = process.env.DASHBOARD_TIMEZONE ?? "America/Sao_Paulo";
+const MONTH_OPTIONS_COUNT = 12;
+
+type PageProps = {
+  params: Promise<{ token: string }>;
+  searchParams: Promise<{ month?: string }>;
+};
+
+export default async function PortalPage({ params, searchParams }: PageProps) {
+  const { token } = await params;
+  const query = await searchParams;
+  const monthOptions = buildMonthOptions();
+  const currentMonth = monthOptions[0].value;
+  const month =
+    query.month &&
+    /^\d{4}-\d{2}$/.test(query.month) &&
+    query.month <= currentMonth
+      ? query.month
+      : currentMonth;
+
+  const access = verifyPortalToken(token);
+  if (!access) {
+    return (
+      <PortalShell>
+        <div className="rounded-3xl border border-slate-200 bg-white p-10 text-center shadow-sm">
+          <h1 className="text-2xl font-semibold text-slate-900">
+            Link inválido ou expirado
+          </h1>
+          <p className="mt-2 text-sm text-slate-500">
+            Solicite um novo link de acesso à equipe do NOC Contego.
+          </p>
+        </div>
+      </PortalShell>
+    );
+  }
+
+  let view: PortalView | null = null;
+  try {
+    view = await buildPortalView({
+      groupId: access.groupId,
+      month,
+      expiresAt: access.exp,
+    });
+  } catch (error) {
+    console.error("[portal] Failed to build portal view", error);
+  }
+
+  if (!view) {
+    return (
+      <PortalShell>
+        <div className="rounded-3xl border border-rose-200 bg-rose-50 p-6 text-sm font-medium text-rose-700">
+          Não foi possível carregar os indicadores agora. Tente novamente em
+          alguns minutos.
+        </div>
+      </PortalShell>
+    );
+  }
+
+  const targets = view.sla?.targets;
+  const kpis = [
+    {
+      id: "detection",
+      title: "Tempo médio de detecção",
+      value: view.kpis.detectionMinutes,
+      unit: "min",
+      target: targets?.detectionMinutes ?? undefined,
+      betterWhen: "lower" as const,
+      icon: <Search className="h-5 w-5" />,
+      accent: "from-sky-500 to-blue-600",
+    },
+    {
+      id: "response",
+      title: "Tempo médio de resposta",
+      value: view.kpis.responseMinutes,
+      unit: "min",
+      target: targets?.responseMinutes ?? undefined,
+      betterWhen: "lower" as const,
+      icon: <Bolt className="h-5 w-5" />,
+      accent: "from-indigo-500 to-blue-700",
+    },
+    {
+      id: "resolution",
+      title: "Tempo médio de resolução",
+      value: view.kpis.resolutionMinutes,
+      unit: "min",
+      target: targets?.resolutionMinutes ?? undefined,
+      betterWhen: "lower" as const,
+      icon: <Clock3 className="h-5 w-5" />,
+      accent: "from-purple-500 to-fuchsia-600",
+    },
+    {
+      id: "availability",
+      title: "Disponibilidade geral",
+      value: view.kpis.availabilityPct,
+      unit: "%",
+      target: targets?.availabilityPct ?? undefined,
+      betterWhen: "higher" as const,
+      icon: <Activity className="h-5 w-5" />,
+      accent: "from-emerald-500 to-teal-600",
+    },
+  ];
+  const formatDate = (value: string, pattern = "dd/MM/yyyy HH:mm") =>
+    formatInTimeZone(new Date(value), DEFAULT_TIMEZONE, pattern);
+
+  return (
+    <PortalShell>
+      <section className="rounded-3xl bg-gradient-to-br from-slate-900 via-slate-800 to-blue-900 p-8 text-white shadow-xl">
+        <p className="text-sm uppercase tracking-[0.2em] text-sky-300">
+          Contego Security · NOC & MSS
+        </p>
+        <h1 className="mt-3 text-3xl font-semibold">{view.group.name}</h1>
+        <p className="mt-2 text-base text-slate-200">
+          Indicadores do monitoramento e segurança proporcionados pela Contego.
+        </p>
+        <div className="mt-6 flex flex-wrap items-center gap-4 text-sm text-slate-200">
+          <span className="rounded-2xl bg-white/10 px-4 py-2">
+            Período: <strong className="text-white">{view.period}</strong>
+          </span>
+          <span className="rounded-2xl bg-white/10 px-4 py-2">
+            Atualizado em:{" "}
+            <strong className="text-white">
+              {formatDate(view.generatedAt)}
+            </strong>
+          </span>
+          <span className="rounded-2xl bg-white/10 px-4 py-2">
+            Link válido até:{" "}
+            <strong className="text-white">
+              {formatDate(view.expiresAt, "dd/MM/yyyy")}
+            </strong>
+          </span>
+          <form method="get" className="flex items-center gap-2">
+            <select
+              name="month"
+              defaultValue={view.month}
+              className="rounded-2xl border border-white/20 bg-white/10 px-4 py-2 text-white"
+            >
+              {monthOptions.map((option) => (
+                <option
+                  key={option.value}
+                  value={option.value}
+                  className="text-slate-900"
+                >
+                  {option.label}
+                </option>
+              ))}
+            </select>
+            <button
+              type="submit"
+              className="rounded-2xl bg-white px-4 py-2 font-semibold text-slate-900 transition hover:bg-slate-200"
+            >
+              Ver mês
+            </button>
+          </form>
+        </div>
+      </section>
+
+      {view.sla && (
+        <div
+          className={`rounded-3xl border p-4 text-sm font-medium ${
+            view.sla.status === "met"
+              ? "border-emerald-200 bg-emerald-50 text-emerald-700"
+              : "border-amber-200 bg-amber-50 text-amber-700"
+          }`}
+        >
+          {view.sla.status === "met"
+            ? "Todas as metas do contrato foram atendidas no período."
+            : `${view.sla.breaches.length} meta(s) do contrato fora do esperado no período.`}
+        </div>
+      )}
+
+      <section className="grid gap-6 md:grid-cols-2 xl:grid-cols-4">
+        {kpis.map((kpi) => (
+          <MetricCard
+            key={kpi.id}
+            title={kpi.title}
+            value={kpi.value}
+            unit={kpi.unit}
+            target={kpi.target}
+            betterWhen={kpi.betterWhen}
+            icon={kpi.icon}
+            accentClass={kpi.accent}
+          />
+        ))}
+      </section>
+
+      <section className="grid gap-6 lg:grid-cols-3">
+        <div className="grid gap-4 sm:grid-cols-2 lg:col-span-2">
+          {[
+            { label: "Hosts monitorados", value: view.totals.hostCount },
+            { label: "Alertas no período", value: view.totals.alerts },
+            { label: "Alertas em aberto", value: view.openProblems.length },
+            {
+              label: "Incidentes com impacto",
+              value: view.totals.impactIncidents,
+            },
+          ].map((card) => (
+            <div
+              key={card.label}
+              className="rounded-3xl border border-slate-100 bg-white/80 p-6 shadow-sm ring-1 ring-black/5"
+            >
+              <p className="text-sm font-medium text-slate-500">{card.label}</p>
+              <p className="mt-2 text-4xl font-semibold text-slate-900">
+                {card.value.toLocaleString("pt-BR")}
+              </p>
+            </div>
+          ))}
+        </div>
+        <AvailabilityCard availability={view.availability} />
+      </section>
+
+      <SeverityTable
+        summary={view.severitySummary}
+        context={{ client: view.group.name, period: view.period }}
+      />
+
+      <section className="rounded-3xl bg-white p-6 shadow-sm ring-1 ring-slate-200">
+        <h2 className="text-lg font-semibold text-slate-900">
+          Problemas em aberto agora
+        </h2>
+        {view.openProblems.length ? (
+          <div className="mt-4 overflow-x-auto">
+            <table className="min-w-full text-left text-sm">
+              <thead className="text-xs uppercase tracking-wide text-slate-500">
+                <tr>
+                  <th className="px-3 py-2">Severidade</th>
+                  <th className="px-3 py-2">Problema</th>
+                  <th className="px-3 py-2">Hosts</th>
+                  <th className="px-3 py-2">Aberto em</th>
+                  <th className="px-3 py-2">Duração</th>
+                  <th className="px-3 py-2">Em atendimento</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100 text-slate-700">
+                {view.openProblems.map((problem) => (
+                  <tr key={problem.eventId}>
+                    <td className="px-3 py-2 font-semibold">
+                      {problem.severityLabel}
+                    </td>
+                    <td className="px-3 py-2">{problem.name}</td>
+                    <td className="px-3 py-2">
+                      {problem.hosts.join(", ") || "—"}
+                    </td>
+                    <td className="px-3 py-2">
+                      {formatDate(problem.openedAt, "dd/MM HH:mm")}
+                    </td>
+                    <td className="px-3 py-2">
+                      {formatDurationMinutes(problem.durationMinutes)}
+                    </td>
+                    <td className="px-3 py-2">
+                      {problem.acknowledged ? "Sim" : "Aguardando"}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ) : (
+          <p className="mt-4 text-sm text-slate-500">
+            Nenhum problema em aberto no momento.
+          </p>
+        )}
+      </section>
+
+      <section className="rounded-3xl bg-white p-6 shadow-sm ring-1 ring-slate-200">
+        <h2 className="text-lg font-semibold text-slate-900">
+          Histórico mensal
+        </h2>
+        <div className="mt-4 overflow-x-auto">
+          <table className="min-w-full text-left text-sm">
+            <thead className="text-xs uppercase tracking-wide text-slate-500">
+              <tr>
+                <th className="px-3 py-2">Mês</th>
+                <th className="px-3 py-2">Disponibilidade</th>
+                <th className="px-3 py-2">Detecção</th>
+                <th className="px-3 py-2">Resposta</th>
+                <th className="px-3 py-2">Resolução</th>
+                <th className="px-3 py-2">Alertas</th>
+                <th className="px-3 py-2">Incidentes com impacto</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100 text-slate-700">
+              {view.history.map((row) => (
+                <tr
+                  key={row.month}
+                  className={row.month === view.month ? "bg-slate-50" : ""}
+                >
+                  <td className="px-3 py-2 font-semibold capitalize">
+                    <Link
+                      href={`/portal/${token}?month=${row.month}`}
+                      className="hover:underline"
+                    >
+                      {row.label}
+                    </Link>
+                  </td>
+                  <td className="px-3 py-2">
+                    {row.availabilityPct === null
+                      ? "—"
+                      : `${row.availabilityPct.toFixed(2)}%`}
+                  </td>
+                  <td className="px-3 py-2">
+                    {formatMinutes(row.detectionMinutes)}
+                  </td>
+                  <td className="px-3 py-2">
+                    {formatMinutes(row.responseMinutes)}
+                  </td>
+                  <td className="px-3 py-2">
+                    {formatMinutes(row.resolutionMinutes)}
+                  </td>
+                  <td className="px-3 py-2">{row.alerts ?? "—"}</td>
+                  <td className="px-3 py-2">{row.impactIncidents ?? "—"}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </section>
+    </PortalShell>
+  );
+}
+
+function PortalShell({ children }: { children: ReactNode }) {
+  return (
+    <main className="min-h-screen bg-slate-100 py-10">
+      <div className="mx-auto w-full max-w-6xl space-y-8 px-4 sm:px-6 lg:px-10">
+        {children}
+        <p className="text-center text-xs text-slate-400">
+          Contego Security · Portal somente leitura
+        </p>
+      </div>
+    </main>
+  );
+}
+
+function buildMonthOptions() {
+  return Array.from({ length: MONTH_OPTIONS_COUNT }, (_, index) => {
+    const date = subMonths(new Date(), index);
+    const label = formatInTimeZone(date, DEFAULT_TIMEZONE, "MMMM yyyy", {
+      locale: ptBR,
+    });
+    return {
+      value: formatInTimeZone(date, DEFAULT_TIMEZONE, "yyyy-MM"),
+      label: label.charAt(0).toUpperCase() + label.slice(1),
+    };
+  });
+}
@@ -0,0 +1,365 @@
+import Link from "next/link";
+import { format } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import {
+  buildAlertNoiseReport,
+  DEFAULT_FLAP_WINDOW_MINUTES,
+} from "@/lib/alert-noise-report";
+import { resolveGroupAlertReportRange } from "@/lib/group-alert-report";
+import { fetchHostGroups } from "@/lib/zabbix";
+import { formatMinutes } from "@/lib/time-format";
+import { AlertNoiseReport } from "@/types/dashboard";
+
+export const dynamic = "force-dynamic";
+
+const TABLE_LIMIT = 100;
+
+type SearchParams = Record<string, string | string[] | undefined>;
+
+export default async function AlertNoisePage({
+  searchParams,
+}: {
+  searchParams?: SearchParams | Promise<SearchParams>;
+}) {
+  const resolvedParams = await Promise.resolve(searchParams);
+  const groupIdParam = getFirst(resolvedParams?.groupId);
+  const fromParam = getFirst(resolvedParams?.from);
+  const toParam = getFirst(resolvedParams?.to);
+  const flapParam = Number(getFirst(resolvedParams?.flapMinutes));
+  const flapMinutes =
+    Number.isInteger(flapParam) && flapParam > 0 && flapParam <= 1440
+      ? flapParam
+      : DEFAULT_FLAP_WINDOW_MINUTES;
+
+  const groups = await fetchHostGroups();
+
+  let report: AlertNoiseReport | null = null;
+  let errorMessage: string | null = null;
+  if (groupIdParam) {
+    try {
+      report = await buildAlertNoiseReport({
+        groupId: groupIdParam !== "all" ? groupIdParam : undefined,
+        range: resolveGroupAlertReportRange({ from: fromParam, to: toParam }),
+        flapWindowMinutes: flapMinutes,
+      });
+    } catch (error) {
+      errorMessage =
+        error instanceof Error
+          ? error.message
+          : "Não foi possível carregar o relatório.";
+    }
+  }
+
+  const exportQuery = report
+    ? new URLSearchParams({
+        groupId: report.groupId ?? "all",
+        from: report.range.from,
+        to: report.range.to,
+        flapMinutes: String(report.flapWindowMinutes),
+      }).toString()
+    : null;
+
+  return (
+    <main className="min-h-screen bg-slate-100 py-10">
+      <div className="mx-auto w-full space-y-8 px-4 sm:px-6 lg:px-16">
+        <header className="flex flex-wrap items-start justify-between gap-6 rounded-3xl bg-white p-6 shadow-sm ring-1 ring-slate-200">
+          <div>
+            <p className="text-xs font-semibold uppercase tracking-[0.4em] text-slate-500">
+              Relatório Especial · Ruído de alertas
+            </p>
+            <h1 className="mt-2 text-3xl font-semibold text-slate-900">
+              {report
+                ? `Triggers ruidosos — ${report.groupLabel}`
+                : "Triggers ruidosos e flapping"}
+            </h1>
+            {report ? (
+              <p className="mt-1 text-sm text-slate-500">
+                Período: {formatDay(report.range.from)} até{" "}
+                {formatDay(report.range.to)} · flap = reabertura em até{" "}
+                {report.flapWindowMinutes} min após a recuperação
+              </p>
+            ) : (
+              <p className="mt-1 text-sm text-slate-500">
+                Escolha o escopo e o período para ranquear os pares trigger ×
+                host que mais disparam.
+              </p>
+            )}
+          </div>
+          <div className="flex flex-wrap gap-3">
+            {exportQuery && (
+              <>
+                <a
+                  href={`/api/reports/alert-noise?${exportQuery}&format=csv`}
+                  className="rounded-2xl border border-blue-200 bg-blue-600 px-6 py-3 text-sm font-semibold text-white shadow-sm transition hover:bg-blue-500"
+                  target="_blank"
+                  rel="noreferrer"
+                >
+                  Exportar CSV
+                </a>
+                <a
+                  href={`/api/reports/alert-noise?${exportQuery}&format=xlsx`}
+                  className="rounded-2xl border border-emerald-200 bg-emerald-600 px-6 py-3 text-sm font-semibold text-white shadow-sm transition hover:bg-emerald-500"
+                  target="_blank"
+                  rel="noreferrer"
+                >
+                  Exportar Excel
+                </a>
+              </>
+            )}
+            <Link
+              href="/"
+              className="rounded-2xl border border-slate-200 px-6 py-3 text-sm font-semibold text-slate-600 transition hover:text-slate-900"
+            >
+              Voltar ao dashboard
+            </Link>
+          </div>
+        </header>
+
+        <form
+          method="get"
+          className="flex flex-wrap items-end gap-4 rounded-3xl bg-white p-6 shadow-sm ring-1 ring-slate-200"
+        >
+          <label className="flex min-w-[220px] flex-1 flex-col gap-2 text-xs font-semibold uppercase tracking-wide text-slate-500">
+            Host group
+            <select
+              name="groupId"
+              defaultValue={groupIdParam ?? "all"}
+              className="rounded-2xl border border-slate-200 bg-white px-4 py-3 text-sm font-medium normal-case tracking-normal text-slate-900"
+            >
+              <option value="all">Todos os host groups</option>
+              {groups.map((group) => (
+                <option key={group.groupid} value={group.groupid}>
+                  {group.name}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="flex flex-col gap-2 text-xs font-semibold uppercase tracking-wide text-slate-500">
+            De
+            <input
+              type="date"
+              name="from"
+              defaultValue={report?.range.from ?? fromParam}
+              className="rounded-2xl border border-slate-200 px-4 py-3 text-sm font-medium text-slate-900"
+            />
+          </label>
+          <label className="flex flex-col gap-2 text-xs font-semibold uppercase tracking-wide text-slate-500">
+            Até
+            <input
+              type="date"
+              name="to"
+              defaultValue={report?.range.to ?? toParam}
+              className="rounded-2xl border border-slate-200 px-4 py-3 text-sm font-medium text-slate-900"
+            />
+          </label>
+          <label className="flex flex-col gap-2 text-xs font-semibold uppercase tracking-wide text-slate-500">
+            Janela de flap (min)
+            <input
+              type="number"
+              name="flapMinutes"
+              min={1}
+              max={1440}
+              defaultValue={flapMinutes}
+              className="w-36 rounded-2xl border border-slate-200 px-4 py-3 text-sm font-medium text-slate-900"
+            />
+          </label>
+          <button
+            type="submit"
+            className="rounded-2xl bg-slate-900 px-6 py-3 text-sm font-semibold text-white shadow-sm transition hover:bg-slate-700"
+          >
+            Gerar relatório
+          </button>
+        </form>
+
+        {errorMessage && (
+          <div className="rounded-3xl border border-rose-200 bg-rose-50 px-6 py-4 text-sm text-rose-700 shadow-sm">
+            {errorMessage}
+          </div>
+        )}
+
+        {report && (
+          <>
+            <section className="grid gap-4 md:grid-cols-2 lg:grid-cols-5">
+              <SummaryCard
+                label="Eventos"
+                value={String(report.totals.events)}
+                subtitle="Disparos no período"
+              />
+              <SummaryCard
+                label="Pares trigger × host"
+                value={String(report.totals.pairs)}
+                subtitle="Combinações que dispararam"
+              />
+              <SummaryCard
+                label="Flapping"
+                value={String(report.totals.flappingPairs)}
+                subtitle={`${report.totals.flaps} reaberturas em até ${report.flapWindowMinutes} min`}
+              />
+              <SummaryCard
+                label="Alertas curtos"
+                value={`${report.totals.shortAlertPct.toFixed(1)}%`}
+                subtitle={`${report.totals.shortAlerts} resolvidos em menos de ${report.shortAlertMinutes} min`}
+              />
+              <SummaryCard
+                label="Taxa de ACK"
+                value={`${report.totals.ackRatePct.toFixed(1)}%`}
+                subtitle="Eventos reconhecidos pelo NOC"
+              />
+            </section>
+
+            <section className="space-y-4 rounded-3xl bg-white p-6 shadow-sm ring-1 ring-slate-200">
+              <div>
+                <p className="text-xs font-semibold uppercase tracking-[0.4em] text-slate-500">
+                  Top triggers ruidosos
+                </p>
+                <p className="text-sm text-slate-500">
+                  Ordenado por flaps, disparos e fatia de alertas curtos.
+                  {report.entries.length > TABLE_LIMIT &&
+                    ` Exibindo ${TABLE_LIMIT} de ${report.entries.length}; a exportação traz todos.`}
+                </p>
+              </div>
+              {report.entries.length === 0 ? (
+                <p className="text-sm text-slate-500">
+                  Nenhum evento no período selecionado.
+                </p>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="min-w-full divide-y divide-slate-100 text-sm text-slate-600">
+                    <thead className="bg-slate-50 text-xs font-semibold uppercase tracking-wide text-slate-500">
+                      <tr>
+                        <th className="px-4 py-3 text-left">#</th>
+                        <th className="px-4 py-3 text-left">Trigger / Host</th>
+                        <th className="px-4 py-3 text-right">Disparos</th>
+                        <th className="px-4 py-3 text-right">
+                          <span
+                            title="Reaberturas do mesmo trigger no mesmo host até a janela de flap após a recuperação anterior."
+                            className="cursor-help underline decoration-dotted underline-offset-4"
+                          >
+                            Flaps
+                          </span>
+                        </th>
+                        <th className="px-4 py-3 text-right">
+                          Duração mediana
+                        </th>
+                        <th className="px-4 py-3 text-right">
+                          <span
+                            title={`Eventos resolvidos em menos de ${report.shortAlertMinutes} minutos sobre o total de disparos.`}
+                            className="cursor-help underline decoration-dotted underline-offset-4"
+                          >
+                            Curtos
+                          </span>
+                        </th>
+                        <th className="px-4 py-3 text-right">ACK</th>
+                        <th className="px-4 py-3 text-left">Último disparo</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-slate-100">
+                      {report.entries
+                        .slice(0, TABLE_LIMIT)
+                        .map((entry, index) => (
+                          <tr
+                            key={`${entry.triggerId}:${entry.hostid}`}
+                            className="bg-white"
+                          >
+                            <td className="px-4 py-3 font-mono text-xs text-slate-400">
+                              {index + 1}
+                            </td>
+                            <td className="px-4 py-3">
+                              <p className="font-semibold text-slate-900">
+                                {entry.name}
+                              </p>
+                              <p className="text-xs text-slate-500">
+                                {entry.hostid ? (
+                                  <Link
+                                    href={`/hosts/${entry.hostid}`}
+                                    className="hover:text-slate-900 hover:underline"
+                                  >
+                                    {entry.hostName}
+                                  </Link>
+                                ) : (
+                                  entry.hostName
+                                )}{" "}
+                                · {entry.severityLabel} · trigger{" "}
+                                {entry.triggerId}
+                              </p>
+                              {entry.itemKeys.length > 0 && (
+                                <p className="font-mono text-[11px] text-slate-400">
+                                  {entry.itemKeys.join(" | ")}
+                                </p>
+                              )}
+                            </td>
+                            <td className="px-4 py-3 text-right font-semibold text-slate-900">
+                              {entry.fires}
+                              {entry.openNow > 0 && (
+                                <span className="ml-1 text-xs font-medium text-rose-600">
+                                  ({entry.openNow} em aberto)
+                                </span>
+                              )}
+                            </td>
+                            <td
+                              className={`px-4 py-3 text-right font-semibold ${
+                                entry.flaps > 0
+                                  ? "text-rose-600"
+                                  : "text-slate-400"
+                              }`}
+                            >
+                              {entry.flaps}
+                            </td>
+                            <td className="px-4 py-3 text-right text-slate-900">
+                              {formatMinutes(entry.medianDurationMinutes)}
+                            </td>
+                            <td className="px-4 py-3 text-right text-slate-900">
+                              {entry.shortAlertPct.toFixed(0)}%
+                            </td>
+                            <td className="px-4 py-3 text-right text-slate-900">
+                              {entry.ackRatePct.toFixed(0)}%
+                            </td>
+                            <td className="px-4 py-3 text-slate-900">
+                              {format(
+                                new Date(entry.lastFiredAt),
+                                "dd/MM/yyyy HH:mm",
+                                { locale: ptBR }
+                              )}
+                            </td>
+                          </tr>
+                        ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </section>
+          </>
+        )}
+      </div>
+    </main>
+  );
+}
+
+function SummaryCard({
+  label,
+  value,
+  subtitle,
+}: {
+  label: string;
+  value: string;
+  subtitle: string;
+}) {
+  return (
+    <div className="rounded-3xl bg-white p-5 shadow-sm ring-1 ring-slate-200">
+      <p className="text-xs font-semibold uppercase tracking-[0.3em] text-slate-500">
+        {label}
+      </p>
+      <p className="mt-3 text-4xl font-semibold text-slate-900">{value}</p>
+      <p className="mt-2 text-sm text-slate-500">{subtitle}</p>
+    </div>
+  );
+}
+
+function formatDay(value: string) {
+  return format(new Date(`${value}T12:00:00`), "dd/MM/yyyy", { locale: ptBR });
+}
+
+function getFirst(value: string | string[] | undefined): string | undefined {
+  if (Array.isArray(value)) return value[0];
+  return value;
+}
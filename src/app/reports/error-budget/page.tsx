@@ -0,0 +1,335 @@
+import Link from "next/link";
+import { formatInTimeZone } from "date-fns-tz";
+import { buildErrorBudgetRanking } from "@/lib/error-budget";
+import { SEVERITY_LEVELS } from "@/lib/metrics";
+import { formatDurationMinutes } from "@/lib/time-format";
+import {
+  ErrorBudgetRankingResponse,
+  ErrorBudgetWindow,
+} from "@/types/dashboard";
+
+export const dynamic = "force-dynamic";
+
+const DEFAULT_TIMEZONE = process.env.DASHBOARD_TIMEZONE ?? "America/Sao_Paulo";
+const percentFormatter = new Intl.NumberFormat("pt-BR", {
+  maximumFractionDigits: 1,
+});
+
+type SearchParams = Record<string, string | string[] | undefined>;
+
+export default async function ErrorBudgetPage({
+  searchParams,
+}: {
+  searchParams?: SearchParams | Promise<SearchParams>;
+}) {
+  const resolvedParams = await Promise.resolve(searchParams);
+  const monthParam = getFirst(resolvedParams?.month);
+  const month =
+    monthParam && /^\d{4}-\d{2}$/.test(monthParam)
+      ? monthParam
+      : formatInTimeZone(new Date(), DEFAULT_TIMEZONE, "yyyy-MM");
+
+  let ranking: ErrorBudgetRankingResponse | null = null;
+  let errorMessage: string | null = null;
+  try {
+    ranking = await buildErrorBudgetRanking(month);
+  } catch (error) {
+    console.error("[error-budget] Failed to build error budget ranking", error);
+    errorMessage =
+      error instanceof Error
+        ? error.message
+        : "Não foi possível calcular o orçamento de erro.";
+  }
+
+  const withIncidents =
+    ranking?.groups.filter((group) => group.errorBudget.incidents?.length) ??
+    [];
+
+  return (
+    <main className="min-h-screen bg-slate-100 py-10">
+      <div className="mx-auto w-full max-w-7xl space-y-8 px-4 sm:px-6 lg:px-12">
+        <header className="flex flex-wrap items-start justify-between gap-6 rounded-3xl bg-white p-6 shadow-sm ring-1 ring-slate-200">
+          <div>
+            <p className="text-xs font-semibold uppercase tracking-[0.4em] text-slate-500">
+              Orçamento de erro
+            </p>
+            <h1 className="mt-2 text-3xl font-semibold text-slate-900">
+              Downtime permitido x consumido
+              {ranking && ` — ${ranking.label}`}
+            </h1>
+            <p className="mt-1 max-w-2xl text-sm text-slate-500">
+              O orçamento é o downtime (host x minutos) que a meta do contrato
+              permite no mês inteiro. Burn rate acima de 1 indica que, no ritmo
+              atual, o orçamento acaba antes do fim do mês.
+            </p>
+          </div>
+          <div className="flex flex-wrap gap-3">
+            <a
+              href={`/api/error-budget?month=${month}`}
+              className="rounded-2xl bg-slate-900 px-6 py-3 text-sm font-semibold text-white transition hover:bg-slate-800"
+              target="_blank"
+              rel="noreferrer"
+            >
+              Baixar JSON
+            </a>
+            <Link
+              href="/"
+              className="rounded-2xl border border-slate-200 px-6 py-3 text-sm font-semibold text-slate-600 transition hover:text-slate-900"
+            >
+              Voltar ao dashboard
+            </Link>
+          </div>
+        </header>
+
+        <form
+          method="get"
+          className="flex flex-wrap items-end gap-4 rounded-3xl bg-white p-6 shadow-sm ring-1 ring-slate-200"
+        >
+          <label className="flex flex-col gap-2 text-xs font-semibold uppercase tracking-wide text-slate-500">
+            Mês
+            <input
+              type="month"
+              name="month"
+              defaultValue={month}
+              className="rounded-2xl border border-slate-200 px-4 py-3 text-sm font-medium text-slate-900"
+            />
+          </label>
+          <button
+            type="submit"
+            className="rounded-2xl bg-slate-900 px-6 py-3 text-sm font-semibold text-white transition hover:bg-slate-800"
+          >
+            Atualizar
+          </button>
+        </form>
+
+        {errorMessage && (
+          <div className="rounded-2xl border border-rose-200 bg-rose-50 p-4 text-sm text-rose-600">
+            {errorMessage}
+          </div>
+        )}
+
+        {ranking && (
+          <>
+            <section className="rounded-3xl bg-white p-6 shadow-sm ring-1 ring-slate-200">
+              <div className="overflow-x-auto">
+                <table className="min-w-full divide-y divide-slate-200 text-sm">
+                  <thead>
+                    <tr className="text-left text-xs font-semibold uppercase tracking-wider text-slate-500">
+                      <th className="py-2 pr-4">Host group</th>
+                      <th className="px-4 py-2 text-right">Hosts</th>
+                      <th className="px-4 py-2">Comercial</th>
+                      <th className="px-4 py-2 text-right">Burn rate</th>
+                      <th className="px-4 py-2">Esgotado em</th>
+                      <th className="px-4 py-2">Geral</th>
+                      <th className="px-4 py-2 text-right">Burn rate</th>
+                      <th className="px-4 py-2">Esgotado em</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-slate-100 text-slate-700">
+                    {ranking.groups.map((group) => (
+                      <tr
+                        key={group.groupid}
+                        className={
+                          group.errorBudget.business.exhaustedAt ||
+                          group.errorBudget.overall.exhaustedAt
+                            ? "bg-rose-50/60"
+                            : "transition hover:bg-slate-50/60"
+                        }
+                      >
+                        <td className="py-3 pr-4 font-medium text-slate-900">
+                          {group.errorBudget.incidents?.length ? (
+                            <a
+                              href={`#group-${group.groupid}`}
+                              className="hover:underline"
+                            >
+                              {group.name}
+                            </a>
+                          ) : (
+                            group.name
+                          )}
+                        </td>
+                        <td className="px-4 py-3 text-right">{group.hosts}</td>
+                        <td className="px-4 py-3">
+                          <BudgetUsage window={group.errorBudget.business} />
+                        </td>
+                        <td className="px-4 py-3 text-right">
+                          {formatBurnRate(group.errorBudget.business.burnRate)}
+                        </td>
+                        <td className="px-4 py-3">
+                          {formatDate(group.errorBudget.business.exhaustedAt)}
+                        </td>
+                        <td className="px-4 py-3">
+                          <BudgetUsage window={group.errorBudget.overall} />
+                        </td>
+                        <td className="px-4 py-3 text-right">
+                          {formatBurnRate(group.errorBudget.overall.burnRate)}
+                        </td>
+                        <td className="px-4 py-3">
+                          {formatDate(group.errorBudget.overall.exhaustedAt)}
+                        </td>
+                      </tr>
+                    ))}
+                    {!ranking.groups.length ? (
+                      <tr>
+                        <td
+                          colSpan={8}
+                          className="py-8 text-center text-sm text-slate-500"
+                        >
+                          Nenhum host group com hosts ativos no período.
+                        </td>
+                      </tr>
+                    ) : null}
+                  </tbody>
+                </table>
+              </div>
+            </section>
+
+            {withIncidents.map((group) => (
+              <section
+                key={group.groupid}
+                id={`group-${group.groupid}`}
+                className="rounded-3xl bg-white p-6 shadow-sm ring-1 ring-slate-200"
+              >
+                <div className="flex flex-wrap items-baseline justify-between gap-2">
+                  <h2 className="text-lg font-semibold text-slate-900">
+                    {group.name}
+                  </h2>
+                  <p className="text-sm text-slate-500">
+                    Incidentes que consumiram o orçamento (comercial primeiro)
+                  </p>
+                </div>
+                <div className="mt-4 overflow-x-auto">
+                  <table className="min-w-full divide-y divide-slate-200 text-sm">
+                    <thead>
+                      <tr className="text-left text-xs font-semibold uppercase tracking-wider text-slate-500">
+                        <th className="py-2 pr-4">Incidente</th>
+                        <th className="px-4 py-2">Severidade</th>
+                        <th className="px-4 py-2">Início</th>
+                        <th className="px-4 py-2">Fim</th>
+                        <th className="px-4 py-2">Hosts</th>
+                        <th className="px-4 py-2 text-right">Comercial</th>
+                        <th className="px-4 py-2 text-right">% do orçamento</th>
+                        <th className="px-4 py-2 text-right">Total</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-slate-100 text-slate-700">
+                      {group.errorBudget.incidents?.map((incident) => {
+                        const allowed =
+                          group.errorBudget.business.allowedMinutes;
+                        return (
+                          <tr key={incident.eventId}>
+                            <td className="py-3 pr-4">
+                              <p className="font-medium text-slate-900">
+                                {incident.name}
+                              </p>
+                              <p className="text-xs text-slate-400">
+                                Evento {incident.eventId}
+                              </p>
+                            </td>
+                            <td className="px-4 py-3">
+                              {SEVERITY_LEVELS.find(
+                                (level) => level.key === incident.severity
+                              )?.label ?? incident.severity}
+                            </td>
+                            <td className="px-4 py-3">
+                              {formatDate(incident.openedAt)}
+                            </td>
+                            <td className="px-4 py-3">
+                              {incident.closedAt
+                                ? formatDate(incident.closedAt)
+                                : "Em aberto"}
+                            </td>
+                            <td className="px-4 py-3 text-slate-500">
+                              {incident.hostNames.join(", ")}
+                            </td>
+                            <td className="px-4 py-3 text-right">
+                              {formatDurationMinutes(
+                                incident.businessDowntimeMinutes
+                              )}
+                            </td>
+                            <td className="px-4 py-3 text-right font-semibold text-slate-900">
+                              {allowed
+                                ? `${percentFormatter.format(
+                                    (incident.businessDowntimeMinutes /
+                                      allowed) *
+                                      100
+                                  )}%`
+                                : "—"}
+                            </td>
+                            <td className="px-4 py-3 text-right">
+                              {formatDurationMinutes(incident.downtimeMinutes)}
+                            </td>
+                          </tr>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+                </div>
+              </section>
+            ))}
+          </>
+        )}
+      </div>
+    </main>
+  );
+}
+
+function BudgetUsage({ window }: { window: ErrorBudgetWindow }) {
+  if (window.allowedMinutes === null) {
+    return (
+      <span className="text-slate-500">
+        Sem meta · {formatDurationMinutes(window.consumedMinutes)} de downtime
+      </span>
+    );
+  }
+  const burned = window.burnedPct;
+  const exhausted =
+    burned === null ? window.consumedMinutes > 0 : burned >= 100;
+  return (
+    <div className="min-w-[180px] space-y-1">
+      <div className="flex items-baseline justify-between gap-3">
+        <span
+          className={`font-semibold ${
+            exhausted
+              ? "text-rose-600"
+              : (burned ?? 0) >= 75
+                ? "text-amber-600"
+                : "text-slate-900"
+          }`}
+        >
+          {burned === null ? "—" : `${percentFormatter.format(burned)}%`}
+        </span>
+        <span className="text-xs text-slate-500">
+          {formatDurationMinutes(window.consumedMinutes)} de{" "}
+          {formatDurationMinutes(window.allowedMinutes)}
+        </span>
+      </div>
+      <div className="h-1.5 overflow-hidden rounded-full bg-slate-100">
+        <div
+          className={`h-full rounded-full ${
+            exhausted ? "bg-rose-500" : "bg-emerald-500"
+          }`}
+          style={{
+            width: `${Math.min(100, burned ?? (exhausted ? 100 : 0))}%`,
+          }}
+        />
+      </div>
+      <p className="text-[11px] text-slate-400">Meta {window.targetPct}%</p>
+    </div>
+  );
+}
+
+function formatBurnRate(value: number | null) {
+  return value === null ? "—" : `${percentFormatter.format(value)}x`;
+}
+
+function formatDate(value: string | null) {
+  return value
+    ? formatInTimeZone(new Date(value), DEFAULT_TIMEZONE, "dd/MM HH:mm")
+    : "—";
+}
+
+function getFirst(value: string | string[] | undefined): string | undefined {
+  if (Array.isArray(value)) return value[0];
+  return value;
+}
@@ -0,0 +1,780 @@
+import type { ReactNode } from "react";
+import Link from "next/link";
+import { formatInTimeZone } from "date-fns-tz";
+import { PrintButton } from "@/components/print-button";
+import { getGroupRestriction } from "@/lib/auth";
+import { buildExecutiveSummary } from "@/lib/executive-summary";
+import { SEVERITY_LEVELS } from "@/lib/metrics";
+import { formatDurationMinutes, formatMinutes } from "@/lib/time-format";
+import { fetchHostGroups } from "@/lib/zabbix";
+import {
+  ExecutiveSummary,
+  ExecutiveSummaryMonth,
+  ExecutiveSummaryPeriodKind,
+} from "@/types/dashboard";
+
+export const dynamic = "force-dynamic";
+
+const DEFAULT_TIMEZONE = process.env.DASHBOARD_TIMEZONE ?? "America/Sao_Paulo";
+const percentFormatter = new Intl.NumberFormat("pt-BR", {
+  minimumFractionDigits: 2,
+  maximumFractionDigits: 2,
+});
+const numberFormatter = new Intl.NumberFormat("pt-BR");
+
+const CARD_CLASS =
+  "rounded-3xl bg-white p-6 shadow-sm ring-1 ring-slate-200 break-inside-avoid print:rounded-xl print:p-4 print:shadow-none";
+
+type SearchParams = Record<string, string | string[] | undefined>;
+
+export default async function ExecutiveSummaryPage({
+  searchParams,
+}: {
+  searchParams?: SearchParams | Promise<SearchParams>;
+}) {
+  const resolvedParams = await Promise.resolve(searchParams);
+  const today = formatInTimeZone(new Date(), DEFAULT_TIMEZONE, "yyyy-MM");
+  const [currentYear, currentMonth] = today.split("-").map(Number);
+
+  const kind: ExecutiveSummaryPeriodKind =
+    getFirst(resolvedParams?.period) === "year" ? "year" : "quarter";
+  const yearParam = Number(getFirst(resolvedParams?.year));
+  const year =
+    Number.isInteger(yearParam) && yearParam >= 2000 && yearParam <= 2100
+      ? yearParam
+      : currentYear;
+  const quarterParam = Number(getFirst(resolvedParams?.quarter));
+  const quarter =
+    Number.isInteger(quarterParam) && quarterParam >= 1 && quarterParam <= 4
+      ? quarterParam
+      : Math.floor((currentMonth - 1) / 3) + 1;
+
+  const allowed = await getGroupRestriction();
+  const allGroups = await fetchHostGroups();
+  const groups = allowed
+    ? allGroups.filter((group) => allowed.includes(group.groupid))
+    : allGroups;
+  const groupId =
+    getFirst(resolvedParams?.groupId) ??
+    (groups.length === 1 ? groups[0].groupid : undefined);
+
+  let summary: ExecutiveSummary | null = null;
+  let errorMessage: string | null = null;
+  if (groupId) {
+    if (allowed && !allowed.includes(groupId)) {
+      errorMessage = "Acesso negado a este host group.";
+    } else {
+      try {
+        summary = await buildExecutiveSummary({ groupId, kind, year, quarter });
+      } catch (error) {
+        console.error("[executive-summary] Failed to build summary", error);
+        errorMessage =
+          error instanceof Error
+            ? error.message
+            : "Não foi possível gerar o resumo executivo.";
+      }
+    }
+  }
+
+  const query = new URLSearchParams({
+    groupId: groupId ?? "",
+    period: kind,
+    year: String(year),
+    ...(kind === "quarter" ? { quarter: String(quarter) } : {}),
+  });
+
+  return (
+    <main className="min-h-screen bg-slate-100 py-10 print:min-h-0 print:bg-white print:py-0">
+      <div className="mx-auto w-full max-w-6xl space-y-8 px-4 sm:px-6 lg:px-12 print:max-w-none print:space-y-4 print:px-0">
+        <header
+          className={`flex flex-wrap items-start justify-between gap-6 ${CARD_CLASS}`}
+        >
+          <div>
+            <p className="text-xs font-semibold uppercase tracking-[0.4em] text-slate-500">
+              Resumo executivo
+            </p>
+            <h1 className="mt-2 text-3xl font-semibold text-slate-900">
+              {summary
+                ? `${summary.groupName} — ${summary.period.label}`
+                : "Indicadores do trimestre ou do ano"}
+            </h1>
+            <p className="mt-1 max-w-2xl text-sm text-slate-500">
+              {summary
+                ? `Gerado em ${formatDate(summary.generatedAt)}. Médias do período ponderadas por host e tempo de cada mês.`
+                : "Escolha o host group e o período para montar o resumo."}
+            </p>
+          </div>
+          <div className="flex flex-wrap gap-3 print:hidden">
+            {summary && <PrintButton />}
+            {summary && (
+              <a
+                href={`/api/reports/executive-summary?${query.toString()}`}
+                className="rounded-2xl border border-slate-200 px-6 py-3 text-sm font-semibold text-slate-600 transition hover:text-slate-900"
+                target="_blank"
+                rel="noreferrer"
+              >
+                Baixar JSON
+              </a>
+            )}
+            <Link
+              href="/"
+              className="rounded-2xl border border-slate-200 px-6 py-3 text-sm font-semibold text-slate-600 transition hover:text-slate-900"
+            >
+              Voltar ao dashboard
+            </Link>
+          </div>
+        </header>
+
+        <form
+          method="get"
+          className="flex flex-wrap items-end gap-4 rounded-3xl bg-white p-6 shadow-sm ring-1 ring-slate-200 print:hidden"
+        >
+          <Field label="Host group">
+            <select
+              name="groupId"
+              defaultValue={groupId ?? ""}
+              className="min-w-[240px] rounded-2xl border border-slate-200 px-4 py-3 text-sm font-medium text-slate-900"
+            >
+              <option value="" disabled>
+                Selecione
+              </option>
+              {groups.map((group) => (
+                <option key={group.groupid} value={group.groupid}>
+                  {group.name}
+                </option>
+              ))}
+            </select>
+          </Field>
+          <Field label="Período">
+            <select
+              name="period"
+              defaultValue={kind}
+              className="rounded-2xl border border-slate-200 px-4 py-3 text-sm font-medium text-slate-900"
+            >
+              <option value="quarter">Trimestre</option>
+              <option value="year">Ano</option>
+            </select>
+          </Field>
+          <Field label="Ano">
+            <input
+              type="number"
+              name="year"
+              min={2000}
+              max={2100}
+              defaultValue={year}
+              className="w-28 rounded-2xl border border-slate-200 px-4 py-3 text-sm font-medium text-slate-900"
+            />
+          </Field>
+          <Field label="Trimestre">
+            <select
+              name="quarter"
+              defaultValue={String(quarter)}
+              className="rounded-2xl border border-slate-200 px-4 py-3 text-sm font-medium text-slate-900"
+            >
+              {[1, 2, 3, 4].map((value) => (
+                <option key={value} value={value}>
+                  {value}º trimestre
+                </option>
+              ))}
+            </select>
+          </Field>
+          <button
+            type="submit"
+            className="rounded-2xl bg-slate-900 px-6 py-3 text-sm font-semibold text-white transition hover:bg-slate-800"
+          >
+            Gerar resumo
+          </button>
+        </form>
+
+        {errorMessage && (
+          <div className="rounded-2xl border border-rose-200 bg-rose-50 p-4 text-sm text-rose-600">
+            {errorMessage}
+          </div>
+        )}
+
+        {summary && <SummaryContent summary={summary} />}
+      </div>
+    </main>
+  );
+}
+
+function SummaryContent({ summary }: { summary: ExecutiveSummary }) {
+  const { totals, targets } = summary;
+  const partialMonth = summary.months.find((month) => month.partial);
+
+  return (
+    <>
+      <section className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4 print:grid-cols-4 print:gap-2">
+        <KpiCard
+          label="Disponibilidade"
+          value={formatPercent(totals.availabilityPct)}
+          hint={`Meta ${formatPercent(targets.availabilityPct)}`}
+          breached={isBelow(totals.availabilityPct, targets.availabilityPct)}
+        />
+        <KpiCard
+          label="Disponibilidade comercial"
+          value={formatPercent(totals.businessAvailabilityPct)}
+          hint={`Meta ${formatPercent(targets.businessAvailabilityPct)}`}
+          breached={isBelow(
+            totals.businessAvailabilityPct,
+            targets.businessAvailabilityPct
+          )}
+        />
+        <KpiCard
+          label="Tempo médio de resolução"
+          value={
+            totals.resolutionMinutes === null
+              ? "—"
+              : formatMinutes(totals.resolutionMinutes)
+          }
+          hint={`Meta ${
+            targets.resolutionMinutes === null
+              ? "—"
+              : formatMinutes(targets.resolutionMinutes)
+          }`}
+          breached={
+            totals.resolutionMinutes !== null &&
+            targets.resolutionMinutes !== null &&
+            totals.resolutionMinutes > targets.resolutionMinutes
+          }
+        />
+        <KpiCard
+          label="Meses dentro do SLA"
+          value={`${totals.monthsMet} de ${totals.monthsEvaluated}`}
+          hint="Todas as metas do contrato atingidas"
+          breached={totals.monthsMet < totals.monthsEvaluated}
+        />
+        <KpiCard
+          label="Alertas"
+          value={numberFormatter.format(totals.alerts)}
+          hint="Problemas abertos no período"
+        />
+        <KpiCard
+          label="Desastres"
+          value={numberFormatter.format(totals.disasters)}
+          hint="Alertas de severidade Desastre"
+          breached={totals.disasters > 0}
+        />
+        <KpiCard
+          label="Incidentes com impacto"
+          value={numberFormatter.format(totals.impactIncidents)}
+          hint="Desastres > 60 min em horário comercial"
+          breached={totals.impactIncidents > 0}
+        />
+        <KpiCard
+          label="Cobertura do contrato"
+          value={
+            totals.coveragePct === null
+              ? "—"
+              : `${percentFormatter.format(totals.coveragePct)}%`
+          }
+          hint={
+            totals.contractedHosts === null
+              ? `${numberFormatter.format(totals.hosts)} hosts · sem contrato cadastrado`
+              : `${numberFormatter.format(totals.hosts)} de ${numberFormatter.format(
+                  totals.contractedHosts
+                )} hosts contratados`
+          }
+        />
+      </section>
+
+      {partialMonth && (
+        <p className="text-sm text-slate-500">
+          {capitalize(partialMonth.label)} ainda está em andamento e foi apurado
+          até agora.
+        </p>
+      )}
+
+      <div className="grid gap-6 lg:grid-cols-2 print:grid-cols-2 print:gap-4">
+        <section className={CARD_CLASS}>
+          <h2 className="text-lg font-semibold text-slate-900">
+            Disponibilidade por mês
+          </h2>
+          <p className="text-sm text-slate-500">
+            Barras: geral · linhas tracejadas: metas geral e comercial
+          </p>
+          <AvailabilityChart months={summary.months} targets={targets} />
+        </section>
+        <section className={CARD_CLASS}>
+          <h2 className="text-lg font-semibold text-slate-900">
+            Tendência do tempo de resolução
+          </h2>
+          <p className="text-sm text-slate-500">
+            Média mensal · linha tracejada: meta do contrato
+          </p>
+          <ResolutionChart
+            months={summary.months}
+            target={targets.resolutionMinutes}
+          />
+        </section>
+      </div>
+
+      <section className={CARD_CLASS}>
+        <h2 className="text-lg font-semibold text-slate-900">
+          Indicadores mensais
+        </h2>
+        <div className="mt-4 overflow-x-auto">
+          <table className="min-w-full divide-y divide-slate-200 text-sm print:text-xs">
+            <thead>
+              <tr className="text-left text-xs font-semibold uppercase tracking-wider text-slate-500">
+                <th className="py-2 pr-4">Mês</th>
+                <th className="px-3 py-2 text-right">Hosts</th>
+                <th className="px-3 py-2 text-right">Disp.</th>
+                <th className="px-3 py-2 text-right">Disp. comercial</th>
+                <th className="px-3 py-2 text-right">Alcançab.</th>
+                <th className="px-3 py-2 text-right">Detecção</th>
+                <th className="px-3 py-2 text-right">Resposta</th>
+                <th className="px-3 py-2 text-right">Resolução</th>
+                <th className="px-3 py-2 text-right">Alertas</th>
+                <th className="px-3 py-2 text-right">Desastres</th>
+                <th className="px-3 py-2 text-right">Impacto</th>
+                <th className="px-3 py-2">SLA</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100 text-slate-700">
+              {summary.months.map(({ month, label, partial, metrics }) => (
+                <tr key={month} className="break-inside-avoid">
+                  <td className="py-2 pr-4 font-medium text-slate-900">
+                    {capitalize(label)}
+                    {partial && (
+                      <span className="ml-2 text-xs font-normal text-slate-400">
+                        parcial
+                      </span>
+                    )}
+                  </td>
+                  {metrics ? (
+                    <>
+                      <td className="px-3 py-2 text-right">{metrics.hosts}</td>
+                      <td
+                        className={`px-3 py-2 text-right ${
+                          isBelow(
+                            metrics.availabilityPct,
+                            metrics.targets?.availabilityPct ?? null
+                          )
+                            ? "font-semibold text-rose-600"
+                            : ""
+                        }`}
+                      >
+                        {formatPercent(metrics.availabilityPct)}
+                      </td>
+                      <td
+                        className={`px-3 py-2 text-right ${
+                          isBelow(
+                            metrics.businessAvailabilityPct,
+                            metrics.targets?.businessAvailabilityPct ?? null
+                          )
+                            ? "font-semibold text-rose-600"
+                            : ""
+                        }`}
+                      >
+                        {formatPercent(metrics.businessAvailabilityPct)}
+                      </td>
+                      <td className="px-3 py-2 text-right">
+                        {formatPercent(metrics.reachabilityPct)}
+                      </td>
+                      <td className="px-3 py-2 text-right">
+                        {formatMinutes(metrics.detectionMinutes)}
+                      </td>
+                      <td className="px-3 py-2 text-right">
+                        {formatMinutes(metrics.responseMinutes)}
+                      </td>
+                      <td className="px-3 py-2 text-right">
+                        {formatMinutes(metrics.resolutionMinutes)}
+                      </td>
+                      <td className="px-3 py-2 text-right">{metrics.alerts}</td>
+                      <td className="px-3 py-2 text-right">
+                        {metrics.disasters}
+                      </td>
+                      <td className="px-3 py-2 text-right">
+                        {metrics.impactIncidents}
+                      </td>
+                      <td className="px-3 py-2">
+                        <SlaBadge status={metrics.slaStatus} />
+                      </td>
+                    </>
+                  ) : (
+                    <td
+                      colSpan={11}
+                      className="px-3 py-2 text-center text-slate-400"
+                    >
+                      Sem hosts monitorados no mês.
+                    </td>
+                  )}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </section>
+
+      <section className={CARD_CLASS}>
+        <h2 className="text-lg font-semibold text-slate-900">
+          10 maiores quedas
+        </h2>
+        <p className="text-sm text-slate-500">
+          Alertas de alcançabilidade e de severidade Desastre, pela duração.
+        </p>
+        <div className="mt-4 overflow-x-auto">
+          <table className="min-w-full divide-y divide-slate-200 text-sm print:text-xs">
+            <thead>
+              <tr className="text-left text-xs font-semibold uppercase tracking-wider text-slate-500">
+                <th className="py-2 pr-4">Alerta</th>
+                <th className="px-3 py-2">Severidade</th>
+                <th className="px-3 py-2">Hosts</th>
+                <th className="px-3 py-2">Início</th>
+                <th className="px-3 py-2">Fim</th>
+                <th className="px-3 py-2 text-right">Duração</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100 text-slate-700">
+              {summary.topOutages.map((outage) => (
+                <tr key={outage.eventId} className="break-inside-avoid">
+                  <td className="py-2 pr-4">
+                    <p className="font-medium text-slate-900">{outage.name}</p>
+                    <p className="text-xs text-slate-400">
+                      Evento {outage.eventId}
+                    </p>
+                  </td>
+                  <td className="px-3 py-2">
+                    {SEVERITY_LEVELS.find(
+                      (level) => level.key === outage.severity
+                    )?.label ?? outage.severity}
+                  </td>
+                  <td className="px-3 py-2 text-slate-500">
+                    {outage.hosts.join(", ") || "—"}
+                  </td>
+                  <td className="px-3 py-2">{formatDate(outage.openedAt)}</td>
+                  <td className="px-3 py-2">
+                    {outage.isOpen ? "Em aberto" : formatDate(outage.closedAt)}
+                  </td>
+                  <td className="px-3 py-2 text-right font-semibold text-slate-900">
+                    {formatDurationMinutes(outage.durationMinutes)}
+                  </td>
+                </tr>
+              ))}
+              {!summary.topOutages.length && (
+                <tr>
+                  <td
+                    colSpan={6}
+                    className="py-6 text-center text-sm text-slate-500"
+                  >
+                    Nenhuma queda registrada no período.
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </section>
+    </>
+  );
+}
+
+const CHART_WIDTH = 560;
+const CHART_HEIGHT = 220;
+const CHART_PADDING = { top: 12, right: 12, bottom: 28, left: 48 };
+
+function AvailabilityChart({
+  months,
+  targets,
+}: {
+  months: ExecutiveSummaryMonth[];
+  targets: ExecutiveSummary["targets"];
+}) {
+  const values = months.map((month) => month.metrics?.availabilityPct ?? null);
+  const lines = [
+    { value: targets.availabilityPct, color: "#0f172a", label: "Meta" },
+    {
+      value: targets.businessAvailabilityPct,
+      color: "#6366f1",
+      label: "Meta comercial",
+    },
+  ].filter((line): line is { value: number; color: string; label: string } =>
+    isNumber(line.value)
+  );
+  const known = [
+    ...values.filter(isNumber),
+    ...lines.map((line) => line.value),
+  ];
+  // Eixo começa perto do menor valor: diferenças de décimos precisam aparecer.
+  const min = known.length
+    ? Math.max(0, Math.floor(Math.min(...known) - 0.5))
+    : 0;
+  const scale = createScale(min, 100);
+  const slot = plotWidth() / Math.max(months.length, 1);
+
+  return (
+    <ChartFrame min={min} max={100} format={(value) => `${value}%`}>
+      {values.map((value, index) =>
+        value === null ? null : (
+          <rect
+            key={months[index].month}
+            x={CHART_PADDING.left + index * slot + slot * 0.2}
+            y={scale(value)}
+            width={slot * 0.6}
+            height={Math.max(
+              CHART_HEIGHT - CHART_PADDING.bottom - scale(value),
+              1
+            )}
+            rx={3}
+            fill={
+              lines.some((line) => value < line.value) ? "#fb7185" : "#34d399"
+            }
+          />
+        )
+      )}
+      {lines.map((line) => (
+        <g key={line.label}>
+          <line
+            x1={CHART_PADDING.left}
+            x2={CHART_WIDTH - CHART_PADDING.right}
+            y1={scale(line.value)}
+            y2={scale(line.value)}
+            stroke={line.color}
+            strokeDasharray="4 4"
+          />
+          <text
+            x={CHART_WIDTH - CHART_PADDING.right}
+            y={scale(line.value) - 4}
+            textAnchor="end"
+            fontSize={10}
+            fill={line.color}
+          >
+            {line.label} {line.value}%
+          </text>
+        </g>
+      ))}
+      <MonthLabels months={months} slot={slot} />
+    </ChartFrame>
+  );
+}
+
+function ResolutionChart({
+  months,
+  target,
+}: {
+  months: ExecutiveSummaryMonth[];
+  target: number | null;
+}) {
+  const values = months.map(
+    (month) => month.metrics?.resolutionMinutes ?? null
+  );
+  const max = Math.max(1, ...values.filter(isNumber), target ?? 0) * 1.1;
+  const scale = createScale(0, max);
+  const slot = plotWidth() / Math.max(months.length, 1);
+  const points = values
+    .map((value, index) =>
+      value === null
+        ? null
+        : {
+            x: CHART_PADDING.left + index * slot + slot / 2,
+            y: scale(value),
+            value,
+          }
+    )
+    .filter((point): point is { x: number; y: number; value: number } =>
+      Boolean(point)
+    );
+
+  return (
+    <ChartFrame min={0} max={max} format={(value) => formatMinutes(value)}>
+      {target !== null && (
+        <line
+          x1={CHART_PADDING.left}
+          x2={CHART_WIDTH - CHART_PADDING.right}
+          y1={scale(target)}
+          y2={scale(target)}
+          stroke="#0f172a"
+          strokeDasharray="4 4"
+        />
+      )}
+      <polyline
+        points={points.map((point) => `${point.x},${point.y}`).join(" ")}
+        fill="none"
+        stroke="#6366f1"
+        strokeWidth={2}
+      />
+      {points.map((point) => (
+        <g key={point.x}>
+          <circle
+            cx={point.x}
+            cy={point.y}
+            r={3.5}
+            fill={
+              target !== null && point.value > target ? "#e11d48" : "#6366f1"
+            }
+          />
+          <text
+            x={point.x}
+            y={point.y - 8}
+            textAnchor="middle"
+            fontSize={10}
+            fill="#475569"
+          >
+            {formatMinutes(point.value)}
+          </text>
+        </g>
+      ))}
+      <MonthLabels months={months} slot={slot} />
+    </ChartFrame>
+  );
+}
+
+function ChartFrame({
+  min,
+  max,
+  format,
+  children,
+}: {
+  min: number;
+  max: number;
+  format: (value: number) => string;
+  children: ReactNode;
+}) {
+  const scale = createScale(min, max);
+  const ticks = [0, 0.5, 1].map((ratio) => min + (max - min) * ratio);
+  return (
+    <svg
+      viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+      className="mt-4 h-auto w-full"
+      role="img"
+    >
+      {ticks.map((tick) => (
+        <g key={tick}>
+          <line
+            x1={CHART_PADDING.left}
+            x2={CHART_WIDTH - CHART_PADDING.right}
+            y1={scale(tick)}
+            y2={scale(tick)}
+            stroke="#e2e8f0"
+          />
+          <text
+            x={CHART_PADDING.left - 6}
+            y={scale(tick) + 3}
+            textAnchor="end"
+            fontSize={10}
+            fill="#94a3b8"
+          >
+            {format(Number(tick.toFixed(1)))}
+          </text>
+        </g>
+      ))}
+      {children}
+    </svg>
+  );
+}
+
+function MonthLabels({
+  months,
+  slot,
+}: {
+  months: ExecutiveSummaryMonth[];
+  slot: number;
+}) {
+  return (
+    <>
+      {months.map((month, index) => (
+        <text
+          key={month.month}
+          x={CHART_PADDING.left + index * slot + slot / 2}
+          y={CHART_HEIGHT - 10}
+          textAnchor="middle"
+          fontSize={10}
+          fill="#64748b"
+        >
+          {month.label.slice(0, 3)}
+        </text>
+      ))}
+    </>
+  );
+}
+
+function KpiCard({
+  label,
+  value,
+  hint,
+  breached = false,
+}: {
+  label: string;
+  value: string;
+  hint: string;
+  breached?: boolean;
+}) {
+  return (
+    <div className="rounded-3xl bg-white p-5 shadow-sm ring-1 ring-slate-200 break-inside-avoid print:rounded-xl print:p-3 print:shadow-none">
+      <p className="text-xs font-semibold uppercase tracking-wide text-slate-500">
+        {label}
+      </p>
+      <p
+        className={`mt-2 text-2xl font-semibold ${
+          breached ? "text-rose-600" : "text-slate-900"
+        }`}
+      >
+        {value}
+      </p>
+      <p className="mt-1 text-xs text-slate-400">{hint}</p>
+    </div>
+  );
+}
+
+function SlaBadge({ status }: { status: "met" | "breached" | null }) {
+  if (!status) return <span className="text-slate-400">—</span>;
+  return (
+    <span
+      className={`rounded-full px-2 py-0.5 text-xs font-semibold ${
+        status === "met"
+          ? "bg-emerald-50 text-emerald-700"
+          : "bg-rose-50 text-rose-700"
+      }`}
+    >
+      {status === "met" ? "Cumprido" : "Violado"}
+    </span>
+  );
+}
+
+function Field({ label, children }: { label: string; children: ReactNode }) {
+  return (
+    <label className="flex flex-col gap-2 text-xs font-semibold uppercase tracking-wide text-slate-500">
+      {label}
+      {children}
+    </label>
+  );
+}
+
+function createScale(min: number, max: number) {
+  const height = CHART_HEIGHT - CHART_PADDING.top - CHART_PADDING.bottom;
+  const span = max - min || 1;
+  return (value: number) =>
+    CHART_PADDING.top + height - ((Math.max(value, min) - min) / span) * height;
+}
+
+function plotWidth() {
+  return CHART_WIDTH - CHART_PADDING.left - CHART_PADDING.right;
+}
+
+function isNumber(value: number | null): value is number {
+  return value !== null && Number.isFinite(value);
+}
+
+function isBelow(value: number | null, target: number | null) {
+  return value !== null && target !== null && value < target;
+}
+
+function formatPercent(value: number | null) {
+  return value === null ? "—" : `${percentFormatter.format(value)}%`;
+}
+
+function formatDate(value: string | null) {
+  return value
+    ? formatInTimeZone(new Date(value), DEFAULT_TIMEZONE, "dd/MM/yyyy HH:mm")
+    : "—";
+}
+
+function capitalize(value: string) {
+  return value.charAt(0).toUpperCase() + value.slice(1);
+}
+
+function getFirst(value: string | string[] | undefined): string | undefined {
+  if (Array.isArray(value)) return value[0];
+  return value;
+}
@@ -5,9 +5,13 @@ import { useState } from "react";
 
 type Props = {
   targetId: string;
+  fileName?: string;
 };
 
-export function ExportDashboardButton({ targetId }: Props) {
+export function ExportDashboardButton({
+  targetId,
+  fileName = "group-alerts-dashboard",
+}: Props) {
   const [loading, setLoading] = useState(false);
 
   async function handleExport() {
@@ -23,7 +27,7 @@ export function ExportDashboardButton({ targetId }: Props) {
       });
       const link = document.createElement("a");
       link.href = dataUrl;
-      link.download = `cap-switches-dashboard-${new Date()
+      link.download = `${fileName}-${new Date()
         .toISOString()
         .slice(0, 10)}.png`;
       document.body.appendChild(link);
@@ -0,0 +1,161 @@
+"use client";
+
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { useState } from "react";
+import { Bookmark, Trash2 } from "lucide-react";
+import { GroupAlertReportDefinition } from "@/types/dashboard";
+
+type Props = {
+  definitions: GroupAlertReportDefinition[];
+  activeDefinitionId?: string;
+  current: {
+    groupId: string;
+    groupName: string | null;
+    from: string;
+    to: string;
+  } | null;
+};
+
+export function ReportDefinitionsPanel({
+  definitions,
+  activeDefinitionId,
+  current,
+}: Props) {
+  const router = useRouter();
+  const [name, setName] = useState("");
+  const [rolling, setRolling] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  async function handleSave() {
+    if (!current || !name.trim() || saving) return;
+    setSaving(true);
+    setError(null);
+    try {
+      const response = await fetch("/api/reports/group-alerts/definitions", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          name: name.trim(),
+          groupId: current.groupId,
+          groupName: current.groupName,
+          ...(rolling
+            ? { lastDays: countDays(current.from, current.to) }
+            : { from: current.from, to: current.to }),
+        }),
+      });
+      if (!response.ok) {
+        const payload = await response.json().catch(() => null);
+        throw new Error(payload?.error ?? response.statusText);
+      }
+      setName("");
+      router.refresh();
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : "Falha ao salvar o relatório."
+      );
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function handleDelete(id: string) {
+    setError(null);
+    try {
+      const response = await fetch(
+        `/api/reports/group-alerts/definitions/${id}`,
+        { method: "DELETE" }
+      );
+      if (!response.ok) {
+        const payload = await response.json().catch(() => null);
+        throw new Error(payload?.error ?? response.statusText);
+      }
+      router.refresh();
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : "Falha ao remover o relatório."
+      );
+    }
+  }
+
+  return (
+    <div className="space-y-4 rounded-3xl bg-white p-6 shadow-sm ring-1 ring-slate-200">
+      <p className="text-xs font-semibold uppercase tracking-[0.35em] text-slate-500">
+        Relatórios salvos
+      </p>
+      {definitions.length ? (
+        <ul className="space-y-2">
+          {definitions.map((definition) => (
+            <li
+              key={definition.id}
+              className={`flex items-center justify-between gap-3 rounded-2xl border px-4 py-2 text-sm ${
+                definition.id === activeDefinitionId
+                  ? "border-blue-200 bg-blue-50"
+                  : "border-slate-200"
+              }`}
+            >
+              <Link
+                href={`/reports/group-alerts?definition=${definition.id}`}
+                className="min-w-0 flex-1"
+              >
+                <span className="block truncate font-semibold text-slate-900">
+                  {definition.name}
+                </span>
+                <span className="block truncate text-xs text-slate-500">
+                  {definition.groupName ?? definition.groupId} ·{" "}
+                  {definition.lastDays
+                    ? `últimos ${definition.lastDays} dias`
+                    : `${definition.from} a ${definition.to}`}
+                </span>
+              </Link>
+              <button
+                type="button"
+                onClick={() => handleDelete(definition.id)}
+                className="rounded-xl p-2 text-slate-400 transition hover:bg-rose-50 hover:text-rose-600"
+                aria-label={`Remover ${definition.name}`}
+              >
+                <Trash2 className="h-4 w-4" aria-hidden />
+              </button>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-sm text-slate-500">Nenhum relatório salvo.</p>
+      )}
+      {current && (
+        <div className="space-y-2 border-t border-slate-100 pt-4">
+          <input
+            value={name}
+            onChange={(event) => setName(event.target.value)}
+            placeholder="Nome do relatório"
+            className="w-full rounded-2xl border border-slate-200 px-4 py-2 text-sm text-slate-900"
+          />
+          <label className="flex items-center gap-2 text-xs text-slate-600">
+            <input
+              type="checkbox"
+              checked={rolling}
+              onChange={(event) => setRolling(event.target.checked)}
+            />
+            Período móvel (últimos {countDays(current.from, current.to)} dias)
+          </label>
+          <button
+            type="button"
+            onClick={handleSave}
+            disabled={!name.trim() || saving}
+            className="inline-flex items-center gap-2 rounded-2xl border border-slate-200 px-4 py-2 text-sm font-semibold text-slate-700 transition hover:border-slate-300 hover:text-slate-900 disabled:cursor-not-allowed disabled:opacity-60"
+          >
+            <Bookmark className="h-4 w-4" aria-hidden />
+            {saving ? "Salvando..." : "Salvar definição"}
+          </button>
+        </div>
+      )}
+      {error && <p className="text-sm text-rose-600">{error}</p>}
+    </div>
+  );
+}
+
+function countDays(from: string, to: string) {
+  const diff = Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`);
+  return Math.max(1, Math.round(diff / (24 * 60 * 60 * 1000)) + 1);
+}
@@ -0,0 +1,248 @@
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import { formatInTimeZone } from "date-fns-tz";
+import { buildProxyDetail } from "@/lib/proxy-health";
+import { formatDurationMinutes } from "@/lib/time-format";
+import { ProxyStatusBadge } from "@/components/proxy-status-badge";
+import { ProxyDetailResponse } from "@/types/dashboard";
+
+export const dynamic = "force-dynamic";
+
+const DEFAULT_TIMEZONE = process.env.DASHBOARD_TIMEZONE ?? "America/Sao_Paulo";
+const numberFormatter = new Intl.NumberFormat("pt-BR");
+
+type PageProps = {
+  params: Promise<{ proxyid: string }>;
+};
+
+export default async function ProxyDetailPage({ params }: PageProps) {
+  const { proxyid } = await params;
+  if (!/^\d+$/.test(proxyid)) {
+    notFound();
+  }
+
+  let detail: ProxyDetailResponse | null = null;
+  let error: string | null = null;
+  try {
+    detail = await buildProxyDetail(proxyid);
+  } catch (loadError) {
+    console.error("[proxies] Failed to build proxy detail", loadError);
+    error =
+      loadError instanceof Error
+        ? loadError.message
+        : "Não foi possível carregar o detalhe do proxy.";
+  }
+  if (!detail && !error) {
+    notFound();
+  }
+
+  const formatDate = (value: string | null) =>
+    value
+      ? formatInTimeZone(new Date(value), DEFAULT_TIMEZONE, "dd/MM HH:mm")
+      : "—";
+  const proxy = detail?.proxy;
+
+  return (
+    <main className="min-h-screen bg-slate-100 py-10">
+      <div className="mx-auto w-full max-w-6xl space-y-8 px-4 sm:px-6 lg:px-12">
+        <header className="flex flex-wrap items-start justify-between gap-6 rounded-3xl bg-white p-6 shadow-sm ring-1 ring-slate-200">
+          <div>
+            <p className="text-xs font-semibold uppercase tracking-[0.4em] text-slate-500">
+              Proxy monitorado
+            </p>
+            <h1 className="mt-2 text-3xl font-semibold text-slate-900">
+              {proxy?.name ?? `Proxy ${proxyid}`}
+            </h1>
+            {proxy && (
+              <p className="mt-2 flex flex-wrap items-center gap-2 text-sm text-slate-500">
+                <ProxyStatusBadge status={proxy.lastSeenStatus} />
+                Modo {proxy.mode === "active" ? "ativo" : "passivo"} · último
+                contato {formatDate(proxy.lastSeenAt)}
+              </p>
+            )}
+          </div>
+          <div className="flex flex-wrap gap-3">
+            <a
+              href={`/api/proxies/${proxyid}`}
+              className="rounded-2xl bg-slate-900 px-6 py-3 text-sm font-semibold text-white transition hover:bg-slate-800"
+              target="_blank"
+              rel="noreferrer"
+            >
+              Baixar JSON
+            </a>
+            <Link
+              href="/reports/proxies"
+              className="rounded-2xl border border-slate-200 px-6 py-3 text-sm font-semibold text-slate-600 transition hover:text-slate-900"
+            >
+              Todos os proxies
+            </Link>
+          </div>
+        </header>
+
+        {error && (
+          <div className="rounded-2xl border border-rose-200 bg-rose-50 p-4 text-sm text-rose-600">
+            {error}
+          </div>
+        )}
+
+        {detail && proxy && (
+          <>
+            {proxy.massOutage && (
+              <div className="rounded-3xl border border-rose-200 bg-rose-50 p-5 text-sm font-medium text-rose-700">
+                Todos os {proxy.massOutage.hostCount} hosts ativos ficaram
+                inalcançáveis a partir de {formatDate(proxy.massOutage.since)}{" "}
+                (em até {detail.outageWindowMinutes} min). Verifique o proxy e o
+                link até ele antes dos hosts.
+              </div>
+            )}
+
+            <section className="grid gap-4 sm:grid-cols-3 xl:grid-cols-6">
+              {[
+                { label: "Hosts", value: proxy.hostCount },
+                { label: "Ativos", value: proxy.activeHostCount },
+                { label: "Desabilitados", value: proxy.disabledHostCount },
+                { label: "Itens (hosts ativos)", value: proxy.itemCount },
+                { label: "Inalcançáveis", value: proxy.unreachableHostCount },
+                { label: "Problemas em aberto", value: proxy.openProblemCount },
+              ].map((card) => (
+                <div
+                  key={card.label}
+                  className="rounded-3xl bg-white p-5 shadow-sm ring-1 ring-slate-200"
+                >
+                  <p className="text-xs font-semibold uppercase tracking-widest text-slate-400">
+                    {card.label}
+                  </p>
+                  <p className="mt-2 text-2xl font-semibold text-slate-900">
+                    {numberFormatter.format(card.value)}
+                  </p>
+                </div>
+              ))}
+            </section>
+
+            <section className="rounded-3xl bg-white p-6 shadow-sm ring-1 ring-slate-200">
+              <h2 className="text-xl font-semibold text-slate-900">
+                Hosts monitorados
+              </h2>
+              <div className="mt-4 overflow-x-auto">
+                <table className="min-w-full divide-y divide-slate-200 text-sm">
+                  <thead>
+                    <tr className="text-left text-xs font-semibold uppercase tracking-wider text-slate-500">
+                      <th className="py-2 pr-4">Host</th>
+                      <th className="px-4 py-2">Apelido / descrição</th>
+                      <th className="px-4 py-2">Grupos</th>
+                      <th className="px-4 py-2">Status</th>
+                      <th className="px-4 py-2">Inalcançável desde</th>
+                      <th className="px-4 py-2 text-right">Itens</th>
+                      <th className="px-4 py-2 text-right">Problemas</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-slate-100 text-slate-700">
+                    {detail.hosts.map((host) => (
+                      <tr
+                        key={host.hostid}
+                        className={
+                          host.active ? "" : "text-slate-400 opacity-80"
+                        }
+                      >
+                        <td className="py-3 pr-4 font-medium text-slate-900">
+                          <Link
+                            href={`/hosts/${host.hostid}`}
+                            className="hover:underline"
+                          >
+                            {host.name}
+                          </Link>
+                        </td>
+                        <td className="px-4 py-3 text-slate-500">
+                          {host.alias ?? "—"}
+                        </td>
+                        <td className="px-4 py-3 text-slate-500">
+                          {host.groups.join(", ") || "—"}
+                        </td>
+                        <td className="px-4 py-3">
+                          {host.active ? "Ativo" : "Desabilitado"}
+                        </td>
+                        <td
+                          className={`px-4 py-3 ${
+                            host.unreachableSince
+                              ? "font-semibold text-rose-600"
+                              : ""
+                          }`}
+                        >
+                          {formatDate(host.unreachableSince)}
+                        </td>
+                        <td className="px-4 py-3 text-right">
+                          {numberFormatter.format(host.itemCount)}
+                        </td>
+                        <td className="px-4 py-3 text-right font-semibold text-slate-900">
+                          {numberFormatter.format(host.openProblemCount)}
+                        </td>
+                      </tr>
+                    ))}
+                    {!detail.hosts.length ? (
+                      <tr>
+                        <td
+                          colSpan={7}
+                          className="py-8 text-center text-sm text-slate-500"
+                        >
+                          Nenhum host monitorado pelo proxy {proxy.name}.
+                        </td>
+                      </tr>
+                    ) : null}
+                  </tbody>
+                </table>
+              </div>
+            </section>
+
+            <section className="rounded-3xl bg-white p-6 shadow-sm ring-1 ring-slate-200">
+              <h2 className="text-xl font-semibold text-slate-900">
+                Problemas em aberto nos hosts do proxy
+              </h2>
+              {detail.openProblems.length ? (
+                <div className="mt-4 overflow-x-auto">
+                  <table className="min-w-full divide-y divide-slate-200 text-sm">
+                    <thead>
+                      <tr className="text-left text-xs font-semibold uppercase tracking-wider text-slate-500">
+                        <th className="py-2 pr-4">Severidade</th>
+                        <th className="px-4 py-2">Problema</th>
+                        <th className="px-4 py-2">Hosts</th>
+                        <th className="px-4 py-2">Aberto em</th>
+                        <th className="px-4 py-2">Duração</th>
+                        <th className="px-4 py-2">ACK</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-slate-100 text-slate-700">
+                      {detail.openProblems.map((problem) => (
+                        <tr key={problem.eventId}>
+                          <td className="py-3 pr-4 font-semibold">
+                            {problem.severityLabel}
+                          </td>
+                          <td className="px-4 py-3">{problem.name}</td>
+                          <td className="px-4 py-3">
+                            {problem.hosts.map((host) => host.name).join(", ")}
+                          </td>
+                          <td className="px-4 py-3">
+                            {formatDate(problem.openedAt)}
+                          </td>
+                          <td className="px-4 py-3">
+                            {formatDurationMinutes(problem.durationMinutes)}
+                          </td>
+                          <td className="px-4 py-3">
+                            {problem.acknowledged ? "Sim" : "Não"}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              ) : (
+                <p className="mt-4 text-sm text-slate-500">
+                  Nenhum problema em aberto nos hosts deste proxy.
+                </p>
+              )}
+            </section>
+          </>
+        )}
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,212 @@
+import Link from "next/link";
+import { formatInTimeZone } from "date-fns-tz";
+import { buildProxyHealth } from "@/lib/proxy-health";
+import { ProxyStatusBadge } from "@/components/proxy-status-badge";
+import { ProxyHealthResponse } from "@/types/dashboard";
+
+export const dynamic = "force-dynamic";
+
+const DEFAULT_TIMEZONE = process.env.DASHBOARD_TIMEZONE ?? "America/Sao_Paulo";
+const numberFormatter = new Intl.NumberFormat("pt-BR");
+
+export default async function ProxiesPage() {
+  let health: ProxyHealthResponse | null = null;
+  let errorMessage: string | null = null;
+  try {
+    health = await buildProxyHealth();
+  } catch (error) {
+    console.error("[proxies] Failed to build proxy health", error);
+    errorMessage =
+      error instanceof Error
+        ? error.message
+        : "Não foi possível carregar os proxies.";
+  }
+
+  const formatDate = (value: string | null) =>
+    value
+      ? formatInTimeZone(new Date(value), DEFAULT_TIMEZONE, "dd/MM HH:mm")
+      : "—";
+  const outages = health?.proxies.filter((proxy) => proxy.massOutage) ?? [];
+
+  return (
+    <main className="min-h-screen bg-slate-100 py-10">
+      <div className="mx-auto w-full max-w-7xl space-y-8 px-4 sm:px-6 lg:px-12">
+        <header className="flex flex-wrap items-start justify-between gap-6 rounded-3xl bg-white p-6 shadow-sm ring-1 ring-slate-200">
+          <div>
+            <p className="text-xs font-semibold uppercase tracking-[0.4em] text-slate-500">
+              Inventário de Proxies
+            </p>
+            <h1 className="mt-2 text-3xl font-semibold text-slate-900">
+              Saúde dos proxies Zabbix
+            </h1>
+            <p className="mt-1 max-w-2xl text-sm text-slate-500">
+              Hosts, itens, último contato e problemas em aberto de cada proxy.
+              {health &&
+                ` Sem contato após ${health.staleAfterMinutes} min; queda em massa quando todos os hosts ativos ficam inalcançáveis em até ${health.outageWindowMinutes} min.`}
+            </p>
+          </div>
+          <div className="flex flex-wrap gap-3">
+            <a
+              href="/api/proxies"
+              className="rounded-2xl bg-slate-900 px-6 py-3 text-sm font-semibold text-white transition hover:bg-slate-800"
+              target="_blank"
+              rel="noreferrer"
+            >
+              Baixar JSON
+            </a>
+            <Link
+              href="/"
+              className="rounded-2xl border border-slate-200 px-6 py-3 text-sm font-semibold text-slate-600 transition hover:text-slate-900"
+            >
+              Voltar ao dashboard
+            </Link>
+          </div>
+        </header>
+
+        {errorMessage && (
+          <div className="rounded-2xl border border-rose-200 bg-rose-50 p-4 text-sm text-rose-600">
+            {errorMessage}
+          </div>
+        )}
+
+        {health && (
+          <>
+            <section className="grid gap-4 sm:grid-cols-3 xl:grid-cols-6">
+              {[
+                { label: "Proxies", value: health.totals.proxies },
+                { label: "Sem contato", value: health.totals.stale },
+                { label: "Quedas em massa", value: health.totals.massOutages },
+                { label: "Hosts", value: health.totals.hosts },
+                { label: "Itens (hosts ativos)", value: health.totals.items },
+                {
+                  label: "Problemas em aberto",
+                  value: health.totals.openProblems,
+                },
+              ].map((card) => (
+                <div
+                  key={card.label}
+                  className="rounded-3xl bg-white p-5 shadow-sm ring-1 ring-slate-200"
+                >
+                  <p className="text-xs font-semibold uppercase tracking-widest text-slate-400">
+                    {card.label}
+                  </p>
+                  <p className="mt-2 text-2xl font-semibold text-slate-900">
+                    {numberFormatter.format(card.value)}
+                  </p>
+                </div>
+              ))}
+            </section>
+
+            {outages.length > 0 && (
+              <section className="space-y-2 rounded-3xl border border-rose-200 bg-rose-50 p-5 text-sm text-rose-700">
+                <p className="font-semibold">
+                  Possível queda de proxy: todos os hosts inalcançáveis ao mesmo
+                  tempo
+                </p>
+                <ul className="space-y-1">
+                  {outages.map((proxy) => (
+                    <li key={proxy.proxyid}>
+                      <Link
+                        href={`/reports/proxies/${proxy.proxyid}`}
+                        className="font-semibold underline"
+                      >
+                        {proxy.name}
+                      </Link>{" "}
+                      — {proxy.massOutage?.hostCount} hosts desde{" "}
+                      {formatDate(proxy.massOutage?.since ?? null)}
+                    </li>
+                  ))}
+                </ul>
+              </section>
+            )}
+
+            <section className="rounded-3xl bg-white p-6 shadow-sm ring-1 ring-slate-200">
+              <div className="overflow-x-auto">
+                <table className="min-w-full divide-y divide-slate-200 text-sm">
+                  <thead>
+                    <tr className="text-left text-xs font-semibold uppercase tracking-wider text-slate-500">
+                      <th className="py-2 pr-4">Proxy</th>
+                      <th className="px-4 py-2">Modo</th>
+                      <th className="px-4 py-2">Último contato</th>
+                      <th className="px-4 py-2 text-right">Hosts</th>
+                      <th className="px-4 py-2 text-right">Ativos</th>
+                      <th className="px-4 py-2 text-right">Desabilitados</th>
+                      <th className="px-4 py-2 text-right">Itens</th>
+                      <th className="px-4 py-2 text-right">Inalcançáveis</th>
+                      <th className="px-4 py-2 text-right">
+                        Problemas em aberto
+                      </th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-slate-100 text-slate-700">
+                    {health.proxies.map((proxy) => (
+                      <tr
+                        key={proxy.proxyid}
+                        className={
+                          proxy.massOutage
+                            ? "bg-rose-50/60"
+                            : "transition hover:bg-slate-50/60"
+                        }
+                      >
+                        <td className="py-3 pr-4 font-medium text-slate-900">
+                          <Link
+                            href={`/reports/proxies/${proxy.proxyid}`}
+                            className="hover:underline"
+                          >
+                            {proxy.name}
+                          </Link>
+                          {proxy.massOutage && (
+                            <span className="ml-2 rounded-full bg-rose-600 px-2 py-0.5 text-xs font-semibold text-white">
+                              Queda em massa
+                            </span>
+                          )}
+                        </td>
+                        <td className="px-4 py-3">
+                          {proxy.mode === "active" ? "Ativo" : "Passivo"}
+                        </td>
+                        <td className="px-4 py-3">
+                          <ProxyStatusBadge status={proxy.lastSeenStatus} />{" "}
+                          <span className="text-slate-500">
+                            {formatDate(proxy.lastSeenAt)}
+                          </span>
+                        </td>
+                        <td className="px-4 py-3 text-right">
+                          {numberFormatter.format(proxy.hostCount)}
+                        </td>
+                        <td className="px-4 py-3 text-right">
+                          {numberFormatter.format(proxy.activeHostCount)}
+                        </td>
+                        <td className="px-4 py-3 text-right">
+                          {numberFormatter.format(proxy.disabledHostCount)}
+                        </td>
+                        <td className="px-4 py-3 text-right">
+                          {numberFormatter.format(proxy.itemCount)}
+                        </td>
+                        <td className="px-4 py-3 text-right">
+                          {numberFormatter.format(proxy.unreachableHostCount)}
+                        </td>
+                        <td className="px-4 py-3 text-right font-semibold text-slate-900">
+                          {numberFormatter.format(proxy.openProblemCount)}
+                        </td>
+                      </tr>
+                    ))}
+                    {!health.proxies.length ? (
+                      <tr>
+                        <td
+                          colSpan={9}
+                          className="py-8 text-center text-sm text-slate-500"
+                        >
+                          Nenhum proxy cadastrado no Zabbix.
+                        </td>
+                      </tr>
+                    ) : null}
+                  </tbody>
+                </table>
+              </div>
+            </section>
+          </>
+        )}
+      </div>
+    </main>
+  );
+}
@@ -2,8 +2,10 @@ import Link from "next/link";
 import { format } from "date-fns";
 import { ptBR } from "date-fns/locale";
 import { buildReachabilityReport } from "@/lib/reachability-report";
+import { readPeriodQuery } from "@/lib/periods";
 import { getZabbixBaseUrl } from "@/lib/zabbix";
 import { formatDurationMinutes } from "@/lib/time-format";
+import { PeriodQuery } from "@/types/dashboard";
 
 export const dynamic = "force-dynamic";
 
@@ -18,6 +20,10 @@ export default async function ReachabilityAlertsPage({
   const groupId = getFirst(resolvedParams?.groupId);
   const month =
     getFirst(resolvedParams?.month) ?? new Date().toISOString().slice(0, 7);
+  const period: PeriodQuery = {
+    ...readPeriodQuery((key) => getFirst(resolvedParams?.[key])),
+    month,
+  };
   const windowParam = getFirst(resolvedParams?.window);
   const window = windowParam === "overall" ? "overall" : "business";
   const scopeParam = getFirst(resolvedParams?.scope);
@@ -65,7 +71,7 @@ export default async function ReachabilityAlertsPage({
       groupId: isAllScope ? undefined : groupId ?? undefined,
       groupIds,
       scope: isAllScope ? "all" : "group",
-      month,
+      period,
       window,
       page,
       pageSize,
@@ -120,14 +126,27 @@ export default async function ReachabilityAlertsPage({
                 href={buildExportHref({
                   groupId: isAllScope ? undefined : groupId ?? undefined,
                   groupIds,
-                  month,
+                  period,
                   window,
                   scope: isAllScope ? "all" : "group",
+                  format: "xlsx",
                 })}
                 className="rounded-2xl border border-emerald-200 bg-emerald-600 px-5 py-3 text-sm font-semibold text-white shadow-sm transition hover:bg-emerald-500"
               >
                 Exportar Excel
               </a>
+              <a
+                href={buildExportHref({
+                  groupId: isAllScope ? undefined : groupId ?? undefined,
+                  groupIds,
+                  period,
+                  window,
+                  scope: isAllScope ? "all" : "group",
+                })}
+                className="rounded-2xl border border-slate-200 px-5 py-3 text-sm font-semibold text-slate-600 transition hover:text-slate-900"
+              >
+                CSV
+              </a>
               <Link
                 href="/"
                 className="rounded-2xl border border-slate-200 px-5 py-3 text-sm font-semibold text-slate-600 transition hover:text-slate-900"
@@ -291,7 +310,7 @@ export default async function ReachabilityAlertsPage({
                   href={buildPageHref({
                     groupId: isAllScope ? undefined : groupId ?? undefined,
                     groupIds,
-                    month,
+                    period,
                     window,
                     scope: isAllScope ? "all" : "group",
                     page: Math.max(1, report.page - 1),
@@ -309,7 +328,7 @@ export default async function ReachabilityAlertsPage({
                   href={buildPageHref({
                     groupId: isAllScope ? undefined : groupId ?? undefined,
                     groupIds,
-                    month,
+                    period,
                     window,
                     scope: isAllScope ? "all" : "group",
                     page: Math.min(report.pages, report.page + 1),
@@ -331,7 +350,7 @@ export default async function ReachabilityAlertsPage({
                     href={buildPageHref({
                       groupId: isAllScope ? undefined : groupId ?? undefined,
                       groupIds,
-                      month,
+                      period,
                       window,
                       scope: isAllScope ? "all" : "group",
                       page: number,
@@ -386,7 +405,7 @@ function buildPageNumbers(page: number, total: number): number[] {
 function buildPageHref(params: {
   groupId?: string;
   groupIds?: string[];
-  month: string;
+  period: PeriodQuery;
   window: "business" | "overall";
   scope?: "group" | "all";
   page: number;
@@ -402,7 +421,9 @@ function buildPageHref(params: {
   if (params.scope === "all") {
     search.set("scope", "all");
   }
-  search.set("month", params.month);
+  for (const [key, value] of Object.entries(params.period)) {
+    if (value) search.set(key, value);
+  }
   search.set("window", params.window);
   search.set("page", String(params.page));
   search.set("pageSize", String(params.pageSize));
@@ -412,9 +433,10 @@ function buildPageHref(params: {
 function buildExportHref(params: {
   groupId?: string;
   groupIds?: string[];
-  month: string;
+  period: PeriodQuery;
   window: "business" | "overall";
   scope?: "group" | "all";
+  format?: "csv" | "xlsx";
 }) {
   const search = new URLSearchParams();
   if (params.groupId) {
@@ -426,8 +448,13 @@ function buildExportHref(params: {
   if (params.scope === "all") {
     search.set("scope", "all");
   }
-  search.set("month", params.month);
+  for (const [key, value] of Object.entries(params.period)) {
+    if (value) search.set(key, value);
+  }
   search.set("window", params.window);
+  if (params.format === "xlsx") {
+    search.set("format", "xlsx");
+  }
   return `/api/reports/reachability-alerts?${search.toString()}`;
 }
 
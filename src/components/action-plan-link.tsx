@@ -0,0 +1,28 @@
+import Link from "next/link";
+import { ClipboardList } from "lucide-react";
+import { CriticalAlertHighlight } from "@/types/dashboard";
+
+/** Abre o /5w2h com o item já vinculado ao evento e ao host group do incidente. */
+export function ActionPlanLink({ alert }: { alert: CriticalAlertHighlight }) {
+  const params = new URLSearchParams({
+    eventId: alert.eventId,
+    what: `Tratar causa: ${alert.name}`,
+    why: `Incidente #${alert.eventId} aberto em ${new Date(
+      alert.openedAt
+    ).toLocaleString("pt-BR")}`,
+    where: alert.hostNames.join(", "),
+  });
+  if (alert.groupIds[0]) {
+    params.set("groupId", alert.groupIds[0]);
+  }
+
+  return (
+    <Link
+      href={`/5w2h?${params.toString()}`}
+      className="inline-flex items-center gap-1 rounded-2xl border border-slate-200 px-3 py-1 text-xs font-semibold text-slate-600 transition hover:border-slate-300 hover:text-slate-900"
+    >
+      <ClipboardList className="h-3.5 w-3.5" />
+      Criar 5W2H
+    </Link>
+  );
+}
@@ -0,0 +1,152 @@
+"use client";
+
+import { FormEvent, useState } from "react";
+import { AlertVerdict, AlertVerdictCode } from "@/types/dashboard";
+
+const VERDICT_OPTIONS: Array<{
+  code: AlertVerdictCode;
+  short: string;
+  label: string;
+  className: string;
+}> = [
+  {
+    code: "tp",
+    short: "TP",
+    label: "Verdadeiro positivo",
+    className: "bg-emerald-50 text-emerald-700 ring-emerald-100",
+  },
+  {
+    code: "fp",
+    short: "FP",
+    label: "Falso positivo",
+    className: "bg-rose-50 text-rose-700 ring-rose-100",
+  },
+  {
+    code: "fn",
+    short: "FN",
+    label: "Falso negativo",
+    className: "bg-indigo-50 text-indigo-700 ring-indigo-100",
+  },
+];
+
+type Props = {
+  eventId: string;
+  verdict: AlertVerdict | null;
+};
+
+/** Registra o veredito TP/FP/FN do evento no Zabbix (mensagem de ACK). */
+export function AlertVerdictControl({ eventId, verdict: initial }: Props) {
+  const [verdict, setVerdict] = useState<AlertVerdict | null>(initial);
+  const [draft, setDraft] = useState<AlertVerdictCode | null>(null);
+  const [reason, setReason] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const current = VERDICT_OPTIONS.find(
+    (option) => option.code === verdict?.verdict
+  );
+  const reasonRequired = draft === "fp" || draft === "fn";
+
+  function startDraft(code: AlertVerdictCode) {
+    setDraft(code);
+    setReason(verdict?.verdict === code ? verdict.reason ?? "" : "");
+    setError(null);
+  }
+
+  async function handleSubmit(event: FormEvent) {
+    event.preventDefault();
+    if (!draft || saving) return;
+    if (reasonRequired && reason.trim().length < 3) {
+      setError("Informe o motivo.");
+      return;
+    }
+
+    try {
+      setSaving(true);
+      setError(null);
+      const response = await fetch(
+        `/api/alerts/${encodeURIComponent(eventId)}/verdict`,
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ verdict: draft, reason: reason.trim() }),
+        }
+      );
+      const payload = await response.json().catch(() => null);
+      if (!response.ok) {
+        throw new Error(payload?.error ?? "Falha ao registrar o veredito.");
+      }
+      setVerdict(payload.verdict as AlertVerdict);
+      setDraft(null);
+      setReason("");
+    } catch (submitError) {
+      setError(
+        submitError instanceof Error
+          ? submitError.message
+          : "Não foi possível registrar o veredito."
+      );
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <div className="space-y-2 text-xs">
+      <div className="flex flex-wrap items-center gap-2">
+        {current ? (
+          <span
+            title={verdict?.reason ?? current.label}
+            className={`inline-flex rounded-full px-2 py-0.5 font-semibold ring-1 ${current.className}`}
+          >
+            {current.short}
+          </span>
+        ) : (
+          <span className="text-slate-400">Sem veredito</span>
+        )}
+        {VERDICT_OPTIONS.map((option) => (
+          <button
+            key={option.code}
+            type="button"
+            title={option.label}
+            onClick={() => startDraft(option.code)}
+            disabled={saving}
+            className={`rounded-full px-2 py-0.5 font-semibold transition ${
+              draft === option.code
+                ? "bg-slate-900 text-white"
+                : "bg-slate-100 text-slate-600 hover:bg-slate-200"
+            } disabled:cursor-not-allowed disabled:opacity-60`}
+          >
+            {option.short}
+          </button>
+        ))}
+      </div>
+      {draft && (
+        <form onSubmit={handleSubmit} className="flex flex-wrap gap-2">
+          <input
+            type="text"
+            value={reason}
+            onChange={(event) => setReason(event.target.value)}
+            maxLength={500}
+            placeholder={reasonRequired ? "Motivo (obrigatório)" : "Motivo"}
+            className="min-w-[12rem] flex-1 rounded-xl border border-slate-200 px-3 py-1 text-xs text-slate-700 focus:border-slate-400 focus:outline-none"
+          />
+          <button
+            type="submit"
+            disabled={saving}
+            className="rounded-xl bg-slate-900 px-3 py-1 font-semibold text-white transition hover:bg-slate-700 disabled:cursor-not-allowed disabled:opacity-60"
+          >
+            {saving ? "Salvando..." : "Salvar"}
+          </button>
+          <button
+            type="button"
+            onClick={() => setDraft(null)}
+            className="rounded-xl px-2 py-1 font-semibold text-slate-500 hover:text-slate-800"
+          >
+            Cancelar
+          </button>
+        </form>
+      )}
+      {error && <p className="text-rose-600">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,64 @@
+"use client";
+
+import { useState } from "react";
+import { FileDown } from "lucide-react";
+
+type Props = {
+  month: string;
+  groupId: string;
+};
+
+export function ClientReportButton({ month, groupId }: Props) {
+  const [loading, setLoading] = useState(false);
+
+  async function handleDownload() {
+    if (loading) return;
+
+    try {
+      setLoading(true);
+      const response = await fetch("/api/reports/client", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ month, groupId }),
+      });
+      if (!response.ok) {
+        const payload = await response.json().catch(() => null);
+        throw new Error(payload?.error ?? "Falha ao gerar o relatório.");
+      }
+      const blob = await response.blob();
+      const disposition = response.headers.get("Content-Disposition") ?? "";
+      const fileName =
+        disposition.match(/filename="([^"]+)"/)?.[1] ??
+        `relatorio-${month}.pdf`;
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = fileName;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error("Failed to download client report", error);
+      alert(
+        error instanceof Error
+          ? error.message
+          : "Não foi possível gerar o relatório agora."
+      );
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  return (
+    <button
+      type="button"
+      onClick={handleDownload}
+      disabled={loading}
+      className="inline-flex items-center gap-2 rounded-2xl border border-slate-200 px-5 py-3 text-sm font-semibold text-slate-600 transition hover:text-slate-900 disabled:cursor-not-allowed disabled:opacity-60"
+    >
+      <FileDown className="h-4 w-4" />
+      {loading ? "Gerando PDF..." : "Relatório mensal (PDF)"}
+    </button>
+  );
+}
@@ -18,7 +18,7 @@ export function AccuracyCard({ accuracy }: AccuracyCardProps) {
             Falsos Positivos/Negativos
           </p>
           <p className="text-sm text-slate-500">
-            Classificação baseada em tags e comentários dos incidentes.
+            Vereditos TP/FP/FN registrados pelos operadores no Zabbix.
           </p>
         </div>
       </div>
@@ -35,6 +35,13 @@ export function AccuracyCard({ accuracy }: AccuracyCardProps) {
           <dt className="font-semibold text-emerald-600">Precisão do Sistema</dt>
           <dd>{accuracy.precisionPct.toFixed(1)}%</dd>
         </div>
+        <div className="flex items-center justify-between rounded-2xl bg-slate-50 px-4 py-2">
+          <dt className="font-semibold text-slate-600">Cobertura</dt>
+          <dd>
+            {accuracy.coveragePct.toFixed(1)}% ({accuracy.classifiedAlerts}/
+            {accuracy.totalAlerts} alertas)
+          </dd>
+        </div>
       </dl>
     </div>
   );
@@ -22,6 +22,7 @@ import {
   Timer,
 } from "lucide-react";
 import {
+  AvailabilityForecast,
   AvailabilityInsights,
   OpenProblemDetail,
   CriticalAlertHighlight,
@@ -31,9 +32,28 @@ import {
   HostGroupOption,
   SeveritySummary,
   GroupAlertDetail,
+  SlaEvaluation,
+  SlaTargetKey,
+  SlaTargets,
 } from "@/types/dashboard";
+import { AlertVerdictControl } from "@/components/alert-verdict-control";
+import { ClientReportButton } from "@/components/client-report-button";
+import { PortalLinkButton } from "@/components/portal-link-button";
+import { ActionPlanLink } from "@/components/action-plan-link";
+import { XlsxExportButton } from "@/components/xlsx-export-button";
 import { SeverityTable } from "@/components/severity-table";
+import { TrendPanel } from "@/components/trend-panel";
 import { sumContractedHostsByName } from "@/lib/contracted-hosts";
+import {
+  buildAvailabilityInsightsSheets,
+  buildCriticalAlertsSheet,
+  buildExportMetadata,
+  buildGroupAlertDetailsSheet,
+  buildGroupSummarySheet,
+  buildHostRosterSheet,
+  buildHostsSheet,
+  buildOpenProblemsSheet,
+} from "@/lib/table-export";
 
 const MONTH_OPTIONS = buildMonthOptions(12);
 const FILTER_STORAGE_KEY = "noc-dashboard:filters";
@@ -96,7 +116,8 @@ const FILTER_SELECT_CLASS =
 const DROPDOWN_INPUT_CLASS =
   "w-full rounded-2xl border border-slate-200 bg-white/80 px-3 py-2 text-sm text-slate-900 placeholder:text-slate-400 shadow-sm transition focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-100";
 
-export function GlobalOverview() {
+/** `restricted`: visão de cliente, sem os atalhos para telas exclusivas do NOC. */
+export function GlobalOverview({ restricted = false }: { restricted?: boolean }) {
   const [month, setMonth] = useState(MONTH_OPTIONS[0]?.value ?? "");
   const [hostGroups, setHostGroups] = useState<HostGroupOption[]>([]);
   const [selectedGroups, setSelectedGroups] = useState<string[]>([]);
@@ -527,6 +548,18 @@ export function GlobalOverview() {
       groupData?.severitySummary ??
       null;
   const zabbixBaseUrl = groupData?.meta?.zabbixBaseUrl ?? null;
+  const slaTargets = isSingleGroupMode
+    ? singleGroupData?.sla?.targets ?? null
+    : isSingleGroupSelection
+    ? groupData?.groups.find((group) => group.groupid === selectedGroups[0])
+        ?.sla?.targets ?? null
+    : groupData?.sla?.targets ?? null;
+  const forecast = isSingleGroupMode
+    ? singleGroupData?.forecast ?? null
+    : isSingleGroupSelection
+    ? groupData?.groups.find((group) => group.groupid === selectedGroups[0])
+        ?.forecast ?? null
+    : groupData?.forecast ?? null;
 
   const severityContext = useMemo(() => {
     const periodRange = buildPeriodRangeLabel(month);
@@ -610,17 +643,67 @@ export function GlobalOverview() {
           </div>
           <div className="flex flex-wrap gap-3">
             <Link
-              href="/reports/cap-switches-alerts"
+              href={
+                selectedGroups.length === 1
+                  ? `/reports/group-alerts?groupId=${selectedGroups[0]}`
+                  : "/reports/group-alerts"
+              }
               className="inline-flex items-center rounded-2xl border border-slate-200 px-5 py-3 text-sm font-semibold text-slate-600 transition hover:text-slate-900"
             >
-              Relatório CAP Switches
+              Relatório de alertas por grupo
             </Link>
             <Link
-              href="/open-problems"
-              className="inline-flex items-center rounded-2xl bg-rose-600 px-5 py-3 text-sm font-semibold text-white shadow-sm transition hover:bg-rose-500"
+              href={
+                selectedGroups.length === 1
+                  ? `/reports/executive-summary?groupId=${selectedGroups[0]}`
+                  : "/reports/executive-summary"
+              }
+              className="inline-flex items-center rounded-2xl border border-slate-200 px-5 py-3 text-sm font-semibold text-slate-600 transition hover:text-slate-900"
             >
-              Ver problemas em aberto
+              Resumo executivo
             </Link>
+            {!restricted && (
+              <Link
+                href={
+                  selectedGroups.length === 1
+                    ? `/reports/alert-noise?groupId=${selectedGroups[0]}`
+                    : "/reports/alert-noise"
+                }
+                className="inline-flex items-center rounded-2xl border border-slate-200 px-5 py-3 text-sm font-semibold text-slate-600 transition hover:text-slate-900"
+              >
+                Ruído de alertas
+              </Link>
+            )}
+            {!restricted && (
+              <Link
+                href="/reports/proxies"
+                className="inline-flex items-center rounded-2xl border border-slate-200 px-5 py-3 text-sm font-semibold text-slate-600 transition hover:text-slate-900"
+              >
+                Proxies
+              </Link>
+            )}
+            {!restricted && (
+              <Link
+                href={`/reports/error-budget?month=${month}`}
+                className="inline-flex items-center rounded-2xl border border-slate-200 px-5 py-3 text-sm font-semibold text-slate-600 transition hover:text-slate-900"
+              >
+                Orçamento de erro
+              </Link>
+            )}
+            {selectedGroups.length === 1 && (
+              <ClientReportButton month={month} groupId={selectedGroups[0]} />
+            )}
+            {selectedGroups.length === 1 && !restricted && (
+              <PortalLinkButton groupId={selectedGroups[0]} />
+            )}
+            {!restricted && (
+              <Link
+                href="/open-problems"
+                className="inline-flex items-center rounded-2xl bg-rose-600 px-5 py-3 text-sm font-semibold text-white shadow-sm transition hover:bg-rose-500"
+              >
+                Ver problemas em aberto
+              </Link>
+            )}
           </div>
         </div>
         <div className="rounded-3xl border border-slate-200 bg-slate-50/80 p-5 shadow-sm ring-1 ring-white/60">
@@ -732,7 +815,13 @@ export function GlobalOverview() {
         </button>
       </div>
 
-      <DisasterAlertHighlights alerts={disasterAlerts} loading={loading} />
+      <DisasterAlertHighlights
+        alerts={disasterAlerts}
+        loading={loading}
+        month={month}
+        scope={selectedGroupNames}
+        restricted={restricted}
+      />
 
       <OverviewCards
         loading={loading}
@@ -744,6 +833,9 @@ export function GlobalOverview() {
         selectedGroupNames={selectedGroupNames}
         disasterAlerts={disasterAlerts}
         onHostsClick={handleHostsClick}
+        slaTargets={slaTargets}
+        forecast={forecast}
+        restricted={restricted}
       />
 
       <SeverityTable summary={severitySummaryData} context={severityContext} />
@@ -755,7 +847,13 @@ export function GlobalOverview() {
       )}
 
       {isSingleGroupSelection ? (
-        <HostTable rows={filteredHosts} loading={loading} />
+        <HostTable
+          rows={filteredHosts}
+          loading={loading}
+          month={month}
+          groupId={selectedGroups[0]}
+          groupName={selectedGroupNames[0]}
+        />
       ) : (
         <GroupTable
           rows={filteredGroups}
@@ -766,6 +864,8 @@ export function GlobalOverview() {
         />
       )}
 
+      <TrendPanel month={month} selectedGroupIds={selectedGroups} />
+
       <HostRosterModal
         open={hostRosterOpen}
         onClose={() => setHostRosterOpen(false)}
@@ -781,9 +881,15 @@ export function GlobalOverview() {
 function DisasterAlertHighlights({
   alerts,
   loading,
+  month,
+  scope,
+  restricted,
 }: {
   alerts: CriticalAlertHighlight[];
   loading: boolean;
+  month: string;
+  scope: string[];
+  restricted: boolean;
 }) {
   const totalLabel =
     alerts.length === 1
@@ -803,9 +909,20 @@ function DisasterAlertHighlights({
             que seguem em aberto.
           </p>
         </div>
-        <span className="rounded-2xl bg-amber-50 px-4 py-2 text-sm font-semibold text-amber-700">
-          {totalLabel}
-        </span>
+        <div className="flex flex-wrap items-center gap-2">
+          <XlsxExportButton
+            disabled={loading || alerts.length === 0}
+            build={() => ({
+              fileName: `alertas-disaster-${month}`,
+              title: "Alertas Disaster",
+              metadata: buildExportMetadata({ month, scope }),
+              sheets: [buildCriticalAlertsSheet(alerts, "Alertas Disaster")],
+            })}
+          />
+          <span className="rounded-2xl bg-amber-50 px-4 py-2 text-sm font-semibold text-amber-700">
+            {totalLabel}
+          </span>
+        </div>
       </div>
 
       {loading ? (
@@ -835,6 +952,7 @@ function DisasterAlertHighlights({
                     Tempo de resposta (1o ACK)
                   </th>
                   <th className="px-4 py-3 text-right">Resolução (min)</th>
+                  {!restricted && <th className="px-4 py-3">Plano</th>}
                 </tr>
               </thead>
               <tbody className="divide-y divide-slate-50">
@@ -875,6 +993,11 @@ function DisasterAlertHighlights({
                     <td className="px-4 py-3 text-right text-base font-semibold text-slate-900">
                       {formatMinutesOrDash(alert.resolutionMinutes)}
                     </td>
+                    {!restricted && (
+                      <td className="px-4 py-3">
+                        <ActionPlanLink alert={alert} />
+                      </td>
+                    )}
                   </tr>
                 ))}
               </tbody>
@@ -1025,6 +1148,31 @@ const CARD_DEFINITIONS: CardDefinition[] = [
   },
 ];
 
+// Disponibilidade host comercial não tem meta própria no contrato e segue a
+// meta de disponibilidade comercial.
+const CARD_SLA_TARGETS: Partial<
+  Record<keyof OverviewCardSource, SlaTargetKey>
+> = {
+  availability: "availabilityPct",
+  businessAvailability: "businessAvailabilityPct",
+  reachability: "reachabilityPct",
+  businessReachability: "businessAvailabilityPct",
+  detection: "detectionMinutes",
+  resolution: "resolutionMinutes",
+};
+
+function applySlaTarget(
+  definition: CardDefinition,
+  targets: SlaTargets | null
+): CardDefinition {
+  const key = CARD_SLA_TARGETS[definition.id];
+  if (!key || !targets) {
+    return definition;
+  }
+  const target = targets[key];
+  return { ...definition, target: target ?? undefined };
+}
+
 type StatusTone = "success" | "warning" | "danger" | "neutral";
 
 const BADGE_STYLES: Record<StatusTone, string> = {
@@ -1041,6 +1189,7 @@ type OpenAlertsModalProps = {
   loading: boolean;
   error: string | null;
   scopeLabel: string;
+  scope: string[];
 };
 
 function OpenAlertsModal({
@@ -1050,6 +1199,7 @@ function OpenAlertsModal({
   loading,
   error,
   scopeLabel,
+  scope,
 }: OpenAlertsModalProps) {
   if (!open) return null;
 
@@ -1063,13 +1213,24 @@ function OpenAlertsModal({
             </p>
             <p className="text-sm text-slate-500">Escopo: {scopeLabel}</p>
           </div>
-          <button
-            type="button"
-            onClick={onClose}
-            className="rounded-full bg-slate-100 px-3 py-1 text-sm font-semibold text-slate-600 transition hover:bg-slate-200"
-          >
-            Fechar
-          </button>
+          <div className="flex items-center gap-2">
+            <XlsxExportButton
+              disabled={loading || problems.length === 0}
+              build={() => ({
+                fileName: "alertas-em-aberto",
+                title: "Alertas em aberto",
+                metadata: buildExportMetadata({ scope }),
+                sheets: [buildOpenProblemsSheet(problems)],
+              })}
+            />
+            <button
+              type="button"
+              onClick={onClose}
+              className="rounded-full bg-slate-100 px-3 py-1 text-sm font-semibold text-slate-600 transition hover:bg-slate-200"
+            >
+              Fechar
+            </button>
+          </div>
         </div>
         <div className="max-h-[65vh] overflow-y-auto px-6 py-4">
           {loading ? (
@@ -1128,6 +1289,12 @@ function OpenAlertsModal({
                       </p>
                     </div>
                   </div>
+                  <div className="mt-3 border-t border-slate-100 pt-3">
+                    <AlertVerdictControl
+                      eventId={problem.eventId}
+                      verdict={problem.verdict}
+                    />
+                  </div>
                 </div>
               ))}
             </div>
@@ -1143,6 +1310,9 @@ type ImpactIncidentsModalProps = {
   onClose: () => void;
   alerts: CriticalAlertHighlight[];
   scopeLabel: string;
+  scope: string[];
+  month: string;
+  restricted: boolean;
 };
 
 function ImpactIncidentsModal({
@@ -1150,6 +1320,9 @@ function ImpactIncidentsModal({
   onClose,
   alerts,
   scopeLabel,
+  scope,
+  month,
+  restricted,
 }: ImpactIncidentsModalProps) {
   if (!open) return null;
 
@@ -1165,13 +1338,24 @@ function ImpactIncidentsModal({
               Disaster no horario comercial (&gt; 60min) | Escopo: {scopeLabel}
             </p>
           </div>
-          <button
-            type="button"
-            onClick={onClose}
-            className="rounded-full bg-slate-100 px-3 py-1 text-sm font-semibold text-slate-600 transition hover:bg-slate-200"
-          >
-            Fechar
-          </button>
+          <div className="flex items-center gap-2">
+            <XlsxExportButton
+              disabled={alerts.length === 0}
+              build={() => ({
+                fileName: `incidentes-impacto-${month}`,
+                title: "Incidentes com impacto",
+                metadata: buildExportMetadata({ month, scope }),
+                sheets: [buildCriticalAlertsSheet(alerts, "Incidentes")],
+              })}
+            />
+            <button
+              type="button"
+              onClick={onClose}
+              className="rounded-full bg-slate-100 px-3 py-1 text-sm font-semibold text-slate-600 transition hover:bg-slate-200"
+            >
+              Fechar
+            </button>
+          </div>
         </div>
         <div className="max-h-[65vh] overflow-y-auto px-6 py-4">
           {alerts.length === 0 ? (
@@ -1193,6 +1377,8 @@ function ImpactIncidentsModal({
                       <th className="px-4 py-3 text-right">
                         Horario comercial (min)
                       </th>
+                      <th className="px-4 py-3">Veredito</th>
+                      {!restricted && <th className="px-4 py-3">Plano</th>}
                     </tr>
                   </thead>
                   <tbody className="divide-y divide-slate-50">
@@ -1233,6 +1419,17 @@ function ImpactIncidentsModal({
                         <td className="px-4 py-3 text-right text-base font-semibold text-slate-900">
                           {formatMinutesOrDash(alert.businessMinutes)}
                         </td>
+                        <td className="px-4 py-3">
+                          <AlertVerdictControl
+                            eventId={alert.eventId}
+                            verdict={alert.verdict}
+                          />
+                        </td>
+                        {!restricted && (
+                          <td className="px-4 py-3">
+                            <ActionPlanLink alert={alert} />
+                          </td>
+                        )}
                       </tr>
                     ))}
                   </tbody>
@@ -1256,6 +1453,9 @@ function OverviewCards({
   selectedGroupNames,
   disasterAlerts,
   onHostsClick,
+  slaTargets,
+  forecast,
+  restricted,
 }: {
   loading: boolean;
   source: OverviewCardSource;
@@ -1266,6 +1466,9 @@ function OverviewCards({
   selectedGroupNames: string[];
   disasterAlerts: CriticalAlertHighlight[];
   onHostsClick: () => void;
+  slaTargets: SlaTargets | null;
+  forecast: AvailabilityForecast | null;
+  restricted: boolean;
 }) {
   const [showOpenAlerts, setShowOpenAlerts] = useState(false);
   const [openAlerts, setOpenAlerts] = useState<OpenProblemDetail[] | null>(null);
@@ -1276,7 +1479,9 @@ function OverviewCards({
   const sections = (Object.keys(SECTION_LAYOUTS) as KpiSectionKey[]).map((key) => ({
     key,
     ...SECTION_LAYOUTS[key],
-    cards: CARD_DEFINITIONS.filter((definition) => definition.section === key),
+    cards: CARD_DEFINITIONS.filter(
+      (definition) => definition.section === key
+    ).map((definition) => applySlaTarget(definition, slaTargets)),
   }));
 
   const filteredOpenAlerts = useMemo(() => {
@@ -1332,6 +1537,9 @@ function OverviewCards({
 
   return (
     <div className="space-y-8">
+      {forecast && (
+        <ForecastPanel forecast={forecast} loading={loading} />
+      )}
       {sections.map((section) => (
         <div key={section.key} className="space-y-3">
           <p className="text-xs font-semibold uppercase tracking-[0.4em] text-slate-500">
@@ -1466,6 +1674,7 @@ function OverviewCards({
             ? selectedGroupNames.join(", ")
             : "Todos os clientes"
         }
+        scope={selectedGroupNames}
       />
       <ImpactIncidentsModal
         open={showImpactIncidents}
@@ -1476,6 +1685,9 @@ function OverviewCards({
             ? selectedGroupNames.join(", ")
             : "Todos os clientes"
         }
+        scope={selectedGroupNames}
+        month={month}
+        restricted={restricted}
       />
     </div>
   );
@@ -1517,7 +1729,7 @@ function GroupTable({
   const [availabilitySortOrder, setAvailabilitySortOrder] =
     useState<"asc" | "desc">("desc");
   const [businessFilter, setBusinessFilter] = useState<
-    "all" | "below" | "within"
+    "all" | "below" | "within" | "risk"
   >("all");
   const [exporting, setExporting] = useState(false);
   const [selectedAlerts, setSelectedAlerts] =
@@ -1548,9 +1760,19 @@ function GroupTable({
     const base = [...rows];
     const filtered =
       businessFilter === "below"
-        ? base.filter((group) => group.businessAvailabilityPct < BUSINESS_AVAILABILITY_TARGET)
+        ? base.filter(
+            (group) =>
+              group.businessAvailabilityPct <
+              getGroupTarget(group, "businessAvailabilityPct", BUSINESS_AVAILABILITY_TARGET)
+          )
         : businessFilter === "within"
-        ? base.filter((group) => group.businessAvailabilityPct >= BUSINESS_AVAILABILITY_TARGET)
+        ? base.filter(
+            (group) =>
+              group.businessAvailabilityPct >=
+              getGroupTarget(group, "businessAvailabilityPct", BUSINESS_AVAILABILITY_TARGET)
+          )
+        : businessFilter === "risk"
+        ? base.filter((group) => group.forecast?.atRisk)
         : base;
 
     const getAvailabilityValue = (group: HostGroupMetric) => {
@@ -1574,6 +1796,9 @@ function GroupTable({
   }, [rows, businessFilter, availabilitySortField, availabilitySortOrder]);
 
   const hasFilterApplied = businessFilter !== "all";
+  // Só o mês em andamento traz projeção de fechamento.
+  const hasForecast = rows.some((group) => group.forecast);
+  const columnCount = hasForecast ? 14 : 13;
 
   const handleAvailabilityDetails = (group: HostGroupMetric) => {
     setAvailabilityModal({
@@ -1643,6 +1868,10 @@ function GroupTable({
     "Mesma regra da disponibilidade host, usando somente a janela 7h-23:59.";
   const reachabilityCountTooltip =
     "Total de alertas classificados como indisponibilidade (reachability) no periodo. Clique para detalhar.";
+  const slaTooltip =
+    "Compara disponibilidade, alcançabilidade e tempos médios com as metas do contrato do host group (ou as metas padrão, quando não houver contrato).";
+  const forecastTooltip =
+    "Disponibilidade comercial projetada para o fim do mês: o downtime já ocorrido mais o ritmo dos problemas resolvidos aplicado ao restante do mês. Saldo = downtime (host x minutos) que ainda cabe na meta do contrato.";
 
   return (
     <div className={`rounded-2xl border ${CONTAINER_BORDER_CLASS}`}>
@@ -1653,7 +1882,8 @@ function GroupTable({
           className="flex items-center gap-2 font-semibold text-slate-700"
         >
           <Filter className="h-4 w-4" aria-hidden />
-          Disponibilidade (alertas 7h-23:59) - meta {BUSINESS_AVAILABILITY_TARGET.toFixed(1)}%
+          Disponibilidade (alertas 7h-23:59) - meta do contrato (padrão{" "}
+          {BUSINESS_AVAILABILITY_TARGET.toFixed(1)}%)
         </div>
         <div className="flex flex-wrap items-center gap-2">
           <div className="flex items-center gap-2 rounded-xl border border-slate-200 bg-white px-3 py-1.5 shadow-sm">
@@ -1694,6 +1924,7 @@ function GroupTable({
               { id: "all", label: "Todos" },
               { id: "below", label: "Abaixo da meta" },
               { id: "within", label: "Dentro da meta" },
+              ...(hasForecast ? [{ id: "risk", label: "Em risco" }] : []),
             ].map((option) => (
               <button
                 key={option.id}
@@ -1718,6 +1949,48 @@ function GroupTable({
             <ImageDown className={`h-4 w-4 ${exporting ? "animate-pulse" : ""}`} aria-hidden />
             {exporting ? "Exportando..." : "Exportar imagem"}
           </button>
+          <XlsxExportButton
+            className="inline-flex items-center gap-2 rounded-xl border border-slate-200 bg-white px-3 py-1.5 font-semibold text-slate-700 shadow-sm transition hover:border-slate-300 hover:text-slate-900 disabled:cursor-not-allowed disabled:opacity-60"
+            disabled={!processedRows.length}
+            build={() => ({
+              fileName: `host-groups-${month}`,
+              title: "Host groups",
+              metadata: buildExportMetadata({
+                month,
+                scope: selectedGroupIds.length
+                  ? rows.map((group) => group.name)
+                  : [],
+                extra: hasFilterApplied
+                  ? [
+                      {
+                        label: "Filtro",
+                        value:
+                          businessFilter === "below"
+                            ? "Abaixo da meta comercial"
+                            : businessFilter === "risk"
+                            ? "Em risco de fechar abaixo da meta"
+                            : "Dentro da meta comercial",
+                      },
+                    ]
+                  : [],
+              }),
+              sheets: [
+                buildGroupSummarySheet(processedRows),
+                ...buildAvailabilityInsightsSheets(
+                  processedRows.flatMap((group) =>
+                    group.availabilityInsights
+                      ? [
+                          {
+                            groupName: group.name,
+                            insights: group.availabilityInsights,
+                          },
+                        ]
+                      : []
+                  )
+                ),
+              ],
+            })}
+          />
         </div>
       </div>
       <div
@@ -1860,6 +2133,34 @@ function GroupTable({
                   Disponibilidade host (7h-23:59)
                 </span>
               </HeaderCell>
+              <HeaderCell
+                align="center"
+                icon={<Gauge className="h-5 w-5" />}
+                dividerClass={COLUMN_DIVIDER_CLASS}
+                exporting={exporting}
+              >
+                <span
+                  className="cursor-help underline decoration-dotted underline-offset-4"
+                  title={slaTooltip}
+                >
+                  Contrato SLA
+                </span>
+              </HeaderCell>
+              {hasForecast && (
+                <HeaderCell
+                  align="center"
+                  icon={<Gauge className="h-5 w-5" />}
+                  dividerClass={COLUMN_DIVIDER_CLASS}
+                  exporting={exporting}
+                >
+                  <span
+                    className="cursor-help underline decoration-dotted underline-offset-4"
+                    title={forecastTooltip}
+                  >
+                    Projeção do mês
+                  </span>
+                </HeaderCell>
+              )}
             </tr>
           </thead>
           <tbody
@@ -1868,7 +2169,7 @@ function GroupTable({
             {loading && (
               <tr>
                 <td
-                  colSpan={12}
+                  colSpan={columnCount}
                   className={`px-4 py-6 text-center ${exporting ? "text-white/80" : "text-slate-500"}`}
                 >
                   Carregando métricas...
@@ -1878,7 +2179,7 @@ function GroupTable({
             {!loading && processedRows.length === 0 && (
               <tr>
                 <td
-                  colSpan={12}
+                  colSpan={columnCount}
                   className={`px-4 py-6 text-center ${exporting ? "text-white/80" : "text-slate-500"}`}
                 >
                   {hasFilterApplied
@@ -1986,9 +2287,19 @@ function GroupTable({
                   >
                     <AvailabilityCell
                       value={group.availabilityPct}
-                      target={AVAILABILITY_TARGET}
+                      target={getGroupTarget(group, "availabilityPct", AVAILABILITY_TARGET)}
                       label="Geral"
                       exporting={exporting}
+                      note={joinNotes(
+                        buildMaintenanceNote(
+                          group.availabilityExcludingMaintenancePct,
+                          group.maintenanceExcludedMinutes
+                        ),
+                        buildCollateralNote(
+                          group.availabilityExcludingCollateralPct,
+                          group.collateralMinutes
+                        )
+                      )}
                     />
                   </td>
                   <td
@@ -1996,9 +2307,23 @@ function GroupTable({
                   >
                     <AvailabilityCell
                       value={group.businessAvailabilityPct}
-                      target={BUSINESS_AVAILABILITY_TARGET}
+                      target={getGroupTarget(
+                        group,
+                        "businessAvailabilityPct",
+                        BUSINESS_AVAILABILITY_TARGET
+                      )}
                       label="Comercial"
                       exporting={exporting}
+                      note={joinNotes(
+                        buildMaintenanceNote(
+                          group.businessAvailabilityExcludingMaintenancePct,
+                          group.maintenanceExcludedMinutes
+                        ),
+                        buildCollateralNote(
+                          group.businessAvailabilityExcludingCollateralPct,
+                          group.collateralMinutes
+                        )
+                      )}
                       onDetailsClick={() => handleAvailabilityDetails(group)}
                     />
                   </td>
@@ -2007,7 +2332,7 @@ function GroupTable({
                   >
                     <AvailabilityCell
                       value={group.reachabilityPct}
-                      target={AVAILABILITY_TARGET}
+                      target={getGroupTarget(group, "reachabilityPct", AVAILABILITY_TARGET)}
                       label="Geral"
                       exporting={exporting}
                       onDetailsClick={() =>
@@ -2020,7 +2345,11 @@ function GroupTable({
                   >
                     <AvailabilityCell
                       value={group.businessReachabilityPct}
-                      target={BUSINESS_AVAILABILITY_TARGET}
+                      target={getGroupTarget(
+                        group,
+                        "businessAvailabilityPct",
+                        BUSINESS_AVAILABILITY_TARGET
+                      )}
                       label="Comercial"
                       exporting={exporting}
                       onDetailsClick={() =>
@@ -2028,6 +2357,21 @@ function GroupTable({
                       }
                     />
                   </td>
+                  <td
+                    className={`px-4 py-3 text-center ${COLUMN_DIVIDER_CLASS}`}
+                  >
+                    <SlaStatusBadge sla={group.sla} exporting={exporting} />
+                  </td>
+                  {hasForecast && (
+                    <td
+                      className={`px-4 py-3 text-right ${COLUMN_DIVIDER_CLASS}`}
+                    >
+                      <ForecastCell
+                        forecast={group.forecast}
+                        exporting={exporting}
+                      />
+                    </td>
+                  )}
                 </tr>
             ))}
           </tbody>
@@ -2041,6 +2385,7 @@ function GroupTable({
         }}
         alerts={selectedAlerts ?? []}
         groupLabel={selectedGroupLabel ?? ""}
+        month={month}
       />
       <AvailabilityInsightsModal
         open={Boolean(availabilityModal)}
@@ -2051,6 +2396,7 @@ function GroupTable({
         viewAllHref={availabilityModal?.viewAllHref}
         viewAllLabel={availabilityModal?.viewAllLabel}
         zabbixBaseUrl={zabbixBaseUrl}
+        month={month}
       />
     </div>
   );
@@ -2061,6 +2407,7 @@ type AlertDetailsModalProps = {
   onClose: () => void;
   alerts: GroupAlertDetail[];
   groupLabel: string;
+  month: string;
 };
 
 function AlertDetailsModal({
@@ -2068,6 +2415,7 @@ function AlertDetailsModal({
   onClose,
   alerts,
   groupLabel,
+  month,
 }: AlertDetailsModalProps) {
   if (!open) return null;
 
@@ -2090,13 +2438,27 @@ function AlertDetailsModal({
               Abertura, ACKs e encerramento com tempos em minutos.
             </p>
           </div>
-          <button
-            type="button"
-            onClick={onClose}
-            className="rounded-full bg-slate-100 px-3 py-1 text-sm font-semibold text-slate-600 transition hover:bg-slate-200"
-          >
-            Fechar
-          </button>
+          <div className="flex items-center gap-2">
+            <XlsxExportButton
+              disabled={sorted.length === 0}
+              build={() => ({
+                fileName: `alertas-${groupLabel || "grupo"}-${month}`,
+                title: `Alertas do grupo - ${groupLabel || "Host group"}`,
+                metadata: buildExportMetadata({
+                  month,
+                  scope: groupLabel ? [groupLabel] : [],
+                }),
+                sheets: [buildGroupAlertDetailsSheet(sorted)],
+              })}
+            />
+            <button
+              type="button"
+              onClick={onClose}
+              className="rounded-full bg-slate-100 px-3 py-1 text-sm font-semibold text-slate-600 transition hover:bg-slate-200"
+            >
+              Fechar
+            </button>
+          </div>
         </div>
         <div className="max-h-[70vh] overflow-y-auto px-6 py-4">
           {sorted.length === 0 ? (
@@ -2112,12 +2474,13 @@ function AlertDetailsModal({
                     <th className="px-3 py-3 text-left">Hosts</th>
                     <th className="px-3 py-3 text-left">Abertura</th>
                     <th className="px-3 py-3 text-left">1o ACK</th>
-                    <th className="px-3 py-3 text-left">2o ACK</th>
+                    <th className="px-3 py-3 text-left">Marco de resposta</th>
                     <th className="px-3 py-3 text-left">Fechamento</th>
                     <th className="px-3 py-3 text-right">Detecção (min)</th>
                     <th className="px-3 py-3 text-right">Resposta (min)</th>
                     <th className="px-3 py-3 text-right">Resolução (min)</th>
                     <th className="px-3 py-3 text-left">Status</th>
+                    <th className="px-3 py-3 text-left">Veredito</th>
                   </tr>
                 </thead>
                 <tbody className="divide-y divide-slate-100 bg-white">
@@ -2141,7 +2504,7 @@ function AlertDetailsModal({
                         {formatAlertDate(alert.firstAckAt)}
                       </td>
                       <td className="px-3 py-3 align-top text-sm font-semibold text-slate-800">
-                        {formatAlertDate(alert.secondAckAt)}
+                        {formatAlertDate(alert.respondedAt)}
                       </td>
                       <td className="px-3 py-3 align-top text-sm font-semibold text-slate-800">
                         {formatAlertDate(alert.closedAt)}
@@ -2166,6 +2529,12 @@ function AlertDetailsModal({
                           {alert.isOpen ? "Em aberto" : "Resolvido"}
                         </span>
                       </td>
+                      <td className="px-3 py-3 align-top">
+                        <AlertVerdictControl
+                          eventId={alert.eventId}
+                          verdict={alert.verdict}
+                        />
+                      </td>
                     </tr>
                   ))}
                 </tbody>
@@ -2187,6 +2556,7 @@ type AvailabilityInsightsModalProps = {
   viewAllHref?: string;
   viewAllLabel?: string;
   zabbixBaseUrl: string | null;
+  month: string;
 };
 
 function AvailabilityInsightsModal({
@@ -2198,6 +2568,7 @@ function AvailabilityInsightsModal({
   viewAllHref,
   viewAllLabel,
   zabbixBaseUrl,
+  month,
 }: AvailabilityInsightsModalProps) {
   if (!open) return null;
 
@@ -2244,6 +2615,24 @@ function AvailabilityInsightsModal({
             )}
           </div>
           <div className="flex items-center gap-2">
+            {insights && (
+              <XlsxExportButton
+                build={() => ({
+                  fileName: `disponibilidade-${groupLabel || "grupo"}-${month}`,
+                  title: `${title} - ${groupLabel || "Host group"}`,
+                  metadata: buildExportMetadata({
+                    month,
+                    scope: groupLabel ? [groupLabel] : [],
+                    extra: insights.windowLabel
+                      ? [{ label: windowLabelPrefix, value: insights.windowLabel }]
+                      : [],
+                  }),
+                  sheets: buildAvailabilityInsightsSheets([
+                    { groupName: groupLabel || "Host group", insights },
+                  ]),
+                })}
+              />
+            )}
             {viewAllHref && (
               <Link
                 href={viewAllHref}
@@ -2448,6 +2837,11 @@ function AvailabilityInsightsModal({
                                   )}{" "}
                                   - Sev {alert.severity}
                                 </p>
+                                {alert.rootCause && (
+                                  <p className="mt-1 inline-flex rounded-full bg-violet-50 px-2 py-0.5 text-[11px] font-semibold text-violet-700">
+                                    Colateral de {alert.rootCause}
+                                  </p>
+                                )}
                               </td>
                             <td className="px-3 py-3">
                               <div className="text-xs font-semibold uppercase tracking-widest text-slate-500">
@@ -2480,6 +2874,138 @@ function AvailabilityInsightsModal({
                   </div>
                 )}
               </section>
+
+              {insights.maintenanceExclusions && (
+                <section className="space-y-3">
+                  <div>
+                    <p className="text-xs font-semibold uppercase tracking-[0.3em] text-slate-500">
+                      Manutenções excluídas
+                    </p>
+                    <p className="text-sm text-slate-500">
+                      Downtime dentro de manutenções programadas do Zabbix, removido
+                      da disponibilidade sem manutenções. Total na janela:{" "}
+                      <span className="font-semibold text-slate-900">
+                        {formatDurationMinutes(
+                          insights.excludedMaintenanceMinutes ?? 0
+                        )}
+                      </span>
+                    </p>
+                  </div>
+                  {insights.maintenanceExclusions.length === 0 ? (
+                    <div className="rounded-2xl border border-slate-200 bg-slate-50 px-4 py-5 text-sm text-slate-500">
+                      Nenhum downtime coincidiu com manutenções no periodo.
+                    </div>
+                  ) : (
+                    <div className="overflow-x-auto rounded-2xl border border-slate-200 bg-white">
+                      <table className="min-w-full divide-y divide-slate-100 text-sm text-slate-700">
+                        <thead className="bg-slate-50 text-xs font-semibold uppercase tracking-wide text-slate-500">
+                          <tr>
+                            <th className="px-3 py-3 text-left">Manutenção</th>
+                            <th className="px-3 py-3 text-left">Hosts</th>
+                            <th className="px-3 py-3 text-right">
+                              {downtimeColumnLabel}
+                            </th>
+                            <th className="px-3 py-3 text-right">
+                              Downtime (total)
+                            </th>
+                          </tr>
+                        </thead>
+                        <tbody className="divide-y divide-slate-100">
+                          {insights.maintenanceExclusions.map((entry) => (
+                            <tr
+                              key={entry.maintenanceId}
+                              className="hover:bg-slate-50/70"
+                            >
+                              <td className="px-3 py-3 font-semibold text-slate-900">
+                                {entry.name}
+                              </td>
+                              <td className="px-3 py-3 text-xs text-slate-600">
+                                {formatListPreview(entry.hostNames) || "Sem host"}
+                              </td>
+                              <td className="px-3 py-3 text-right font-semibold text-slate-900">
+                                {formatDurationMinutes(entry.windowExcludedMinutes)}
+                              </td>
+                              <td className="px-3 py-3 text-right text-slate-600">
+                                {formatDurationMinutes(entry.totalExcludedMinutes)}
+                              </td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  )}
+                </section>
+              )}
+
+              {insights.rootCauses && (
+                <section className="space-y-3">
+                  <div>
+                    <p className="text-xs font-semibold uppercase tracking-[0.3em] text-slate-500">
+                      Causas raiz (downtime colateral)
+                    </p>
+                    <p className="text-sm text-slate-500">
+                      Downtime de hosts que coincidiu com a queda de um trigger
+                      do qual dependem ou do proxy que os monitora. Continua na
+                      disponibilidade bruta e sai da disponibilidade sem
+                      colateral. Total na janela:{" "}
+                      <span className="font-semibold text-slate-900">
+                        {formatDurationMinutes(insights.collateralMinutes ?? 0)}
+                      </span>
+                    </p>
+                  </div>
+                  {insights.rootCauses.length === 0 ? (
+                    <div className="rounded-2xl border border-slate-200 bg-slate-50 px-4 py-5 text-sm text-slate-500">
+                      Nenhum downtime colateral no periodo.
+                    </div>
+                  ) : (
+                    <div className="overflow-x-auto rounded-2xl border border-slate-200 bg-white">
+                      <table className="min-w-full divide-y divide-slate-100 text-sm text-slate-700">
+                        <thead className="bg-slate-50 text-xs font-semibold uppercase tracking-wide text-slate-500">
+                          <tr>
+                            <th className="px-3 py-3 text-left">Causa raiz</th>
+                            <th className="px-3 py-3 text-left">
+                              Hosts afetados
+                            </th>
+                            <th className="px-3 py-3 text-right">
+                              {downtimeColumnLabel}
+                            </th>
+                            <th className="px-3 py-3 text-right">
+                              Downtime (total)
+                            </th>
+                          </tr>
+                        </thead>
+                        <tbody className="divide-y divide-slate-100">
+                          {insights.rootCauses.map((entry) => (
+                            <tr key={entry.key} className="hover:bg-slate-50/70">
+                              <td className="px-3 py-3">
+                                <p className="font-semibold text-slate-900">
+                                  {entry.name}
+                                </p>
+                                <p className="text-[11px] text-slate-500">
+                                  {entry.kind === "proxy"
+                                    ? "Proxy"
+                                    : "Dependência de trigger"}
+                                  {entry.hostName ? ` - ${entry.hostName}` : ""}
+                                </p>
+                              </td>
+                              <td className="px-3 py-3 text-xs text-slate-600">
+                                {entry.hostNames.length} ·{" "}
+                                {formatListPreview(entry.hostNames)}
+                              </td>
+                              <td className="px-3 py-3 text-right font-semibold text-slate-900">
+                                {formatDurationMinutes(entry.windowCollateralMinutes)}
+                              </td>
+                              <td className="px-3 py-3 text-right text-slate-600">
+                                {formatDurationMinutes(entry.totalCollateralMinutes)}
+                              </td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  )}
+                </section>
+              )}
             </div>
           )}
         </div>
@@ -2522,26 +3048,6 @@ function HostRosterModal({
       ? `${selectedGroupNames.length} clientes`
       : "Todos os clientes";
 
-  const exportCsv = () => {
-    const header = ["hostid", "nome", "status", "ip", "proxy", "grupos"];
-    const rows = hosts.map((host) => [
-      host.hostid,
-      csvSafe(host.name),
-      host.status === "0" || host.status === 0 ? "Ativo" : "Inativo",
-      csvSafe(getPrimaryIp(host)),
-      csvSafe(host.proxy ?? ""),
-      csvSafe(host.groups.join(" | ")),
-    ]);
-    const csv = [header.join(","), ...rows.map((row) => row.join(","))].join("\n");
-    const blob = new Blob(["\uFEFF", csv], { type: "text/csv;charset=utf-8;" });
-    const link = document.createElement("a");
-    link.href = URL.createObjectURL(blob);
-    link.download = `hosts-${Date.now()}.csv`;
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
-  };
-
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 px-4 py-8">
       <div className="max-h-[85vh] w-full max-w-6xl overflow-hidden rounded-3xl bg-white shadow-2xl ring-1 ring-black/10">
@@ -2554,18 +3060,30 @@ function HostRosterModal({
               {clientLabel} — {hosts.length} hosts ({activeCount} ativos)
             </h3>
             <p className="text-sm text-slate-500">
-              Clique em exportar para gerar CSV e enviar ao cliente.
+              Clique em exportar para gerar a planilha e enviar ao cliente.
             </p>
           </div>
           <div className="flex flex-wrap gap-2">
-            <button
-              type="button"
-              onClick={exportCsv}
+            <XlsxExportButton
               disabled={loading || !hosts.length}
-              className="rounded-2xl border border-slate-200 bg-white px-4 py-2 text-sm font-semibold text-slate-700 shadow-sm transition hover:border-slate-300 hover:text-slate-900 disabled:cursor-not-allowed disabled:opacity-60"
-            >
-              Exportar CSV
-            </button>
+              className="inline-flex items-center gap-2 rounded-2xl border border-slate-200 bg-white px-4 py-2 text-sm font-semibold text-slate-700 shadow-sm transition hover:border-slate-300 hover:text-slate-900 disabled:cursor-not-allowed disabled:opacity-60"
+              build={() => ({
+                fileName: `hosts-${clientLabel}`,
+                title: `Hosts monitorados - ${clientLabel}`,
+                metadata: buildExportMetadata({ scope: selectedGroupNames }),
+                sheets: [
+                  buildHostRosterSheet(
+                    hosts.map((host) => ({
+                      name: host.name,
+                      status: String(host.status),
+                      ip: getPrimaryIp(host),
+                      proxy: host.proxy ?? "",
+                      groups: host.groups,
+                    }))
+                  ),
+                ],
+              })}
+            />
             <button
               type="button"
               onClick={onClose}
@@ -2669,17 +3187,217 @@ function HeaderCell({
   );
 }
 
+const SLA_TARGET_LABELS: Record<SlaTargetKey, string> = {
+  availabilityPct: "Disponibilidade",
+  businessAvailabilityPct: "Disponibilidade comercial",
+  reachabilityPct: "Disponibilidade host",
+  detectionMinutes: "Detecção",
+  responseMinutes: "Resposta",
+  resolutionMinutes: "Resolução",
+};
+
+function buildMaintenanceNote(
+  adjustedPct: number | undefined,
+  excludedMinutes: number | undefined
+) {
+  if (adjustedPct === undefined || !excludedMinutes) {
+    return null;
+  }
+  return `Sem manutenções: ${adjustedPct.toFixed(2)}%`;
+}
+
+function buildCollateralNote(
+  adjustedPct: number | undefined,
+  collateralMinutes: number | undefined
+) {
+  if (adjustedPct === undefined || !collateralMinutes) {
+    return null;
+  }
+  return `Sem colateral: ${adjustedPct.toFixed(2)}%`;
+}
+
+function joinNotes(...notes: Array<string | null>) {
+  const present = notes.filter(Boolean);
+  return present.length ? present.join(" · ") : null;
+}
+
+function getGroupTarget(
+  group: HostGroupMetric,
+  key: SlaTargetKey,
+  fallback: number
+) {
+  if (!group.sla) {
+    return fallback;
+  }
+  // Meta nula no contrato significa "sem meta": nunca fica abaixo.
+  return group.sla.targets[key] ?? 0;
+}
+
+function ForecastPanel({
+  forecast,
+  loading,
+}: {
+  forecast: AvailabilityForecast;
+  loading: boolean;
+}) {
+  const asOf = format(new Date(forecast.asOf), "dd/MM 'às' HH:mm", {
+    locale: ptBR,
+  });
+  return (
+    <div
+      className={`flex flex-wrap items-center justify-between gap-4 rounded-3xl border p-5 ${
+        forecast.atRisk
+          ? "border-amber-200 bg-amber-50/80"
+          : "border-slate-100 bg-white/95"
+      } ${loading ? "opacity-60" : ""}`}
+    >
+      <div>
+        <p className="text-xs font-semibold uppercase tracking-[0.35em] text-slate-500">
+          Mês em andamento
+        </p>
+        <p className="mt-1 text-sm text-slate-600">
+          Apurado até {asOf} ({forecast.elapsedPct.toFixed(0)}% do mês). As
+          disponibilidades abaixo consideram só o período já decorrido.
+        </p>
+      </div>
+      <div className="flex flex-wrap items-center gap-6 text-sm">
+        <div>
+          <p className="text-xs font-semibold text-slate-500">
+            Projeção de fechamento
+          </p>
+          <p className="font-semibold text-slate-900">
+            Geral {forecast.projectedAvailabilityPct.toFixed(2)}% · Comercial{" "}
+            {forecast.projectedBusinessAvailabilityPct.toFixed(2)}%
+          </p>
+        </div>
+        <div>
+          <p className="text-xs font-semibold text-slate-500">
+            Saldo até a meta
+          </p>
+          <p className="font-semibold text-slate-900">
+            Geral {formatForecastBudget(forecast.remainingBudgetMinutes)} ·
+            Comercial{" "}
+            {formatForecastBudget(forecast.remainingBusinessBudgetMinutes)}
+          </p>
+        </div>
+        <span
+          className={`inline-flex rounded-full px-3 py-1 text-xs font-semibold ${
+            forecast.atRisk ? BADGE_STYLES.warning : BADGE_STYLES.success
+          }`}
+        >
+          {forecast.atRisk ? "Em risco" : "Dentro da meta"}
+        </span>
+      </div>
+    </div>
+  );
+}
+
+function ForecastCell({
+  forecast,
+  exporting = false,
+}: {
+  forecast?: AvailabilityForecast;
+  exporting?: boolean;
+}) {
+  if (!forecast) {
+    return <span className="text-sm text-slate-400">—</span>;
+  }
+  const labelClass = exporting ? "text-white/80" : "text-slate-500";
+  const valueClass = exporting
+    ? "text-white"
+    : forecast.atRisk
+    ? "text-amber-700"
+    : "text-emerald-700";
+  return (
+    <div className="space-y-1 text-right">
+      <div className={`flex items-center justify-end gap-2 text-xs ${labelClass}`}>
+        <span>Comercial</span>
+        {forecast.atRisk && (
+          <span
+            className={`inline-flex items-center gap-1 rounded-full px-2 py-0.5 font-semibold ${
+              exporting
+                ? "border border-white/60 bg-white/10 text-white"
+                : BADGE_STYLES.warning
+            }`}
+          >
+            <AlertTriangle className="h-3 w-3" aria-hidden />
+            Em risco
+          </span>
+        )}
+      </div>
+      <p className={`text-sm font-semibold ${valueClass}`}>
+        {forecast.projectedBusinessAvailabilityPct.toFixed(2)}%
+      </p>
+      <p className={`text-[11px] ${labelClass}`}>
+        Saldo: {formatForecastBudget(forecast.remainingBusinessBudgetMinutes)}
+      </p>
+    </div>
+  );
+}
+
+function formatForecastBudget(minutes: number | null) {
+  if (minutes === null) {
+    return "sem meta";
+  }
+  if (minutes < 0) {
+    return `estourado em ${formatDurationMinutes(-minutes)}`;
+  }
+  return formatDurationMinutes(minutes);
+}
+
+function SlaStatusBadge({
+  sla,
+  exporting = false,
+}: {
+  sla?: SlaEvaluation;
+  exporting?: boolean;
+}) {
+  if (!sla) {
+    return <span className="text-sm text-slate-400">—</span>;
+  }
+  const breached = sla.status === "breached";
+  const title = sla.checks
+    .map(
+      (check) =>
+        `${SLA_TARGET_LABELS[check.key]}: ${check.actual.toFixed(2)} (meta ${check.target}) ${
+          check.met ? "✓" : "✗"
+        }`
+    )
+    .join("\n");
+  const badgeClass = exporting
+    ? "border border-white/60 bg-white/10 text-white"
+    : breached
+    ? BADGE_STYLES.danger
+    : BADGE_STYLES.success;
+
+  return (
+    <span
+      title={title}
+      className={`inline-flex flex-col items-center rounded-2xl px-3 py-1 text-xs font-semibold ${badgeClass}`}
+    >
+      {breached ? `Violado (${sla.breaches.length})` : "Cumprido"}
+      {sla.isDefaultContract && (
+        <span className="text-[10px] font-medium opacity-80">
+          Metas padrão
+        </span>
+      )}
+    </span>
+  );
+}
+
 function AvailabilityCell({
   value,
   target,
   label,
   exporting = false,
+  note,
   onDetailsClick,
 }: {
   value: number;
   target: number;
   label: string;
   exporting?: boolean;
+  note?: string | null;
   onDetailsClick?: () => void;
 }) {
   const clamped = Math.max(0, Math.min(value, 100));
@@ -2719,6 +3437,7 @@ function AvailabilityCell({
           {clamped.toFixed(2)}%
         </span>
       </div>
+      {note && <p className={`text-[11px] ${labelClass}`}>{note}</p>}
       {onDetailsClick && !exporting && (
         <div className="flex justify-end">
           <button
@@ -2737,107 +3456,138 @@ function AvailabilityCell({
 function HostTable({
   rows,
   loading,
+  month,
+  groupId,
+  groupName,
 }: {
   rows: DashboardMetrics["hosts"];
   loading: boolean;
+  month: string;
+  groupId?: string;
+  groupName?: string;
 }) {
   return (
-    <div className="rounded-2xl border border-slate-100">
-      <table className="min-w-full divide-y divide-slate-100 text-sm">
-        <thead className="bg-slate-50 text-slate-600">
-          <tr>
-            <th className="px-4 py-3 text-left font-semibold">Host</th>
-            <th className="px-4 py-3 text-right font-semibold">Alertas</th>
-            <th className="px-4 py-3 text-right font-semibold">
-              Alertas em aberto
-            </th>
-            <th className="px-4 py-3 text-right font-semibold">
-              Tempo de resposta (1o ACK)
-            </th>
-            <th className="px-4 py-3 text-right font-semibold">
-              Resolução (min)
-            </th>
-            <th className="px-4 py-3 text-right font-semibold">
-              Disponibilidade (alertas)
-            </th>
-            <th className="px-4 py-3 text-right font-semibold">
-              Disponibilidade (alertas 7h-23:59)
-            </th>
-            <th className="px-4 py-3 text-right font-semibold">
-              Disponibilidade host
-            </th>
-            <th className="px-4 py-3 text-right font-semibold">
-              Disponibilidade host (7h-23:59)
-            </th>
-          </tr>
-        </thead>
-        <tbody className="divide-y divide-slate-100 bg-white text-slate-800">
-          {loading && (
-            <tr>
-              <td colSpan={9} className="px-4 py-6 text-center text-slate-500">
-                Carregando métricas...
-              </td>
-            </tr>
-          )}
-          {!loading && rows.length === 0 && (
+    <div className="space-y-2">
+      <div className="flex justify-end">
+        <XlsxExportButton
+          disabled={loading || !rows.length}
+          build={() => ({
+            fileName: `hosts-${groupName ?? "grupo"}-${month}`,
+            title: `Hosts - ${groupName ?? "Host group"}`,
+            metadata: buildExportMetadata({
+              month,
+              scope: groupName ? [groupName] : [],
+            }),
+            sheets: [buildHostsSheet(rows)],
+          })}
+        />
+      </div>
+      <div className="rounded-2xl border border-slate-100">
+        <table className="min-w-full divide-y divide-slate-100 text-sm">
+          <thead className="bg-slate-50 text-slate-600">
             <tr>
-              <td colSpan={9} className="px-4 py-6 text-center text-slate-500">
-                Nenhum host encontrado.
-              </td>
+              <th className="px-4 py-3 text-left font-semibold">Host</th>
+              <th className="px-4 py-3 text-right font-semibold">Alertas</th>
+              <th className="px-4 py-3 text-right font-semibold">
+                Alertas em aberto
+              </th>
+              <th className="px-4 py-3 text-right font-semibold">
+                Tempo de resposta (1o ACK)
+              </th>
+              <th className="px-4 py-3 text-right font-semibold">
+                Resolução (min)
+              </th>
+              <th className="px-4 py-3 text-right font-semibold">
+                Disponibilidade (alertas)
+              </th>
+              <th className="px-4 py-3 text-right font-semibold">
+                Disponibilidade (alertas 7h-23:59)
+              </th>
+              <th className="px-4 py-3 text-right font-semibold">
+                Disponibilidade host
+              </th>
+              <th className="px-4 py-3 text-right font-semibold">
+                Disponibilidade host (7h-23:59)
+              </th>
             </tr>
-          )}
-          {!loading &&
-            rows.map((host) => (
-              <tr key={host.hostid}>
-                <td className="px-4 py-3 font-semibold">{host.name}</td>
-                <td className="px-4 py-3 text-right">{host.eventCount}</td>
-                <td className="px-4 py-3 text-right">{host.openEventCount}</td>
-                <td className="px-4 py-3 text-right">
-                  {formatMinutes(host.detectionMinutes)}
-                </td>
-                <td className="px-4 py-3 text-right">
-                  {formatMinutes(host.resolutionMinutes)}
-                </td>
-                <td
-                  className={`px-4 py-3 text-right ${
-                    host.availabilityPct < 99
-                      ? "text-rose-600"
-                      : "text-emerald-600"
-                  }`}
-                >
-                  {host.availabilityPct.toFixed(2)}%
-                </td>
-                <td
-                  className={`px-4 py-3 text-right ${
-                    host.businessAvailabilityPct < 99
-                      ? "text-rose-600"
-                      : "text-emerald-600"
-                  }`}
-                >
-                  {host.businessAvailabilityPct.toFixed(2)}%
-                </td>
-                <td
-                  className={`px-4 py-3 text-right ${
-                    host.reachabilityPct < 99
-                      ? "text-rose-600"
-                      : "text-emerald-600"
-                  }`}
-                >
-                  {host.reachabilityPct.toFixed(2)}%
+          </thead>
+          <tbody className="divide-y divide-slate-100 bg-white text-slate-800">
+            {loading && (
+              <tr>
+                <td colSpan={9} className="px-4 py-6 text-center text-slate-500">
+                  Carregando métricas...
                 </td>
-                <td
-                  className={`px-4 py-3 text-right ${
-                    host.businessReachabilityPct < 99
-                      ? "text-rose-600"
-                      : "text-emerald-600"
-                  }`}
-                >
-                  {host.businessReachabilityPct.toFixed(2)}%
+              </tr>
+            )}
+            {!loading && rows.length === 0 && (
+              <tr>
+                <td colSpan={9} className="px-4 py-6 text-center text-slate-500">
+                  Nenhum host encontrado.
                 </td>
               </tr>
-            ))}
-        </tbody>
-      </table>
+            )}
+            {!loading &&
+              rows.map((host) => (
+                <tr key={host.hostid}>
+                  <td className="px-4 py-3 font-semibold">
+                    <Link
+                      href={`/hosts/${host.hostid}?month=${month}${
+                        groupId ? `&groupId=${groupId}` : ""
+                      }`}
+                      className="hover:text-indigo-600 hover:underline"
+                    >
+                      {host.name}
+                    </Link>
+                  </td>
+                  <td className="px-4 py-3 text-right">{host.eventCount}</td>
+                  <td className="px-4 py-3 text-right">{host.openEventCount}</td>
+                  <td className="px-4 py-3 text-right">
+                    {formatMinutes(host.detectionMinutes)}
+                  </td>
+                  <td className="px-4 py-3 text-right">
+                    {formatMinutes(host.resolutionMinutes)}
+                  </td>
+                  <td
+                    className={`px-4 py-3 text-right ${
+                      host.availabilityPct < 99
+                        ? "text-rose-600"
+                        : "text-emerald-600"
+                    }`}
+                  >
+                    {host.availabilityPct.toFixed(2)}%
+                  </td>
+                  <td
+                    className={`px-4 py-3 text-right ${
+                      host.businessAvailabilityPct < 99
+                        ? "text-rose-600"
+                        : "text-emerald-600"
+                    }`}
+                  >
+                    {host.businessAvailabilityPct.toFixed(2)}%
+                  </td>
+                  <td
+                    className={`px-4 py-3 text-right ${
+                      host.reachabilityPct < 99
+                        ? "text-rose-600"
+                        : "text-emerald-600"
+                    }`}
+                  >
+                    {host.reachabilityPct.toFixed(2)}%
+                  </td>
+                  <td
+                    className={`px-4 py-3 text-right ${
+                      host.businessReachabilityPct < 99
+                        ? "text-rose-600"
+                        : "text-emerald-600"
+                    }`}
+                  >
+                    {host.businessReachabilityPct.toFixed(2)}%
+                  </td>
+                </tr>
+              ))}
+          </tbody>
+        </table>
+      </div>
     </div>
   );
 }
@@ -3333,19 +4083,6 @@ function buildZabbixEventUrl(
   return `${normalized}/tr_events.php?${params.toString()}`;
 }
 
-function csvSafe(value: string) {
-  if (!value) return "";
-  const normalized = value.replace(/"/g, '""');
-  if (
-    normalized.includes(",") ||
-    normalized.includes('"') ||
-    normalized.includes("\n")
-  ) {
-    return `"${normalized}"`;
-  }
-  return normalized;
-}
-
 function getPrimaryIp(host: {
   interfaces?: Array<{ ip?: string; dns?: string; port?: string }>;
 }) {
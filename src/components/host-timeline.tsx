@@ -0,0 +1,151 @@
+import { formatInTimeZone, fromZonedTime } from "date-fns-tz";
+import { ptBR } from "date-fns/locale";
+import { HostDetailResponse } from "@/types/dashboard";
+
+type Props = {
+  timeline: HostDetailResponse["timeline"];
+  maintenance: HostDetailResponse["maintenance"];
+  periodStart: string;
+  periodEnd: string;
+  timezone: string;
+};
+
+type Bar = {
+  key: string;
+  left: number;
+  width: number;
+  className: string;
+  title: string;
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const HOUR_TICKS = [0, 6, 12, 18, 24];
+
+/** Gantt do mês: uma linha por dia (fuso do dashboard), 0h à esquerda. */
+export function HostTimeline({
+  timeline,
+  maintenance,
+  periodStart,
+  periodEnd,
+  timezone,
+}: Props) {
+  const endMs = Date.parse(periodEnd);
+  const days: Array<{
+    key: string;
+    label: string;
+    start: number;
+    end: number;
+  }> = [];
+  let day = formatInTimeZone(new Date(periodStart), timezone, "yyyy-MM-dd");
+  for (;;) {
+    const start = fromZonedTime(`${day}T00:00:00`, timezone).getTime();
+    if (start >= endMs) break;
+    const next = new Date(Date.parse(`${day}T12:00:00Z`) + DAY_MS)
+      .toISOString()
+      .slice(0, 10);
+    const end = fromZonedTime(`${next}T00:00:00`, timezone).getTime();
+    days.push({
+      key: day,
+      label: formatInTimeZone(new Date(start), timezone, "dd/MM EEE", {
+        locale: ptBR,
+      }),
+      start,
+      end,
+    });
+    day = next;
+  }
+
+  const formatTime = (value: number) =>
+    formatInTimeZone(new Date(value), timezone, "dd/MM HH:mm");
+
+  const barsFor = (row: (typeof days)[number]) => {
+    const bars: Bar[] = [];
+    const place = (
+      key: string,
+      startIso: string,
+      endIso: string,
+      className: string,
+      label: string
+    ) => {
+      const start = Math.max(Date.parse(startIso), row.start);
+      const end = Math.min(Date.parse(endIso), row.end, endMs);
+      if (end <= start) return;
+      const span = row.end - row.start;
+      bars.push({
+        key,
+        left: ((start - row.start) / span) * 100,
+        width: Math.max(((end - start) / span) * 100, 0.25),
+        className,
+        title: `${label}: ${formatTime(start)} → ${formatTime(end)}`,
+      });
+    };
+    maintenance.forEach((window, index) =>
+      place(
+        `m-${index}`,
+        window.start,
+        window.end,
+        "bg-slate-300/70",
+        `Manutenção (${window.name})`
+      )
+    );
+    timeline.forEach((segment, index) =>
+      place(
+        `s-${index}`,
+        segment.start,
+        segment.end,
+        segment.shift === "business" ? "bg-rose-500" : "bg-amber-300",
+        segment.shift === "business"
+          ? "Indisponível (horário comercial)"
+          : "Indisponível (fora do horário)"
+      )
+    );
+    return bars;
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap gap-4 text-xs text-slate-500">
+        <span className="inline-flex items-center gap-2">
+          <span className="h-3 w-3 rounded-sm bg-rose-500" /> Horário comercial
+        </span>
+        <span className="inline-flex items-center gap-2">
+          <span className="h-3 w-3 rounded-sm bg-amber-300" /> Fora do horário
+        </span>
+        <span className="inline-flex items-center gap-2">
+          <span className="h-3 w-3 rounded-sm bg-slate-300" /> Manutenção
+        </span>
+      </div>
+      <div className="grid grid-cols-[5.5rem_1fr] gap-x-3 gap-y-1 text-[11px] text-slate-500">
+        <span />
+        <div className="relative h-4">
+          {HOUR_TICKS.map((hour) => (
+            <span
+              key={hour}
+              className="absolute -translate-x-1/2"
+              style={{ left: `${(hour / 24) * 100}%` }}
+            >
+              {hour}h
+            </span>
+          ))}
+        </div>
+        {days.map((row) => (
+          <div key={row.key} className="contents">
+            <span className="whitespace-nowrap font-semibold text-slate-600">
+              {row.label}
+            </span>
+            <div className="relative h-4 overflow-hidden rounded bg-emerald-50 ring-1 ring-emerald-100">
+              {barsFor(row).map((bar) => (
+                <span
+                  key={bar.key}
+                  title={bar.title}
+                  className={`absolute inset-y-0 ${bar.className}`}
+                  style={{ left: `${bar.left}%`, width: `${bar.width}%` }}
+                />
+              ))}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,85 @@
+"use client";
+
+import { FormEvent, useState } from "react";
+import { LogIn } from "lucide-react";
+import { safeNextPath } from "@/lib/auth-session";
+
+type Props = {
+  next: string;
+};
+
+export function LoginForm({ next }: Props) {
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  async function handleSubmit(event: FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    if (loading) return;
+
+    try {
+      setLoading(true);
+      setError(null);
+      const response = await fetch("/api/auth/login", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ username, password }),
+      });
+      if (!response.ok) {
+        const payload = await response.json().catch(() => null);
+        throw new Error(payload?.error ?? "Falha ao entrar.");
+      }
+      window.location.assign(safeNextPath(next));
+    } catch (loginError) {
+      setError(
+        loginError instanceof Error
+          ? loginError.message
+          : "Não foi possível entrar agora."
+      );
+      setLoading(false);
+    }
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <label className="flex flex-col gap-2 text-xs font-semibold uppercase tracking-wide text-slate-500">
+        Usuário
+        <input
+          type="text"
+          name="username"
+          autoComplete="username"
+          required
+          value={username}
+          onChange={(event) => setUsername(event.target.value)}
+          className="rounded-2xl border border-slate-200 px-4 py-3 text-sm font-medium normal-case tracking-normal text-slate-900"
+        />
+      </label>
+      <label className="flex flex-col gap-2 text-xs font-semibold uppercase tracking-wide text-slate-500">
+        Senha
+        <input
+          type="password"
+          name="password"
+          autoComplete="current-password"
+          required
+          value={password}
+          onChange={(event) => setPassword(event.target.value)}
+          className="rounded-2xl border border-slate-200 px-4 py-3 text-sm font-medium normal-case tracking-normal text-slate-900"
+        />
+      </label>
+      {error && (
+        <p className="rounded-2xl border border-rose-200 bg-rose-50 px-4 py-3 text-sm text-rose-700">
+          {error}
+        </p>
+      )}
+      <button
+        type="submit"
+        disabled={loading}
+        className="inline-flex w-full items-center justify-center gap-2 rounded-2xl bg-slate-900 px-6 py-3 text-sm font-semibold text-white shadow-sm transition hover:bg-slate-700 disabled:cursor-not-allowed disabled:opacity-60"
+      >
+        <LogIn className="h-4 w-4" />
+        {loading ? "Entrando..." : "Entrar"}
+      </button>
+    </form>
+  );
+}
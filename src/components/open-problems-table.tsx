@@ -1,16 +1,32 @@
 "use client";
 
-import { useMemo, useState } from "react";
+import { useEffect, useMemo, useState } from "react";
+import Link from "next/link";
 import { format } from "date-fns";
 import { ptBR } from "date-fns/locale";
 import { Search } from "lucide-react";
-import { OpenProblemDetail } from "@/types/dashboard";
+import {
+  OpenProblemChange,
+  OpenProblemDetail,
+  OpenProblemsResponse,
+} from "@/types/dashboard";
 
 type Props = {
   problems: OpenProblemDetail[];
   generatedAt: string;
 };
 
+type Highlight = {
+  kind: "opened" | "updated";
+  until: number;
+};
+
+type FeedStatus = "connecting" | "live" | "error";
+
+const STREAM_URL = "/api/open-problems/stream";
+const HIGHLIGHT_MS = 2 * 60 * 1000;
+const CLOCK_TICK_MS = 30 * 1000;
+
 const severityStyles: Record<
   number,
   { badge: string; text: string; border: string }
@@ -47,8 +63,95 @@ const severityStyles: Record<
   },
 };
 
-export function OpenProblemsTable({ problems, generatedAt }: Props) {
+export function OpenProblemsTable({
+  problems: initialProblems,
+  generatedAt: initialGeneratedAt,
+}: Props) {
   const [query, setQuery] = useState("");
+  const [problems, setProblems] = useState(initialProblems);
+  const [generatedAt, setGeneratedAt] = useState(initialGeneratedAt);
+  const [highlights, setHighlights] = useState<Record<string, Highlight>>({});
+  const [feedStatus, setFeedStatus] = useState<FeedStatus>("connecting");
+  const [now, setNow] = useState(() => new Date(initialGeneratedAt).getTime());
+
+  useEffect(() => {
+    const source = new EventSource(STREAM_URL);
+
+    const markHighlights = (entries: Array<[string, Highlight["kind"]]>) => {
+      if (!entries.length) return;
+      const until = Date.now() + HIGHLIGHT_MS;
+      setHighlights((prev) => {
+        const next = { ...prev };
+        for (const [eventId, kind] of entries) {
+          next[eventId] = {
+            kind: prev[eventId]?.kind === "opened" ? "opened" : kind,
+            until,
+          };
+        }
+        return next;
+      });
+    };
+
+    source.addEventListener("snapshot", (event) => {
+      const payload = JSON.parse(
+        (event as MessageEvent<string>).data
+      ) as OpenProblemsResponse;
+      setProblems((prev) => {
+        const known = new Set(prev.map((problem) => problem.eventId));
+        markHighlights(
+          payload.problems
+            .filter((problem) => !known.has(problem.eventId))
+            .map((problem) => [problem.eventId, "opened"])
+        );
+        return sortProblems(payload.problems);
+      });
+      setGeneratedAt(payload.generatedAt);
+    });
+
+    source.addEventListener("changes", (event) => {
+      const payload = JSON.parse((event as MessageEvent<string>).data) as {
+        generatedAt: string;
+        changes: OpenProblemChange[];
+      };
+      setProblems((prev) => applyChanges(prev, payload.changes));
+      markHighlights(
+        payload.changes
+          .filter((change) => change.type !== "resolved")
+          .map((change) => [
+            change.eventId,
+            change.type === "opened" ? "opened" : "updated",
+          ])
+      );
+      setGeneratedAt(payload.generatedAt);
+    });
+
+    source.addEventListener("status", (event) => {
+      const payload = JSON.parse((event as MessageEvent<string>).data) as {
+        ok: boolean;
+      };
+      setFeedStatus(payload.ok ? "live" : "error");
+    });
+
+    source.onerror = () => setFeedStatus("error");
+
+    return () => source.close();
+  }, []);
+
+  useEffect(() => {
+    const timer = setInterval(() => {
+      const current = Date.now();
+      setNow(current);
+      setHighlights((prev) => {
+        const active = Object.entries(prev).filter(
+          ([, highlight]) => highlight.until > current
+        );
+        return active.length === Object.keys(prev).length
+          ? prev
+          : Object.fromEntries(active);
+      });
+    }, CLOCK_TICK_MS);
+    return () => clearInterval(timer);
+  }, []);
 
   const filtered = useMemo(() => {
     if (!query.trim()) {
@@ -85,13 +188,16 @@ export function OpenProblemsTable({ problems, generatedAt }: Props) {
           <h2 className="text-2xl font-semibold text-slate-900">
             {filtered.length} registros encontrados
           </h2>
-          <p className="text-sm text-slate-500">
-            Atualizado em{" "}
-            <span className="font-semibold text-slate-900">
-              {format(new Date(generatedAt), "dd/MM/yyyy HH:mm", {
-                locale: ptBR,
-              })}
+          <p className="flex flex-wrap items-center gap-2 text-sm text-slate-500">
+            <span>
+              Atualizado em{" "}
+              <span className="font-semibold text-slate-900">
+                {format(new Date(generatedAt), "dd/MM/yyyy HH:mm:ss", {
+                  locale: ptBR,
+                })}
+              </span>
             </span>
+            <FeedStatusBadge status={feedStatus} />
           </p>
         </div>
         <label className="flex items-center gap-2 rounded-2xl border border-slate-200 bg-white px-4 py-3 shadow-sm focus-within:border-blue-500 focus-within:ring-2 focus-within:ring-blue-100">
@@ -128,13 +234,33 @@ export function OpenProblemsTable({ problems, generatedAt }: Props) {
                 text: "text-slate-600",
                 border: "border-slate-100",
               };
+              const highlight = highlights[problem.eventId];
+              const rowClass = !highlight
+                ? "bg-white hover:bg-slate-50"
+                : highlight.kind === "opened"
+                  ? problem.severity >= 5
+                    ? "bg-rose-50 shadow-[inset_4px_0_0_0_#e11d48]"
+                    : "bg-amber-50 shadow-[inset_4px_0_0_0_#f59e0b]"
+                  : "bg-sky-50 shadow-[inset_4px_0_0_0_#0ea5e9]";
               return (
                 <tr
                   key={problem.eventId}
-                  className="bg-white transition hover:bg-slate-50"
+                  className={`transition-colors duration-700 ${rowClass}`}
                 >
                   <td className="px-4 py-4 align-top text-sm font-semibold text-slate-900">
-                    <div>{problem.name}</div>
+                    <div className="flex flex-wrap items-center gap-2">
+                      <span>{problem.name}</span>
+                      {highlight?.kind === "opened" && (
+                        <span className="rounded-full bg-amber-100 px-2 py-0.5 text-[10px] font-semibold uppercase tracking-wide text-amber-700">
+                          Novo
+                        </span>
+                      )}
+                      {problem.acknowledged && (
+                        <span className="rounded-full bg-emerald-100 px-2 py-0.5 text-[10px] font-semibold uppercase tracking-wide text-emerald-700">
+                          ACK
+                        </span>
+                      )}
+                    </div>
                     {problem.tags.length > 0 && (
                       <p className="mt-1 text-xs text-slate-500">
                         Tags:{" "}
@@ -152,7 +278,14 @@ export function OpenProblemsTable({ problems, generatedAt }: Props) {
                   <td className="px-4 py-4 align-top">
                     <ul className="space-y-1 text-sm text-slate-700">
                       {problem.hosts.map((host) => (
-                        <li key={host.hostid}>{host.name}</li>
+                        <li key={host.hostid}>
+                          <Link
+                            href={`/hosts/${host.hostid}`}
+                            className="hover:text-indigo-600 hover:underline"
+                          >
+                            {host.name}
+                          </Link>
+                        </li>
                       ))}
                     </ul>
                   </td>
@@ -180,7 +313,12 @@ export function OpenProblemsTable({ problems, generatedAt }: Props) {
                     })}
                   </td>
                   <td className="px-4 py-4 align-top text-sm font-semibold text-slate-900">
-                    {formatDuration(problem.durationMinutes)}
+                    {formatDuration(
+                      Math.max(
+                        problem.durationMinutes,
+                        (now - new Date(problem.openedAt).getTime()) / 60000
+                      )
+                    )}
                   </td>
                   <td className="px-4 py-4 align-top text-sm font-semibold text-slate-900">
                     {formatMinutes(problem.detectionMinutes)}
@@ -195,6 +333,60 @@ export function OpenProblemsTable({ problems, generatedAt }: Props) {
   );
 }
 
+function FeedStatusBadge({ status }: { status: FeedStatus }) {
+  const styles: Record<FeedStatus, { label: string; className: string }> = {
+    connecting: {
+      label: "Conectando...",
+      className: "bg-slate-100 text-slate-600",
+    },
+    live: {
+      label: "Ao vivo",
+      className: "bg-emerald-100 text-emerald-700",
+    },
+    error: {
+      label: "Reconectando...",
+      className: "bg-rose-100 text-rose-700",
+    },
+  };
+  const style = styles[status];
+  return (
+    <span
+      className={`inline-flex items-center gap-1.5 rounded-full px-2.5 py-0.5 text-xs font-semibold ${style.className}`}
+    >
+      <span
+        className={`h-1.5 w-1.5 rounded-full bg-current ${
+          status === "live" ? "animate-pulse" : ""
+        }`}
+      />
+      {style.label}
+    </span>
+  );
+}
+
+function applyChanges(
+  problems: OpenProblemDetail[],
+  changes: OpenProblemChange[]
+): OpenProblemDetail[] {
+  const byId = new Map(problems.map((problem) => [problem.eventId, problem]));
+  for (const change of changes) {
+    if (change.type === "resolved") {
+      byId.delete(change.eventId);
+    } else if (change.problem) {
+      byId.set(change.eventId, change.problem);
+    }
+  }
+  return sortProblems(Array.from(byId.values()));
+}
+
+function sortProblems(problems: OpenProblemDetail[]) {
+  return [...problems].sort((a, b) => {
+    if (b.severity !== a.severity) {
+      return b.severity - a.severity;
+    }
+    return new Date(a.openedAt).getTime() - new Date(b.openedAt).getTime();
+  });
+}
+
 function formatMinutes(value: number | null) {
   if (value === null || value === undefined) {
     return "—";
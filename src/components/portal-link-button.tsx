@@ -0,0 +1,79 @@
+"use client";
+
+import { useState } from "react";
+import { Link2 } from "lucide-react";
+import { PortalLink } from "@/types/dashboard";
+
+type Props = {
+  groupId: string;
+};
+
+export function PortalLinkButton({ groupId }: Props) {
+  const [loading, setLoading] = useState(false);
+  const [link, setLink] = useState<(PortalLink & { url: string }) | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  async function handleCreate() {
+    if (loading) return;
+
+    try {
+      setLoading(true);
+      setCopied(false);
+      const response = await fetch("/api/portal-links", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ groupId }),
+      });
+      const payload = await response.json().catch(() => null);
+      if (!response.ok) {
+        throw new Error(payload?.error ?? "Falha ao gerar o link.");
+      }
+      const created = payload.link as PortalLink;
+      const url = `${window.location.origin}${created.path}`;
+      setLink({ ...created, url });
+      await navigator.clipboard?.writeText(url).then(
+        () => setCopied(true),
+        () => setCopied(false)
+      );
+    } catch (error) {
+      console.error("Failed to create portal link", error);
+      alert(
+        error instanceof Error
+          ? error.message
+          : "Não foi possível gerar o link do portal agora."
+      );
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  return (
+    <div className="flex flex-col gap-1">
+      <button
+        type="button"
+        onClick={handleCreate}
+        disabled={loading}
+        className="inline-flex items-center gap-2 rounded-2xl border border-slate-200 px-5 py-3 text-sm font-semibold text-slate-600 transition hover:text-slate-900 disabled:cursor-not-allowed disabled:opacity-60"
+      >
+        <Link2 className="h-4 w-4" />
+        {loading ? "Gerando link..." : "Link do portal do cliente"}
+      </button>
+      {link && (
+        <p className="max-w-xs text-xs text-slate-500">
+          {copied ? "Link copiado. " : ""}
+          Válido até {new Date(link.expiresAt).toLocaleDateString(
+            "pt-BR"
+          )}:{" "}
+          <a
+            href={link.url}
+            target="_blank"
+            rel="noreferrer"
+            className="break-all font-medium text-slate-700 underline"
+          >
+            {link.url}
+          </a>
+        </p>
+      )}
+    </div>
+  );
+}
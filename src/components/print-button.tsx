@@ -0,0 +1,16 @@
+"use client";
+
+import { Printer } from "lucide-react";
+
+export function PrintButton({ label = "Imprimir / PDF" }: { label?: string }) {
+  return (
+    <button
+      type="button"
+      onClick={() => window.print()}
+      className="inline-flex items-center gap-2 rounded-2xl bg-slate-900 px-6 py-3 text-sm font-semibold text-white transition hover:bg-slate-800"
+    >
+      <Printer className="h-4 w-4" aria-hidden />
+      {label}
+    </button>
+  );
+}
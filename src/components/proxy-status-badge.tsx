@@ -0,0 +1,25 @@
+import { ProxySummary } from "@/types/dashboard";
+
+const LAST_SEEN_LABELS: Record<
+  ProxySummary["lastSeenStatus"],
+  { label: string; className: string }
+> = {
+  online: { label: "Online", className: "bg-emerald-50 text-emerald-700" },
+  stale: { label: "Sem contato", className: "bg-rose-50 text-rose-700" },
+  never: { label: "Nunca visto", className: "bg-slate-100 text-slate-600" },
+};
+
+export function ProxyStatusBadge({
+  status,
+}: {
+  status: ProxySummary["lastSeenStatus"];
+}) {
+  const { label, className } = LAST_SEEN_LABELS[status];
+  return (
+    <span
+      className={`rounded-full px-2 py-0.5 text-xs font-semibold ${className}`}
+    >
+      {label}
+    </span>
+  );
+}
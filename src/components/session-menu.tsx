@@ -0,0 +1,44 @@
+"use client";
+
+import { useState } from "react";
+import { LogOut } from "lucide-react";
+import { UserRole } from "@/types/dashboard";
+
+const ROLE_LABELS: Record<UserRole, string> = {
+  operator: "Operador NOC",
+  manager: "Gestor",
+  client: "Cliente",
+};
+
+type Props = {
+  name: string;
+  role: UserRole;
+};
+
+export function SessionMenu({ name, role }: Props) {
+  const [loading, setLoading] = useState(false);
+
+  async function handleLogout() {
+    setLoading(true);
+    await fetch("/api/auth/logout", { method: "POST" }).catch(() => null);
+    window.location.assign("/login");
+  }
+
+  return (
+    <div className="flex items-center gap-3 rounded-2xl border border-slate-200 bg-white px-4 py-2">
+      <div className="text-right">
+        <p className="text-sm font-semibold text-slate-900">{name}</p>
+        <p className="text-xs text-slate-500">{ROLE_LABELS[role]}</p>
+      </div>
+      <button
+        type="button"
+        onClick={handleLogout}
+        disabled={loading}
+        title="Sair"
+        className="rounded-full bg-slate-100 p-2 text-slate-600 transition hover:bg-slate-200 disabled:opacity-60"
+      >
+        <LogOut className="h-4 w-4" />
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,270 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { format, parse, subMonths } from "date-fns";
+import { LineChart, RefreshCcw } from "lucide-react";
+import { TrendSeries, TrendsApiResponse } from "@/types/dashboard";
+
+type Props = {
+  month: string;
+  selectedGroupIds: string[];
+};
+
+const TREND_MONTHS = 12;
+const SPARKLINE_WIDTH = 112;
+const SPARKLINE_HEIGHT = 32;
+
+export function TrendPanel({ month, selectedGroupIds }: Props) {
+  const [enabled, setEnabled] = useState(false);
+  const [data, setData] = useState<TrendsApiResponse | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+  const groupIdsKey = selectedGroupIds.join(",");
+
+  useEffect(() => {
+    if (!enabled || !month) {
+      return;
+    }
+    const controller = new AbortController();
+    let active = true;
+
+    async function loadTrends() {
+      setLoading(true);
+      setError(null);
+      try {
+        const to = month;
+        const from = format(
+          subMonths(parse(month, "yyyy-MM", new Date()), TREND_MONTHS - 1),
+          "yyyy-MM"
+        );
+        const groupIdsParam = groupIdsKey ? `&groupIds=${groupIdsKey}` : "";
+        const response = await fetch(
+          `/api/trends?from=${from}&to=${to}${groupIdsParam}`,
+          { signal: controller.signal }
+        );
+        if (!response.ok) {
+          const payload = await response.json().catch(() => null);
+          throw new Error(payload?.error ?? response.statusText);
+        }
+        const payload = (await response.json()) as TrendsApiResponse;
+        if (!active) return;
+        setData(payload);
+      } catch (err) {
+        if (!active || controller.signal.aborted) return;
+        setError(
+          err instanceof Error ? err.message : "Falha ao carregar tendências."
+        );
+        setData(null);
+      } finally {
+        if (active && !controller.signal.aborted) {
+          setLoading(false);
+        }
+      }
+    }
+
+    loadTrends();
+
+    return () => {
+      active = false;
+      controller.abort();
+    };
+  }, [enabled, month, groupIdsKey, reloadKey]);
+
+  const kpis = data?.series ?? [];
+  const rangeLabel = data?.months.length
+    ? `${data.months[0].label} — ${data.months[data.months.length - 1].label}`
+    : null;
+
+  return (
+    <section className="space-y-4 rounded-3xl border border-slate-200 bg-white p-6 shadow-sm ring-1 ring-slate-100">
+      <header className="flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <p className="text-xs font-semibold uppercase tracking-[0.35em] text-slate-500">
+            Tendência
+          </p>
+          <h2 className="text-lg font-semibold text-slate-900">
+            Evolução dos KPIs nos últimos {TREND_MONTHS} meses
+          </h2>
+          {rangeLabel && (
+            <p className="text-xs text-slate-500 capitalize">{rangeLabel}</p>
+          )}
+        </div>
+        <button
+          type="button"
+          onClick={() =>
+            enabled ? setReloadKey((value) => value + 1) : setEnabled(true)
+          }
+          disabled={loading}
+          className="inline-flex items-center gap-2 rounded-2xl border border-slate-200 bg-white px-4 py-2 text-sm font-semibold text-slate-700 shadow-sm transition hover:border-slate-300 hover:text-slate-900 disabled:cursor-not-allowed disabled:opacity-60"
+        >
+          {enabled ? (
+            <RefreshCcw
+              className={`h-4 w-4 ${loading ? "animate-spin" : ""}`}
+              aria-hidden
+            />
+          ) : (
+            <LineChart className="h-4 w-4" aria-hidden />
+          )}
+          {loading
+            ? "Carregando..."
+            : enabled
+            ? "Atualizar tendências"
+            : "Carregar tendências"}
+        </button>
+      </header>
+
+      {!enabled && (
+        <p className="text-sm text-slate-500">
+          As tendências consultam um mês por vez; meses encerrados são lidos dos
+          snapshots.
+        </p>
+      )}
+
+      {error && (
+        <div className="rounded-2xl border border-rose-200 bg-rose-50 p-4 text-sm text-rose-600">
+          {error}
+        </div>
+      )}
+
+      {enabled && loading && !data && (
+        <div className="h-40 animate-pulse rounded-2xl bg-slate-100" />
+      )}
+
+      {data && (
+        <div className="overflow-x-auto">
+          <table className="min-w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs uppercase tracking-wide text-slate-500">
+                <th className="px-3 py-2 font-semibold">Host group</th>
+                {kpis.map((series) => (
+                  <th key={series.kpi} className="px-3 py-2 font-semibold">
+                    {series.label}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              <tr className="bg-slate-50/70">
+                <td className="px-3 py-3 font-semibold text-slate-900">
+                  Consolidado
+                </td>
+                {data.series.map((series) => (
+                  <TrendCell key={series.kpi} series={series} />
+                ))}
+              </tr>
+              {data.groups.map((group) => (
+                <tr key={group.groupid}>
+                  <td className="px-3 py-3 font-medium text-slate-700">
+                    {group.name}
+                  </td>
+                  {group.series.map((series) => (
+                    <TrendCell key={series.kpi} series={series} />
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </section>
+  );
+}
+
+function TrendCell({ series }: { series: TrendSeries }) {
+  const present = series.values.filter(
+    (value): value is number => value !== null
+  );
+  const last = present.length ? present[present.length - 1] : null;
+  const first = present.length ? present[0] : null;
+  const tone = resolveTrendTone(series, first, last);
+
+  return (
+    <td className="px-3 py-3">
+      <div className="flex flex-col gap-1">
+        <Sparkline values={series.values} tone={tone} />
+        <span className="text-xs text-slate-600">
+          {last === null ? "—" : formatTrendValue(series.unit, last)}
+        </span>
+      </div>
+    </td>
+  );
+}
+
+function Sparkline({
+  values,
+  tone,
+}: {
+  values: Array<number | null>;
+  tone: "better" | "worse" | "flat";
+}) {
+  const present = values.filter((value): value is number => value !== null);
+  if (present.length < 2) {
+    return (
+      <div
+        className="flex items-center text-xs text-slate-400"
+        style={{ width: SPARKLINE_WIDTH, height: SPARKLINE_HEIGHT }}
+      >
+        Sem histórico
+      </div>
+    );
+  }
+
+  const min = Math.min(...present);
+  const max = Math.max(...present);
+  const span = max - min || 1;
+  const step = values.length > 1 ? SPARKLINE_WIDTH / (values.length - 1) : 0;
+  const points: string[] = [];
+  values.forEach((value, index) => {
+    if (value === null) return;
+    const x = index * step;
+    const y =
+      SPARKLINE_HEIGHT - 2 - ((value - min) / span) * (SPARKLINE_HEIGHT - 4);
+    points.push(`${x.toFixed(1)},${y.toFixed(1)}`);
+  });
+  const stroke =
+    tone === "better" ? "#059669" : tone === "worse" ? "#e11d48" : "#64748b";
+  const [lastX, lastY] = points[points.length - 1].split(",");
+
+  return (
+    <svg
+      width={SPARKLINE_WIDTH}
+      height={SPARKLINE_HEIGHT}
+      viewBox={`0 0 ${SPARKLINE_WIDTH} ${SPARKLINE_HEIGHT}`}
+      aria-hidden
+    >
+      <polyline
+        points={points.join(" ")}
+        fill="none"
+        stroke={stroke}
+        strokeWidth={1.75}
+        strokeLinejoin="round"
+        strokeLinecap="round"
+      />
+      <circle cx={lastX} cy={lastY} r={2.5} fill={stroke} />
+    </svg>
+  );
+}
+
+function resolveTrendTone(
+  series: TrendSeries,
+  first: number | null,
+  last: number | null
+): "better" | "worse" | "flat" {
+  if (first === null || last === null || first === last) {
+    return "flat";
+  }
+  const higherIsBetter = series.unit === "percent";
+  const improved = higherIsBetter ? last > first : last < first;
+  return improved ? "better" : "worse";
+}
+
+function formatTrendValue(unit: TrendSeries["unit"], value: number) {
+  if (unit === "percent") {
+    return `${value.toFixed(2)}%`;
+  }
+  if (unit === "minutes") {
+    return `${value.toFixed(1)} min`;
+  }
+  return value.toLocaleString("pt-BR");
+}
@@ -0,0 +1,75 @@
+"use client";
+
+import { useState } from "react";
+import { FileSpreadsheet } from "lucide-react";
+import { ExportWorkbook } from "@/types/dashboard";
+
+type Props = {
+  /** Montado só no clique, com os dados filtrados que a tabela exibe. */
+  build: () => ExportWorkbook;
+  label?: string;
+  className?: string;
+  disabled?: boolean;
+};
+
+export function XlsxExportButton({
+  build,
+  label = "Exportar Excel",
+  className,
+  disabled,
+}: Props) {
+  const [loading, setLoading] = useState(false);
+
+  async function handleExport() {
+    if (loading) return;
+
+    try {
+      setLoading(true);
+      const response = await fetch("/api/exports/xlsx", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(build()),
+      });
+      if (!response.ok) {
+        const payload = await response.json().catch(() => null);
+        throw new Error(payload?.error ?? "Falha ao gerar a planilha.");
+      }
+      const blob = await response.blob();
+      const disposition = response.headers.get("Content-Disposition") ?? "";
+      const fileName =
+        disposition.match(/filename="([^"]+)"/)?.[1] ?? "export.xlsx";
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = fileName;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error("Failed to export workbook", error);
+      alert(
+        error instanceof Error
+          ? error.message
+          : "Não foi possível gerar a planilha agora."
+      );
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  return (
+    <button
+      type="button"
+      onClick={handleExport}
+      disabled={loading || disabled}
+      className={
+        className ??
+        "inline-flex items-center gap-2 rounded-full border border-emerald-200 bg-emerald-50 px-3 py-1 text-xs font-semibold text-emerald-700 transition hover:bg-emerald-100 disabled:cursor-not-allowed disabled:opacity-60"
+      }
+    >
+      <FileSpreadsheet className="h-4 w-4" />
+      {loading ? "Gerando..." : label}
+    </button>
+  );
+}
@@ -0,0 +1,12 @@
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== "nodejs") {
+    return;
+  }
+  const { startClientReportScheduler } = await import(
+    "@/lib/client-report-scheduler"
+  );
+  startClientReportScheduler();
+
+  const { startNotificationScheduler } = await import("@/lib/notifications");
+  startNotificationScheduler();
+}
@@ -0,0 +1,199 @@
+import "server-only";
+import { randomUUID } from "node:crypto";
+import { z } from "zod";
+import { readJsonFile, updateJsonFile } from "@/lib/data-store";
+import { getRangeFromMonth } from "@/lib/metrics";
+import { ActionPlanEntry, ActionPlanStatus } from "@/types/dashboard";
+
+const ACTION_PLANS_FILE = "action-plans.json";
+
+const actionPlanFields = {
+  what: z.string().trim().min(1).max(500),
+  why: z.string().trim().max(1000),
+  where: z.string().trim().max(500),
+  when: z.string().trim().max(200),
+  who: z.string().trim().max(200),
+  how: z.string().trim().max(1000),
+  howMuch: z.string().trim().max(200),
+  status: z.enum(["em_andamento", "concluido"]),
+  dueDate: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, "Use AAAA-MM-DD")
+    .nullable(),
+  eventIds: z.array(z.string().regex(/^\d+$/)).max(50),
+  groupIds: z.array(z.string().trim().min(1)).max(50),
+};
+
+export const actionPlanInputSchema = z
+  .object(actionPlanFields)
+  .partial()
+  .required({ what: true });
+
+export const actionPlanPatchSchema = z.object(actionPlanFields).partial();
+
+export type ActionPlanInput = z.infer<typeof actionPlanInputSchema>;
+export type ActionPlanPatch = z.infer<typeof actionPlanPatchSchema>;
+
+type ActionPlanStore = {
+  items: ActionPlanEntry[];
+};
+
+export async function listActionPlans(filter?: {
+  groupId?: string;
+  eventId?: string;
+  status?: ActionPlanStatus;
+}): Promise<ActionPlanEntry[]> {
+  const store = await readStore();
+  return store.items
+    .filter(
+      (item) =>
+        (!filter?.groupId || item.groupIds.includes(filter.groupId)) &&
+        (!filter?.eventId || item.eventIds.includes(filter.eventId)) &&
+        (!filter?.status || item.status === filter.status)
+    )
+    .sort(compareItems);
+}
+
+export async function getActionPlan(
+  id: string
+): Promise<ActionPlanEntry | null> {
+  const store = await readStore();
+  return store.items.find((item) => item.id === id) ?? null;
+}
+
+export async function createActionPlan(
+  input: ActionPlanInput,
+  actor: string | null
+): Promise<ActionPlanEntry> {
+  const now = new Date().toISOString();
+  const status = input.status ?? "em_andamento";
+  const item: ActionPlanEntry = {
+    id: randomUUID(),
+    what: input.what,
+    why: input.why ?? "",
+    where: input.where ?? "",
+    when: input.when ?? "",
+    who: input.who ?? "",
+    how: input.how ?? "",
+    howMuch: input.howMuch ?? "",
+    status,
+    dueDate: input.dueDate ?? null,
+    eventIds: unique(input.eventIds ?? []),
+    groupIds: unique(input.groupIds ?? []),
+    history: [{ status, at: now, by: actor }],
+    createdAt: now,
+    createdBy: actor,
+    updatedAt: now,
+  };
+  await updateJsonFile<ActionPlanStore>(
+    ACTION_PLANS_FILE,
+    { items: [] },
+    (store) => ({ items: [...store.items, item] })
+  );
+  return item;
+}
+
+/** Atualiza os campos enviados; mudanças de status entram no histórico. */
+export async function updateActionPlan(
+  id: string,
+  patch: ActionPlanPatch,
+  actor: string | null
+): Promise<ActionPlanEntry | null> {
+  let updated: ActionPlanEntry | null = null;
+  await updateJsonFile<ActionPlanStore>(
+    ACTION_PLANS_FILE,
+    { items: [] },
+    (store) => ({
+      items: store.items.map((item) => {
+        if (item.id !== id) {
+          return item;
+        }
+        const now = new Date().toISOString();
+        const statusChanged =
+          patch.status !== undefined && patch.status !== item.status;
+        const next: ActionPlanEntry = {
+          ...item,
+          ...stripUndefined(patch),
+          eventIds: patch.eventIds ? unique(patch.eventIds) : item.eventIds,
+          groupIds: patch.groupIds ? unique(patch.groupIds) : item.groupIds,
+          history: statusChanged
+            ? [
+                ...item.history,
+                {
+                  status: patch.status as ActionPlanStatus,
+                  at: now,
+                  by: actor,
+                },
+              ]
+            : item.history,
+          updatedAt: now,
+        };
+        updated = next;
+        return next;
+      }),
+    })
+  );
+  return updated;
+}
+
+export async function deleteActionPlan(id: string): Promise<boolean> {
+  let removed = false;
+  await updateJsonFile<ActionPlanStore>(
+    ACTION_PLANS_FILE,
+    { items: [] },
+    (store) => {
+      const items = store.items.filter((item) => item.id !== id);
+      removed = items.length !== store.items.length;
+      return removed ? { items } : store;
+    }
+  );
+  return removed;
+}
+
+/**
+ * Itens do host group relevantes para o relatório do mês: criados até o fim
+ * do mês e ainda em andamento ou concluídos dentro dele.
+ */
+export async function listActionPlansForMonth(
+  groupId: string,
+  month: string
+): Promise<ActionPlanEntry[]> {
+  const { startSeconds, endSeconds } = getRangeFromMonth(month);
+  const items = await listActionPlans({ groupId });
+  return items.filter((item) => {
+    if (toSeconds(item.createdAt) > endSeconds) return false;
+    if (item.status !== "concluido") return true;
+    const concludedAt = [...item.history]
+      .reverse()
+      .find((change) => change.status === "concluido")?.at;
+    return !concludedAt || toSeconds(concludedAt) >= startSeconds;
+  });
+}
+
+async function readStore(): Promise<ActionPlanStore> {
+  const store = await readJsonFile<ActionPlanStore>(ACTION_PLANS_FILE);
+  return Array.isArray(store?.items) ? store : { items: [] };
+}
+
+function compareItems(a: ActionPlanEntry, b: ActionPlanEntry) {
+  if (a.status !== b.status) {
+    return a.status === "em_andamento" ? -1 : 1;
+  }
+  const dueA = a.dueDate ?? "9999-12-31";
+  const dueB = b.dueDate ?? "9999-12-31";
+  return dueA.localeCompare(dueB) || a.what.localeCompare(b.what, "pt-BR");
+}
+
+function stripUndefined<T extends Record<string, unknown>>(value: T) {
+  return Object.fromEntries(
+    Object.entries(value).filter(([, entry]) => entry !== undefined)
+  ) as Partial<T>;
+}
+
+function unique(values: string[]) {
+  return Array.from(new Set(values));
+}
+
+function toSeconds(value: string) {
+  return Math.floor(new Date(value).getTime() / 1000);
+}
@@ -0,0 +1,240 @@
+import "server-only";
+
+import {
+  fetchHostGroups,
+  fetchProblems,
+  fetchRecoveryEvents,
+  fetchTriggersByIds,
+  ZabbixTrigger,
+} from "@/lib/zabbix";
+import { SEVERITY_LEVELS } from "@/lib/metrics";
+import { GroupAlertReportRange } from "@/lib/group-alert-report";
+import { RequestError } from "@/lib/request-error";
+import { AlertNoiseEntry, AlertNoiseReport } from "@/types/dashboard";
+
+export const DEFAULT_FLAP_WINDOW_MINUTES = Math.max(
+  1,
+  Number(process.env.DASHBOARD_FLAP_WINDOW_MINUTES ?? "30") || 30
+);
+export const SHORT_ALERT_MINUTES = 5;
+
+const severityLabelMap = new Map<number, string>(
+  SEVERITY_LEVELS.map((level) => [level.key, level.label])
+);
+
+type NoiseEvent = {
+  start: number;
+  end: number | null;
+  name: string;
+  severity: number;
+  acknowledged: boolean;
+};
+
+type NoisePair = {
+  triggerId: string;
+  hostid: string;
+  hostName: string;
+  events: NoiseEvent[];
+};
+
+/**
+ * Agrupa os eventos do período por trigger + host e mede o ruído de cada par:
+ * disparos, flaps (reabertura até `flapWindowMinutes` depois da recuperação
+ * anterior), mediana de duração, fatia de alertas curtos e taxa de ACK.
+ * O ranking ordena por flaps, depois disparos e fatia de alertas curtos.
+ */
+export async function buildAlertNoiseReport(params: {
+  groupId?: string;
+  range: GroupAlertReportRange;
+  flapWindowMinutes?: number;
+}): Promise<AlertNoiseReport> {
+  const flapWindowMinutes =
+    params.flapWindowMinutes ?? DEFAULT_FLAP_WINDOW_MINUTES;
+  const startSeconds = Math.floor(params.range.start.getTime() / 1000);
+  const endSeconds = Math.floor(params.range.end.getTime() / 1000);
+
+  let groupLabel = "Todos os host groups";
+  if (params.groupId) {
+    const groups = await fetchHostGroups();
+    const group = groups.find((entry) => entry.groupid === params.groupId);
+    if (!group) {
+      throw new RequestError(
+        `Host group ${params.groupId} não encontrado no Zabbix.`,
+        404
+      );
+    }
+    groupLabel = group.name;
+  }
+
+  const problems = await fetchProblems({
+    groupId: params.groupId,
+    timeFrom: startSeconds,
+    timeTill: endSeconds,
+  });
+  const triggerIds = Array.from(
+    new Set(
+      problems
+        .map((problem) => problem.objectid)
+        .filter((id): id is string => Boolean(id && id !== "0"))
+    )
+  );
+  const [recoveryMap, triggers] = await Promise.all([
+    fetchRecoveryEvents(
+      problems
+        .map((problem) => problem.r_eventid)
+        .filter((id): id is string => Boolean(id && id !== "0"))
+    ),
+    fetchTriggersByIds(triggerIds),
+  ]);
+  const triggerMap = new Map<string, ZabbixTrigger>(
+    triggers.map((trigger) => [trigger.triggerid, trigger])
+  );
+
+  const pairs = new Map<string, NoisePair>();
+  for (const problem of problems) {
+    const start = Number(problem.clock);
+    const triggerId = problem.objectid;
+    if (!Number.isFinite(start) || !triggerId || triggerId === "0") continue;
+
+    const rawRecovery = problem.r_eventid
+      ? recoveryMap[problem.r_eventid]?.clock
+      : undefined;
+    const end =
+      rawRecovery !== undefined && rawRecovery !== null
+        ? Number(rawRecovery)
+        : null;
+    const event: NoiseEvent = {
+      start,
+      end: end !== null && Number.isFinite(end) ? end : null,
+      name: problem.name,
+      severity: Number(problem.severity ?? 0) || 0,
+      acknowledged: problem.acknowledged === "1",
+    };
+    const hosts = problem.hosts?.length
+      ? problem.hosts
+      : [{ hostid: "", name: "—" }];
+    for (const host of hosts) {
+      const key = `${triggerId}:${host.hostid}`;
+      let pair = pairs.get(key);
+      if (!pair) {
+        pair = {
+          triggerId,
+          hostid: host.hostid,
+          hostName: host.name,
+          events: [],
+        };
+        pairs.set(key, pair);
+      }
+      pair.events.push(event);
+    }
+  }
+
+  const entries = [...pairs.values()].map((pair) =>
+    summarizePair(pair, triggerMap.get(pair.triggerId), flapWindowMinutes)
+  );
+  entries.sort(
+    (a, b) =>
+      b.flaps - a.flaps ||
+      b.fires - a.fires ||
+      b.shortAlertPct - a.shortAlertPct ||
+      a.name.localeCompare(b.name, "pt-BR")
+  );
+
+  const events = problems.length;
+  const shortAlerts = entries.reduce(
+    (acc, entry) => acc + entry.shortAlerts,
+    0
+  );
+  const fires = entries.reduce((acc, entry) => acc + entry.fires, 0);
+  const acknowledged = entries.reduce(
+    (acc, entry) => acc + entry.acknowledged,
+    0
+  );
+
+  return {
+    groupId: params.groupId ?? null,
+    groupLabel,
+    range: { from: params.range.from, to: params.range.to },
+    flapWindowMinutes,
+    shortAlertMinutes: SHORT_ALERT_MINUTES,
+    totals: {
+      events,
+      pairs: entries.length,
+      flappingPairs: entries.filter((entry) => entry.flaps > 0).length,
+      flaps: entries.reduce((acc, entry) => acc + entry.flaps, 0),
+      shortAlerts,
+      shortAlertPct: toPct(shortAlerts, fires),
+      ackRatePct: toPct(acknowledged, fires),
+    },
+    entries,
+  };
+}
+
+function summarizePair(
+  pair: NoisePair,
+  trigger: ZabbixTrigger | undefined,
+  flapWindowMinutes: number
+): AlertNoiseEntry {
+  const events = [...pair.events].sort((a, b) => a.start - b.start);
+  const flapWindowSeconds = flapWindowMinutes * 60;
+
+  let flaps = 0;
+  for (let index = 1; index < events.length; index += 1) {
+    const previousEnd = events[index - 1].end;
+    if (previousEnd === null) continue;
+    const gap = events[index].start - previousEnd;
+    if (gap >= 0 && gap <= flapWindowSeconds) {
+      flaps += 1;
+    }
+  }
+
+  const durations = events
+    .filter((event) => event.end !== null)
+    .map((event) => Math.max(0, (event.end as number) - event.start) / 60);
+  const shortAlerts = durations.filter(
+    (minutes) => minutes < SHORT_ALERT_MINUTES
+  ).length;
+  const acknowledged = events.filter((event) => event.acknowledged).length;
+  const maxSeverity = Math.max(...events.map((event) => event.severity));
+  const latest = events[events.length - 1];
+
+  return {
+    triggerId: pair.triggerId,
+    hostid: pair.hostid,
+    hostName: pair.hostName,
+    name: latest.name,
+    triggerDescription: trigger?.description ?? null,
+    itemKeys: Array.from(
+      new Set(
+        (trigger?.items ?? [])
+          .map((item) => item.key_)
+          .filter((key): key is string => Boolean(key))
+      )
+    ).sort((a, b) => a.localeCompare(b)),
+    maxSeverity,
+    severityLabel:
+      severityLabelMap.get(maxSeverity) ?? `Severidade ${maxSeverity}`,
+    fires: events.length,
+    flaps,
+    openNow: events.filter((event) => event.end === null).length,
+    medianDurationMinutes: median(durations),
+    shortAlerts,
+    shortAlertPct: toPct(shortAlerts, events.length),
+    acknowledged,
+    ackRatePct: toPct(acknowledged, events.length),
+    lastFiredAt: new Date(latest.start * 1000).toISOString(),
+  };
+}
+
+function median(values: number[]): number | null {
+  if (!values.length) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2
+    ? sorted[middle]
+    : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+function toPct(part: number, total: number) {
+  return total > 0 ? (part / total) * 100 : 0;
+}
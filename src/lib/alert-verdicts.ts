@@ -0,0 +1,82 @@
+import "server-only";
+import { addEventMessage, ZabbixAcknowledge } from "@/lib/zabbix";
+import { AlertVerdict, AlertVerdictCode } from "@/types/dashboard";
+
+const VERDICT_PREFIX = (process.env.DASHBOARD_VERDICT_PREFIX ?? "NOC").trim();
+const VERDICT_PATTERN = new RegExp(
+  `^\\[${escapeRegExp(VERDICT_PREFIX)}:(TP|FP|FN)\\]\\s*(.*)$`,
+  "is"
+);
+
+/**
+ * O veredito fica registrado no Zabbix como mensagem de acknowledge com prefixo
+ * estruturado, por exemplo `[NOC:FP] sensor oscilando`. Só essas mensagens
+ * contam; textos livres com "fp"/"falso positivo" são ignorados.
+ */
+export function formatVerdictMessage(
+  verdict: AlertVerdictCode,
+  reason: string | null
+): string {
+  const tag = `[${VERDICT_PREFIX}:${verdict.toUpperCase()}]`;
+  return reason ? `${tag} ${reason}` : tag;
+}
+
+export function parseVerdictMessage(
+  message: string | undefined | null
+): { verdict: AlertVerdictCode; reason: string | null } | null {
+  const match = message?.trim().match(VERDICT_PATTERN);
+  if (!match) {
+    return null;
+  }
+  return {
+    verdict: match[1].toLowerCase() as AlertVerdictCode,
+    reason: match[2].trim() || null,
+  };
+}
+
+export function isVerdictMessage(message: string | undefined | null): boolean {
+  return parseVerdictMessage(message) !== null;
+}
+
+/** O veredito mais recente vence, permitindo reclassificar o evento. */
+export function resolveAlertVerdict(
+  acknowledges: ZabbixAcknowledge[] | undefined
+): AlertVerdict | null {
+  let latest: AlertVerdict | null = null;
+  let latestClock = -Infinity;
+  for (const entry of acknowledges ?? []) {
+    const parsed = parseVerdictMessage(entry.message);
+    const clock = Number(entry.clock);
+    if (!parsed || !Number.isFinite(clock) || clock < latestClock) {
+      continue;
+    }
+    latestClock = clock;
+    latest = {
+      ...parsed,
+      at: new Date(clock * 1000).toISOString(),
+      userid: entry.userid ?? null,
+    };
+  }
+  return latest;
+}
+
+export async function recordAlertVerdict(input: {
+  eventId: string;
+  verdict: AlertVerdictCode;
+  reason: string | null;
+}): Promise<AlertVerdict> {
+  await addEventMessage(
+    input.eventId,
+    formatVerdictMessage(input.verdict, input.reason)
+  );
+  return {
+    verdict: input.verdict,
+    reason: input.reason,
+    at: new Date().toISOString(),
+    userid: null,
+  };
+}
+
+function escapeRegExp(value: string) {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
@@ -0,0 +1,117 @@
+import "server-only";
+
+/**
+ * Login OIDC (authorization code) opcional. O IdP só autentica: o perfil e os
+ * host groups continuam no cadastro local, casado pelo e-mail de `userinfo`
+ * (apenas com `email_verified`; o username do IdP não é confiável).
+ */
+
+type DiscoveryDocument = {
+  authorization_endpoint: string;
+  token_endpoint: string;
+  userinfo_endpoint: string;
+};
+
+export const OIDC_STATE_COOKIE = "noc_oidc_state";
+
+const OIDC_SCOPES = process.env.DASHBOARD_OIDC_SCOPES ?? "openid email profile";
+
+let discoveryPromise: Promise<DiscoveryDocument> | null = null;
+
+export function isOidcEnabled(): boolean {
+  return Boolean(
+    process.env.DASHBOARD_OIDC_ISSUER && process.env.DASHBOARD_OIDC_CLIENT_ID
+  );
+}
+
+export function getOidcProviderName(): string {
+  return process.env.DASHBOARD_OIDC_NAME ?? "SSO";
+}
+
+export async function buildAuthorizationUrl(
+  origin: string,
+  state: string
+): Promise<string> {
+  const discovery = await loadDiscovery();
+  const url = new URL(discovery.authorization_endpoint);
+  url.search = new URLSearchParams({
+    response_type: "code",
+    client_id: process.env.DASHBOARD_OIDC_CLIENT_ID ?? "",
+    redirect_uri: getRedirectUri(origin),
+    scope: OIDC_SCOPES,
+    state,
+  }).toString();
+  return url.toString();
+}
+
+export async function fetchOidcIdentity(
+  origin: string,
+  code: string
+): Promise<{ email: string | null }> {
+  const discovery = await loadDiscovery();
+  const tokenResponse = await fetch(discovery.token_endpoint, {
+    method: "POST",
+    headers: { "Content-Type": "application/x-www-form-urlencoded" },
+    body: new URLSearchParams({
+      grant_type: "authorization_code",
+      code,
+      redirect_uri: getRedirectUri(origin),
+      client_id: process.env.DASHBOARD_OIDC_CLIENT_ID ?? "",
+      client_secret: process.env.DASHBOARD_OIDC_CLIENT_SECRET ?? "",
+    }),
+    cache: "no-store",
+  });
+  if (!tokenResponse.ok) {
+    throw new Error(`IdP recusou o código (HTTP ${tokenResponse.status}).`);
+  }
+  const token = (await tokenResponse.json()) as { access_token?: string };
+  if (!token.access_token) {
+    throw new Error("IdP não devolveu access_token.");
+  }
+
+  const userinfoResponse = await fetch(discovery.userinfo_endpoint, {
+    headers: { Authorization: `Bearer ${token.access_token}` },
+    cache: "no-store",
+  });
+  if (!userinfoResponse.ok) {
+    throw new Error(
+      `Falha ao consultar userinfo (HTTP ${userinfoResponse.status}).`
+    );
+  }
+  const claims = (await userinfoResponse.json()) as {
+    email?: string;
+    email_verified?: boolean;
+  };
+  return {
+    email: claims.email_verified === true ? (claims.email ?? null) : null,
+  };
+}
+
+function getRedirectUri(origin: string) {
+  return (
+    process.env.DASHBOARD_OIDC_REDIRECT_URI ??
+    `${origin}/api/auth/oidc/callback`
+  );
+}
+
+function loadDiscovery(): Promise<DiscoveryDocument> {
+  if (!discoveryPromise) {
+    const issuer = (process.env.DASHBOARD_OIDC_ISSUER ?? "").replace(/\/$/, "");
+    discoveryPromise = fetch(`${issuer}/.well-known/openid-configuration`, {
+      cache: "no-store",
+    })
+      .then(async (response) => {
+        if (!response.ok) {
+          throw new Error(
+            `Discovery OIDC indisponível (HTTP ${response.status}).`
+          );
+        }
+        return (await response.json()) as DiscoveryDocument;
+      })
+      .catch((error) => {
+        discoveryPromise = null;
+        throw error;
+      });
+  }
+  return discoveryPromise;
+}
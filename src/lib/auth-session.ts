@@ -0,0 +1,175 @@
+import { DashboardSession, UserRole } from "@/types/dashboard";
+
+/**
+ * Sessão assinada (HMAC-SHA256) guardada em cookie e regras de acesso por
+ * rota. Usa só Web Crypto para rodar tanto no `proxy.ts` quanto nas rotas.
+ */
+
+export const SESSION_COOKIE = "noc_session";
+
+export const SESSION_TTL_SECONDS =
+  Math.max(1, Number(process.env.DASHBOARD_SESSION_HOURS ?? "12") || 12) *
+  60 *
+  60;
+
+/** Sem `DASHBOARD_AUTH_SECRET` o dashboard continua aberto, como antes. */
+export function isAuthEnabled(): boolean {
+  return Boolean(process.env.DASHBOARD_AUTH_SECRET);
+}
+
+export async function signSession(
+  session: Omit<DashboardSession, "exp">
+): Promise<string> {
+  const payload: DashboardSession = {
+    ...session,
+    exp: Math.floor(Date.now() / 1000) + SESSION_TTL_SECONDS,
+  };
+  const body = toBase64Url(new TextEncoder().encode(JSON.stringify(payload)));
+  return `${body}.${await sign(body)}`;
+}
+
+export async function verifySession(
+  token: string | null | undefined
+): Promise<DashboardSession | null> {
+  if (!token || !isAuthEnabled()) return null;
+  const [body, signature] = token.split(".");
+  if (!body || !signature) return null;
+
+  try {
+    const valid = await crypto.subtle.verify(
+      "HMAC",
+      await getKey(),
+      fromBase64Url(signature),
+      new TextEncoder().encode(body)
+    );
+    if (!valid) return null;
+
+    const payload = JSON.parse(
+      new TextDecoder().decode(fromBase64Url(body))
+    ) as DashboardSession;
+    if (!payload.sub || payload.exp * 1000 <= Date.now()) return null;
+    return payload;
+  } catch {
+    return null;
+  }
+}
+
+const NEXT_PATH_BASE = "http://dashboard.invalid";
+
+/**
+ * Destino pós-login só dentro do próprio dashboard. Barra invertida e
+ * caracteres de controle são recusados porque os navegadores tratam "/\host"
+ * como "//host".
+ */
+export function safeNextPath(value: string | null | undefined): string {
+  if (
+    !value ||
+    !value.startsWith("/") ||
+    /[\\\u0000-\u001f\u007f]/.test(value)
+  ) {
+    return "/";
+  }
+  try {
+    const url = new URL(value, NEXT_PATH_BASE);
+    if (url.origin !== NEXT_PATH_BASE) return "/";
+    return `${url.pathname}${url.search}${url.hash}`;
+  } catch {
+    return "/";
+  }
+}
+
+const ALL_ROLES: UserRole[] = ["operator", "manager", "client"];
+const STAFF_ROLES: UserRole[] = ["operator", "manager"];
+const MANAGER_ROLES: UserRole[] = ["manager"];
+
+type AccessRule = {
+  pattern: RegExp;
+  roles: UserRole[];
+  methods?: string[];
+};
+
+// A primeira regra que casar decide; o restante fica com operador e gestor.
+// O recorte por host group dos clientes é feito nas próprias rotas.
+const ACCESS_RULES: AccessRule[] = [
+  { pattern: /^\/api\/auth\/users(\/|$)/, roles: MANAGER_ROLES },
+  { pattern: /^\/api\/auth\/session$/, roles: ALL_ROLES },
+  {
+    pattern:
+      /^\/api\/(sla-contracts|business-calendars|host-classification)(\/|$)/,
+    roles: MANAGER_ROLES,
+    methods: ["POST", "PUT", "PATCH", "DELETE"],
+  },
+  { pattern: /^\/api\/snapshots\/recompute$/, roles: MANAGER_ROLES },
+  { pattern: /^\/api\/notifications(\/|$)/, roles: MANAGER_ROLES },
+  {
+    pattern: /^\/api\/reports\/client\/files$/,
+    roles: MANAGER_ROLES,
+    methods: ["POST"],
+  },
+  {
+    pattern: /^\/(hosts\/[^/]+|reports\/(group-alerts|executive-summary))?$/,
+    roles: ALL_ROLES,
+  },
+  {
+    pattern:
+      /^\/api\/(metrics|group-metrics|host-roster|host-groups|trends|open-problems|exports\/xlsx|reports\/group-alerts|reports\/client|reports\/executive-summary)$/,
+    roles: ALL_ROLES,
+  },
+  { pattern: /^\/api\/hosts\/[^/]+$/, roles: ALL_ROLES },
+];
+
+export function canAccessPath(
+  role: UserRole,
+  pathname: string,
+  method: string
+): boolean {
+  const rule = ACCESS_RULES.find(
+    (entry) =>
+      entry.pattern.test(pathname) &&
+      (!entry.methods || entry.methods.includes(method.toUpperCase()))
+  );
+  return (rule?.roles ?? STAFF_ROLES).includes(role);
+}
+
+async function sign(value: string) {
+  const signature = await crypto.subtle.sign(
+    "HMAC",
+    await getKey(),
+    new TextEncoder().encode(value)
+  );
+  return toBase64Url(new Uint8Array(signature));
+}
+
+let keyPromise: Promise<CryptoKey> | null = null;
+
+function getKey() {
+  if (!keyPromise) {
+    keyPromise = crypto.subtle.importKey(
+      "raw",
+      new TextEncoder().encode(process.env.DASHBOARD_AUTH_SECRET ?? ""),
+      { name: "HMAC", hash: "SHA-256" },
+      false,
+      ["sign", "verify"]
+    );
+  }
+  return keyPromise;
+}
+
+function toBase64Url(bytes: Uint8Array) {
+  let binary = "";
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary)
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
+
+function fromBase64Url(value: string) {
+  const normalized = value.replace(/-/g, "+").replace(/_/g, "/");
+  const binary = atob(
+    normalized.padEnd(Math.ceil(normalized.length / 4) * 4, "=")
+  );
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+}
@@ -0,0 +1,319 @@
+import "server-only";
+import {
+  randomBytes,
+  randomUUID,
+  scrypt as scryptCallback,
+  timingSafeEqual,
+} from "node:crypto";
+import { promisify } from "node:util";
+import { cookies } from "next/headers";
+import { z } from "zod";
+import { readJsonFile, updateJsonFile } from "@/lib/data-store";
+import {
+  isAuthEnabled,
+  SESSION_COOKIE,
+  SESSION_TTL_SECONDS,
+  signSession,
+  verifySession,
+} from "@/lib/auth-session";
+import { DashboardSession, DashboardUser, UserRole } from "@/types/dashboard";
+
+const scrypt = promisify(scryptCallback) as (
+  password: string,
+  salt: Buffer,
+  keylen: number
+) => Promise<Buffer>;
+
+const USERS_FILE = "users.json";
+const HASH_BYTES = 64;
+
+export const userInputSchema = z
+  .object({
+    username: z
+      .string()
+      .trim()
+      .min(3)
+      .max(64)
+      .regex(/^[a-zA-Z0-9._@-]+$/, "Use letras, números, ponto, _, @ ou -"),
+    name: z.string().trim().min(1).max(120),
+    email: z.string().trim().email().nullable().optional(),
+    role: z.enum(["operator", "manager", "client"]),
+    groupIds: z.array(z.string().trim().min(1)).default([]),
+    password: z.string().min(8).max(200).optional(),
+  })
+  .refine((value) => value.role !== "client" || value.groupIds.length > 0, {
+    message: "Usuários cliente precisam de ao menos um host group.",
+    path: ["groupIds"],
+  });
+
+export type UserInput = z.infer<typeof userInputSchema>;
+
+type StoredUser = {
+  username: string;
+  name: string;
+  email: string | null;
+  role: UserRole;
+  groupIds: string[];
+  passwordHash: string | null;
+  updatedAt: string;
+};
+
+type UserStore = {
+  users: Record<string, StoredUser>;
+};
+
+export async function listUsers(): Promise<DashboardUser[]> {
+  const store = await readStore();
+  return Object.entries(store.users)
+    .map(([id, user]) => toPublicUser(id, user))
+    .sort((a, b) => a.username.localeCompare(b.username));
+}
+
+export async function getUser(id: string): Promise<DashboardUser | null> {
+  const store = await readStore();
+  const user = store.users[id];
+  return user ? toPublicUser(id, user) : null;
+}
+
+/** Cria (sem `id`) ou atualiza um usuário; senha omitida mantém a atual. */
+export async function saveUser(
+  input: UserInput,
+  id?: string
+): Promise<DashboardUser> {
+  const passwordHash = input.password
+    ? await hashPassword(input.password)
+    : null;
+  const userId = id ?? randomUUID();
+  const updated = await updateJsonFile<UserStore>(
+    USERS_FILE,
+    { users: {} },
+    (store) => {
+      const username = input.username.toLowerCase();
+      const conflict = Object.entries(store.users).find(
+        ([otherId, user]) => otherId !== userId && user.username === username
+      );
+      if (conflict) {
+        throw new Error(`O usuário "${username}" já existe.`);
+      }
+      const previous = store.users[userId];
+      if (id && !previous) {
+        throw new Error("Usuário não encontrado.");
+      }
+      return {
+        users: {
+          ...store.users,
+          [userId]: {
+            username,
+            name: input.name,
+            email: input.email?.toLowerCase() ?? null,
+            role: input.role,
+            groupIds: input.role === "client" ? input.groupIds : [],
+            passwordHash: passwordHash ?? previous?.passwordHash ?? null,
+            updatedAt: new Date().toISOString(),
+          },
+        },
+      };
+    }
+  );
+  return toPublicUser(userId, updated.users[userId]);
+}
+
+export async function deleteUser(id: string): Promise<boolean> {
+  let removed = false;
+  await updateJsonFile<UserStore>(USERS_FILE, { users: {} }, (store) => {
+    if (!store.users[id]) {
+      return store;
+    }
+    removed = true;
+    const users = { ...store.users };
+    delete users[id];
+    return { users };
+  });
+  return removed;
+}
+
+/**
+ * Valida usuário e senha. Enquanto não houver nenhum usuário cadastrado,
+ * `DASHBOARD_ADMIN_USERNAME`/`DASHBOARD_ADMIN_PASSWORD` criam o primeiro
+ * gestor no primeiro login.
+ */
+export async function authenticateUser(
+  username: string,
+  password: string
+): Promise<DashboardUser | null> {
+  const normalized = username.trim().toLowerCase();
+  const store = await readStore();
+  const entry = Object.entries(store.users).find(
+    ([, user]) => user.username === normalized
+  );
+
+  if (!entry) {
+    const adminUsername = process.env.DASHBOARD_ADMIN_USERNAME?.toLowerCase();
+    const adminPassword = process.env.DASHBOARD_ADMIN_PASSWORD;
+    if (
+      Object.keys(store.users).length === 0 &&
+      adminUsername &&
+      adminPassword &&
+      normalized === adminUsername &&
+      safeEqual(Buffer.from(password), Buffer.from(adminPassword))
+    ) {
+      return saveUser({
+        username: adminUsername,
+        name: "Administrador",
+        role: "manager",
+        groupIds: [],
+        password,
+      });
+    }
+    return null;
+  }
+
+  const [id, user] = entry;
+  if (
+    !user.passwordHash ||
+    !(await verifyPassword(password, user.passwordHash))
+  ) {
+    return null;
+  }
+  return toPublicUser(id, user);
+}
+
+/** Usuário local correspondente ao login OIDC (pelo e-mail verificado). */
+export async function findUserByIdentity(identity: {
+  email?: string | null;
+}): Promise<DashboardUser | null> {
+  const email = identity.email?.trim().toLowerCase();
+  if (!email) return null;
+  const users = await listUsers();
+  return users.find((user) => user.email === email) ?? null;
+}
+
+export async function createSessionCookie(user: DashboardUser) {
+  return {
+    name: SESSION_COOKIE,
+    value: await signSession({
+      sub: user.id,
+      name: user.name,
+      role: user.role,
+      groupIds: user.groupIds,
+    }),
+    httpOnly: true,
+    sameSite: "lax" as const,
+    secure: process.env.NODE_ENV === "production",
+    path: "/",
+    maxAge: SESSION_TTL_SECONDS,
+  };
+}
+
+/**
+ * Sessão da requisição atual. O perfil e os host groups vêm do cadastro (não
+ * do cookie), então alterações valem sem novo login.
+ */
+export async function getSession(): Promise<DashboardSession | null> {
+  if (!isAuthEnabled()) return null;
+  const cookieStore = await cookies();
+  const token = await verifySession(cookieStore.get(SESSION_COOKIE)?.value);
+  if (!token) return null;
+  const user = await getUser(token.sub);
+  if (!user) return null;
+  return {
+    sub: user.id,
+    name: user.name,
+    role: user.role,
+    groupIds: user.groupIds,
+    exp: token.exp,
+  };
+}
+
+/**
+ * Host groups liberados para a sessão atual: `null` quando não há restrição
+ * (login desligado, operador ou gestor).
+ */
+export async function getGroupRestriction(): Promise<string[] | null> {
+  const session = await getSession();
+  if (!isAuthEnabled() || (session && session.role !== "client")) {
+    return null;
+  }
+  return session?.groupIds ?? [];
+}
+
+export type GroupScopeResult =
+  | { ok: true; groupIds: string[] | undefined; restricted: boolean }
+  | { ok: false; status: 401 | 403; error: string };
+
+/**
+ * Aplica o recorte de host groups aos grupos pedidos pela rota. Clientes sem
+ * filtro recebem os próprios grupos; pedir um grupo fora da lista dá 403.
+ */
+export async function authorizeGroupScope(
+  requested?: string[]
+): Promise<GroupScopeResult> {
+  if (!isAuthEnabled()) {
+    return { ok: true, groupIds: requested, restricted: false };
+  }
+  const session = await getSession();
+  if (!session) {
+    return { ok: false, status: 401, error: "Sessão expirada. Faça login." };
+  }
+  if (session.role !== "client") {
+    return { ok: true, groupIds: requested, restricted: false };
+  }
+  if (!session.groupIds.length) {
+    return {
+      ok: false,
+      status: 403,
+      error: "Usuário sem host groups liberados.",
+    };
+  }
+  if (!requested?.length) {
+    return { ok: true, groupIds: session.groupIds, restricted: true };
+  }
+  const denied = requested.filter((id) => !session.groupIds.includes(id));
+  if (denied.length) {
+    return {
+      ok: false,
+      status: 403,
+      error: "Acesso negado a um ou mais host groups.",
+    };
+  }
+  return { ok: true, groupIds: requested, restricted: true };
+}
+
+async function hashPassword(password: string) {
+  const salt = randomBytes(16);
+  const hash = await scrypt(password, salt, HASH_BYTES);
+  return `scrypt$${salt.toString("base64")}$${hash.toString("base64")}`;
+}
+
+async function verifyPassword(password: string, stored: string) {
+  const [scheme, salt, hash] = stored.split("$");
+  if (scheme !== "scrypt" || !salt || !hash) return false;
+  const expected = Buffer.from(hash, "base64");
+  const actual = await scrypt(
+    password,
+    Buffer.from(salt, "base64"),
+    expected.length
+  );
+  return safeEqual(actual, expected);
+}
+
+function safeEqual(a: Buffer, b: Buffer) {
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+function toPublicUser(id: string, user: StoredUser): DashboardUser {
+  return {
+    id,
+    username: user.username,
+    name: user.name,
+    email: user.email,
+    role: user.role,
+    groupIds: user.groupIds,
+    hasPassword: Boolean(user.passwordHash),
+    updatedAt: user.updatedAt,
+  };
+}
+
+async function readStore(): Promise<UserStore> {
+  return (await readJsonFile<UserStore>(USERS_FILE)) ?? { users: {} };
+}
@@ -0,0 +1,470 @@
+import "server-only";
+import { readdir, readFile } from "node:fs/promises";
+import path from "node:path";
+import { formatInTimeZone, fromZonedTime } from "date-fns-tz";
+import { readJsonFile, updateJsonFile } from "@/lib/data-store";
+import {
+  Interval,
+  intersectIntervals,
+  subtractIntervals,
+  sumIntervals,
+} from "@/lib/intervals";
+import { RequestError } from "@/lib/request-error";
+import {
+  BusinessCalendarConfig,
+  BusinessCalendarException,
+  BusinessHoursWindow,
+  BusinessWeekday,
+  HolidaySet,
+} from "@/types/dashboard";
+
+const DEFAULT_TIMEZONE =
+  process.env.DASHBOARD_TIMEZONE ?? "America/Sao_Paulo";
+const BUSINESS_START_HOUR = Number(
+  process.env.DASHBOARD_BUSINESS_START_HOUR ?? "7"
+);
+const BUSINESS_END_HOUR = Number(
+  process.env.DASHBOARD_BUSINESS_END_HOUR ?? "24"
+);
+const HOLIDAYS_DIR = path.resolve(
+  process.env.DASHBOARD_HOLIDAYS_DIR ??
+    path.join(process.cwd(), "config", "holidays")
+);
+const BUSINESS_CALENDARS_FILE = "business-calendars.json";
+const DEFAULT_CALENDAR_ID = "default";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MINUTES_PER_DAY = 24 * 60;
+
+export const BUSINESS_WEEKDAYS: BusinessWeekday[] = [
+  "mon",
+  "tue",
+  "wed",
+  "thu",
+  "fri",
+  "sat",
+  "sun",
+];
+
+const WEEKDAY_LABELS: Record<BusinessWeekday, string> = {
+  mon: "seg",
+  tue: "ter",
+  wed: "qua",
+  thu: "qui",
+  fri: "sex",
+  sat: "sáb",
+  sun: "dom",
+};
+
+const DEFAULT_BUSINESS_DAYS = parseWeekdays(process.env.DASHBOARD_BUSINESS_DAYS);
+const DEFAULT_HOLIDAY_SETS = (process.env.DASHBOARD_HOLIDAY_SETS ?? "")
+  .split(",")
+  .map((value) => value.trim())
+  .filter(Boolean);
+
+type StoredCalendar = {
+  name: string | null;
+  timezone?: string;
+  weekly: Partial<Record<BusinessWeekday, BusinessHoursWindow[]>>;
+  holidaySets: string[];
+  exceptions: BusinessCalendarException[];
+  updatedAt: string;
+};
+
+type CalendarStore = {
+  calendars: Record<string, StoredCalendar>;
+};
+
+export type BusinessCalendarInput = {
+  name?: string | null;
+  timezone?: string;
+  weekly?: Partial<Record<BusinessWeekday, BusinessHoursWindow[]>>;
+  holidaySets?: string[];
+  exceptions?: BusinessCalendarException[];
+};
+
+export type BusinessCalendar = {
+  id: string;
+  label: string;
+  splitSeconds: (
+    startSeconds: number,
+    endSeconds: number
+  ) => { business: number; off: number };
+  /** Mesmo corte de `splitSeconds`, mas devolvendo os trechos em si. */
+  splitIntervals: (
+    startSeconds: number,
+    endSeconds: number
+  ) => { business: Interval[]; off: Interval[] };
+  isBusinessTime: (epochSeconds: number) => boolean;
+};
+
+export async function listHolidaySets(): Promise<HolidaySet[]> {
+  let files: string[];
+  try {
+    files = await readdir(HOLIDAYS_DIR);
+  } catch (error) {
+    console.warn("[business-calendar] Diretório de feriados indisponível", error);
+    return [];
+  }
+
+  const sets: HolidaySet[] = [];
+  for (const file of files.filter((entry) => entry.endsWith(".json")).sort()) {
+    try {
+      const content = JSON.parse(
+        await readFile(path.join(HOLIDAYS_DIR, file), "utf8")
+      ) as Partial<HolidaySet>;
+      sets.push({
+        id: file.replace(/\.json$/, ""),
+        name: content.name ?? file,
+        holidays: (content.holidays ?? []).filter(
+          (entry) => entry && isHolidayDate(entry.date)
+        ),
+      });
+    } catch (error) {
+      console.warn(`[business-calendar] Falha ao ler ${file}`, error);
+    }
+  }
+  return sets;
+}
+
+export function getDefaultBusinessCalendar(): BusinessCalendarConfig {
+  return toConfig(null, undefined);
+}
+
+export async function listBusinessCalendars(): Promise<BusinessCalendarConfig[]> {
+  const store = await readStore();
+  return Object.entries(store.calendars)
+    .map(([groupid, calendar]) => toConfig(groupid, calendar))
+    .sort((a, b) =>
+      (a.name ?? a.groupid ?? "").localeCompare(b.name ?? b.groupid ?? "")
+    );
+}
+
+export async function getBusinessCalendarConfig(
+  groupid: string
+): Promise<BusinessCalendarConfig> {
+  const store = await readStore();
+  return toConfig(groupid, store.calendars[groupid]);
+}
+
+export async function saveBusinessCalendar(
+  groupid: string,
+  input: BusinessCalendarInput
+): Promise<BusinessCalendarConfig> {
+  const knownSets = new Set((await listHolidaySets()).map((set) => set.id));
+  const unknownSets = (input.holidaySets ?? []).filter(
+    (id) => !knownSets.has(id)
+  );
+  if (unknownSets.length) {
+    throw new RequestError(
+      `Lista de feriados não encontrada: ${unknownSets.join(", ")}.`
+    );
+  }
+
+  const updated = await updateJsonFile<CalendarStore>(
+    BUSINESS_CALENDARS_FILE,
+    { calendars: {} },
+    (store) => {
+      const previous = store.calendars[groupid];
+      return {
+        calendars: {
+          ...store.calendars,
+          [groupid]: {
+            name: input.name ?? previous?.name ?? null,
+            timezone: input.timezone ?? previous?.timezone,
+            weekly: input.weekly ?? previous?.weekly ?? buildDefaultWeekly(),
+            holidaySets:
+              input.holidaySets ?? previous?.holidaySets ?? DEFAULT_HOLIDAY_SETS,
+            exceptions: input.exceptions ?? previous?.exceptions ?? [],
+            updatedAt: new Date().toISOString(),
+          },
+        },
+      };
+    }
+  );
+  return toConfig(groupid, updated.calendars[groupid]);
+}
+
+export async function deleteBusinessCalendar(groupid: string): Promise<boolean> {
+  let removed = false;
+  await updateJsonFile<CalendarStore>(
+    BUSINESS_CALENDARS_FILE,
+    { calendars: {} },
+    (store) => {
+      if (!store.calendars[groupid]) {
+        return store;
+      }
+      removed = true;
+      const calendars = { ...store.calendars };
+      delete calendars[groupid];
+      return { calendars };
+    }
+  );
+  return removed;
+}
+
+/**
+ * Carrega calendários e feriados uma única vez por cálculo. Host groups sem
+ * calendário próprio compartilham a mesma instância padrão (e o cache de dias).
+ */
+export async function loadBusinessCalendarResolver(): Promise<
+  (groupid: string | null | undefined) => BusinessCalendar
+> {
+  const [store, holidaySets] = await Promise.all([
+    readStore(),
+    listHolidaySets(),
+  ]);
+  const holidaysById = new Map(holidaySets.map((set) => [set.id, set]));
+  const defaultCalendar = createBusinessCalendar(
+    DEFAULT_CALENDAR_ID,
+    toConfig(null, undefined),
+    holidaysById
+  );
+  const calendars = new Map<string, BusinessCalendar>();
+
+  return (groupid) => {
+    if (!groupid || !store.calendars[groupid]) {
+      return defaultCalendar;
+    }
+    const cached = calendars.get(groupid);
+    if (cached) {
+      return cached;
+    }
+    const calendar = createBusinessCalendar(
+      groupid,
+      toConfig(groupid, store.calendars[groupid]),
+      holidaysById
+    );
+    calendars.set(groupid, calendar);
+    return calendar;
+  };
+}
+
+export function createBusinessCalendar(
+  id: string,
+  config: BusinessCalendarConfig,
+  holidaysById: Map<string, HolidaySet>
+): BusinessCalendar {
+  const recurringHolidays = new Set<string>();
+  const datedHolidays = new Set<string>();
+  for (const setId of config.holidaySets) {
+    for (const holiday of holidaysById.get(setId)?.holidays ?? []) {
+      if (holiday.date.length === 5) {
+        recurringHolidays.add(holiday.date);
+      } else {
+        datedHolidays.add(holiday.date);
+      }
+    }
+  }
+  const exceptions = new Map(
+    config.exceptions.map((exception) => [exception.date, exception.windows])
+  );
+  const dayCache = new Map<number, Interval[]>();
+
+  const getDayWindows = (day: number): Interval[] => {
+    const cached = dayCache.get(day);
+    if (cached) {
+      return cached;
+    }
+    const iso = new Date(day * DAY_MS).toISOString().slice(0, 10);
+    let windows: BusinessHoursWindow[];
+    if (exceptions.has(iso)) {
+      windows = exceptions.get(iso) ?? [];
+    } else if (datedHolidays.has(iso) || recurringHolidays.has(iso.slice(5))) {
+      windows = [];
+    } else {
+      windows = config.weekly[weekdayOf(day)] ?? [];
+    }
+    const intervals = windows
+      .map((window) => ({
+        start: localTimeToEpoch(day, parseClock(window.start), config.timezone),
+        end: localTimeToEpoch(day, parseClock(window.end), config.timezone),
+      }))
+      .filter((interval) => interval.end > interval.start);
+    dayCache.set(day, intervals);
+    return intervals;
+  };
+
+  const getWindows = (startSeconds: number, endSeconds: number) => {
+    const firstDay = toLocalDay(startSeconds, config.timezone);
+    const lastDay = toLocalDay(endSeconds, config.timezone);
+    const windows: Interval[] = [];
+    for (let day = firstDay; day <= lastDay; day += 1) {
+      windows.push(...getDayWindows(day));
+    }
+    return windows;
+  };
+
+  const splitSeconds = (startSeconds: number, endSeconds: number) => {
+    if (endSeconds <= startSeconds) {
+      return { business: 0, off: 0 };
+    }
+    const business = sumIntervals(
+      intersectIntervals(
+        [{ start: startSeconds, end: endSeconds }],
+        getWindows(startSeconds, endSeconds)
+      )
+    );
+    return { business, off: endSeconds - startSeconds - business };
+  };
+
+  const splitIntervals = (startSeconds: number, endSeconds: number) => {
+    if (endSeconds <= startSeconds) {
+      return { business: [], off: [] };
+    }
+    const range = [{ start: startSeconds, end: endSeconds }];
+    const windows = getWindows(startSeconds, endSeconds);
+    return {
+      business: intersectIntervals(range, windows),
+      off: subtractIntervals(range, windows),
+    };
+  };
+
+  return {
+    id,
+    label: config.label,
+    splitSeconds,
+    splitIntervals,
+    isBusinessTime: (epochSeconds) =>
+      getDayWindows(toLocalDay(epochSeconds, config.timezone)).some(
+        (window) => epochSeconds >= window.start && epochSeconds < window.end
+      ),
+  };
+}
+
+async function readStore(): Promise<CalendarStore> {
+  const store = await readJsonFile<CalendarStore>(BUSINESS_CALENDARS_FILE);
+  return store?.calendars ? store : { calendars: {} };
+}
+
+function toConfig(
+  groupid: string | null,
+  stored: StoredCalendar | undefined
+): BusinessCalendarConfig {
+  const defaults = buildDefaultWeekly();
+  const weekly = stored
+    ? Object.fromEntries(
+        BUSINESS_WEEKDAYS.map((day) => [day, stored.weekly[day] ?? []])
+      ) as Record<BusinessWeekday, BusinessHoursWindow[]>
+    : defaults;
+  const timezone = stored?.timezone ?? DEFAULT_TIMEZONE;
+  const holidaySets = stored?.holidaySets ?? DEFAULT_HOLIDAY_SETS;
+  return {
+    groupid,
+    name: stored?.name ?? null,
+    timezone,
+    weekly,
+    holidaySets,
+    exceptions: stored?.exceptions ?? [],
+    label: formatCalendarLabel(weekly, holidaySets, timezone),
+    updatedAt: stored?.updatedAt ?? null,
+    isDefault: !stored,
+  };
+}
+
+function buildDefaultWeekly(): Record<BusinessWeekday, BusinessHoursWindow[]> {
+  const window = {
+    start: formatClock(BUSINESS_START_HOUR * 60),
+    end: formatClock(BUSINESS_END_HOUR * 60),
+  };
+  return Object.fromEntries(
+    BUSINESS_WEEKDAYS.map((day) => [
+      day,
+      DEFAULT_BUSINESS_DAYS.has(day) ? [{ ...window }] : [],
+    ])
+  ) as Record<BusinessWeekday, BusinessHoursWindow[]>;
+}
+
+function formatCalendarLabel(
+  weekly: Record<BusinessWeekday, BusinessHoursWindow[]>,
+  holidaySets: string[],
+  timezone: string
+): string {
+  const describe = (windows: BusinessHoursWindow[]) =>
+    windows.map((window) => `${window.start}-${displayEnd(window.end)}`).join(", ");
+
+  const segments: Array<{ from: BusinessWeekday; to: BusinessWeekday; hours: string }> = [];
+  for (const day of BUSINESS_WEEKDAYS) {
+    const hours = describe(weekly[day]);
+    const last = segments[segments.length - 1];
+    if (last && last.hours === hours) {
+      last.to = day;
+    } else {
+      segments.push({ from: day, to: day, hours });
+    }
+  }
+
+  const parts =
+    segments.length === 1
+      ? [segments[0].hours || "sem expediente"]
+      : segments
+          .filter((segment) => segment.hours)
+          .map((segment) => {
+            const days =
+              segment.from === segment.to
+                ? WEEKDAY_LABELS[segment.from]
+                : `${WEEKDAY_LABELS[segment.from]}-${WEEKDAY_LABELS[segment.to]}`;
+            return `${days} ${segment.hours}`;
+          });
+  const holidays = holidaySets.length ? ", exceto feriados" : "";
+  return `${parts.join(" · ")}${holidays} (${timezone})`;
+}
+
+function displayEnd(value: string) {
+  return value === "24:00" ? "23:59" : value;
+}
+
+function parseWeekdays(value: string | undefined): Set<BusinessWeekday> {
+  const days = (value ?? "")
+    .split(",")
+    .map((entry) => entry.trim().toLowerCase())
+    .filter((entry): entry is BusinessWeekday =>
+      BUSINESS_WEEKDAYS.includes(entry as BusinessWeekday)
+    );
+  return new Set(days.length ? days : BUSINESS_WEEKDAYS);
+}
+
+function isHolidayDate(value: unknown): value is string {
+  return (
+    typeof value === "string" &&
+    (/^\d{2}-\d{2}$/.test(value) || /^\d{4}-\d{2}-\d{2}$/.test(value))
+  );
+}
+
+function parseClock(value: string): number {
+  const [hours, minutes] = value.split(":").map(Number);
+  const total = (hours || 0) * 60 + (minutes || 0);
+  return Math.min(Math.max(total, 0), MINUTES_PER_DAY);
+}
+
+function formatClock(totalMinutes: number): string {
+  const clamped = Math.min(Math.max(totalMinutes, 0), MINUTES_PER_DAY);
+  const hours = Math.floor(clamped / 60);
+  const minutes = clamped % 60;
+  return `${String(hours).padStart(2, "0")}:${String(minutes).padStart(2, "0")}`;
+}
+
+function weekdayOf(day: number): BusinessWeekday {
+  const index = new Date(day * DAY_MS).getUTCDay();
+  return BUSINESS_WEEKDAYS[(index + 6) % 7];
+}
+
+/** Número de dias desde 1970-01-01 da data local no fuso informado. */
+function toLocalDay(epochSeconds: number, timezone: string): number {
+  const iso = formatInTimeZone(
+    new Date(epochSeconds * 1000),
+    timezone,
+    "yyyy-MM-dd"
+  );
+  const [year, month, dayOfMonth] = iso.split("-").map(Number);
+  return Math.floor(Date.UTC(year, month - 1, dayOfMonth) / DAY_MS);
+}
+
+function localTimeToEpoch(day: number, minutes: number, timezone: string) {
+  const targetDay = minutes >= MINUTES_PER_DAY ? day + 1 : day;
+  const clock = formatClock(minutes % MINUTES_PER_DAY);
+  const iso = new Date(targetDay * DAY_MS).toISOString().slice(0, 10);
+  return Math.floor(
+    fromZonedTime(`${iso}T${clock}:00`, timezone).getTime() / 1000
+  );
+}
@@ -1,3 +0,0 @@
-export const CAP_SWITCHES_GROUP_NAME = "CAP-switches";
-export const CAP_SWITCHES_RANGE_START = new Date(Date.UTC(2025, 9, 8, 0, 0, 0)); // 08/10/2025
-export const CAP_SWITCHES_RANGE_END = new Date(Date.UTC(2025, 10, 16, 23, 59, 59)); // 16/11/2025
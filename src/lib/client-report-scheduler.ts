@@ -0,0 +1,214 @@
+import "server-only";
+import { mkdir, readFile, readdir, rename, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { formatInTimeZone } from "date-fns-tz";
+import { buildClientReport } from "@/lib/client-report";
+import {
+  readJsonFile,
+  resolveDataPath,
+  updateJsonFile,
+} from "@/lib/data-store";
+import { isClosedMonth } from "@/lib/metrics-snapshots";
+import { fetchHostGroups } from "@/lib/zabbix";
+import { ClientReportFile } from "@/types/dashboard";
+
+const DEFAULT_TIMEZONE =
+  process.env.DASHBOARD_TIMEZONE ?? "America/Sao_Paulo";
+const REPORT_GROUPS = (process.env.DASHBOARD_CLIENT_REPORT_GROUPS ?? "")
+  .split(",")
+  .map((value) => value.trim())
+  .filter(Boolean);
+const OUTPUT_DIR = path.resolve(
+  process.env.DASHBOARD_CLIENT_REPORT_DIR ?? resolveDataPath("client-reports")
+);
+const CHECK_INTERVAL_MS = 60 * 60 * 1000;
+// O índice fica sempre no diretório de dados para passar pela fila de escrita
+// do data-store, mesmo com `DASHBOARD_CLIENT_REPORT_DIR` apontando para fora.
+const MANIFEST_DIR = "client-reports";
+
+type SchedulerState = {
+  timer: ReturnType<typeof setInterval> | null;
+  running: boolean;
+};
+
+// Mesmo processo pode registrar a instrumentação mais de uma vez (HMR em dev).
+const schedulerGlobal = globalThis as typeof globalThis & {
+  __clientReportScheduler?: SchedulerState;
+};
+
+/**
+ * Agenda a geração dos PDFs mensais. A cada hora verifica se o mês anterior já
+ * está fechado (mesma carência dos snapshots) e gera os relatórios que faltam,
+ * o que acontece na prática no dia 1º e cobre reinícios do servidor.
+ */
+export function startClientReportScheduler() {
+  if (!REPORT_GROUPS.length || schedulerGlobal.__clientReportScheduler) {
+    return;
+  }
+  const state: SchedulerState = { timer: null, running: false };
+  schedulerGlobal.__clientReportScheduler = state;
+
+  const tick = async () => {
+    if (state.running) return;
+    state.running = true;
+    try {
+      const month = getPreviousMonth(new Date());
+      if (isClosedMonth(month)) {
+        const files = await runClientReportJob({ month });
+        if (files.length) {
+          console.info(
+            `[client-report] ${files.length} relatório(s) gerado(s) para ${month}`
+          );
+        }
+      }
+    } catch (error) {
+      console.error("[client-report] Failed to run scheduled job", error);
+    } finally {
+      state.running = false;
+    }
+  };
+
+  state.timer = setInterval(tick, CHECK_INTERVAL_MS);
+  state.timer.unref?.();
+  void tick();
+}
+
+export async function runClientReportJob(input: {
+  month: string;
+  groupIds?: string[];
+  overwrite?: boolean;
+}): Promise<ClientReportFile[]> {
+  const groupIds = input.groupIds?.length
+    ? input.groupIds
+    : await resolveReportGroups();
+  const manifest = await readManifest(input.month);
+  const generated: ClientReportFile[] = [];
+
+  for (const groupId of groupIds) {
+    if (
+      !input.overwrite &&
+      manifest.some((entry) => entry.groupId === groupId)
+    ) {
+      continue;
+    }
+    try {
+      const report = await buildClientReport({ month: input.month, groupId });
+      await writeReportFile(input.month, report.fileName, report.pdf);
+      const entry: ClientReportFile = {
+        month: input.month,
+        groupId,
+        groupName: report.groupName,
+        fileName: report.fileName,
+        generatedAt: new Date().toISOString(),
+      };
+      await updateJsonFile<ClientReportFile[]>(
+        getManifestPath(input.month),
+        [],
+        (current) => {
+          const next = Array.isArray(current) ? [...current] : [];
+          const index = next.findIndex((item) => item.groupId === groupId);
+          if (index >= 0) {
+            next[index] = entry;
+          } else {
+            next.push(entry);
+          }
+          return next;
+        }
+      );
+      generated.push(entry);
+    } catch (error) {
+      console.error(
+        `[client-report] Failed to build report for group ${groupId}`,
+        error
+      );
+    }
+  }
+
+  return generated;
+}
+
+export async function listClientReportFiles(): Promise<ClientReportFile[]> {
+  let months: string[];
+  try {
+    months = (await readdir(OUTPUT_DIR, { withFileTypes: true }))
+      .filter((entry) => entry.isDirectory() && /^\d{4}-\d{2}$/.test(entry.name))
+      .map((entry) => entry.name);
+  } catch (error) {
+    if (isNotFoundError(error)) {
+      return [];
+    }
+    throw error;
+  }
+
+  const files: ClientReportFile[] = [];
+  for (const month of months) {
+    files.push(...(await readManifest(month)));
+  }
+  return files.sort(
+    (a, b) =>
+      b.month.localeCompare(a.month) || a.groupName.localeCompare(b.groupName)
+  );
+}
+
+export async function readClientReportFile(
+  month: string,
+  fileName: string
+): Promise<Buffer | null> {
+  const manifest = await readManifest(month);
+  if (!manifest.some((entry) => entry.fileName === fileName)) {
+    return null;
+  }
+  try {
+    return await readFile(path.join(OUTPUT_DIR, month, fileName));
+  } catch (error) {
+    if (isNotFoundError(error)) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+async function resolveReportGroups(): Promise<string[]> {
+  if (REPORT_GROUPS.includes("all")) {
+    const groups = await fetchHostGroups();
+    return groups.map((group) => group.groupid);
+  }
+  return REPORT_GROUPS;
+}
+
+async function readManifest(month: string): Promise<ClientReportFile[]> {
+  const manifest = await readJsonFile<ClientReportFile[]>(
+    getManifestPath(month)
+  );
+  return Array.isArray(manifest) ? manifest : [];
+}
+
+function getManifestPath(month: string) {
+  return `${MANIFEST_DIR}/${month}/index.json`;
+}
+
+async function writeReportFile(month: string, fileName: string, data: Buffer) {
+  const dir = path.join(OUTPUT_DIR, month);
+  await mkdir(dir, { recursive: true });
+  const target = path.join(dir, fileName);
+  const temporary = `${target}.${process.pid}.${Date.now()}.tmp`;
+  await writeFile(temporary, data);
+  await rename(temporary, target);
+}
+
+function getPreviousMonth(now: Date) {
+  const [year, month] = formatInTimeZone(now, DEFAULT_TIMEZONE, "yyyy-MM")
+    .split("-")
+    .map(Number);
+  const previous = new Date(Date.UTC(year, month - 2, 1));
+  return previous.toISOString().slice(0, 7);
+}
+
+function isNotFoundError(error: unknown) {
+  return (
+    typeof error === "object" &&
+    error !== null &&
+    "code" in error &&
+    (error as NodeJS.ErrnoException).code === "ENOENT"
+  );
+}
@@ -0,0 +1,762 @@
+import "server-only";
+import PDFDocument from "pdfkit";
+import { format } from "date-fns";
+import { formatInTimeZone } from "date-fns-tz";
+import { ptBR } from "date-fns/locale";
+import { z } from "zod";
+import { getGroupMetricsOverview } from "@/lib/metrics-snapshots";
+import { listActionPlansForMonth } from "@/lib/action-plans";
+import { formatDurationMinutes, formatMinutes } from "@/lib/time-format";
+import {
+  ActionPlanItem,
+  AvailabilityInsights,
+  CriticalAlertHighlight,
+  HostGroupMetric,
+  SeveritySummary,
+  SlaTargetKey,
+} from "@/types/dashboard";
+
+const DEFAULT_TIMEZONE =
+  process.env.DASHBOARD_TIMEZONE ?? "America/Sao_Paulo";
+const BRAND_NAME = process.env.DASHBOARD_REPORT_BRAND_NAME ?? "NOC Dashboard";
+const BRAND_COLOR = process.env.DASHBOARD_REPORT_BRAND_COLOR ?? "#0f172a";
+const ACCENT_COLOR = process.env.DASHBOARD_REPORT_ACCENT_COLOR ?? "#2563eb";
+const BRAND_LOGO = process.env.DASHBOARD_REPORT_LOGO;
+const TOP_ALERTS_LIMIT = 10;
+
+const PAGE_MARGIN = 48;
+const TEXT_COLOR = "#0f172a";
+const MUTED_COLOR = "#64748b";
+const BORDER_COLOR = "#e2e8f0";
+const SUCCESS_COLOR = "#059669";
+const DANGER_COLOR = "#e11d48";
+
+const SEVERITY_COLORS: Record<number, string> = {
+  0: "#94a3b8",
+  1: "#38bdf8",
+  2: "#facc15",
+  3: "#fb923c",
+  4: "#f43f5e",
+  5: "#9f1239",
+};
+
+const SLA_TARGET_LABELS: Record<SlaTargetKey, string> = {
+  availabilityPct: "Disponibilidade",
+  businessAvailabilityPct: "Disponibilidade comercial",
+  reachabilityPct: "Disponibilidade host",
+  detectionMinutes: "Detecção",
+  responseMinutes: "Resposta",
+  resolutionMinutes: "Resolução",
+};
+
+type Doc = PDFKit.PDFDocument;
+
+type TableColumn = {
+  label: string;
+  width: number;
+  align?: "left" | "right" | "center";
+};
+
+export const actionPlanItemSchema = z.object({
+  what: z.string().trim().max(500).default(""),
+  why: z.string().trim().max(1000).default(""),
+  where: z.string().trim().max(500).default(""),
+  when: z.string().trim().max(200).default(""),
+  who: z.string().trim().max(200).default(""),
+  how: z.string().trim().max(1000).default(""),
+  howMuch: z.string().trim().max(200).default(""),
+  status: z.enum(["em_andamento", "concluido"]).default("em_andamento"),
+});
+
+export type ClientReportInput = {
+  month: string;
+  groupId: string;
+  actionItems?: ActionPlanItem[];
+};
+
+export type ClientReport = {
+  month: string;
+  groupId: string;
+  groupName: string;
+  fileName: string;
+  pdf: Buffer;
+};
+
+export async function buildClientReport(
+  input: ClientReportInput
+): Promise<ClientReport> {
+  const overview = await getGroupMetricsOverview({
+    month: input.month,
+    groupId: input.groupId,
+  });
+  const group = overview.groups.find(
+    (entry) => entry.groupid === input.groupId
+  );
+  if (!group) {
+    throw new Error("Host group não encontrado ou sem hosts no período.");
+  }
+
+  const criticalAlerts = overview.criticalAlerts
+    .filter((alert) => alert.groupIds.includes(group.groupid))
+    .sort((a, b) => b.resolutionMinutes - a.resolutionMinutes)
+    .slice(0, TOP_ALERTS_LIMIT);
+
+  // Sem itens no corpo, o plano vem do cadastro 5W2H do host group.
+  const actionItems =
+    input.actionItems ??
+    (await listActionPlansForMonth(group.groupid, input.month));
+
+  const pdf = await renderPdf((doc) => {
+    drawCover(doc, group, input.month, overview.meta.generatedAt);
+    drawKpis(doc, group);
+    drawAvailability(doc, group);
+    drawAlerts(doc, criticalAlerts, group.severitySummary);
+    drawActionPlan(doc, actionItems);
+  });
+
+  return {
+    month: input.month,
+    groupId: group.groupid,
+    groupName: group.name,
+    fileName: buildClientReportFileName(group.name, input.month),
+    pdf,
+  };
+}
+
+export function buildClientReportFileName(groupName: string, month: string) {
+  const slug =
+    groupName
+      .normalize("NFD")
+      .replace(/[\u0300-\u036f]/g, "")
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, "-")
+      .replace(/^-+|-+$/g, "") || "host-group";
+  return `${slug}-relatorio-${month}.pdf`;
+}
+
+function renderPdf(draw: (doc: Doc) => void): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({
+      size: "A4",
+      margin: PAGE_MARGIN,
+      bufferPages: true,
+      info: { Title: "Relatório mensal", Author: BRAND_NAME },
+    });
+    const chunks: Buffer[] = [];
+    doc.on("data", (chunk: Buffer) => chunks.push(chunk));
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.on("error", reject);
+
+    try {
+      draw(doc);
+      drawFooters(doc);
+      doc.end();
+    } catch (error) {
+      reject(error);
+    }
+  });
+}
+
+function drawCover(
+  doc: Doc,
+  group: HostGroupMetric,
+  month: string,
+  generatedAt: string
+) {
+  const width = doc.page.width;
+  doc.rect(0, 0, width, 150).fill(BRAND_COLOR);
+
+  let logoWidth = 0;
+  if (BRAND_LOGO) {
+    try {
+      doc.image(BRAND_LOGO, PAGE_MARGIN, 40, { fit: [120, 48] });
+      logoWidth = 136;
+    } catch (error) {
+      console.warn("[client-report] Falha ao carregar o logotipo", error);
+    }
+  }
+
+  doc
+    .fillColor("#ffffff")
+    .font("Helvetica")
+    .fontSize(10)
+    .text(BRAND_NAME.toUpperCase(), PAGE_MARGIN + logoWidth, 44, {
+      characterSpacing: 1.5,
+    });
+  doc
+    .font("Helvetica-Bold")
+    .fontSize(22)
+    .text("Relatório mensal de operação", PAGE_MARGIN + logoWidth, 62);
+  doc
+    .font("Helvetica")
+    .fontSize(12)
+    .text(
+      `${group.name} · ${formatMonthLabel(month)}`,
+      PAGE_MARGIN + logoWidth,
+      94
+    );
+
+  doc
+    .fillColor(MUTED_COLOR)
+    .fontSize(9)
+    .text(
+      `Gerado em ${formatInTimeZone(
+        new Date(generatedAt),
+        DEFAULT_TIMEZONE,
+        "dd/MM/yyyy HH:mm"
+      )} (${DEFAULT_TIMEZONE})`,
+      PAGE_MARGIN,
+      166
+    );
+  doc.y = 190;
+}
+
+function drawKpis(doc: Doc, group: HostGroupMetric) {
+  drawSectionTitle(doc, "Indicadores do mês");
+
+  const cards = [
+    {
+      label: "Detecção média",
+      value: formatMinutes(group.detectionMinutes),
+      key: "detectionMinutes" as const,
+    },
+    {
+      label: "Resposta média",
+      value: formatMinutes(group.responseMinutes),
+      key: "responseMinutes" as const,
+    },
+    {
+      label: "Resolução média",
+      value: formatMinutes(group.resolutionMinutes),
+      key: "resolutionMinutes" as const,
+    },
+    {
+      label: "Disponibilidade",
+      value: formatPct(group.availabilityPct),
+      key: "availabilityPct" as const,
+    },
+    {
+      label: "Disponibilidade comercial",
+      value: formatPct(group.businessAvailabilityPct),
+      key: "businessAvailabilityPct" as const,
+    },
+    {
+      label: "Disponibilidade host",
+      value: formatPct(group.reachabilityPct),
+      key: "reachabilityPct" as const,
+    },
+  ];
+
+  const columns = 3;
+  const gap = 12;
+  const cardWidth = (contentWidth(doc) - gap * (columns - 1)) / columns;
+  const cardHeight = 64;
+  const top = doc.y;
+
+  cards.forEach((card, index) => {
+    const x = PAGE_MARGIN + (index % columns) * (cardWidth + gap);
+    const y = top + Math.floor(index / columns) * (cardHeight + gap);
+    const check = group.sla?.checks.find((entry) => entry.key === card.key);
+
+    doc
+      .roundedRect(x, y, cardWidth, cardHeight, 6)
+      .lineWidth(1)
+      .strokeColor(BORDER_COLOR)
+      .stroke();
+    doc
+      .fillColor(MUTED_COLOR)
+      .font("Helvetica")
+      .fontSize(8)
+      .text(card.label.toUpperCase(), x + 10, y + 10, {
+        width: cardWidth - 20,
+      });
+    doc
+      .fillColor(TEXT_COLOR)
+      .font("Helvetica-Bold")
+      .fontSize(16)
+      .text(card.value, x + 10, y + 24, { width: cardWidth - 20 });
+    if (check) {
+      doc
+        .fillColor(check.met ? SUCCESS_COLOR : DANGER_COLOR)
+        .font("Helvetica")
+        .fontSize(8)
+        .text(
+          `Meta ${formatTarget(card.key, check.target)} · ${
+            check.met ? "atingida" : "violada"
+          }`,
+          x + 10,
+          y + 46,
+          { width: cardWidth - 20 }
+        );
+    }
+  });
+
+  doc.y = top + Math.ceil(cards.length / columns) * (cardHeight + gap) + 8;
+
+  drawTable(
+    doc,
+    [
+      { label: "Alertas", width: 0.2 },
+      { label: "Em aberto", width: 0.2 },
+      { label: "Incidentes com impacto", width: 0.25 },
+      { label: "Hosts", width: 0.15 },
+      { label: "Hosts inativos", width: 0.2 },
+    ],
+    [
+      [
+        String(group.alerts),
+        String(group.openAlerts),
+        String(group.impactIncidents),
+        String(group.hosts),
+        String(group.inactiveHosts),
+      ],
+    ]
+  );
+
+  if (group.sla) {
+    doc
+      .fillColor(group.sla.status === "met" ? SUCCESS_COLOR : DANGER_COLOR)
+      .font("Helvetica-Bold")
+      .fontSize(10)
+      .text(
+        group.sla.status === "met"
+          ? "SLA do contrato atendido no período."
+          : `SLA violado: ${group.sla.breaches
+              .map((key) => SLA_TARGET_LABELS[key])
+              .join(", ")}.`,
+        PAGE_MARGIN,
+        doc.y + 4
+      );
+    if (group.sla.isDefaultContract) {
+      drawNote(doc, "Metas padrão do dashboard (grupo sem contrato próprio).");
+    }
+  }
+}
+
+function drawAvailability(doc: Doc, group: HostGroupMetric) {
+  drawSectionTitle(doc, "Disponibilidade", true);
+
+  drawTable(
+    doc,
+    [
+      { label: "Janela", width: 0.34 },
+      { label: "Disponibilidade", width: 0.22, align: "right" },
+      { label: "Sem manutenções", width: 0.22, align: "right" },
+      { label: "Sem colateral", width: 0.22, align: "right" },
+    ],
+    [
+      [
+        "Período completo",
+        formatPct(group.availabilityPct),
+        formatPct(group.availabilityExcludingMaintenancePct),
+        formatPct(group.availabilityExcludingCollateralPct),
+      ],
+      [
+        "Horário comercial",
+        formatPct(group.businessAvailabilityPct),
+        formatPct(group.businessAvailabilityExcludingMaintenancePct),
+        formatPct(group.businessAvailabilityExcludingCollateralPct),
+      ],
+      [
+        "Disponibilidade host (alcançabilidade)",
+        formatPct(group.reachabilityPct),
+        "—",
+        "—",
+      ],
+    ]
+  );
+  if (group.maintenanceExcludedMinutes) {
+    drawNote(
+      doc,
+      `${formatDurationMinutes(
+        group.maintenanceExcludedMinutes
+      )} de indisponibilidade ocorreram dentro de manutenções programadas.`
+    );
+  }
+  if (group.collateralMinutes) {
+    drawNote(
+      doc,
+      `${formatDurationMinutes(
+        group.collateralMinutes
+      )} de indisponibilidade foram colaterais da queda de um proxy ou de um trigger do qual os hosts dependem.`
+    );
+  }
+
+  drawInsights(doc, group.availabilityInsights);
+}
+
+function drawInsights(doc: Doc, insights: AvailabilityInsights | undefined) {
+  if (!insights) {
+    return;
+  }
+
+  drawSubtitle(
+    doc,
+    `Hosts com maior indisponibilidade (${insights.windowLabel})`
+  );
+  if (insights.topHosts.length) {
+    drawTable(
+      doc,
+      [
+        { label: "Host", width: 0.45 },
+        { label: "Indisponível", width: 0.2, align: "right" },
+        { label: "Disponibilidade", width: 0.2, align: "right" },
+        { label: "% do grupo", width: 0.15, align: "right" },
+      ],
+      insights.topHosts.map((host) => [
+        host.name,
+        formatDurationMinutes(host.windowDowntimeMinutes),
+        formatPct(host.windowAvailabilityPct),
+        formatPct(host.shareOfGroupWindowDowntimePct),
+      ])
+    );
+  } else {
+    drawNote(doc, "Nenhum host ficou indisponível nesta janela.");
+  }
+
+  drawSubtitle(doc, "Alertas que mais afetaram a disponibilidade");
+  if (insights.topAlerts.length) {
+    drawTable(
+      doc,
+      [
+        { label: "Alerta", width: 0.45 },
+        { label: "Hosts", width: 0.25 },
+        { label: "Indisponível", width: 0.15, align: "right" },
+        { label: "% do grupo", width: 0.15, align: "right" },
+      ],
+      insights.topAlerts.map((alert) => [
+        alert.name,
+        alert.hostNames.join(", "),
+        formatDurationMinutes(alert.windowDowntimeMinutes),
+        formatPct(alert.shareOfGroupWindowDowntimePct),
+      ])
+    );
+  } else {
+    drawNote(doc, "Nenhum alerta afetou a disponibilidade nesta janela.");
+  }
+
+  if (insights.maintenanceExclusions?.length) {
+    drawSubtitle(doc, "Manutenções excluídas");
+    drawTable(
+      doc,
+      [
+        { label: "Manutenção", width: 0.45 },
+        { label: "Hosts", width: 0.35 },
+        { label: "Excluído", width: 0.2, align: "right" },
+      ],
+      insights.maintenanceExclusions.map((exclusion) => [
+        exclusion.name,
+        exclusion.hostNames.join(", "),
+        formatDurationMinutes(exclusion.windowExcludedMinutes),
+      ])
+    );
+  }
+
+  if (insights.rootCauses?.length) {
+    drawSubtitle(doc, "Causas raiz (downtime colateral)");
+    drawTable(
+      doc,
+      [
+        { label: "Causa raiz", width: 0.45 },
+        { label: "Hosts afetados", width: 0.35 },
+        { label: "Colateral", width: 0.2, align: "right" },
+      ],
+      insights.rootCauses.map((cause) => [
+        cause.name,
+        cause.hostNames.join(", "),
+        formatDurationMinutes(cause.windowCollateralMinutes),
+      ])
+    );
+  }
+}
+
+function drawAlerts(
+  doc: Doc,
+  alerts: CriticalAlertHighlight[],
+  severitySummary: SeveritySummary[]
+) {
+  drawSectionTitle(doc, "Alertas", true);
+
+  drawSubtitle(doc, "Distribuição por severidade");
+  drawSeverityBars(doc, severitySummary);
+
+  drawSubtitle(doc, "Principais alertas críticos");
+  if (!alerts.length) {
+    drawNote(doc, "Nenhum alerta crítico registrado no período.");
+    return;
+  }
+  drawTable(
+    doc,
+    [
+      { label: "Alerta", width: 0.34 },
+      { label: "Hosts", width: 0.22 },
+      { label: "Abertura", width: 0.16 },
+      { label: "Duração", width: 0.14, align: "right" },
+      { label: "Situação", width: 0.14 },
+    ],
+    alerts.map((alert) => [
+      alert.name,
+      alert.hostNames.join(", "),
+      formatInTimeZone(
+        new Date(alert.openedAt),
+        DEFAULT_TIMEZONE,
+        "dd/MM HH:mm"
+      ),
+      formatDurationMinutes(alert.resolutionMinutes),
+      alert.isOpen ? "Em aberto" : "Resolvido",
+    ])
+  );
+}
+
+function drawSeverityBars(doc: Doc, summary: SeveritySummary[]) {
+  const rows = [...summary].sort((a, b) => b.severity - a.severity);
+  const max = Math.max(1, ...rows.map((row) => row.count));
+  const labelWidth = 110;
+  const countWidth = 40;
+  const barWidth = contentWidth(doc) - labelWidth - countWidth - 16;
+  const rowHeight = 18;
+
+  ensureSpace(doc, rows.length * rowHeight + 8);
+  for (const row of rows) {
+    const y = doc.y;
+    doc
+      .fillColor(TEXT_COLOR)
+      .font("Helvetica")
+      .fontSize(9)
+      .text(row.label, PAGE_MARGIN, y + 3, { width: labelWidth });
+    doc
+      .rect(PAGE_MARGIN + labelWidth, y + 2, barWidth, 10)
+      .fill("#f1f5f9");
+    if (row.count > 0) {
+      doc
+        .rect(
+          PAGE_MARGIN + labelWidth,
+          y + 2,
+          Math.max(2, (row.count / max) * barWidth),
+          10
+        )
+        .fill(SEVERITY_COLORS[row.severity] ?? ACCENT_COLOR);
+    }
+    doc
+      .fillColor(TEXT_COLOR)
+      .font("Helvetica-Bold")
+      .text(
+        String(row.count),
+        PAGE_MARGIN + labelWidth + barWidth + 8,
+        y + 3,
+        { width: countWidth, align: "right" }
+      );
+    doc.y = y + rowHeight;
+  }
+  doc.y += 8;
+}
+
+function drawActionPlan(doc: Doc, items: ActionPlanItem[]) {
+  drawSectionTitle(doc, "Plano de ação (5W2H)", true);
+  if (!items.length) {
+    drawNote(doc, "Nenhum item 5W2H registrado para este host group no período.");
+    return;
+  }
+
+  const fields: Array<[Exclude<keyof ActionPlanItem, "status">, string]> = [
+    ["why", "Por quê"],
+    ["where", "Onde"],
+    ["when", "Quando"],
+    ["dueDate", "Prazo"],
+    ["who", "Quem"],
+    ["how", "Como"],
+    ["howMuch", "Quanto"],
+  ];
+  const width = contentWidth(doc);
+
+  items.forEach((item, index) => {
+    ensureSpace(doc, 120);
+    doc
+      .fillColor(TEXT_COLOR)
+      .font("Helvetica-Bold")
+      .fontSize(11)
+      .text(`${index + 1}. ${item.what || "Sem título"}`, PAGE_MARGIN, doc.y, {
+        width,
+      });
+    doc
+      .fillColor(item.status === "concluido" ? SUCCESS_COLOR : ACCENT_COLOR)
+      .font("Helvetica")
+      .fontSize(8)
+      .text(
+        item.status === "concluido" ? "CONCLUÍDO" : "EM ANDAMENTO",
+        PAGE_MARGIN,
+        doc.y + 2
+      );
+    doc.y += 4;
+    for (const [key, label] of fields) {
+      const value =
+        key === "dueDate" && item.dueDate
+          ? format(new Date(`${item.dueDate}T12:00:00`), "dd/MM/yyyy")
+          : item[key];
+      if (!value) continue;
+      doc
+        .fillColor(MUTED_COLOR)
+        .font("Helvetica-Bold")
+        .fontSize(9)
+        .text(`${label}: `, PAGE_MARGIN, doc.y, { continued: true, width })
+        .fillColor(TEXT_COLOR)
+        .font("Helvetica")
+        .text(value);
+    }
+    doc.y += 10;
+  });
+}
+
+function drawTable(doc: Doc, columns: TableColumn[], rows: string[][]) {
+  const width = contentWidth(doc);
+  const widths = columns.map((column) => column.width * width);
+  const padding = 6;
+
+  const drawHeader = () => {
+    const y = doc.y;
+    doc.rect(PAGE_MARGIN, y, width, 20).fill("#f8fafc");
+    let x = PAGE_MARGIN;
+    columns.forEach((column, index) => {
+      doc
+        .fillColor(MUTED_COLOR)
+        .font("Helvetica-Bold")
+        .fontSize(8)
+        .text(column.label.toUpperCase(), x + padding, y + 6, {
+          width: widths[index] - padding * 2,
+          align: column.align ?? "left",
+          lineBreak: false,
+        });
+      x += widths[index];
+    });
+    doc.y = y + 20;
+  };
+
+  ensureSpace(doc, 44);
+  drawHeader();
+  doc.font("Helvetica").fontSize(9);
+
+  for (const row of rows) {
+    const height =
+      Math.max(
+        ...row.map((cell, index) =>
+          doc.heightOfString(cell, { width: widths[index] - padding * 2 })
+        )
+      ) +
+      padding * 2;
+    if (doc.y + height > pageBottom(doc)) {
+      doc.addPage();
+      drawHeader();
+      doc.font("Helvetica").fontSize(9);
+    }
+    const y = doc.y;
+    let x = PAGE_MARGIN;
+    row.forEach((cell, index) => {
+      doc
+        .fillColor(TEXT_COLOR)
+        .font("Helvetica")
+        .fontSize(9)
+        .text(cell, x + padding, y + padding, {
+          width: widths[index] - padding * 2,
+          align: columns[index].align ?? "left",
+        });
+      x += widths[index];
+    });
+    doc
+      .moveTo(PAGE_MARGIN, y + height)
+      .lineTo(PAGE_MARGIN + width, y + height)
+      .lineWidth(0.5)
+      .strokeColor(BORDER_COLOR)
+      .stroke();
+    doc.y = y + height;
+  }
+  doc.y += 12;
+}
+
+function drawSectionTitle(doc: Doc, title: string, newPage = false) {
+  if (newPage) {
+    doc.addPage();
+  } else {
+    ensureSpace(doc, 60);
+  }
+  doc
+    .fillColor(BRAND_COLOR)
+    .font("Helvetica-Bold")
+    .fontSize(15)
+    .text(title, PAGE_MARGIN, doc.y);
+  const y = doc.y + 4;
+  doc
+    .moveTo(PAGE_MARGIN, y)
+    .lineTo(PAGE_MARGIN + 40, y)
+    .lineWidth(2)
+    .strokeColor(ACCENT_COLOR)
+    .stroke();
+  doc.y = y + 14;
+}
+
+function drawSubtitle(doc: Doc, title: string) {
+  ensureSpace(doc, 60);
+  doc
+    .fillColor(TEXT_COLOR)
+    .font("Helvetica-Bold")
+    .fontSize(11)
+    .text(title, PAGE_MARGIN, doc.y);
+  doc.y += 6;
+}
+
+function drawNote(doc: Doc, text: string) {
+  doc
+    .fillColor(MUTED_COLOR)
+    .font("Helvetica")
+    .fontSize(9)
+    .text(text, PAGE_MARGIN, doc.y + 2, { width: contentWidth(doc) });
+  doc.y += 10;
+}
+
+function drawFooters(doc: Doc) {
+  const range = doc.bufferedPageRange();
+  for (let index = range.start; index < range.start + range.count; index += 1) {
+    doc.switchToPage(index);
+    const bottomMargin = doc.page.margins.bottom;
+    doc.page.margins.bottom = 0;
+    doc
+      .fillColor(MUTED_COLOR)
+      .font("Helvetica")
+      .fontSize(8)
+      .text(
+        `${BRAND_NAME} · Página ${index + 1} de ${range.count}`,
+        PAGE_MARGIN,
+        doc.page.height - PAGE_MARGIN + 16,
+        { width: contentWidth(doc), align: "right", lineBreak: false }
+      );
+    doc.page.margins.bottom = bottomMargin;
+  }
+}
+
+function ensureSpace(doc: Doc, height: number) {
+  if (doc.y + height > pageBottom(doc)) {
+    doc.addPage();
+  }
+}
+
+function pageBottom(doc: Doc) {
+  return doc.page.height - doc.page.margins.bottom;
+}
+
+function contentWidth(doc: Doc) {
+  return doc.page.width - PAGE_MARGIN * 2;
+}
+
+function formatPct(value: number | undefined) {
+  return value === undefined ? "—" : `${value.toFixed(2)}%`;
+}
+
+function formatTarget(key: SlaTargetKey, target: number) {
+  return key.endsWith("Pct") ? `${target}%` : `${target} min`;
+}
+
+function formatMonthLabel(month: string) {
+  const [year, monthIndex] = month.split("-").map(Number);
+  return format(new Date(year, monthIndex - 1, 1), "MMMM 'de' yyyy", {
+    locale: ptBR,
+  });
+}
@@ -0,0 +1,120 @@
+import "server-only";
+import { mkdir, readdir, readFile, rename, rm, writeFile } from "node:fs/promises";
+import path from "node:path";
+
+const DATA_DIR = path.resolve(
+  process.env.DASHBOARD_DATA_DIR ?? path.join(process.cwd(), ".data")
+);
+
+export function resolveDataPath(...segments: string[]): string {
+  const resolved = path.resolve(DATA_DIR, ...segments);
+  if (resolved !== DATA_DIR && !resolved.startsWith(`${DATA_DIR}${path.sep}`)) {
+    throw new Error("Caminho fora do diretório de dados.");
+  }
+  return resolved;
+}
+
+export async function readJsonFile<T>(relativePath: string): Promise<T | null> {
+  try {
+    const content = await readFile(resolveDataPath(relativePath), "utf8");
+    return JSON.parse(content) as T;
+  } catch (error) {
+    if (isNotFoundError(error)) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+export async function writeJsonFile(
+  relativePath: string,
+  data: unknown
+): Promise<void> {
+  const target = resolveDataPath(relativePath);
+  await mkdir(path.dirname(target), { recursive: true });
+  const temporary = `${target}.${process.pid}.${Date.now()}.tmp`;
+  await writeFile(temporary, JSON.stringify(data, null, 2), "utf8");
+  await rename(temporary, target);
+}
+
+export async function removeDataFile(relativePath: string): Promise<boolean> {
+  try {
+    await rm(resolveDataPath(relativePath));
+    return true;
+  } catch (error) {
+    if (isNotFoundError(error)) {
+      return false;
+    }
+    throw error;
+  }
+}
+
+export async function listDataFiles(
+  relativeDir: string,
+  extension = ".json"
+): Promise<string[]> {
+  const root = resolveDataPath(relativeDir);
+  const files: string[] = [];
+
+  const walk = async (dir: string) => {
+    let entries;
+    try {
+      entries = await readdir(dir, { withFileTypes: true });
+    } catch (error) {
+      if (isNotFoundError(error)) {
+        return;
+      }
+      throw error;
+    }
+    for (const entry of entries) {
+      const fullPath = path.join(dir, entry.name);
+      if (entry.isDirectory()) {
+        await walk(fullPath);
+      } else if (entry.name.endsWith(extension)) {
+        files.push(path.relative(DATA_DIR, fullPath));
+      }
+    }
+  };
+
+  await walk(root);
+  return files.sort();
+}
+
+const writeQueues = new Map<string, Promise<unknown>>();
+
+/**
+ * Serializa leitura-modificação-escrita de um mesmo arquivo para evitar que
+ * requisições concorrentes sobrescrevam alterações umas das outras.
+ */
+export async function updateJsonFile<T>(
+  relativePath: string,
+  fallback: T,
+  updater: (current: T) => T | Promise<T>
+): Promise<T> {
+  const previous = writeQueues.get(relativePath) ?? Promise.resolve();
+  const next = previous
+    .catch(() => undefined)
+    .then(async () => {
+      const current = (await readJsonFile<T>(relativePath)) ?? fallback;
+      const updated = await updater(current);
+      await writeJsonFile(relativePath, updated);
+      return updated;
+    });
+  writeQueues.set(relativePath, next);
+  try {
+    return await next;
+  } finally {
+    if (writeQueues.get(relativePath) === next) {
+      writeQueues.delete(relativePath);
+    }
+  }
+}
+
+function isNotFoundError(error: unknown) {
+  return (
+    typeof error === "object" &&
+    error !== null &&
+    "code" in error &&
+    (error as { code?: string }).code === "ENOENT"
+  );
+}
@@ -0,0 +1,36 @@
+import "server-only";
+import { buildDashboardMetrics, getRangeFromMonth } from "@/lib/metrics";
+import { ErrorBudgetRankingResponse } from "@/types/dashboard";
+
+/**
+ * Host groups ordenados pelo orçamento comercial já consumido (depois pelo
+ * geral). Grupos sem meta ou com meta de 100% ficam no fim, pelo downtime.
+ */
+export async function buildErrorBudgetRanking(
+  month: string
+): Promise<ErrorBudgetRankingResponse> {
+  const { label } = getRangeFromMonth(month);
+  const metrics = await buildDashboardMetrics(
+    { month },
+    { includeGroupStats: true, includeErrorBudgetIncidents: true }
+  );
+  const groups = (metrics.groupSummaries ?? [])
+    .filter((group) => group.hosts > 0 && group.errorBudget)
+    .map((group) => ({
+      groupid: group.groupid,
+      name: group.name,
+      hosts: group.hosts,
+      errorBudget: group.errorBudget!,
+    }))
+    .sort(
+      (a, b) =>
+        (b.errorBudget.business.burnedPct ?? -1) -
+          (a.errorBudget.business.burnedPct ?? -1) ||
+        (b.errorBudget.overall.burnedPct ?? -1) -
+          (a.errorBudget.overall.burnedPct ?? -1) ||
+        b.errorBudget.business.consumedMinutes -
+          a.errorBudget.business.consumedMinutes ||
+        a.name.localeCompare(b.name, "pt-BR")
+    );
+  return { month, label, groups };
+}
@@ -0,0 +1,243 @@
+import "server-only";
+import { sumContractedHostsByName } from "@/lib/contracted-hosts";
+import { getRangeFromMonth } from "@/lib/metrics";
+import { getGroupMetricsOverview } from "@/lib/metrics-snapshots";
+import { resolvePeriod } from "@/lib/periods";
+import { RequestError } from "@/lib/request-error";
+import { getSlaContract } from "@/lib/sla-contracts";
+import { fetchHostGroups } from "@/lib/zabbix";
+import {
+  ExecutiveSummary,
+  ExecutiveSummaryMonth,
+  ExecutiveSummaryOutage,
+  ExecutiveSummaryPeriodKind,
+  HostGroupMetric,
+} from "@/types/dashboard";
+
+const TOP_OUTAGES = 10;
+const DISASTER_SEVERITY = 5;
+
+export type ExecutiveSummaryInput = {
+  groupId: string;
+  kind: ExecutiveSummaryPeriodKind;
+  year: number;
+  quarter?: number;
+};
+
+/**
+ * Resumo de um host group por trimestre ou ano, montado mês a mês a partir
+ * das mesmas métricas do dashboard (snapshots nos meses fechados).
+ */
+export async function buildExecutiveSummary(
+  input: ExecutiveSummaryInput
+): Promise<ExecutiveSummary> {
+  const period = resolveSummaryPeriod(input);
+  const now = Date.now();
+  const months = period.months.filter(
+    (month) => getRangeFromMonth(month).startSeconds * 1000 <= now
+  );
+  if (!months.length) {
+    throw new RequestError("O período escolhido ainda não começou.");
+  }
+
+  const [hostGroups, contract] = await Promise.all([
+    fetchHostGroups(),
+    getSlaContract(input.groupId),
+  ]);
+  const hostGroup = hostGroups.find((group) => group.groupid === input.groupId);
+  if (!hostGroup) {
+    throw new RequestError("Host group não encontrado.", 404);
+  }
+
+  // Em sequência, como nas tendências: só o mês corrente consulta o Zabbix.
+  const entries: Array<{
+    summary: ExecutiveSummaryMonth;
+    group: HostGroupMetric | null;
+    seconds: number;
+  }> = [];
+  for (const month of months) {
+    const overview = await getGroupMetricsOverview({
+      month,
+      groupIds: [input.groupId],
+    });
+    const range = getRangeFromMonth(month);
+    const group =
+      overview.groups.find((item) => item.groupid === input.groupId) ?? null;
+    entries.push({
+      group,
+      seconds: range.endSeconds - range.startSeconds,
+      summary: {
+        month,
+        label: overview.meta.period,
+        partial: range.endSeconds < range.periodEndSeconds,
+        metrics: group
+          ? {
+              hosts: group.hosts,
+              availabilityPct: group.availabilityPct,
+              businessAvailabilityPct: group.businessAvailabilityPct,
+              reachabilityPct: group.reachabilityPct,
+              detectionMinutes: group.detectionMinutes,
+              responseMinutes: group.responseMinutes,
+              resolutionMinutes: group.resolutionMinutes,
+              alerts: group.alerts,
+              disasters: countDisasters(group),
+              impactIncidents: group.impactIncidents,
+              targets: group.sla?.targets ?? null,
+              slaStatus: group.sla?.status ?? null,
+            }
+          : null,
+      },
+    });
+  }
+
+  const measured = entries.filter(
+    (entry) => entry.group && entry.group.hosts > 0
+  );
+  const weightedPct = (pick: (group: HostGroupMetric) => number) => {
+    let weight = 0;
+    let total = 0;
+    for (const entry of measured) {
+      const capacity = entry.group!.hosts * entry.seconds;
+      weight += capacity;
+      total += pick(entry.group!) * capacity;
+    }
+    return weight > 0 ? roundValue(total / weight) : null;
+  };
+
+  let alerts = 0;
+  let resolutionTotal = 0;
+  let disasters = 0;
+  let impactIncidents = 0;
+  for (const entry of entries) {
+    const metrics = entry.summary.metrics;
+    if (!metrics) continue;
+    alerts += metrics.alerts;
+    resolutionTotal += metrics.resolutionMinutes * metrics.alerts;
+    disasters += metrics.disasters;
+    impactIncidents += metrics.impactIncidents;
+  }
+
+  const evaluated = entries.filter((entry) => entry.summary.metrics?.slaStatus);
+  const lastMeasured = measured[measured.length - 1]?.group ?? null;
+  const hosts = lastMeasured?.hosts ?? 0;
+  const contractedHosts = sumContractedHostsByName([hostGroup.name]);
+
+  return {
+    groupId: input.groupId,
+    groupName: hostGroup.name,
+    period: {
+      kind: input.kind,
+      key: period.key,
+      label: period.label,
+      from: period.from,
+      to: period.to,
+    },
+    targets: contract.targets,
+    totals: {
+      availabilityPct: weightedPct((group) => group.availabilityPct),
+      businessAvailabilityPct: weightedPct(
+        (group) => group.businessAvailabilityPct
+      ),
+      reachabilityPct: weightedPct((group) => group.reachabilityPct),
+      resolutionMinutes: alerts ? roundValue(resolutionTotal / alerts) : null,
+      alerts,
+      disasters,
+      impactIncidents,
+      monthsMet: evaluated.filter(
+        (entry) => entry.summary.metrics?.slaStatus === "met"
+      ).length,
+      monthsEvaluated: evaluated.length,
+      hosts,
+      contractedHosts,
+      coveragePct: contractedHosts
+        ? roundValue((hosts / contractedHosts) * 100)
+        : null,
+    },
+    months: entries.map((entry) => entry.summary),
+    topOutages: collectTopOutages(entries),
+    generatedAt: new Date().toISOString(),
+  };
+}
+
+function resolveSummaryPeriod(input: ExecutiveSummaryInput) {
+  const { year } = input;
+  if (input.kind === "quarter") {
+    const quarter = input.quarter ?? 1;
+    const firstMonth = (quarter - 1) * 3 + 1;
+    const resolved = resolvePeriod({
+      preset: "quarter",
+      date: `${year}-${String(firstMonth).padStart(2, "0")}-01`,
+    });
+    return {
+      key: resolved.key,
+      label: resolved.label,
+      from: new Date(resolved.startSeconds * 1000).toISOString(),
+      to: new Date(resolved.periodEndSeconds * 1000).toISOString(),
+      months: [0, 1, 2].map((offset) => formatMonth(year, firstMonth + offset)),
+    };
+  }
+  return {
+    key: String(year),
+    label: `Ano de ${year}`,
+    from: new Date(Date.UTC(year, 0, 1)).toISOString(),
+    to: new Date(Date.UTC(year + 1, 0, 1)).toISOString(),
+    months: Array.from({ length: 12 }, (_, index) =>
+      formatMonth(year, index + 1)
+    ),
+  };
+}
+
+/**
+ * Quedas são os alertas de alcançabilidade e os de severidade Desastre. Um
+ * evento que atravessa a virada do mês aparece uma vez só, no mês em que abriu.
+ */
+function collectTopOutages(
+  entries: Array<{
+    summary: ExecutiveSummaryMonth;
+    group: HostGroupMetric | null;
+  }>
+): ExecutiveSummaryOutage[] {
+  const outages = new Map<string, ExecutiveSummaryOutage>();
+  for (const { summary, group } of entries) {
+    if (!group?.alertDetails) continue;
+    const reachability = new Set(group.reachabilityEventIds ?? []);
+    for (const alert of group.alertDetails) {
+      if (outages.has(alert.eventId)) continue;
+      if (
+        !reachability.has(alert.eventId) &&
+        alert.severity !== DISASTER_SEVERITY
+      ) {
+        continue;
+      }
+      outages.set(alert.eventId, {
+        eventId: alert.eventId,
+        name: alert.name,
+        severity: alert.severity,
+        month: summary.month,
+        openedAt: alert.openedAt,
+        closedAt: alert.closedAt,
+        isOpen: alert.isOpen,
+        durationMinutes: alert.resolutionMinutes,
+        hosts: alert.hosts,
+      });
+    }
+  }
+  return Array.from(outages.values())
+    .sort((a, b) => b.durationMinutes - a.durationMinutes)
+    .slice(0, TOP_OUTAGES);
+}
+
+function countDisasters(group: HostGroupMetric) {
+  return (
+    group.severitySummary.find((item) => item.severity === DISASTER_SEVERITY)
+      ?.count ?? 0
+  );
+}
+
+function formatMonth(year: number, month: number) {
+  return `${year}-${String(month).padStart(2, "0")}`;
+}
+
+function roundValue(value: number) {
+  return Number.isFinite(value) ? Number(value.toFixed(2)) : 0;
+}
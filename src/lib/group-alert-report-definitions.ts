@@ -0,0 +1,177 @@
+import "server-only";
+import { randomUUID } from "node:crypto";
+import { readJsonFile, updateJsonFile } from "@/lib/data-store";
+import {
+  GroupAlertReportRange,
+  resolveGroupAlertReportRange,
+} from "@/lib/group-alert-report";
+import { RequestError } from "@/lib/request-error";
+import { GroupAlertReportDefinition } from "@/types/dashboard";
+import { z } from "zod";
+
+const DEFINITIONS_FILE = "group-alert-reports.json";
+
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Use AAAA-MM-DD");
+
+export const groupAlertReportDefinitionSchema = z
+  .object({
+    name: z.string().trim().min(1).max(120),
+    groupId: z.string().trim().min(1),
+    groupName: z.string().trim().min(1).nullable().optional(),
+    from: isoDate.nullable().optional(),
+    to: isoDate.nullable().optional(),
+    lastDays: z.number().int().min(1).max(366).nullable().optional(),
+  })
+  .refine((value) => Boolean(value.from) === Boolean(value.to), {
+    message: "Informe from e to juntos (ou use lastDays).",
+  })
+  .refine((value) => !value.from || !value.to || value.from <= value.to, {
+    message: "A data inicial deve ser anterior à data final.",
+  });
+
+type DefinitionStore = {
+  definitions: GroupAlertReportDefinition[];
+};
+
+export type GroupAlertReportDefinitionInput = z.infer<
+  typeof groupAlertReportDefinitionSchema
+>;
+
+export async function listGroupAlertReportDefinitions(): Promise<
+  GroupAlertReportDefinition[]
+> {
+  const store = await readStore();
+  return [...store.definitions].sort((a, b) =>
+    a.name.localeCompare(b.name, "pt-BR")
+  );
+}
+
+export async function getGroupAlertReportDefinition(
+  id: string
+): Promise<GroupAlertReportDefinition | null> {
+  const store = await readStore();
+  return store.definitions.find((definition) => definition.id === id) ?? null;
+}
+
+export async function createGroupAlertReportDefinition(
+  input: GroupAlertReportDefinitionInput
+): Promise<GroupAlertReportDefinition> {
+  const now = new Date().toISOString();
+  const definition: GroupAlertReportDefinition = {
+    id: randomUUID(),
+    ...normalizeInput(input),
+    createdAt: now,
+    updatedAt: now,
+  };
+  await updateJsonFile<DefinitionStore>(
+    DEFINITIONS_FILE,
+    { definitions: [] },
+    (store) => ({ definitions: [...store.definitions, definition] })
+  );
+  return definition;
+}
+
+export async function updateGroupAlertReportDefinition(
+  id: string,
+  input: GroupAlertReportDefinitionInput
+): Promise<GroupAlertReportDefinition | null> {
+  let updated: GroupAlertReportDefinition | null = null;
+  await updateJsonFile<DefinitionStore>(
+    DEFINITIONS_FILE,
+    { definitions: [] },
+    (store) => ({
+      definitions: store.definitions.map((definition) => {
+        if (definition.id !== id) {
+          return definition;
+        }
+        updated = {
+          ...definition,
+          ...normalizeInput(input),
+          updatedAt: new Date().toISOString(),
+        };
+        return updated;
+      }),
+    })
+  );
+  return updated;
+}
+
+export async function deleteGroupAlertReportDefinition(
+  id: string
+): Promise<boolean> {
+  let removed = false;
+  await updateJsonFile<DefinitionStore>(
+    DEFINITIONS_FILE,
+    { definitions: [] },
+    (store) => {
+      const definitions = store.definitions.filter(
+        (definition) => definition.id !== id
+      );
+      removed = definitions.length !== store.definitions.length;
+      return removed ? { definitions } : store;
+    }
+  );
+  return removed;
+}
+
+/**
+ * Junta os parâmetros da URL com a definição salva (quando informada): os
+ * parâmetros explícitos têm prioridade sobre os da definição.
+ */
+export async function resolveGroupAlertReportRequest(params: {
+  definitionId?: string | null;
+  groupId?: string | null;
+  groupName?: string | null;
+  from?: string | null;
+  to?: string | null;
+  lastDays?: number | null;
+}): Promise<{
+  definition: GroupAlertReportDefinition | null;
+  groupId?: string;
+  groupName?: string;
+  range: GroupAlertReportRange;
+}> {
+  const definition = params.definitionId
+    ? await getGroupAlertReportDefinition(params.definitionId)
+    : null;
+  if (params.definitionId && !definition) {
+    throw new RequestError("Definição de relatório não encontrada.", 404);
+  }
+
+  const groupId = params.groupId ?? definition?.groupId ?? undefined;
+  const groupName = groupId
+    ? undefined
+    : params.groupName ?? definition?.groupName ?? undefined;
+  if (!groupId && !groupName) {
+    throw new RequestError("Informe o host group do relatório.");
+  }
+
+  const explicitRange = Boolean(params.from || params.to || params.lastDays);
+  const range = resolveGroupAlertReportRange(
+    explicitRange
+      ? { from: params.from, to: params.to, lastDays: params.lastDays }
+      : {
+          from: definition?.from,
+          to: definition?.to,
+          lastDays: definition?.lastDays,
+        }
+  );
+  return { definition, groupId, groupName, range };
+}
+
+async function readStore(): Promise<DefinitionStore> {
+  const store = await readJsonFile<DefinitionStore>(DEFINITIONS_FILE);
+  return Array.isArray(store?.definitions) ? store : { definitions: [] };
+}
+
+function normalizeInput(input: GroupAlertReportDefinitionInput) {
+  const hasFixedRange = Boolean(input.from && input.to);
+  return {
+    name: input.name.trim(),
+    groupId: input.groupId,
+    groupName: input.groupName ?? null,
+    from: hasFixedRange ? input.from ?? null : null,
+    to: hasFixedRange ? input.to ?? null : null,
+    lastDays: hasFixedRange ? null : input.lastDays ?? 30,
+  };
+}
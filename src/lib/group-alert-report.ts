@@ -1,36 +1,117 @@
 import "server-only";
 
+import { formatInTimeZone, fromZonedTime } from "date-fns-tz";
 import {
   fetchHostGroups,
   fetchHosts,
   fetchProblems,
   fetchRecoveryEvents,
+  ZabbixHostGroup,
   ZabbixProblem,
 } from "@/lib/zabbix";
 import { GroupAlertRecord } from "@/types/dashboard";
 import { SEVERITY_LEVELS } from "@/lib/metrics";
+import { buildIncidentLifecycle, secondsUntil } from "@/lib/incident-lifecycle";
+import { RequestError } from "@/lib/request-error";
+
+const DEFAULT_TIMEZONE =
+  process.env.DASHBOARD_TIMEZONE ?? "America/Sao_Paulo";
+const MAX_REPORT_DAYS = Number(
+  process.env.DASHBOARD_GROUP_REPORT_MAX_DAYS ?? "186"
+);
+const DAY_MS = 24 * 60 * 60 * 1000;
 
 const severityLabelMap = new Map(
   SEVERITY_LEVELS.map((level) => [level.key, level.label])
 );
 
+export type GroupAlertReportRange = {
+  from: string;
+  to: string;
+  start: Date;
+  end: Date;
+};
+
+/**
+ * Converte datas AAAA-MM-DD (dias inteiros no fuso do dashboard) no intervalo
+ * consultado. Sem datas, usa os últimos `lastDays` dias até hoje.
+ */
+export function resolveGroupAlertReportRange(params: {
+  from?: string | null;
+  to?: string | null;
+  lastDays?: number | null;
+}): GroupAlertReportRange {
+  const today = formatInTimeZone(new Date(), DEFAULT_TIMEZONE, "yyyy-MM-dd");
+  const lastDays = Math.max(1, params.lastDays ?? 30);
+  const to = params.to ?? today;
+  const from =
+    params.from ??
+    new Date(Date.parse(`${to}T00:00:00Z`) - (lastDays - 1) * DAY_MS)
+      .toISOString()
+      .slice(0, 10);
+
+  if (!isIsoDate(from) || !isIsoDate(to)) {
+    throw new RequestError("Datas inválidas. Use AAAA-MM-DD.");
+  }
+  if (from > to) {
+    throw new RequestError("A data inicial deve ser anterior à data final.");
+  }
+  const days =
+    (Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / DAY_MS +
+    1;
+  if (days > MAX_REPORT_DAYS) {
+    throw new RequestError(
+      `O período máximo do relatório é de ${MAX_REPORT_DAYS} dias.`
+    );
+  }
+
+  return {
+    from,
+    to,
+    start: fromZonedTime(`${from}T00:00:00`, DEFAULT_TIMEZONE),
+    end: fromZonedTime(`${to}T23:59:59`, DEFAULT_TIMEZONE),
+  };
+}
+
+/**
+ * Localiza o host group do relatório por id ou nome, para que as rotas possam
+ * conferir o acesso antes de montar o relatório.
+ */
+export async function findGroupAlertReportGroup({
+  groupId,
+  groupName,
+}: {
+  groupId?: string;
+  groupName?: string;
+}): Promise<ZabbixHostGroup> {
+  const groups = await fetchHostGroups();
+  const normalized = groupName?.trim().toLowerCase();
+  const group = groups.find((entry) =>
+    groupId
+      ? entry.groupid === groupId
+      : entry.name.trim().toLowerCase() === normalized
+  );
+  if (!group) {
+    throw new RequestError(
+      `Host group "${groupName ?? groupId ?? ""}" não encontrado no Zabbix.`,
+      404
+    );
+  }
+  return group;
+}
+
 export async function buildGroupAlertReport({
+  groupId,
   groupName,
   start,
   end,
 }: {
-  groupName: string;
+  groupId?: string;
+  groupName?: string;
   start: Date;
   end: Date;
 }): Promise<{ groupId: string; groupLabel: string; alerts: GroupAlertRecord[] }> {
-  const groups = await fetchHostGroups();
-  const normalized = groupName.trim().toLowerCase();
-  const group = groups.find(
-    (entry) => entry.name.trim().toLowerCase() === normalized
-  );
-  if (!group) {
-    throw new Error(`Host group "${groupName}" não encontrado no Zabbix.`);
-  }
+  const group = await findGroupAlertReportGroup({ groupId, groupName });
 
   const startSeconds = Math.floor(start.getTime() / 1000);
   const endSeconds = Math.floor(end.getTime() / 1000);
@@ -88,18 +169,17 @@ function mapProblem(
       ? Math.min(recoverySeconds, periodEndSeconds)
       : periodEndSeconds;
   const durationSeconds = Math.max(0, endSeconds - startSeconds);
-  const acknowledges = [...(problem.acknowledges ?? [])].sort(
-    (a, b) => Number(a.clock) - Number(b.clock)
+  const lifecycle = buildIncidentLifecycle(problem, recoverySeconds);
+  const firstAckSeconds = lifecycle.acknowledgedAt;
+  const respondedSeconds = lifecycle.respondedAt;
+  const detectionDelta = secondsUntil(firstAckSeconds, startSeconds);
+  const responseDelta = secondsUntil(respondedSeconds, startSeconds);
+  // Fechamento manual conta como resolução mesmo antes da recuperação.
+  const resolutionDelta = Math.max(
+    0,
+    Math.min(lifecycle.resolvedAt ?? periodEndSeconds, periodEndSeconds) -
+      startSeconds
   );
-  const detectionDelta =
-    acknowledges.length > 0
-      ? Math.max(0, Number(acknowledges[0].clock) - startSeconds)
-      : null;
-  const firstAckSeconds =
-    acknowledges.length > 0 ? Number(acknowledges[0].clock) : null;
-  const responseDelta = detectionDelta;
-  const secondAckSeconds = firstAckSeconds;
-  const resolutionDelta = durationSeconds;
 
   const severity = Number(problem.severity ?? 0);
   const severityLabel =
@@ -130,14 +210,16 @@ function mapProblem(
     firstAckAt: firstAckSeconds
       ? new Date(firstAckSeconds * 1000).toISOString()
       : null,
-    secondAckAt: secondAckSeconds
-      ? new Date(secondAckSeconds * 1000).toISOString()
+    respondedAt: respondedSeconds
+      ? new Date(respondedSeconds * 1000).toISOString()
       : null,
-    secondAckMinutes:
-      responseDelta !== null ? secondsToMinutes(responseDelta) : null,
   };
 }
 
+function isIsoDate(value: string) {
+  return /^\d{4}-\d{2}-\d{2}$/.test(value) && !Number.isNaN(Date.parse(value));
+}
+
 function secondsToMinutes(value: number): number {
   if (!value || Number.isNaN(value)) {
     return 0;
@@ -0,0 +1,303 @@
+import "server-only";
+import { readFile } from "node:fs/promises";
+import path from "node:path";
+import { z } from "zod";
+import { fetchHosts, ZabbixHost } from "@/lib/zabbix";
+import {
+  HostCategoryDefinition,
+  HostClassificationConfig,
+  HostClassificationResult,
+  HostClassificationRule,
+} from "@/types/dashboard";
+
+const CLASSIFICATION_FILE = path.resolve(
+  process.env.DASHBOARD_HOST_CLASSIFICATION_FILE ??
+    path.join(process.cwd(), "config", "host-classification.json")
+);
+
+// Usado quando o arquivo não existe ou é inválido: tudo cai na categoria padrão.
+const FALLBACK_CONFIG: HostClassificationConfig = {
+  defaultCategory: "others",
+  categories: [
+    { id: "servers", label: "Servidores" },
+    { id: "endpoints", label: "Endpoints" },
+    { id: "network", label: "Dispositivos de Rede" },
+    { id: "others", label: "IoT/Outros" },
+  ],
+  rules: [],
+};
+
+const patternSchema = z
+  .string()
+  .min(1)
+  .refine(isValidPattern, { message: "Expressão regular inválida." });
+
+const configSchema = z
+  .object({
+    defaultCategory: z.string().trim().min(1),
+    categories: z
+      .array(
+        z.object({
+          id: z.string().trim().min(1),
+          label: z.string().trim().min(1),
+        })
+      )
+      .min(1),
+    rules: z.array(
+      z.object({
+        id: z.string().trim().min(1),
+        category: z.string().trim().min(1),
+        description: z.string().trim().optional(),
+        match: z
+          .object({
+            tags: z
+              .array(
+                z.object({
+                  tag: z.string().trim().min(1),
+                  value: z.string().optional(),
+                })
+              )
+              .optional(),
+            inventoryType: z.array(patternSchema).optional(),
+            templates: z.array(patternSchema).optional(),
+            groups: z.array(patternSchema).optional(),
+            hostName: z.array(patternSchema).optional(),
+          })
+          .refine((match) => Object.values(match).some((list) => list?.length), {
+            message: "A regra precisa de ao menos uma condição.",
+          }),
+      })
+    ),
+  })
+  .superRefine((config, ctx) => {
+    const categoryIds = new Set(config.categories.map((entry) => entry.id));
+    if (!categoryIds.has(config.defaultCategory)) {
+      ctx.addIssue({
+        code: "custom",
+        path: ["defaultCategory"],
+        message: `Categoria padrão desconhecida: ${config.defaultCategory}.`,
+      });
+    }
+    const ruleIds = new Set<string>();
+    config.rules.forEach((rule, index) => {
+      if (!categoryIds.has(rule.category)) {
+        ctx.addIssue({
+          code: "custom",
+          path: ["rules", index, "category"],
+          message: `Categoria desconhecida: ${rule.category}.`,
+        });
+      }
+      if (ruleIds.has(rule.id)) {
+        ctx.addIssue({
+          code: "custom",
+          path: ["rules", index, "id"],
+          message: `Regra duplicada: ${rule.id}.`,
+        });
+      }
+      ruleIds.add(rule.id);
+    });
+  });
+
+export type HostClassification = {
+  category: HostCategoryDefinition;
+  rule: HostClassificationRule | null;
+  matchedOn: string[];
+};
+
+export type HostClassifier = {
+  categories: HostCategoryDefinition[];
+  classify: (host: ZabbixHost) => HostClassification;
+};
+
+type CompiledRule = {
+  rule: HostClassificationRule;
+  category: HostCategoryDefinition;
+  tags: Array<{ tag: string; value?: string }>;
+  inventoryType: RegExp[];
+  templates: RegExp[];
+  groups: RegExp[];
+  hostName: RegExp[];
+};
+
+/** Lê e valida o arquivo de regras; lança erro quando o arquivo é inválido. */
+export async function loadHostClassificationConfig(): Promise<HostClassificationConfig> {
+  let content: string;
+  try {
+    content = await readFile(CLASSIFICATION_FILE, "utf8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException)?.code === "ENOENT") {
+      return FALLBACK_CONFIG;
+    }
+    throw error;
+  }
+
+  const parseResult = configSchema.safeParse(JSON.parse(content));
+  if (!parseResult.success) {
+    const issue = parseResult.error.issues[0];
+    throw new Error(
+      `Regras de classificação inválidas (${issue.path.join(".")}): ${issue.message}`
+    );
+  }
+  return parseResult.data;
+}
+
+export async function loadHostClassifier(): Promise<HostClassifier> {
+  try {
+    return createHostClassifier(await loadHostClassificationConfig());
+  } catch (error) {
+    console.warn(
+      "[host-classification] Usando categorias padrão; falha ao carregar regras",
+      error
+    );
+    return createHostClassifier(FALLBACK_CONFIG);
+  }
+}
+
+/**
+ * As regras são avaliadas na ordem do arquivo e a primeira que casar vence.
+ * Dentro de uma regra, todas as condições informadas precisam casar; em cada
+ * condição basta um dos valores/padrões da lista.
+ */
+export function createHostClassifier(
+  config: HostClassificationConfig
+): HostClassifier {
+  const categoriesById = new Map(
+    config.categories.map((category) => [category.id, category])
+  );
+  const defaultCategory =
+    categoriesById.get(config.defaultCategory) ?? config.categories[0];
+  const rules: CompiledRule[] = config.rules.flatMap((rule) => {
+    const category = categoriesById.get(rule.category);
+    if (!category) return [];
+    return [
+      {
+        rule,
+        category,
+        tags: rule.match.tags ?? [],
+        inventoryType: compilePatterns(rule.match.inventoryType),
+        templates: compilePatterns(rule.match.templates),
+        groups: compilePatterns(rule.match.groups),
+        hostName: compilePatterns(rule.match.hostName),
+      },
+    ];
+  });
+
+  const classify = (host: ZabbixHost): HostClassification => {
+    for (const compiled of rules) {
+      const matchedOn = matchRule(compiled, host);
+      if (matchedOn) {
+        return { category: compiled.category, rule: compiled.rule, matchedOn };
+      }
+    }
+    return { category: defaultCategory, rule: null, matchedOn: [] };
+  };
+
+  return { categories: config.categories, classify };
+}
+
+export async function previewHostClassification(groupId?: string): Promise<{
+  categories: Array<HostCategoryDefinition & { count: number }>;
+  rules: Array<{ id: string; category: string; count: number }>;
+  hosts: HostClassificationResult[];
+}> {
+  const [config, hosts] = await Promise.all([
+    loadHostClassificationConfig(),
+    fetchHosts(groupId),
+  ]);
+  const classifier = createHostClassifier(config);
+
+  const results = hosts
+    .map((host): HostClassificationResult => {
+      const result = classifier.classify(host);
+      return {
+        hostid: host.hostid,
+        name: host.name,
+        categoryId: result.category.id,
+        categoryLabel: result.category.label,
+        ruleId: result.rule?.id ?? null,
+        ruleDescription: result.rule?.description ?? null,
+        matchedOn: result.matchedOn,
+      };
+    })
+    .sort((a, b) => a.name.localeCompare(b.name, "pt-BR"));
+
+  const countBy = (key: (result: HostClassificationResult) => string | null) => {
+    const counts = new Map<string, number>();
+    for (const result of results) {
+      const value = key(result);
+      if (value) counts.set(value, (counts.get(value) ?? 0) + 1);
+    }
+    return counts;
+  };
+  const categoryCounts = countBy((result) => result.categoryId);
+  const ruleCounts = countBy((result) => result.ruleId);
+
+  return {
+    categories: config.categories.map((category) => ({
+      ...category,
+      count: categoryCounts.get(category.id) ?? 0,
+    })),
+    rules: config.rules.map((rule) => ({
+      id: rule.id,
+      category: rule.category,
+      count: ruleCounts.get(rule.id) ?? 0,
+    })),
+    hosts: results,
+  };
+}
+
+function matchRule(compiled: CompiledRule, host: ZabbixHost): string[] | null {
+  const matchedOn: string[] = [];
+
+  if (compiled.tags.length) {
+    const tag = (host.tags ?? []).find((hostTag) =>
+      compiled.tags.some(
+        (expected) =>
+          hostTag.tag.toLowerCase() === expected.tag.toLowerCase() &&
+          (expected.value === undefined ||
+            hostTag.value.toLowerCase() === expected.value.toLowerCase())
+      )
+    );
+    if (!tag) return null;
+    matchedOn.push(`tag ${tag.tag}=${tag.value}`);
+  }
+
+  const checks: Array<[RegExp[], string, Array<string | undefined>]> = [
+    [
+      compiled.inventoryType,
+      "inventário",
+      [host.inventory?.type, host.inventory?.type_full],
+    ],
+    [
+      compiled.templates,
+      "template",
+      (host.parentTemplates ?? []).map((template) => template.name),
+    ],
+    [compiled.groups, "grupo", (host.groups ?? []).map((group) => group.name)],
+    [compiled.hostName, "nome", [host.name]],
+  ];
+  for (const [patterns, label, values] of checks) {
+    if (!patterns.length) continue;
+    const value = values.find(
+      (candidate) =>
+        candidate && patterns.some((pattern) => pattern.test(candidate))
+    );
+    if (!value) return null;
+    matchedOn.push(`${label} "${value}"`);
+  }
+
+  return matchedOn;
+}
+
+function compilePatterns(patterns: string[] | undefined): RegExp[] {
+  return (patterns ?? []).map((pattern) => new RegExp(pattern, "i"));
+}
+
+function isValidPattern(pattern: string) {
+  try {
+    new RegExp(pattern, "i");
+    return true;
+  } catch {
+    return false;
+  }
+}
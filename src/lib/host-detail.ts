@@ -0,0 +1,271 @@
+import "server-only";
+
+import {
+  fetchHostDetail,
+  fetchProblems,
+  fetchProxiesByIds,
+  fetchRecoveryEvents,
+  ZabbixHost,
+} from "@/lib/zabbix";
+import {
+  HostAlertDetail,
+  HostDetailResponse,
+  HostDowntimeInterval,
+  HostTimelineSegment,
+} from "@/types/dashboard";
+import { getRangeFromMonth, PROBLEM_LOOKBACK_SECONDS } from "@/lib/metrics";
+import {
+  BusinessCalendar,
+  loadBusinessCalendarResolver,
+} from "@/lib/business-calendar";
+import {
+  buildIncidentLifecycle,
+  decodeIncidentActions,
+  secondsUntil,
+} from "@/lib/incident-lifecycle";
+import { resolveAlertVerdict } from "@/lib/alert-verdicts";
+import {
+  Interval,
+  intersectIntervals,
+  mergeIntervals,
+  sumIntervals,
+} from "@/lib/intervals";
+import { loadHostMaintenanceWindows } from "@/lib/maintenance";
+
+type ProblemInterval = Interval & { eventId: string };
+
+/**
+ * Detalhe de um host no mês: intervalos de indisponibilidade consolidados
+ * (mesma regra do `buildHostDowntime` das métricas), divididos em horário
+ * comercial e fora dele, além dos alertas com o histórico de ACKs.
+ * `groupId` escolhe o calendário comercial; sem ele vale o primeiro grupo do
+ * host que tenha calendário próprio.
+ */
+export async function buildHostDetail(input: {
+  hostid: string;
+  month: string;
+  groupId?: string;
+}): Promise<HostDetailResponse | null> {
+  const { startSeconds, endSeconds, label } = getRangeFromMonth(input.month);
+  const host = await fetchHostDetail(input.hostid);
+  if (!host) {
+    return null;
+  }
+
+  const [problems, resolveCalendar, proxies, maintenanceWindows] =
+    await Promise.all([
+      fetchProblems({
+        hostIds: [host.hostid],
+        timeFrom: Math.max(0, startSeconds - PROBLEM_LOOKBACK_SECONDS),
+        timeTill: endSeconds,
+      }),
+      loadBusinessCalendarResolver(),
+      host.proxy_hostid && host.proxy_hostid !== "0"
+        ? fetchProxiesByIds([host.proxy_hostid])
+        : Promise.resolve([]),
+      loadHostMaintenanceWindows({
+        hosts: [host],
+        timeFrom: startSeconds,
+        timeTill: endSeconds,
+      }),
+    ]);
+  const recoveryEventMap = await fetchRecoveryEvents(
+    problems
+      .map((problem) => problem.r_eventid)
+      .filter((id): id is string => Boolean(id && id !== "0"))
+  );
+  const calendar = resolveHostCalendar(host, resolveCalendar, input.groupId);
+
+  const problemIntervals: ProblemInterval[] = [];
+  const alerts: HostAlertDetail[] = [];
+  for (const problem of problems) {
+    const rawClock = Number(problem.clock);
+    if (!Number.isFinite(rawClock)) continue;
+    const isOpen = !problem.r_eventid || problem.r_eventid === "0";
+    const rawRecovery = problem.r_eventid
+      ? recoveryEventMap[problem.r_eventid]?.clock
+      : undefined;
+    const resolvedSeconds =
+      rawRecovery !== undefined && rawRecovery !== null
+        ? Number(rawRecovery)
+        : null;
+    const problemStart = Math.max(rawClock, startSeconds);
+    const problemEnd = Math.min(resolvedSeconds ?? endSeconds, endSeconds);
+    if (problemEnd <= problemStart) continue;
+
+    problemIntervals.push({
+      start: problemStart,
+      end: problemEnd,
+      eventId: String(problem.eventid),
+    });
+
+    const lifecycle = buildIncidentLifecycle(problem, resolvedSeconds);
+    const detection = secondsUntil(lifecycle.acknowledgedAt, rawClock);
+    const response = secondsUntil(lifecycle.respondedAt, rawClock);
+    const resolution = secondsUntil(lifecycle.resolvedAt, rawClock);
+    alerts.push({
+      eventId: String(problem.eventid),
+      name: problem.name,
+      severity: Number(problem.severity ?? 0) || 0,
+      openedAt: toIso(rawClock),
+      closedAt:
+        !isOpen && resolvedSeconds !== null ? toIso(resolvedSeconds) : null,
+      isOpen,
+      durationMinutes: toMinutes(problemEnd - problemStart),
+      detectionMinutes: detection !== null ? toMinutes(detection) : null,
+      responseMinutes: response !== null ? toMinutes(response) : null,
+      resolutionMinutes: resolution !== null ? toMinutes(resolution) : null,
+      acknowledges: [...(problem.acknowledges ?? [])]
+        .sort((a, b) => Number(a.clock) - Number(b.clock))
+        .map((ack) => ({
+          at: toIso(Number(ack.clock)),
+          userid: ack.userid ?? null,
+          user: ack.user ?? null,
+          actions: decodeIncidentActions(ack.action),
+          message: ack.message?.trim() || null,
+        })),
+      verdict: resolveAlertVerdict(problem.acknowledges),
+    });
+  }
+
+  const windows = maintenanceWindows.get(host.hostid) ?? [];
+  const intervals: HostDowntimeInterval[] = [];
+  const timeline: HostTimelineSegment[] = [];
+  let totalSeconds = 0;
+  let businessSeconds = 0;
+  for (const interval of mergeIntervals(problemIntervals)) {
+    const split = calendar.splitIntervals(interval.start, interval.end);
+    const business = sumIntervals(split.business);
+    const total = interval.end - interval.start;
+    totalSeconds += total;
+    businessSeconds += business;
+    intervals.push({
+      start: toIso(interval.start),
+      end: toIso(interval.end),
+      totalMinutes: toMinutes(total),
+      businessMinutes: toMinutes(business),
+      offMinutes: toMinutes(total - business),
+      maintenanceMinutes: toMinutes(
+        sumIntervals(intersectIntervals([interval], windows))
+      ),
+      eventIds: problemIntervals
+        .filter(
+          (entry) => entry.start < interval.end && entry.end > interval.start
+        )
+        .map((entry) => entry.eventId),
+    });
+    for (const [shift, segments] of [
+      ["business", split.business],
+      ["off", split.off],
+    ] as const) {
+      for (const segment of segments) {
+        timeline.push({
+          start: toIso(segment.start),
+          end: toIso(segment.end),
+          shift,
+          minutes: toMinutes(segment.end - segment.start),
+        });
+      }
+    }
+  }
+  timeline.sort((a, b) => a.start.localeCompare(b.start));
+
+  const rangeSeconds = endSeconds - startSeconds;
+  const rangeBusinessSeconds = calendar.splitSeconds(
+    startSeconds,
+    endSeconds
+  ).business;
+
+  return {
+    meta: {
+      month: input.month,
+      period: {
+        label,
+        start: toIso(startSeconds),
+        end: toIso(endSeconds),
+      },
+      generatedAt: new Date().toISOString(),
+      calendar: { id: calendar.id, label: calendar.label },
+    },
+    host: {
+      hostid: host.hostid,
+      name: host.name,
+      active: host.status === undefined || String(host.status) === "0",
+      proxy: proxies[0]?.host ?? null,
+      groups: (host.groups ?? []).map((group) => ({
+        groupid: group.groupid,
+        name: group.name,
+      })),
+      interfaces: (host.interfaces ?? []).map((entry) => ({
+        type: INTERFACE_TYPES[entry.type ?? ""] ?? entry.type ?? "—",
+        ip: entry.ip ?? "",
+        dns: entry.dns ?? "",
+        port: entry.port ?? "",
+        main: entry.main === "1",
+        available: entry.available ?? null,
+      })),
+      templates: (host.parentTemplates ?? []).map((template) => template.name),
+      tags: host.tags ?? [],
+      inventory: {
+        type: host.inventory?.type_full || host.inventory?.type || null,
+        os: host.inventory?.os || null,
+        hardware: host.inventory?.hardware || null,
+      },
+    },
+    downtime: {
+      totalMinutes: toMinutes(totalSeconds),
+      businessMinutes: toMinutes(businessSeconds),
+      offMinutes: toMinutes(totalSeconds - businessSeconds),
+      availabilityPct:
+        rangeSeconds > 0
+          ? ((rangeSeconds - totalSeconds) / rangeSeconds) * 100
+          : 100,
+      businessAvailabilityPct:
+        rangeBusinessSeconds > 0
+          ? ((rangeBusinessSeconds - businessSeconds) / rangeBusinessSeconds) *
+            100
+          : 100,
+    },
+    intervals,
+    timeline,
+    maintenance: windows.map((window) => ({
+      name: window.name,
+      start: toIso(window.start),
+      end: toIso(window.end),
+    })),
+    alerts: alerts.sort((a, b) => b.openedAt.localeCompare(a.openedAt)),
+  };
+}
+
+// interface.type do Zabbix.
+const INTERFACE_TYPES: Record<string, string> = {
+  "1": "Agent",
+  "2": "SNMP",
+  "3": "IPMI",
+  "4": "JMX",
+};
+
+function resolveHostCalendar(
+  host: ZabbixHost,
+  resolveCalendar: (groupid: string | null | undefined) => BusinessCalendar,
+  groupId?: string
+): BusinessCalendar {
+  if (groupId) {
+    return resolveCalendar(groupId);
+  }
+  for (const group of host.groups ?? []) {
+    const calendar = resolveCalendar(group.groupid);
+    if (calendar.id === group.groupid) {
+      return calendar;
+    }
+  }
+  return resolveCalendar(null);
+}
+
+function toIso(seconds: number) {
+  return new Date(seconds * 1000).toISOString();
+}
+
+function toMinutes(seconds: number) {
+  return seconds > 0 ? seconds / 60 : 0;
+}
@@ -0,0 +1,165 @@
+import type { ZabbixAcknowledge, ZabbixProblem } from "@/lib/zabbix";
+import { isVerdictMessage } from "@/lib/alert-verdicts";
+
+// Bits de `acknowledges[].action` no Zabbix 6.x.
+const ACTION_CLOSE = 1;
+const ACTION_ACKNOWLEDGE = 2;
+const ACTION_MESSAGE = 4;
+const ACTION_CHANGE_SEVERITY = 8;
+const ACTION_UNACKNOWLEDGE = 16;
+
+export type IncidentAction =
+  "close" | "acknowledge" | "message" | "severity" | "unacknowledge";
+
+/**
+ * Marco que define a resposta:
+ * - `ack_message`: primeira mensagem registrada depois do primeiro ACK (a
+ *   mensagem enviada no próprio ACK não conta);
+ * - `second_ack`: segundo ACK do problema;
+ * - `message_tag`: primeira mensagem contendo `DASHBOARD_RESPONSE_MESSAGE_TAG`.
+ */
+export type ResponseMilestoneRule =
+  "ack_message" | "second_ack" | "message_tag";
+
+const RESPONSE_RULES: ResponseMilestoneRule[] = [
+  "ack_message",
+  "second_ack",
+  "message_tag",
+];
+const RESPONSE_RULE: ResponseMilestoneRule = RESPONSE_RULES.includes(
+  process.env.DASHBOARD_RESPONSE_MILESTONE as ResponseMilestoneRule
+)
+  ? (process.env.DASHBOARD_RESPONSE_MILESTONE as ResponseMilestoneRule)
+  : "ack_message";
+const RESPONSE_MESSAGE_TAG = (
+  process.env.DASHBOARD_RESPONSE_MESSAGE_TAG ?? "#resposta"
+).toLowerCase();
+
+export type IncidentMilestone = {
+  clock: number;
+  actions: IncidentAction[];
+  message: string | null;
+  userid: string | null;
+};
+
+export type IncidentLifecycle = {
+  openedAt: number;
+  acknowledgedAt: number | null;
+  respondedAt: number | null;
+  resolvedAt: number | null;
+  milestones: IncidentMilestone[];
+};
+
+export function decodeIncidentActions(
+  action: string | number
+): IncidentAction[] {
+  const mask = Number(action) || 0;
+  const actions: IncidentAction[] = [];
+  if (mask & ACTION_CLOSE) actions.push("close");
+  if (mask & ACTION_ACKNOWLEDGE) actions.push("acknowledge");
+  if (mask & ACTION_MESSAGE) actions.push("message");
+  if (mask & ACTION_CHANGE_SEVERITY) actions.push("severity");
+  if (mask & ACTION_UNACKNOWLEDGE) actions.push("unacknowledge");
+  return actions;
+}
+
+/**
+ * Monta a linha do tempo do incidente a partir das ações de acknowledge.
+ * Detecção = primeiro ACK; resposta = marco de `DASHBOARD_RESPONSE_MILESTONE`;
+ * resolução = evento de recuperação (ou o fechamento manual, se vier antes).
+ * Um "unacknowledge" não desfaz a detecção, mas fica registrado nos marcos.
+ */
+export function buildIncidentLifecycle(
+  problem: Pick<ZabbixProblem, "clock" | "acknowledges">,
+  recoverySeconds: number | null = null,
+  rule: ResponseMilestoneRule = RESPONSE_RULE
+): IncidentLifecycle {
+  const openedAt = Number(problem.clock);
+  const milestones = [...(problem.acknowledges ?? [])]
+    .map(toMilestone)
+    .filter((milestone) => Number.isFinite(milestone.clock))
+    .sort((a, b) => a.clock - b.clock);
+
+  let acknowledgedAt: number | null = null;
+  let secondAcknowledgeAt: number | null = null;
+  let messageAfterAck: number | null = null;
+  let taggedMessageAt: number | null = null;
+  let closedAt: number | null = null;
+
+  for (const milestone of milestones) {
+    const has = (action: IncidentAction) => milestone.actions.includes(action);
+    // A mensagem digitada junto do primeiro ACK faz parte da detecção.
+    const isFirstAck = has("acknowledge") && acknowledgedAt === null;
+    if (has("acknowledge")) {
+      if (acknowledgedAt === null) {
+        acknowledgedAt = milestone.clock;
+      } else if (secondAcknowledgeAt === null) {
+        secondAcknowledgeAt = milestone.clock;
+      }
+    }
+    // Mensagens de veredito (TP/FP/FN) não contam como resposta ao incidente.
+    if (
+      has("message") &&
+      milestone.message &&
+      !isVerdictMessage(milestone.message)
+    ) {
+      if (acknowledgedAt !== null && !isFirstAck && messageAfterAck === null) {
+        messageAfterAck = milestone.clock;
+      }
+      if (
+        taggedMessageAt === null &&
+        milestone.message.toLowerCase().includes(RESPONSE_MESSAGE_TAG)
+      ) {
+        taggedMessageAt = milestone.clock;
+      }
+    }
+    if (has("close") && closedAt === null) {
+      closedAt = milestone.clock;
+    }
+  }
+
+  const respondedAt =
+    rule === "second_ack"
+      ? secondAcknowledgeAt
+      : rule === "message_tag"
+        ? taggedMessageAt
+        : messageAfterAck;
+  const recoveredAt =
+    recoverySeconds !== null &&
+    Number.isFinite(recoverySeconds) &&
+    recoverySeconds > 0
+      ? recoverySeconds
+      : null;
+  const resolvedAt =
+    recoveredAt !== null && closedAt !== null
+      ? Math.min(recoveredAt, closedAt)
+      : (recoveredAt ?? closedAt);
+
+  return {
+    openedAt,
+    acknowledgedAt,
+    respondedAt,
+    resolvedAt,
+    milestones,
+  };
+}
+
+/** Segundos entre `from` e o marco; `null` quando o marco não aconteceu. */
+export function secondsUntil(
+  milestone: number | null,
+  from: number
+): number | null {
+  if (milestone === null || !Number.isFinite(from)) {
+    return null;
+  }
+  return Math.max(0, milestone - from);
+}
+
+function toMilestone(entry: ZabbixAcknowledge): IncidentMilestone {
+  return {
+    clock: Number(entry.clock),
+    actions: decodeIncidentActions(entry.action),
+    message: entry.message?.trim() || null,
+    userid: entry.userid ?? null,
+  };
+}
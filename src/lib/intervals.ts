@@ -0,0 +1,75 @@
+export type Interval = {
+  start: number;
+  end: number;
+};
+
+export function mergeIntervals(intervals: Interval[]): Interval[] {
+  const sorted = [...intervals].sort((a, b) => a.start - b.start);
+  const merged: Interval[] = [];
+  for (const interval of sorted) {
+    if (!merged.length) {
+      merged.push({ ...interval });
+      continue;
+    }
+    const last = merged[merged.length - 1];
+    if (interval.start <= last.end) {
+      last.end = Math.max(last.end, interval.end);
+    } else {
+      merged.push({ ...interval });
+    }
+  }
+  return merged;
+}
+
+/**
+ * Remove de `base` os trechos cobertos por `cuts`. Ambas as listas podem vir
+ * desordenadas ou sobrepostas; o resultado sai consolidado.
+ */
+export function subtractIntervals(base: Interval[], cuts: Interval[]): Interval[] {
+  const mergedCuts = mergeIntervals(cuts);
+  const result: Interval[] = [];
+  for (const interval of mergeIntervals(base)) {
+    let cursor = interval.start;
+    for (const cut of mergedCuts) {
+      if (cut.end <= cursor) continue;
+      if (cut.start >= interval.end) break;
+      if (cut.start > cursor) {
+        result.push({ start: cursor, end: cut.start });
+      }
+      cursor = Math.max(cursor, cut.end);
+      if (cursor >= interval.end) break;
+    }
+    if (cursor < interval.end) {
+      result.push({ start: cursor, end: interval.end });
+    }
+  }
+  return result;
+}
+
+export function intersectIntervals(a: Interval[], b: Interval[]): Interval[] {
+  const left = mergeIntervals(a);
+  const right = mergeIntervals(b);
+  const result: Interval[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < left.length && j < right.length) {
+    const start = Math.max(left[i].start, right[j].start);
+    const end = Math.min(left[i].end, right[j].end);
+    if (end > start) {
+      result.push({ start, end });
+    }
+    if (left[i].end < right[j].end) {
+      i += 1;
+    } else {
+      j += 1;
+    }
+  }
+  return result;
+}
+
+export function sumIntervals(intervals: Interval[]): number {
+  return intervals.reduce(
+    (acc, interval) => acc + Math.max(0, interval.end - interval.start),
+    0
+  );
+}
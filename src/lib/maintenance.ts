@@ -0,0 +1,265 @@
+import "server-only";
+import { formatInTimeZone, fromZonedTime } from "date-fns-tz";
+import {
+  fetchMaintenances,
+  ZabbixHost,
+  ZabbixMaintenance,
+  ZabbixMaintenanceTimePeriod,
+} from "@/lib/zabbix";
+import {
+  Interval,
+  intersectIntervals,
+  mergeIntervals,
+  subtractIntervals,
+} from "@/lib/intervals";
+
+const MAINTENANCE_TIMEZONE =
+  process.env.ZABBIX_SERVER_TIMEZONE ??
+  process.env.DASHBOARD_TIMEZONE ??
+  "America/Sao_Paulo";
+const MAINTENANCE_EXCLUSION_ENABLED =
+  process.env.DASHBOARD_MAINTENANCE_EXCLUSION !== "false";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_LOOKBACK_DAYS = 366;
+
+// timeperiod_type do Zabbix: 0 = única vez, 2 = diário, 3 = semanal, 4 = mensal.
+const PERIOD_ONE_TIME = 0;
+const PERIOD_DAILY = 2;
+const PERIOD_WEEKLY = 3;
+const PERIOD_MONTHLY = 4;
+const LAST_WEEK_OF_MONTH = 5;
+
+export type MaintenanceWindow = Interval & {
+  maintenanceId: string;
+  name: string;
+};
+
+export type MaintenanceExclusion = {
+  maintenanceId: string;
+  name: string;
+  intervals: Interval[];
+};
+
+export async function loadHostMaintenanceWindows(params: {
+  hosts: ZabbixHost[];
+  timeFrom: number;
+  timeTill: number;
+}): Promise<Map<string, MaintenanceWindow[]>> {
+  if (!MAINTENANCE_EXCLUSION_ENABLED || !params.hosts.length) {
+    return new Map();
+  }
+  // Sem `maintenance.get` (falha ou falta de permissão) só o número "sem
+  // manutenção" deixa de descontar as janelas; o restante segue normal.
+  let maintenances: ZabbixMaintenance[];
+  try {
+    maintenances = await fetchMaintenances({
+      timeFrom: params.timeFrom,
+      timeTill: params.timeTill,
+    });
+  } catch (error) {
+    console.warn("[maintenance] Failed to load maintenance windows", error);
+    return new Map();
+  }
+  return buildHostMaintenanceWindows(
+    maintenances,
+    params.hosts,
+    params.timeFrom,
+    params.timeTill
+  );
+}
+
+export function buildHostMaintenanceWindows(
+  maintenances: ZabbixMaintenance[],
+  hosts: ZabbixHost[],
+  timeFrom: number,
+  timeTill: number
+): Map<string, MaintenanceWindow[]> {
+  const result = new Map<string, MaintenanceWindow[]>();
+  for (const maintenance of maintenances) {
+    const windows = expandMaintenance(maintenance, timeFrom, timeTill);
+    if (!windows.length) continue;
+
+    const hostIds = new Set(
+      (maintenance.hosts ?? []).map((host) => host.hostid)
+    );
+    const groupIds = new Set(
+      (maintenance.groups ?? []).map((group) => group.groupid)
+    );
+    for (const host of hosts) {
+      const covered =
+        hostIds.has(host.hostid) ||
+        (host.groups ?? []).some((group) => groupIds.has(group.groupid));
+      if (!covered) continue;
+      const list = result.get(host.hostid) ?? [];
+      for (const window of windows) {
+        list.push({
+          ...window,
+          maintenanceId: maintenance.maintenanceid,
+          name: maintenance.name,
+        });
+      }
+      result.set(host.hostid, list);
+    }
+  }
+  return result;
+}
+
+/**
+ * Remove os períodos de manutenção dos intervalos de downtime. Cada trecho
+ * excluído é atribuído a uma única manutenção, mesmo quando duas se sobrepõem.
+ */
+export function excludeMaintenanceWindows(
+  intervals: Interval[],
+  windows: MaintenanceWindow[]
+): { remaining: Interval[]; exclusions: MaintenanceExclusion[] } {
+  let remaining = mergeIntervals(intervals);
+  if (!windows.length || !remaining.length) {
+    return { remaining, exclusions: [] };
+  }
+
+  const byMaintenance = new Map<string, MaintenanceWindow[]>();
+  for (const window of windows) {
+    const list = byMaintenance.get(window.maintenanceId) ?? [];
+    list.push(window);
+    byMaintenance.set(window.maintenanceId, list);
+  }
+
+  const exclusions: MaintenanceExclusion[] = [];
+  for (const [maintenanceId, list] of byMaintenance.entries()) {
+    const overlap = intersectIntervals(remaining, list);
+    if (!overlap.length) continue;
+    exclusions.push({ maintenanceId, name: list[0].name, intervals: overlap });
+    remaining = subtractIntervals(remaining, overlap);
+  }
+  return { remaining, exclusions };
+}
+
+export function expandMaintenance(
+  maintenance: ZabbixMaintenance,
+  timeFrom: number,
+  timeTill: number
+): Interval[] {
+  const activeSince = Number(maintenance.active_since);
+  const activeTill = Number(maintenance.active_till);
+  const windowStart = Math.max(timeFrom, activeSince);
+  const windowEnd = Math.min(timeTill, activeTill);
+  if (!Number.isFinite(windowStart) || !Number.isFinite(windowEnd)) {
+    return [];
+  }
+  if (windowEnd <= windowStart) {
+    return [];
+  }
+
+  const occurrences: Interval[] = [];
+  for (const period of maintenance.timeperiods ?? []) {
+    occurrences.push(
+      ...expandTimePeriod(period, activeSince, windowStart, windowEnd)
+    );
+  }
+  return intersectIntervals(occurrences, [
+    { start: windowStart, end: windowEnd },
+  ]);
+}
+
+function expandTimePeriod(
+  period: ZabbixMaintenanceTimePeriod,
+  activeSince: number,
+  windowStart: number,
+  windowEnd: number
+): Interval[] {
+  const type = Number(period.timeperiod_type);
+  const duration = Number(period.period);
+  if (!Number.isFinite(duration) || duration <= 0) {
+    return [];
+  }
+
+  if (type === PERIOD_ONE_TIME) {
+    const start = Number(period.start_date);
+    return Number.isFinite(start) ? [{ start, end: start + duration }] : [];
+  }
+
+  const startTime = Number(period.start_time ?? 0) || 0;
+  const every = Math.max(1, Number(period.every ?? 1) || 1);
+  const lookback = Math.min(duration, MAX_LOOKBACK_DAYS * 86400);
+  const sinceDay = toLocalDay(activeSince);
+  const firstDay = Math.max(sinceDay, toLocalDay(windowStart - lookback));
+  const lastDay = toLocalDay(windowEnd);
+  const intervals: Interval[] = [];
+
+  for (let day = firstDay; day <= lastDay; day += 1) {
+    if (!matchesDay(type, period, every, day, sinceDay)) continue;
+    const start = localMidnight(day) + startTime;
+    intervals.push({ start, end: start + duration });
+  }
+  return intervals;
+}
+
+function matchesDay(
+  type: number,
+  period: ZabbixMaintenanceTimePeriod,
+  every: number,
+  day: number,
+  sinceDay: number
+): boolean {
+  const date = new Date(day * DAY_MS);
+  const isoWeekday = date.getUTCDay() === 0 ? 7 : date.getUTCDay();
+  const weekdayMask = 1 << (isoWeekday - 1);
+
+  if (type === PERIOD_DAILY) {
+    return (day - sinceDay) % every === 0;
+  }
+
+  if (type === PERIOD_WEEKLY) {
+    if ((Number(period.dayofweek ?? 0) & weekdayMask) === 0) {
+      return false;
+    }
+    const sinceDate = new Date(sinceDay * DAY_MS);
+    const sinceWeekday = sinceDate.getUTCDay() === 0 ? 7 : sinceDate.getUTCDay();
+    const sinceMonday = sinceDay - (sinceWeekday - 1);
+    const weekIndex = Math.floor((day - sinceMonday) / 7);
+    return weekIndex % every === 0;
+  }
+
+  if (type === PERIOD_MONTHLY) {
+    const monthMask = 1 << date.getUTCMonth();
+    if ((Number(period.month ?? 0) & monthMask) === 0) {
+      return false;
+    }
+    const dayOfMonth = date.getUTCDate();
+    const dayOption = Number(period.day ?? 0);
+    if (dayOption > 0) {
+      return dayOfMonth === dayOption;
+    }
+    if ((Number(period.dayofweek ?? 0) & weekdayMask) === 0) {
+      return false;
+    }
+    if (every === LAST_WEEK_OF_MONTH) {
+      const daysInMonth = new Date(
+        Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 0)
+      ).getUTCDate();
+      return dayOfMonth + 7 > daysInMonth;
+    }
+    return Math.ceil(dayOfMonth / 7) === every;
+  }
+
+  return false;
+}
+
+/** Número de dias desde 1970-01-01 da data local (fuso do Zabbix). */
+function toLocalDay(epochSeconds: number): number {
+  const iso = formatInTimeZone(
+    new Date(epochSeconds * 1000),
+    MAINTENANCE_TIMEZONE,
+    "yyyy-MM-dd"
+  );
+  const [year, month, dayOfMonth] = iso.split("-").map(Number);
+  return Math.floor(Date.UTC(year, month - 1, dayOfMonth) / DAY_MS);
+}
+
+function localMidnight(day: number): number {
+  const iso = new Date(day * DAY_MS).toISOString().slice(0, 10);
+  return Math.floor(
+    fromZonedTime(`${iso}T00:00:00`, MAINTENANCE_TIMEZONE).getTime() / 1000
+  );
+}
@@ -0,0 +1,362 @@
+import "server-only";
+import { createHash } from "node:crypto";
+import { formatInTimeZone } from "date-fns-tz";
+import { buildDashboardMetrics } from "@/lib/metrics";
+import { listDataFiles, readJsonFile, writeJsonFile } from "@/lib/data-store";
+import { resolvePeriod, toPeriodRange } from "@/lib/periods";
+import {
+  DashboardMetrics,
+  GroupMetricsApiResponse,
+  HostGroupMetric,
+  PeriodQuery,
+} from "@/types/dashboard";
+
+const DEFAULT_TIMEZONE =
+  process.env.DASHBOARD_TIMEZONE ?? "America/Sao_Paulo";
+const SNAPSHOTS_ENABLED = process.env.DASHBOARD_SNAPSHOTS_ENABLED !== "false";
+const SNAPSHOT_GRACE_HOURS = Number(
+  process.env.DASHBOARD_SNAPSHOT_GRACE_HOURS ?? "6"
+);
+const SNAPSHOT_DIR = "snapshots";
+const SNAPSHOT_VERSION = 1;
+
+export type SnapshotKind = "metrics" | "group-metrics";
+
+export type SnapshotScope = {
+  groupId?: string;
+  groupIds?: string[];
+};
+
+/** `month` (AAAA-MM) ou um período qualquer; só meses viram snapshot. */
+export type SnapshotPeriod = {
+  month?: string;
+  period?: PeriodQuery;
+};
+
+/**
+ * `groupId` e `groupIds` geram payloads diferentes (nome e campos do grupo
+ * único), então entram separados na chave do snapshot.
+ */
+type NormalizedScope = {
+  groupId: string | null;
+  groupIds: string[];
+};
+
+type SnapshotEnvelope<T> = {
+  version: number;
+  kind: SnapshotKind;
+  month: string;
+  groupId?: string | null;
+  groupIds: string[];
+  createdAt: string;
+  payload: T;
+};
+
+export type SnapshotSummary = {
+  kind: SnapshotKind;
+  month: string;
+  groupId: string | null;
+  groupIds: string[];
+  createdAt: string;
+};
+
+type GroupMetricsPayload = Omit<GroupMetricsApiResponse, "meta"> & {
+  meta: Omit<GroupMetricsApiResponse["meta"], "zabbixBaseUrl">;
+};
+
+/**
+ * Um mês é considerado fechado quando já passou o período de carência após a
+ * virada do mês no fuso do dashboard (dá tempo para eventos atrasados chegarem).
+ */
+export function isClosedMonth(month: string, now = new Date()): boolean {
+  const reference = new Date(
+    now.getTime() - Math.max(0, SNAPSHOT_GRACE_HOURS) * 60 * 60 * 1000
+  );
+  const currentMonth = formatInTimeZone(reference, DEFAULT_TIMEZONE, "yyyy-MM");
+  return month < currentMonth;
+}
+
+export async function getDashboardMetrics(
+  input: SnapshotPeriod & SnapshotScope
+): Promise<DashboardMetrics> {
+  const scope = normalizeScope(input);
+  const month = getSnapshotMonth(input);
+  const cached = month
+    ? await loadSnapshot<DashboardMetrics>("metrics", month, scope)
+    : null;
+  if (cached) {
+    const payload = cached.payload;
+    return {
+      ...payload,
+      accuracy: withAccuracyDefaults(payload.accuracy),
+      criticalAlerts: withVerdictDefaults(payload.criticalAlerts),
+      ...(payload.groupSummaries
+        ? { groupSummaries: payload.groupSummaries.map(withGroupVerdicts) }
+        : {}),
+      meta: {
+        ...payload.meta,
+        range: payload.meta.range ?? buildMonthRange(cached.month),
+        snapshotAt: cached.createdAt,
+      },
+    };
+  }
+
+  const metrics = await buildDashboardMetrics({
+    month: input.month,
+    period: input.period,
+    groupId: input.groupId,
+    groupIds: input.groupIds,
+  });
+  if (month && shouldStore(month)) {
+    await saveSnapshotSafely("metrics", month, scope, metrics);
+  }
+  return metrics;
+}
+
+export async function getGroupMetricsOverview(
+  input: SnapshotPeriod & SnapshotScope
+): Promise<GroupMetricsPayload> {
+  const scope = normalizeScope(input);
+  const month = getSnapshotMonth(input);
+  const cached = month
+    ? await loadSnapshot<GroupMetricsPayload>("group-metrics", month, scope)
+    : null;
+  if (cached) {
+    const payload = cached.payload;
+    return {
+      ...payload,
+      criticalAlerts: withVerdictDefaults(payload.criticalAlerts),
+      groups: payload.groups.map(withGroupVerdicts),
+      meta: {
+        ...payload.meta,
+        range: payload.meta.range ?? buildMonthRange(cached.month),
+        snapshotAt: cached.createdAt,
+      },
+    };
+  }
+
+  const overview = await buildGroupMetricsOverview(
+    input.period ?? { month: input.month },
+    mergeScope(scope)
+  );
+  if (month && shouldStore(month)) {
+    await saveSnapshotSafely("group-metrics", month, scope, overview);
+  }
+  return overview;
+}
+
+export async function recomputeSnapshot(
+  kind: SnapshotKind,
+  input: { month: string } & SnapshotScope
+): Promise<SnapshotSummary> {
+  if (!isClosedMonth(input.month)) {
+    throw new Error(
+      "Somente meses encerrados podem ser congelados em snapshot."
+    );
+  }
+
+  const scope = normalizeScope(input);
+  const payload =
+    kind === "metrics"
+      ? await buildDashboardMetrics({
+          month: input.month,
+          groupId: input.groupId,
+          groupIds: input.groupIds,
+        })
+      : await buildGroupMetricsOverview(
+          { month: input.month },
+          mergeScope(scope)
+        );
+
+  const envelope = await saveSnapshot(kind, input.month, scope, payload);
+  return toSummary(envelope);
+}
+
+export async function listSnapshots(): Promise<SnapshotSummary[]> {
+  const files = await listDataFiles(SNAPSHOT_DIR);
+  const summaries: SnapshotSummary[] = [];
+  for (const file of files) {
+    const envelope = await readJsonFile<SnapshotEnvelope<unknown>>(file);
+    if (envelope?.version === SNAPSHOT_VERSION) {
+      summaries.push(toSummary(envelope));
+    }
+  }
+  return summaries.sort(
+    (a, b) =>
+      b.month.localeCompare(a.month) ||
+      a.kind.localeCompare(b.kind) ||
+      (a.groupId ?? "").localeCompare(b.groupId ?? "") ||
+      a.groupIds.join(",").localeCompare(b.groupIds.join(","))
+  );
+}
+
+async function buildGroupMetricsOverview(
+  period: PeriodQuery,
+  groupIds: string[]
+): Promise<GroupMetricsPayload> {
+  const metrics = await buildDashboardMetrics(
+    { period, groupIds: groupIds.length ? groupIds : undefined },
+    {
+      includeGroupStats: true,
+      includeAlertDetails: true,
+      includeAvailabilityInsights: true,
+    }
+  );
+
+  return {
+    meta: {
+      period: metrics.meta.period,
+      range: metrics.meta.range,
+      generatedAt: metrics.meta.generatedAt,
+    },
+    kpis: metrics.kpis,
+    availability: metrics.availability,
+    availabilityExcludingMaintenance: metrics.availabilityExcludingMaintenance,
+    availabilityExcludingCollateral: metrics.availabilityExcludingCollateral,
+    reachability: metrics.reachability,
+    totals: metrics.groupTotals,
+    groups: metrics.groupSummaries ?? [],
+    severitySummary: metrics.severitySummary,
+    criticalAlerts: metrics.criticalAlerts,
+    sla: metrics.sla,
+    ...(metrics.forecast ? { forecast: metrics.forecast } : {}),
+  };
+}
+
+function getSnapshotMonth(input: SnapshotPeriod): string | null {
+  const period = resolvePeriod(input.period ?? { month: input.month });
+  return period.preset === "month" ? period.key : null;
+}
+
+// Snapshots gravados antes dos períodos arbitrários não trazem `range`.
+function buildMonthRange(month: string) {
+  return toPeriodRange(resolvePeriod({ preset: "month", month }));
+}
+
+// Snapshots gravados antes dos vereditos TP/FP/FN não trazem `verdict` nem os
+// campos novos de `accuracy`; os números congelados são mantidos como estão.
+function withAccuracyDefaults(
+  accuracy: Partial<DashboardMetrics["accuracy"]>
+): DashboardMetrics["accuracy"] {
+  return {
+    falsePositivePct: 0,
+    falseNegativePct: 0,
+    precisionPct: 0,
+    coveragePct: 0,
+    classifiedAlerts: 0,
+    totalAlerts: 0,
+    ...accuracy,
+    counts: { tp: 0, fp: 0, fn: 0, ...accuracy.counts },
+  };
+}
+
+function withVerdictDefaults<T extends { verdict: unknown }>(items: T[]): T[] {
+  return items.map((item) => ({ ...item, verdict: item.verdict ?? null }));
+}
+
+function withGroupVerdicts(group: HostGroupMetric): HostGroupMetric {
+  return group.alertDetails
+    ? { ...group, alertDetails: withVerdictDefaults(group.alertDetails) }
+    : group;
+}
+
+function shouldStore(month: string) {
+  return SNAPSHOTS_ENABLED && isClosedMonth(month);
+}
+
+async function loadSnapshot<T>(
+  kind: SnapshotKind,
+  month: string,
+  scope: NormalizedScope
+): Promise<SnapshotEnvelope<T> | null> {
+  if (!shouldStore(month)) {
+    return null;
+  }
+  try {
+    const envelope = await readJsonFile<SnapshotEnvelope<T>>(
+      buildSnapshotPath(kind, month, scope)
+    );
+    if (!envelope || envelope.version !== SNAPSHOT_VERSION) {
+      return null;
+    }
+    return envelope;
+  } catch (error) {
+    console.warn("[metrics-snapshots] Falha ao ler snapshot", error);
+    return null;
+  }
+}
+
+async function saveSnapshot<T>(
+  kind: SnapshotKind,
+  month: string,
+  scope: NormalizedScope,
+  payload: T
+): Promise<SnapshotEnvelope<T>> {
+  const envelope: SnapshotEnvelope<T> = {
+    version: SNAPSHOT_VERSION,
+    kind,
+    month,
+    groupId: scope.groupId,
+    groupIds: scope.groupIds,
+    createdAt: new Date().toISOString(),
+    payload,
+  };
+  await writeJsonFile(buildSnapshotPath(kind, month, scope), envelope);
+  return envelope;
+}
+
+async function saveSnapshotSafely<T>(
+  kind: SnapshotKind,
+  month: string,
+  scope: NormalizedScope,
+  payload: T
+) {
+  try {
+    await saveSnapshot(kind, month, scope, payload);
+  } catch (error) {
+    console.warn("[metrics-snapshots] Falha ao gravar snapshot", error);
+  }
+}
+
+function normalizeScope(scope: SnapshotScope): NormalizedScope {
+  const ids = new Set<string>();
+  for (const id of scope.groupIds ?? []) {
+    if (id) {
+      ids.add(id);
+    }
+  }
+  return { groupId: scope.groupId || null, groupIds: Array.from(ids).sort() };
+}
+
+// O panorama por grupo não distingue `groupId` de `groupIds`.
+function mergeScope(scope: NormalizedScope): string[] {
+  return scope.groupId && !scope.groupIds.includes(scope.groupId)
+    ? [...scope.groupIds, scope.groupId].sort()
+    : scope.groupIds;
+}
+
+function buildSnapshotPath(
+  kind: SnapshotKind,
+  month: string,
+  scope: NormalizedScope
+) {
+  // Sem `groupId` a chave é a mesma de antes, então os snapshots já gravados
+  // só com `groupIds` continuam válidos.
+  const key = scope.groupId
+    ? `groupId=${scope.groupId};groupIds=${scope.groupIds.join(",")}`
+    : scope.groupIds.join(",");
+  const scopeKey = key
+    ? createHash("sha1").update(key).digest("hex").slice(0, 16)
+    : "all";
+  return `${SNAPSHOT_DIR}/${kind}/${month}/${scopeKey}.json`;
+}
+
+function toSummary(envelope: SnapshotEnvelope<unknown>): SnapshotSummary {
+  return {
+    kind: envelope.kind,
+    month: envelope.month,
+    groupId: envelope.groupId ?? null,
+    groupIds: envelope.groupIds,
+    createdAt: envelope.createdAt,
+  };
+}
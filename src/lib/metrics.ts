@@ -1,6 +1,3 @@
-import { addMonths } from "date-fns";
-import { formatInTimeZone } from "date-fns-tz";
-import { ptBR } from "date-fns/locale";
 import {
   fetchHostGroups,
   fetchHosts,
@@ -14,36 +11,51 @@ import {
   ZabbixProblem,
   ZabbixTrigger,
 } from "@/lib/zabbix";
+import { evaluateSla, loadSlaContractResolver } from "@/lib/sla-contracts";
+import { buildIncidentLifecycle, secondsUntil } from "@/lib/incident-lifecycle";
+import { HostClassifier, loadHostClassifier } from "@/lib/host-classification";
+import { resolveAlertVerdict } from "@/lib/alert-verdicts";
+import {
+  BusinessCalendar,
+  loadBusinessCalendarResolver,
+} from "@/lib/business-calendar";
+import {
+  Interval,
+  intersectIntervals,
+  mergeIntervals,
+  subtractIntervals,
+} from "@/lib/intervals";
+import {
+  excludeMaintenanceWindows,
+  loadHostMaintenanceWindows,
+  MaintenanceWindow,
+} from "@/lib/maintenance";
+import { loadRootCauseResolver, RootCauseOutage } from "@/lib/root-cause";
+import { resolvePeriod, toPeriodRange } from "@/lib/periods";
 import {
   AvailabilityAlertImpact,
+  AvailabilityForecast,
   AvailabilityHostImpact,
   AvailabilityInsights,
+  AvailabilityMaintenanceExclusion,
+  AvailabilityRootCause,
   CriticalAlertHighlight,
   DashboardMetrics,
+  ErrorBudget,
+  ErrorBudgetIncident,
+  ErrorBudgetWindow,
+  HostCategoryDefinition,
   HostGroupMetric,
   HostMetric,
+  PeriodQuery,
   GroupAlertDetail,
+  SlaTargets,
 } from "@/types/dashboard";
 
-const DEFAULT_TIMEZONE =
-  process.env.DASHBOARD_TIMEZONE ?? "America/Sao_Paulo";
-const BUSINESS_START_HOUR = Number(
-  process.env.DASHBOARD_BUSINESS_START_HOUR ?? "7"
-);
-const BUSINESS_END_HOUR = Number(
-  process.env.DASHBOARD_BUSINESS_END_HOUR ?? "24"
-);
-const SHIFT_STEP_MINUTES = Number(
-  process.env.DASHBOARD_SHIFT_STEP_MINUTES ?? "5"
-);
-
-const SHIFT_STEP_MS = SHIFT_STEP_MINUTES * 60 * 1000;
-const BUSINESS_START_MINUTES = BUSINESS_START_HOUR * 60;
-const BUSINESS_END_MINUTES = BUSINESS_END_HOUR * 60;
 const PROBLEM_LOOKBACK_DAYS = Number(
   process.env.ZABBIX_PROBLEM_LOOKBACK_DAYS ?? "45"
 );
-const PROBLEM_LOOKBACK_SECONDS = Math.max(
+export const PROBLEM_LOOKBACK_SECONDS = Math.max(
   0,
   PROBLEM_LOOKBACK_DAYS * 24 * 60 * 60
 );
@@ -63,17 +75,6 @@ const REACHABILITY_ALERT_TYPES = new Set(
     .filter(Boolean)
 );
 
-type HostCategory = {
-  id: string;
-  label: string;
-  keywords: RegExp[];
-};
-
-type Interval = {
-  start: number;
-  end: number;
-};
-
 export type HostCategoryStat = {
   id: string;
   label: string;
@@ -82,30 +83,6 @@ export type HostCategoryStat = {
   slaPct: number;
 };
 
-const HOST_CATEGORIES: HostCategory[] = [
-  {
-    id: "servers",
-    label: "Servidores",
-    keywords: [/server/i, /servidor/i, /srv/i, /vm/i, /db/i],
-  },
-  {
-    id: "endpoints",
-    label: "Endpoints",
-    keywords: [/notebook/i, /desktop/i, /endpoint/i, /workstation/i, /pc/i],
-  },
-  {
-    id: "network",
-    label: "Dispositivos de Rede",
-    keywords: [/switch/i, /router/i, /firewall/i, /wifi/i, /ap/i, /gw/i],
-  },
-];
-
-const DEFAULT_CATEGORY: HostCategory = {
-  id: "others",
-  label: "IoT/Outros",
-  keywords: [],
-};
-
 export const SEVERITY_LEVELS = [
   { key: 5, label: "Desastre" },
   { key: 4, label: "Alta" },
@@ -157,136 +134,31 @@ function sumDowntimeForHosts(
   return total;
 }
 
-function classifyHost(host: ZabbixHost): HostCategory {
-  const haystack = [
-    host.name,
-    host.inventory?.type_full,
-    host.inventory?.type,
-    host.inventory?.hardware,
-    host.inventory?.alias,
-    ...(host.tags?.map((tag) => `${tag.tag}:${tag.value}`) ?? []),
-    ...(host.groups?.map((group) => group.name) ?? []),
-  ]
-    .filter(Boolean)
-    .join(" ")
-    .toLowerCase();
-
-  const category =
-    HOST_CATEGORIES.find((cat) => cat.keywords.some((k) => k.test(haystack))) ??
-    DEFAULT_CATEGORY;
-
-  return category;
-}
-
-function detectFalseClassification(problem: ZabbixProblem) {
-  const haystack = [
-    problem.name,
-    ...(problem.tags?.map((tag) => `${tag.tag}:${tag.value}`) ?? []),
-    ...(problem.acknowledges?.map((ack) => ack.message ?? "") ?? []),
-  ]
-    .filter(Boolean)
-    .join(" ")
-    .toLowerCase();
-
-  if (
-    haystack.includes("falso positivo") ||
-    haystack.includes("false positive") ||
-    /\bfp\b/.test(haystack)
-  ) {
-    return "fp";
-  }
-
-  if (
-    haystack.includes("falso negativo") ||
-    haystack.includes("false negative") ||
-    /\bfn\b/.test(haystack)
-  ) {
-    return "fn";
-  }
-
-  return "tp";
-}
-
-function splitSecondsByShift(
-  startSeconds: number,
-  endSeconds: number
-): { business: number; off: number } {
-  if (endSeconds <= startSeconds) {
-    return { business: 0, off: 0 };
-  }
-
-  let business = 0;
-  let offHours = 0;
-  let cursor = startSeconds * 1000;
-  const limit = endSeconds * 1000;
-
-  while (cursor < limit) {
-    const next = Math.min(cursor + SHIFT_STEP_MS, limit);
-    const duration = next - cursor;
-    const minutesOfDay = getMinutesOfDay(new Date(cursor));
-    const isBusiness =
-      minutesOfDay >= BUSINESS_START_MINUTES &&
-      minutesOfDay < BUSINESS_END_MINUTES;
-
-    if (isBusiness) {
-      business += duration / 1000;
-    } else {
-      offHours += duration / 1000;
-    }
-
-    cursor = next;
-  }
-
-  return { business, off: offHours };
-}
-
-function getMinutesOfDay(date: Date) {
-  const hours = Number(formatInTimeZone(date, DEFAULT_TIMEZONE, "H"));
-  const minutes = Number(formatInTimeZone(date, DEFAULT_TIMEZONE, "m"));
-  return hours * 60 + minutes;
-}
-
-function getRangeFromMonth(month: string): {
+export function getRangeFromMonth(month: string): {
   startSeconds: number;
   endSeconds: number;
+  /** Fim do mês, mesmo quando `endSeconds` para em "agora". */
+  periodEndSeconds: number;
   label: string;
 } {
-  const [yearStr, monthStr] = month.split("-");
-  const year = Number(yearStr);
-  const monthIndex = Number(monthStr) - 1;
-  if (Number.isNaN(year) || Number.isNaN(monthIndex)) {
-    throw new Error("Formato de mês inválido. Use AAAA-MM.");
-  }
-
-  const startDate = new Date(Date.UTC(year, monthIndex, 1, 0, 0, 0));
-  const endDate = addMonths(startDate, 1);
-  const now = new Date();
-  const currentMonth = formatInTimeZone(now, DEFAULT_TIMEZONE, "yyyy-MM");
-  const isCurrentMonth = `${yearStr}-${monthStr}` === currentMonth;
-  const effectiveEndMs = isCurrentMonth
-    ? Math.min(endDate.getTime(), now.getTime())
-    : endDate.getTime();
-
-  const labelDate = new Date(Date.UTC(year, monthIndex, 1, 12, 0, 0));
-
-  return {
-    startSeconds: Math.floor(startDate.getTime() / 1000),
-    endSeconds: Math.floor(effectiveEndMs / 1000),
-    label: formatInTimeZone(labelDate, DEFAULT_TIMEZONE, "MMMM yyyy", {
-      locale: ptBR,
-    }),
-  };
+  const { startSeconds, endSeconds, periodEndSeconds, label } = resolvePeriod({
+    preset: "month",
+    month,
+  });
+  return { startSeconds, endSeconds, periodEndSeconds, label };
 }
 
 type BuildOptions = {
   includeGroupStats?: boolean;
   includeAlertDetails?: boolean;
   includeAvailabilityInsights?: boolean;
+  includeErrorBudgetIncidents?: boolean;
 };
 
 export async function buildDashboardMetrics(
   input: {
-    month: string;
+    month?: string;
+    period?: PeriodQuery;
     groupId?: string;
     groupIds?: string[];
   },
@@ -296,9 +168,20 @@ export async function buildDashboardMetrics(
   const includeAlertDetails = options?.includeAlertDetails ?? false;
   const includeAvailabilityInsights =
     options?.includeAvailabilityInsights ?? false;
-  const { startSeconds, endSeconds, label } = getRangeFromMonth(input.month);
+  const includeErrorBudgetIncidents =
+    options?.includeErrorBudgetIncidents ?? false;
+  const period = resolvePeriod(input.period ?? { month: input.month });
+  const { startSeconds, endSeconds, periodEndSeconds, label } = period;
+  const isPartialPeriod = endSeconds < periodEndSeconds;
   const problemFetchStart = Math.max(0, startSeconds - PROBLEM_LOOKBACK_SECONDS);
-  const [hosts, problems, hostGroups] = await Promise.all([
+  const [
+    hosts,
+    problems,
+    hostGroups,
+    resolveSlaContract,
+    resolveBusinessCalendar,
+    hostClassifier,
+  ] = await Promise.all([
     fetchHosts(input.groupIds ?? input.groupId),
     fetchProblems({
       groupId: input.groupId,
@@ -307,7 +190,14 @@ export async function buildDashboardMetrics(
       timeTill: endSeconds,
     }),
     fetchHostGroups(),
+    loadSlaContractResolver(),
+    loadBusinessCalendarResolver(),
+    loadHostClassifier(),
   ]);
+  const scopeGroupId =
+    input.groupId ??
+    (input.groupIds?.length === 1 ? input.groupIds[0] : undefined);
+  const scopeCalendar = resolveBusinessCalendar(scopeGroupId);
 
   const hostIdSet = new Set(hosts.map((host) => host.hostid));
   const problemHostIds = new Set<string>();
@@ -333,13 +223,36 @@ export async function buildDashboardMetrics(
     }
   }
 
-  const recoveryEventMap = await fetchRecoveryEvents(
-    problems
-      .map((problem) => problem.r_eventid)
-      .filter((id): id is string => Boolean(id && id !== "0"))
-  );
+  const [recoveryEventMap, maintenanceWindows] = await Promise.all([
+    fetchRecoveryEvents(
+      problems
+        .map((problem) => problem.r_eventid)
+        .filter((id): id is string => Boolean(id && id !== "0"))
+    ),
+    loadHostMaintenanceWindows({
+      hosts,
+      timeFrom: startSeconds,
+      timeTill: endSeconds,
+    }),
+  ]);
 
-  const triggerTypeMap = await buildTriggerTypeMapFromProblems(problems);
+  const [triggerTypeMap, rootCauses] = await Promise.all([
+    buildTriggerTypeMapFromProblems(problems),
+    loadRootCauseResolver({
+      hosts,
+      triggerIds: Array.from(
+        new Set(
+          problems
+            .map((problem) => problem.objectid)
+            .filter((id): id is string => Boolean(id && id !== "0"))
+        )
+      ),
+      timeFrom: problemFetchStart,
+      timeTill: endSeconds,
+      // Proxy só conta como fora quando o seu host tem alerta de alcançabilidade.
+      selectOutages: selectReachabilityProblems,
+    }),
+  ]);
 
   let hostDowntime = new Map<
     string,
@@ -350,7 +263,16 @@ export async function buildDashboardMetrics(
     { total: number; business: number; off: number }
   >();
   const hostIntervals = new Map<string, Interval[]>();
+  // Só problemas já resolvidos: ritmo de downtime usado na projeção do mês.
+  const closedHostIntervals = new Map<string, Interval[]>();
   const reachabilityIntervals = new Map<string, Interval[]>();
+  // Trechos do downtime explicados pela queda de um pai (dependência/proxy).
+  const collateralIntervals = new Map<string, Interval[]>();
+  const rootCauseIntervals = new Map<
+    string,
+    { cause: RootCauseOutage; hostIntervals: Map<string, Interval[]> }
+  >();
+  const rootCauseByEvent = new Map<string, string>();
   const hostDurationSamples = new Map<
     string,
     { detection: number[]; response: number[]; resolution: number[] }
@@ -421,8 +343,8 @@ export async function buildDashboardMetrics(
   const severityTotals = createSeverityCounter();
   const criticalAlerts: CriticalAlertHighlight[] = [];
   let impactIncidents = 0;
-  let falsePositives = 0;
-  let falseNegatives = 0;
+  const verdictCounts = { tp: 0, fp: 0, fn: 0 };
+  let countedAlerts = 0;
 
   for (const problem of problems) {
     const rawClock = Number(problem.clock);
@@ -438,6 +360,7 @@ export async function buildDashboardMetrics(
     const severityKey = Number(problem.severity ?? 0);
     const severityLevel = Number.isFinite(severityKey) ? severityKey : null;
     const shouldCountAlert = startsInsideRange;
+    const verdict = resolveAlertVerdict(problem.acknowledges);
     const isOpen = !problem.r_eventid || problem.r_eventid === "0";
     if (severityLevel !== null && shouldCountAlert) {
       severityTotals[severityLevel] = (severityTotals[severityLevel] ?? 0) + 1;
@@ -449,14 +372,16 @@ export async function buildDashboardMetrics(
       rawRecovery !== undefined && rawRecovery !== null
         ? Number(rawRecovery)
         : null;
-    const hasResolution =
-      resolvedSeconds !== null && Number.isFinite(resolvedSeconds);
+    const lifecycle = buildIncidentLifecycle(problem, resolvedSeconds);
+    // Resolução pelo marco próprio: recuperação ou fechamento manual, o que
+    // vier antes. O downtime continua medido até a recuperação.
+    const resolvedAt = lifecycle.resolvedAt;
     const resolvedInsideRange =
-      hasResolution &&
-      resolvedSeconds >= startSeconds &&
-      resolvedSeconds < endSeconds;
+      resolvedAt !== null &&
+      resolvedAt >= startSeconds &&
+      resolvedAt < endSeconds;
     const qualifiesForResolutionMetrics =
-      startsInsideRange && resolvedInsideRange && hasResolution;
+      startsInsideRange && resolvedInsideRange;
     const problemEnd = Math.min(
       resolvedSeconds !== null ? resolvedSeconds : endSeconds,
       endSeconds
@@ -465,43 +390,41 @@ export async function buildDashboardMetrics(
     const hasOverlap = durationSeconds > 0;
     const reachabilityProblem = hasOverlap && isReachabilityProblem(problem);
 
-    const acknowledges = [...(problem.acknowledges ?? [])].sort((a, b) => {
-      return Number(a.clock) - Number(b.clock);
-    });
-    const firstAckSeconds =
-      acknowledges.length > 0 ? Number(acknowledges[0].clock) : null;
-    const secondAckSeconds =
-      acknowledges.length > 1
-        ? Number(acknowledges[1].clock)
-        : firstAckSeconds;
+    const firstAckSeconds = lifecycle.acknowledgedAt;
+    const respondedSeconds = lifecycle.respondedAt;
     let detectionDelta: number | null = null;
     let responseDelta: number | null = null;
-    if (acknowledges.length && hasOverlap) {
-      const firstAck = Number(acknowledges[0].clock);
-      detectionDelta = Math.max(0, firstAck - problemStart);
-      detectionDurations.push(detectionDelta);
-      responseDelta = detectionDelta;
-      responseDurations.push(responseDelta);
+    if (hasOverlap) {
+      detectionDelta = secondsUntil(firstAckSeconds, problemStart);
+      responseDelta = secondsUntil(respondedSeconds, problemStart);
+      if (detectionDelta !== null) {
+        detectionDurations.push(detectionDelta);
+      }
+      if (responseDelta !== null) {
+        responseDurations.push(responseDelta);
+      }
     }
 
     const resolutionDeltaForMetrics =
-      qualifiesForResolutionMetrics && hasResolution
-        ? Math.max(0, resolvedSeconds - rawClock)
+      qualifiesForResolutionMetrics && resolvedAt !== null
+        ? Math.max(0, resolvedAt - rawClock)
         : null;
     if (resolutionDeltaForMetrics !== null) {
       resolutionDurations.push(resolutionDeltaForMetrics);
     }
 
     const durationMinutes = secondsToMinutes(durationSeconds);
+    const resolutionMinutesDetail = secondsToMinutes(
+      Math.max(0, Math.min(resolvedAt ?? endSeconds, endSeconds) - problemStart)
+    );
     const detectionMinutesDetail =
       detectionDelta !== null ? secondsToMinutes(detectionDelta) : null;
+    const respondedDelta = secondsUntil(respondedSeconds, problemStart);
     const responseMinutesDetail =
-      secondAckSeconds !== null
-        ? secondsToMinutes(Math.max(0, secondAckSeconds - problemStart))
-        : detectionMinutesDetail;
+      respondedDelta !== null ? secondsToMinutes(respondedDelta) : null;
 
     const shiftDurations = hasOverlap
-      ? splitSecondsByShift(problemStart, problemEnd)
+      ? scopeCalendar.splitSeconds(problemStart, problemEnd)
       : { business: 0, off: 0 };
     const hasBusinessImpact =
       severityLevel === 5 &&
@@ -534,9 +457,9 @@ export async function buildDashboardMetrics(
       firstAckSeconds !== null
         ? new Date(firstAckSeconds * 1000).toISOString()
         : null;
-    const secondAckAt =
-      secondAckSeconds !== null
-        ? new Date(secondAckSeconds * 1000).toISOString()
+    const respondedAt =
+      respondedSeconds !== null
+        ? new Date(respondedSeconds * 1000).toISOString()
         : null;
 
     for (const host of problem.hosts ?? []) {
@@ -560,6 +483,35 @@ export async function buildDashboardMetrics(
         const intervals = hostIntervals.get(host.hostid) ?? [];
         intervals.push({ start: problemStart, end: problemEnd });
         hostIntervals.set(host.hostid, intervals);
+        if (!isOpen) {
+          const closed = closedHostIntervals.get(host.hostid) ?? [];
+          closed.push({ start: problemStart, end: problemEnd });
+          closedHostIntervals.set(host.hostid, closed);
+        }
+
+        for (const cause of rootCauses.causesFor({
+          triggerId,
+          hostid: host.hostid,
+          reachability: reachabilityProblem,
+        })) {
+          const overlap = intersectIntervals(
+            [{ start: problemStart, end: problemEnd }],
+            cause.intervals
+          );
+          if (!overlap.length) continue;
+          const collateral = collateralIntervals.get(host.hostid) ?? [];
+          collateral.push(...overlap);
+          collateralIntervals.set(host.hostid, collateral);
+          const impact = rootCauseIntervals.get(cause.key) ?? {
+            cause,
+            hostIntervals: new Map<string, Interval[]>(),
+          };
+          const causeHostIntervals = impact.hostIntervals.get(host.hostid) ?? [];
+          causeHostIntervals.push(...overlap);
+          impact.hostIntervals.set(host.hostid, causeHostIntervals);
+          rootCauseIntervals.set(cause.key, impact);
+          rootCauseByEvent.set(String(problem.eventid), cause.name);
+        }
       }
       if (reachabilityProblem) {
         const intervals = reachabilityIntervals.get(host.hostid) ?? [];
@@ -623,12 +575,13 @@ export async function buildDashboardMetrics(
                 openedAt: new Date(problemStart * 1000).toISOString(),
                 closedAt,
                 firstAckAt,
-                secondAckAt,
+                respondedAt,
                 detectionMinutes: detectionMinutesDetail,
                 responseMinutes: responseMinutesDetail,
-                resolutionMinutes: durationMinutes,
+                resolutionMinutes: resolutionMinutesDetail,
                 hosts: problemHostNames,
                 isOpen,
+                verdict,
               });
             }
           }
@@ -652,8 +605,13 @@ export async function buildDashboardMetrics(
                 hostNames: new Set<string>(),
                 triggerId,
               };
+              const groupCalendar = resolveBusinessCalendar(group.groupid);
               alertImpact.total += durationSeconds;
-              alertImpact.business += shiftDurations.business;
+              alertImpact.business +=
+                groupCalendar === scopeCalendar
+                  ? shiftDurations.business
+                  : groupCalendar.splitSeconds(problemStart, problemEnd)
+                      .business;
               if (host.name) {
                 alertImpact.hostNames.add(host.name);
               }
@@ -689,10 +647,9 @@ export async function buildDashboardMetrics(
       }
     }
 
-    const classification = detectFalseClassification(problem);
     if (shouldCountAlert) {
-      if (classification === "fp") falsePositives += 1;
-      if (classification === "fn") falseNegatives += 1;
+      countedAlerts += 1;
+      if (verdict) verdictCounts[verdict.verdict] += 1;
     }
 
     if (severityLevel === 5 && shouldCountAlert) {
@@ -710,35 +667,146 @@ export async function buildDashboardMetrics(
         detectionMinutes: detectionMinutesDetail,
         responseMinutes: responseMinutesDetail,
         businessMinutes: secondsToMinutes(shiftDurations.business),
-        resolutionMinutes: durationMinutes,
+        resolutionMinutes: resolutionMinutesDetail,
+        verdict,
       });
     }
   }
 
-  hostDowntime = buildHostDowntime(hostIntervals);
-  reachabilityHostDowntime = buildHostDowntime(reachabilityIntervals);
+  hostDowntime = buildHostDowntime(hostIntervals, scopeCalendar);
+  reachabilityHostDowntime = buildHostDowntime(
+    reachabilityIntervals,
+    scopeCalendar
+  );
+  const maintenanceAdjustment = applyMaintenanceExclusion(
+    hostIntervals,
+    maintenanceWindows,
+    scopeCalendar
+  );
+  const adjustedHostDowntime = buildHostDowntime(
+    maintenanceAdjustment.remaining,
+    scopeCalendar
+  );
+  const collateralRemaining = excludeCollateral(
+    hostIntervals,
+    collateralIntervals
+  );
+  const collateralAdjustedHostDowntime = buildHostDowntime(
+    collateralRemaining,
+    scopeCalendar
+  );
+  const closedHostDowntime = isPartialPeriod
+    ? buildHostDowntime(closedHostIntervals, scopeCalendar)
+    : undefined;
 
   if (groupAccumulators) {
     for (const acc of groupAccumulators.values()) {
+      const groupCalendar = resolveBusinessCalendar(acc.group.groupid);
+      const groupDowntime =
+        groupCalendar === scopeCalendar
+          ? {
+              hostDowntime,
+              reachabilityHostDowntime,
+              adjustedHostDowntime,
+              collateralAdjustedHostDowntime,
+              closedHostDowntime,
+              maintenanceExclusions: maintenanceAdjustment.exclusions,
+            }
+          : buildCalendarDowntime({
+              hostIds: acc.activeHostIds,
+              hostIntervals,
+              reachabilityIntervals,
+              collateralRemaining,
+              closedHostIntervals: isPartialPeriod
+                ? closedHostIntervals
+                : undefined,
+              maintenanceWindows,
+              calendar: groupCalendar,
+            });
+      acc.businessSeconds = groupCalendar.splitSeconds(
+        startSeconds,
+        endSeconds
+      ).business;
+      acc.periodBusinessSeconds = isPartialPeriod
+        ? groupCalendar.splitSeconds(startSeconds, periodEndSeconds).business
+        : acc.businessSeconds;
+      acc.closedDowntimeTotal = 0;
+      acc.closedDowntimeBusiness = 0;
+      if (groupDowntime.closedHostDowntime) {
+        acc.closedDowntimeTotal = sumDowntimeForHosts(
+          groupDowntime.closedHostDowntime,
+          acc.activeHostIds,
+          "total"
+        );
+        acc.closedDowntimeBusiness = sumDowntimeForHosts(
+          groupDowntime.closedHostDowntime,
+          acc.activeHostIds,
+          "business"
+        );
+      }
+      acc.businessWindowLabel = groupCalendar.label;
       acc.downtimeTotal = 0;
       acc.downtimeBusiness = 0;
+      acc.adjustedDowntimeTotal = 0;
+      acc.adjustedDowntimeBusiness = 0;
+      acc.collateralAdjustedDowntimeTotal = 0;
+      acc.collateralAdjustedDowntimeBusiness = 0;
+      acc.maintenanceImpact = new Map<string, MaintenanceImpactAccumulator>();
+      acc.rootCauseImpact = buildRootCauseImpact({
+        hostIds: acc.activeHostIds,
+        rootCauseIntervals,
+        hostNameMap,
+        calendar: groupCalendar,
+      });
       acc.reachabilityDowntimeTotal = 0;
       acc.reachabilityDowntimeBusiness = 0;
       acc.hostDowntime = new Map<string, HostImpactAccumulator>();
       acc.reachabilityHostDowntime = new Map<string, HostImpactAccumulator>();
       for (const hostId of acc.activeHostIds) {
-        const downtime = hostDowntime.get(hostId) ?? {
+        const downtime = groupDowntime.hostDowntime.get(hostId) ?? {
           total: 0,
           business: 0,
           off: 0,
         };
-        const reachability = reachabilityHostDowntime.get(hostId) ?? {
+        const reachability = groupDowntime.reachabilityHostDowntime.get(
+          hostId
+        ) ?? {
           total: 0,
           business: 0,
           off: 0,
         };
+        const adjusted = groupDowntime.adjustedHostDowntime.get(hostId) ?? {
+          total: 0,
+          business: 0,
+          off: 0,
+        };
+        const withoutCollateral =
+          groupDowntime.collateralAdjustedHostDowntime.get(hostId) ?? {
+            total: 0,
+            business: 0,
+            off: 0,
+          };
         acc.downtimeTotal += downtime.total;
         acc.downtimeBusiness += downtime.business;
+        acc.adjustedDowntimeTotal += adjusted.total;
+        acc.adjustedDowntimeBusiness += adjusted.business;
+        acc.collateralAdjustedDowntimeTotal += withoutCollateral.total;
+        acc.collateralAdjustedDowntimeBusiness += withoutCollateral.business;
+        for (const exclusion of groupDowntime.maintenanceExclusions.get(
+          hostId
+        ) ?? []) {
+          const impact = acc.maintenanceImpact.get(exclusion.maintenanceId) ?? {
+            maintenanceId: exclusion.maintenanceId,
+            name: exclusion.name,
+            total: 0,
+            business: 0,
+            hostNames: new Set<string>(),
+          };
+          impact.total += exclusion.total;
+          impact.business += exclusion.business;
+          impact.hostNames.add(hostNameMap.get(hostId) ?? hostId);
+          acc.maintenanceImpact.set(exclusion.maintenanceId, impact);
+        }
         acc.reachabilityDowntimeTotal += reachability.total;
         acc.reachabilityDowntimeBusiness += reachability.business;
         acc.hostDowntime.set(hostId, {
@@ -756,6 +824,21 @@ export async function buildDashboardMetrics(
           off: reachability.off,
         });
       }
+      acc.errorBudget = buildErrorBudget({
+        hostIntervals: Array.from(acc.activeHostIds, (hostId) =>
+          mergeIntervals(hostIntervals.get(hostId) ?? [])
+        ),
+        calendar: groupCalendar,
+        startSeconds,
+        endSeconds,
+        periodEndSeconds,
+        hostCount: acc.activeHosts,
+        elapsedBusinessSeconds: acc.businessSeconds,
+        periodBusinessSeconds: acc.periodBusinessSeconds,
+        consumed: { total: acc.downtimeTotal, business: acc.downtimeBusiness },
+        targets: resolveSlaContract(acc.group.groupid).targets,
+        alertImpact: includeErrorBudgetIncidents ? acc.alertImpact : undefined,
+      });
     }
   }
 
@@ -763,11 +846,7 @@ export async function buildDashboardMetrics(
     ? triggerTypeMap
     : new Map<string, TriggerTypeInfo>();
 
-  const totalProblems = problems.length;
-  const truePositives = Math.max(
-    totalProblems - (falsePositives + falseNegatives),
-    0
-  );
+  const classifiedAlerts = verdictCounts.tp + verdictCounts.fp + verdictCounts.fn;
 
   const hostCount = activeHosts;
   const hostFactor = hostCount || 1;
@@ -783,10 +862,9 @@ export async function buildDashboardMetrics(
     activeHostIds,
     "total"
   );
-  const rangeShiftSplit = splitSecondsByShift(startSeconds, endSeconds);
+  const rangeShiftSplit = scopeCalendar.splitSeconds(startSeconds, endSeconds);
   const totalBusinessSeconds = rangeShiftSplit.business;
   const totalOffSeconds = rangeShiftSplit.off;
-  const businessWindowLabel = formatBusinessWindowLabel();
 
   const businessDowntime = sumDowntimeForHosts(
     hostDowntime,
@@ -804,11 +882,41 @@ export async function buildDashboardMetrics(
     activeHostIds,
     "off"
   );
+  const adjustedTotalDowntime = sumDowntimeForHosts(
+    adjustedHostDowntime,
+    activeHostIds,
+    "total"
+  );
+  const adjustedBusinessDowntime = sumDowntimeForHosts(
+    adjustedHostDowntime,
+    activeHostIds,
+    "business"
+  );
+  const adjustedOffDowntime = sumDowntimeForHosts(
+    adjustedHostDowntime,
+    activeHostIds,
+    "off"
+  );
   const reachabilityOffDowntime = sumDowntimeForHosts(
     reachabilityHostDowntime,
     activeHostIds,
     "off"
   );
+  const collateralAdjustedTotalDowntime = sumDowntimeForHosts(
+    collateralAdjustedHostDowntime,
+    activeHostIds,
+    "total"
+  );
+  const collateralAdjustedBusinessDowntime = sumDowntimeForHosts(
+    collateralAdjustedHostDowntime,
+    activeHostIds,
+    "business"
+  );
+  const collateralAdjustedOffDowntime = sumDowntimeForHosts(
+    collateralAdjustedHostDowntime,
+    activeHostIds,
+    "off"
+  );
 
   const detectionMinutes = secondsToMinutes(safeAverage(detectionDurations));
   const responseMinutes = secondsToMinutes(safeAverage(responseDurations));
@@ -833,6 +941,53 @@ export async function buildDashboardMetrics(
         100
       : 100;
 
+  const availabilityExcludingMaintenance = {
+    overallPct:
+      totalHostSeconds > 0
+        ? ((totalHostSeconds - adjustedTotalDowntime) / totalHostSeconds) * 100
+        : 100,
+    businessPct:
+      totalBusinessSeconds > 0
+        ? ((totalBusinessSeconds * hostFactor - adjustedBusinessDowntime) /
+            (totalBusinessSeconds * hostFactor)) *
+          100
+        : 100,
+    offHoursPct:
+      totalOffSeconds > 0
+        ? ((totalOffSeconds * hostFactor - adjustedOffDowntime) /
+            (totalOffSeconds * hostFactor)) *
+          100
+        : 100,
+    excludedMinutes: secondsToMinutes(
+      Math.max(0, totalDowntimeSeconds - adjustedTotalDowntime)
+    ),
+  };
+
+  const availabilityExcludingCollateral = {
+    overallPct:
+      totalHostSeconds > 0
+        ? ((totalHostSeconds - collateralAdjustedTotalDowntime) /
+            totalHostSeconds) *
+          100
+        : 100,
+    businessPct:
+      totalBusinessSeconds > 0
+        ? ((totalBusinessSeconds * hostFactor -
+            collateralAdjustedBusinessDowntime) /
+            (totalBusinessSeconds * hostFactor)) *
+          100
+        : 100,
+    offHoursPct:
+      totalOffSeconds > 0
+        ? ((totalOffSeconds * hostFactor - collateralAdjustedOffDowntime) /
+            (totalOffSeconds * hostFactor)) *
+          100
+        : 100,
+    collateralMinutes: secondsToMinutes(
+      Math.max(0, totalDowntimeSeconds - collateralAdjustedTotalDowntime)
+    ),
+  };
+
   const reachabilityAvailability =
     totalHostSeconds > 0
       ? ((totalHostSeconds - reachabilityDowntimeSeconds) /
@@ -856,6 +1011,7 @@ export async function buildDashboardMetrics(
 
   const categories = buildHostCategoryStats({
     hosts: activeHostList,
+    classifier: hostClassifier,
     hostDowntime,
     totalRangeSeconds,
   });
@@ -890,14 +1046,80 @@ export async function buildDashboardMetrics(
     ? buildGroupSummaries({
         accumulators: groupAccumulators,
         totalRangeSeconds,
-        businessSeconds: totalBusinessSeconds,
         includeAlertDetails,
         includeAvailabilityInsights,
         triggerTypeMap: triggerTypeMapForInsights,
-        businessWindowLabel,
+        rootCauseByEvent,
+        buildForecast: isPartialPeriod
+          ? (acc) =>
+              buildAvailabilityForecast({
+                startSeconds,
+                endSeconds,
+                periodEndSeconds,
+                hostCount: acc.activeHosts,
+                elapsedBusinessSeconds: acc.businessSeconds,
+                periodBusinessSeconds: acc.periodBusinessSeconds,
+                downtime: {
+                  total: acc.downtimeTotal,
+                  business: acc.downtimeBusiness,
+                },
+                closedDowntime: {
+                  total: acc.closedDowntimeTotal,
+                  business: acc.closedDowntimeBusiness,
+                },
+                targets: resolveSlaContract(acc.group.groupid).targets,
+              })
+          : undefined,
+      }).map((summary) => ({
+        ...summary,
+        sla: evaluateSla(resolveSlaContract(summary.groupid), {
+          availabilityPct: summary.availabilityPct,
+          businessAvailabilityPct: summary.businessAvailabilityPct,
+          reachabilityPct: summary.reachabilityPct,
+          detectionMinutes: summary.detectionMinutes,
+          responseMinutes: summary.responseMinutes,
+          resolutionMinutes: summary.resolutionMinutes,
+        }),
+      }))
+    : undefined;
+
+  const scopeForecast = closedHostDowntime
+    ? buildAvailabilityForecast({
+        startSeconds,
+        endSeconds,
+        periodEndSeconds,
+        hostCount,
+        elapsedBusinessSeconds: totalBusinessSeconds,
+        periodBusinessSeconds: scopeCalendar.splitSeconds(
+          startSeconds,
+          periodEndSeconds
+        ).business,
+        downtime: { total: totalDowntimeSeconds, business: businessDowntime },
+        closedDowntime: {
+          total: sumDowntimeForHosts(
+            closedHostDowntime,
+            activeHostIds,
+            "total"
+          ),
+          business: sumDowntimeForHosts(
+            closedHostDowntime,
+            activeHostIds,
+            "business"
+          ),
+        },
+        targets: resolveSlaContract(scopeGroupId).targets,
       })
     : undefined;
 
+  const scopeSla = evaluateSla(resolveSlaContract(scopeGroupId), {
+    availabilityPct: overallAvailability,
+    businessAvailabilityPct: businessAvailability,
+    reachabilityPct: reachabilityAvailability,
+    detectionMinutes,
+    responseMinutes,
+    resolutionMinutes,
+  });
+
   const severitySummary = SEVERITY_LEVELS.map((level) => ({
     severity: level.key,
     label: level.label,
@@ -917,6 +1139,8 @@ export async function buildDashboardMetrics(
       offHoursPct: offHoursAvailability,
       overallPct: overallAvailability,
     },
+    availabilityExcludingMaintenance,
+    availabilityExcludingCollateral,
     reachability: {
       businessPct: reachabilityBusinessAvailability,
       offHoursPct: reachabilityOffHoursAvailability,
@@ -926,9 +1150,16 @@ export async function buildDashboardMetrics(
     severitySummary,
     hosts: hostMetrics,
     accuracy: {
-      falsePositivePct: percentage(falsePositives, totalProblems),
-      falseNegativePct: percentage(falseNegatives, totalProblems),
-      precisionPct: percentage(truePositives, totalProblems),
+      falsePositivePct: percentage(verdictCounts.fp, classifiedAlerts),
+      falseNegativePct: percentage(verdictCounts.fn, classifiedAlerts),
+      precisionPct: percentage(
+        verdictCounts.tp,
+        verdictCounts.tp + verdictCounts.fp
+      ),
+      coveragePct: percentage(classifiedAlerts, countedAlerts),
+      classifiedAlerts,
+      totalAlerts: countedAlerts,
+      counts: verdictCounts,
     },
     totals: {
       hosts: activeHosts,
@@ -942,8 +1173,11 @@ export async function buildDashboardMetrics(
     },
     groupSummaries,
     criticalAlerts,
+    sla: scopeSla,
+    ...(scopeForecast ? { forecast: scopeForecast } : {}),
     meta: {
       period: label,
+      range: toPeriodRange(period),
       groupId: input.groupId,
       groupName: selectedGroup?.name,
       generatedAt: new Date().toISOString(),
@@ -1050,8 +1284,19 @@ type GroupAccumulator = {
   detection: number[];
   response: number[];
   resolution: number[];
+  businessSeconds: number;
+  periodBusinessSeconds: number;
+  businessWindowLabel: string;
   downtimeTotal: number;
   downtimeBusiness: number;
+  closedDowntimeTotal: number;
+  closedDowntimeBusiness: number;
+  adjustedDowntimeTotal: number;
+  adjustedDowntimeBusiness: number;
+  collateralAdjustedDowntimeTotal: number;
+  collateralAdjustedDowntimeBusiness: number;
+  maintenanceImpact: Map<string, MaintenanceImpactAccumulator>;
+  rootCauseImpact: Map<string, RootCauseImpactAccumulator>;
   reachabilityDowntimeTotal: number;
   reachabilityDowntimeBusiness: number;
   hostDowntime: Map<string, HostImpactAccumulator>;
@@ -1067,6 +1312,7 @@ type GroupAccumulator = {
   alertImpact: Map<string, AlertImpactAccumulator>;
   alertDetails: GroupAlertDetail[];
   alertDetailIds: Set<string>;
+  errorBudget: ErrorBudget | null;
 };
 
 type HostImpactAccumulator = {
@@ -1089,6 +1335,21 @@ type AlertImpactAccumulator = {
   triggerId?: string;
 };
 
+type MaintenanceImpactAccumulator = {
+  maintenanceId: string;
+  name: string;
+  total: number;
+  business: number;
+  hostNames: Set<string>;
+};
+
+type RootCauseImpactAccumulator = {
+  cause: RootCauseOutage;
+  total: number;
+  business: number;
+  hostNames: Set<string>;
+};
+
 type TriggerTypeInfo = {
   alertType: string;
   itemKeys: string[];
@@ -1107,8 +1368,19 @@ function createGroupAccumulator(group: ZabbixHostGroup): GroupAccumulator {
     detection: [],
     response: [],
     resolution: [],
+    businessSeconds: 0,
+    periodBusinessSeconds: 0,
+    businessWindowLabel: "",
     downtimeTotal: 0,
     downtimeBusiness: 0,
+    closedDowntimeTotal: 0,
+    closedDowntimeBusiness: 0,
+    adjustedDowntimeTotal: 0,
+    adjustedDowntimeBusiness: 0,
+    collateralAdjustedDowntimeTotal: 0,
+    collateralAdjustedDowntimeBusiness: 0,
+    maintenanceImpact: new Map<string, MaintenanceImpactAccumulator>(),
+    rootCauseImpact: new Map<string, RootCauseImpactAccumulator>(),
     reachabilityDowntimeTotal: 0,
     reachabilityDowntimeBusiness: 0,
     hostDowntime: new Map<string, HostImpactAccumulator>(),
@@ -1124,30 +1396,33 @@ function createGroupAccumulator(group: ZabbixHostGroup): GroupAccumulator {
     alertImpact: new Map<string, AlertImpactAccumulator>(),
     alertDetails: [],
     alertDetailIds: new Set<string>(),
+    errorBudget: null,
   };
 }
 
 function buildGroupSummaries({
   accumulators,
   totalRangeSeconds,
-  businessSeconds,
   includeAlertDetails,
   includeAvailabilityInsights,
   triggerTypeMap,
-  businessWindowLabel,
+  rootCauseByEvent,
+  buildForecast,
 }: {
   accumulators: Map<string, GroupAccumulator>;
   totalRangeSeconds: number;
-  businessSeconds: number;
   includeAlertDetails?: boolean;
   includeAvailabilityInsights?: boolean;
   triggerTypeMap?: Map<string, TriggerTypeInfo>;
-  businessWindowLabel: string;
+  rootCauseByEvent?: Map<string, string>;
+  buildForecast?: (acc: GroupAccumulator) => AvailabilityForecast;
 }): HostGroupMetric[] {
   return Array.from(accumulators.values())
     .filter((acc) => acc.hostIds.size > 0)
     .map((acc) => {
       const activeHostCount = acc.activeHosts;
+      const businessSeconds = acc.businessSeconds;
+      const businessWindowLabel = acc.businessWindowLabel;
       const totalHostSeconds = totalRangeSeconds * activeHostCount;
       const totalBusinessSeconds = businessSeconds * activeHostCount;
       const availabilityPct =
@@ -1160,6 +1435,30 @@ function buildGroupSummaries({
               totalBusinessSeconds) *
             100
           : 100;
+      const availabilityExcludingMaintenancePct =
+        totalHostSeconds > 0
+          ? ((totalHostSeconds - acc.adjustedDowntimeTotal) /
+              totalHostSeconds) *
+            100
+          : 100;
+      const businessAvailabilityExcludingMaintenancePct =
+        totalBusinessSeconds > 0
+          ? ((totalBusinessSeconds - acc.adjustedDowntimeBusiness) /
+              totalBusinessSeconds) *
+            100
+          : 100;
+      const availabilityExcludingCollateralPct =
+        totalHostSeconds > 0
+          ? ((totalHostSeconds - acc.collateralAdjustedDowntimeTotal) /
+              totalHostSeconds) *
+            100
+          : 100;
+      const businessAvailabilityExcludingCollateralPct =
+        totalBusinessSeconds > 0
+          ? ((totalBusinessSeconds - acc.collateralAdjustedDowntimeBusiness) /
+              totalBusinessSeconds) *
+            100
+          : 100;
       const reachabilityPct =
         totalHostSeconds > 0
           ? ((totalHostSeconds - acc.reachabilityDowntimeTotal) /
@@ -1182,6 +1481,13 @@ function buildGroupSummaries({
             windowType: "business",
             windowLabel: businessWindowLabel,
             triggerTypeMap: triggerMap,
+            maintenanceImpact: acc.maintenanceImpact,
+            rootCauseImpact: acc.rootCauseImpact,
+            collateralSeconds: Math.max(
+              0,
+              acc.downtimeBusiness - acc.collateralAdjustedDowntimeBusiness
+            ),
+            rootCauseByEvent,
           })
         : undefined;
       const reachabilityInsights = includeAvailabilityInsights
@@ -1194,6 +1500,7 @@ function buildGroupSummaries({
             windowLabel: businessWindowLabel,
             triggerTypeMap: triggerMap,
             filterAlertType: (info) => isReachabilityAlertType(info),
+            rootCauseByEvent,
           })
         : undefined;
       const reachabilityOverallInsights = includeAvailabilityInsights
@@ -1206,6 +1513,7 @@ function buildGroupSummaries({
             windowLabel: "Periodo completo",
             triggerTypeMap: triggerMap,
             filterAlertType: (info) => isReachabilityAlertType(info),
+            rootCauseByEvent,
           })
         : undefined;
 
@@ -1242,31 +1550,292 @@ function buildGroupSummaries({
         businessAvailabilityPct,
         reachabilityPct,
         businessReachabilityPct,
+        availabilityExcludingMaintenancePct,
+        businessAvailabilityExcludingMaintenancePct,
+        maintenanceExcludedMinutes: secondsToMinutes(
+          Math.max(0, acc.downtimeTotal - acc.adjustedDowntimeTotal)
+        ),
+        availabilityExcludingCollateralPct,
+        businessAvailabilityExcludingCollateralPct,
+        collateralMinutes: secondsToMinutes(
+          Math.max(0, acc.downtimeTotal - acc.collateralAdjustedDowntimeTotal)
+        ),
         ...(includeAlertDetails ? { alertDetails: acc.alertDetails } : {}),
         ...(availabilityInsights ? { availabilityInsights } : {}),
         ...(reachabilityInsights ? { reachabilityInsights } : {}),
         ...(reachabilityOverallInsights ? { reachabilityOverallInsights } : {}),
+        ...(buildForecast ? { forecast: buildForecast(acc) } : {}),
+        ...(acc.errorBudget ? { errorBudget: acc.errorBudget } : {}),
       };
     })
     .sort((a, b) => a.name.localeCompare(b.name, "pt-BR"));
 }
 
+/**
+ * Projeção do mês em andamento. O downtime já ocorrido fica como está e o
+ * restante do mês segue o ritmo dos problemas já resolvidos: uma queda ainda
+ * aberta conta até agora, mas não é extrapolada como se fosse recorrente.
+ * O saldo é o downtime que ainda cabe na meta considerando o mês inteiro.
+ */
+function buildAvailabilityForecast({
+  startSeconds,
+  endSeconds,
+  periodEndSeconds,
+  hostCount,
+  elapsedBusinessSeconds,
+  periodBusinessSeconds,
+  downtime,
+  closedDowntime,
+  targets,
+}: {
+  startSeconds: number;
+  endSeconds: number;
+  periodEndSeconds: number;
+  hostCount: number;
+  elapsedBusinessSeconds: number;
+  periodBusinessSeconds: number;
+  downtime: { total: number; business: number };
+  closedDowntime: { total: number; business: number };
+  targets: SlaTargets;
+}): AvailabilityForecast {
+  const project = (
+    elapsedSeconds: number,
+    periodSeconds: number,
+    spent: number,
+    closed: number,
+    target: number | null
+  ) => {
+    const elapsedCapacity = elapsedSeconds * hostCount;
+    const periodCapacity = periodSeconds * hostCount;
+    if (periodCapacity <= 0) {
+      return { pct: 100, budgetMinutes: target === null ? null : 0 };
+    }
+    const rate = elapsedCapacity > 0 ? closed / elapsedCapacity : 0;
+    const projected =
+      spent + rate * Math.max(0, periodCapacity - elapsedCapacity);
+    return {
+      pct: Math.max(0, (1 - projected / periodCapacity) * 100),
+      budgetMinutes:
+        target === null
+          ? null
+          : secondsToMinutes((1 - target / 100) * periodCapacity - spent),
+    };
+  };
+
+  const overall = project(
+    endSeconds - startSeconds,
+    periodEndSeconds - startSeconds,
+    downtime.total,
+    closedDowntime.total,
+    targets.availabilityPct
+  );
+  const business = project(
+    elapsedBusinessSeconds,
+    periodBusinessSeconds,
+    downtime.business,
+    closedDowntime.business,
+    targets.businessAvailabilityPct
+  );
+  const belowTarget = (pct: number, target: number | null) =>
+    target !== null && pct < target;
+
+  return {
+    asOf: new Date(endSeconds * 1000).toISOString(),
+    periodEnd: new Date(periodEndSeconds * 1000).toISOString(),
+    elapsedPct:
+      periodEndSeconds > startSeconds
+        ? ((endSeconds - startSeconds) / (periodEndSeconds - startSeconds)) *
+          100
+        : 100,
+    projectedAvailabilityPct: overall.pct,
+    projectedBusinessAvailabilityPct: business.pct,
+    remainingBudgetMinutes: overall.budgetMinutes,
+    remainingBusinessBudgetMinutes: business.budgetMinutes,
+    atRisk:
+      belowTarget(overall.pct, targets.availabilityPct) ||
+      belowTarget(business.pct, targets.businessAvailabilityPct) ||
+      (overall.budgetMinutes ?? 0) < 0 ||
+      (business.budgetMinutes ?? 0) < 0,
+  };
+}
+
+/**
+ * Orçamento de erro do host group: quanto downtime a meta permite no mês
+ * inteiro, quanto já foi gasto e em que momento o gasto passou do permitido.
+ */
+function buildErrorBudget({
+  hostIntervals,
+  calendar,
+  startSeconds,
+  endSeconds,
+  periodEndSeconds,
+  hostCount,
+  elapsedBusinessSeconds,
+  periodBusinessSeconds,
+  consumed,
+  targets,
+  alertImpact,
+}: {
+  hostIntervals: Interval[][];
+  calendar: BusinessCalendar;
+  startSeconds: number;
+  endSeconds: number;
+  periodEndSeconds: number;
+  hostCount: number;
+  elapsedBusinessSeconds: number;
+  periodBusinessSeconds: number;
+  consumed: { total: number; business: number };
+  targets: SlaTargets;
+  alertImpact?: Map<string, AlertImpactAccumulator>;
+}): ErrorBudget {
+  const businessIntervals = hostIntervals.map((intervals) =>
+    intervals.flatMap(
+      (interval) => calendar.splitIntervals(interval.start, interval.end).business
+    )
+  );
+  const incidents: ErrorBudgetIncident[] | undefined = alertImpact
+    ? Array.from(alertImpact.values())
+        .filter((entry) => entry.total > 0)
+        .sort((a, b) => b.business - a.business || b.total - a.total)
+        .slice(0, MAX_ERROR_BUDGET_INCIDENTS)
+        .map((entry) => ({
+          eventId: entry.eventId,
+          name: entry.name,
+          severity: entry.severity,
+          openedAt: entry.openedAt,
+          closedAt: entry.closedAt,
+          hostNames: Array.from(entry.hostNames).sort((a, b) =>
+            a.localeCompare(b, "pt-BR")
+          ),
+          downtimeMinutes: secondsToMinutes(entry.total),
+          businessDowntimeMinutes: secondsToMinutes(entry.business),
+        }))
+    : undefined;
+
+  return {
+    overall: buildErrorBudgetWindow({
+      elapsedSeconds: endSeconds - startSeconds,
+      periodSeconds: periodEndSeconds - startSeconds,
+      hostCount,
+      consumedSeconds: consumed.total,
+      targetPct: targets.availabilityPct,
+      intervals: hostIntervals,
+    }),
+    business: buildErrorBudgetWindow({
+      elapsedSeconds: elapsedBusinessSeconds,
+      periodSeconds: periodBusinessSeconds,
+      hostCount,
+      consumedSeconds: consumed.business,
+      targetPct: targets.businessAvailabilityPct,
+      intervals: businessIntervals,
+    }),
+    ...(incidents ? { incidents } : {}),
+  };
+}
+
+function buildErrorBudgetWindow({
+  elapsedSeconds,
+  periodSeconds,
+  hostCount,
+  consumedSeconds,
+  targetPct,
+  intervals,
+}: {
+  elapsedSeconds: number;
+  periodSeconds: number;
+  hostCount: number;
+  consumedSeconds: number;
+  targetPct: number | null;
+  intervals: Interval[][];
+}): ErrorBudgetWindow {
+  const consumedMinutes = secondsToMinutes(consumedSeconds);
+  if (targetPct === null) {
+    return {
+      targetPct: null,
+      allowedMinutes: null,
+      consumedMinutes,
+      remainingMinutes: null,
+      burnedPct: null,
+      burnRate: null,
+      exhaustedAt: null,
+    };
+  }
+  const allowedSeconds = Math.max(
+    0,
+    (1 - targetPct / 100) * periodSeconds * hostCount
+  );
+  // Meta de 100%: não há orçamento, então não existe percentual consumido.
+  const burnedPct =
+    allowedSeconds > 0 ? (consumedSeconds / allowedSeconds) * 100 : null;
+  const elapsedRatio = periodSeconds > 0 ? elapsedSeconds / periodSeconds : 1;
+  const exhaustedAt = findBudgetExhaustion(intervals, allowedSeconds);
+  return {
+    targetPct,
+    allowedMinutes: secondsToMinutes(allowedSeconds),
+    consumedMinutes,
+    remainingMinutes: secondsToMinutes(allowedSeconds - consumedSeconds),
+    burnedPct,
+    burnRate:
+      burnedPct !== null && elapsedRatio > 0
+        ? burnedPct / 100 / elapsedRatio
+        : null,
+    exhaustedAt:
+      exhaustedAt !== null ? new Date(exhaustedAt * 1000).toISOString() : null,
+  };
+}
+
+/**
+ * Percorre o downtime de todos os hosts em ordem cronológica (com N hosts
+ * fora ao mesmo tempo o orçamento corre N vezes mais rápido) e devolve o
+ * instante em que o gasto passa de `allowedSeconds`.
+ */
+function findBudgetExhaustion(
+  hostIntervals: Interval[][],
+  allowedSeconds: number
+): number | null {
+  const edges = hostIntervals
+    .flat()
+    .filter((interval) => interval.end > interval.start)
+    .flatMap((interval) => [
+      { at: interval.start, delta: 1 },
+      { at: interval.end, delta: -1 },
+    ])
+    .sort((a, b) => a.at - b.at);
+  let spent = 0;
+  let active = 0;
+  let cursor = edges[0]?.at ?? 0;
+  for (const edge of edges) {
+    if (active > 0) {
+      const gained = (edge.at - cursor) * active;
+      if (spent + gained > allowedSeconds) {
+        return cursor + (allowedSeconds - spent) / active;
+      }
+      spent += gained;
+    }
+    active += edge.delta;
+    cursor = edge.at;
+  }
+  return null;
+}
+
 function buildHostCategoryStats({
   hosts,
+  classifier,
   hostDowntime,
   totalRangeSeconds,
 }: {
   hosts: ZabbixHost[];
+  classifier: HostClassifier;
   hostDowntime: Map<string, { total: number; business: number; off: number }>;
   totalRangeSeconds: number;
 }): HostCategoryStat[] {
   const totals: Record<
     string,
-    { category: HostCategory; count: number; hostIds: string[] }
+    { category: HostCategoryDefinition; count: number; hostIds: string[] }
   > = {};
 
   for (const host of hosts) {
-    const category = classifyHost(host);
+    const { category } = classifier.classify(host);
     const entry = totals[category.id] ?? {
       category,
       count: 0,
@@ -1277,11 +1846,10 @@ function buildHostCategoryStats({
     totals[category.id] = entry;
   }
 
-  const allCategories = [...HOST_CATEGORIES, DEFAULT_CATEGORY];
   const totalHosts = hosts.length;
   const coverageDenominator = totalHosts || 1;
 
-  return allCategories.map((category) => {
+  return classifier.categories.map((category) => {
     const bucket = totals[category.id] ?? {
       category,
       count: 0,
@@ -1308,9 +1876,11 @@ function buildHostCategoryStats({
 }
 
 const MAX_INSIGHT_ITEMS = 5;
+const MAX_ERROR_BUDGET_INCIDENTS = 50;
 
 function buildHostDowntime(
-  hostIntervals: Map<string, Interval[]>
+  hostIntervals: Map<string, Interval[]>,
+  calendar: BusinessCalendar
 ): Map<string, { total: number; business: number; off: number }> {
   const downtime = new Map<string, { total: number; business: number; off: number }>();
   for (const [hostId, intervals] of hostIntervals.entries()) {
@@ -1326,7 +1896,7 @@ function buildHostDowntime(
       const duration = Math.max(0, interval.end - interval.start);
       if (!duration) continue;
       total += duration;
-      const split = splitSecondsByShift(interval.start, interval.end);
+      const split = calendar.splitSeconds(interval.start, interval.end);
       business += split.business;
       off += split.off;
     }
@@ -1335,22 +1905,156 @@ function buildHostDowntime(
   return downtime;
 }
 
-function mergeIntervals(intervals: Interval[]): Interval[] {
-  const sorted = [...intervals].sort((a, b) => a.start - b.start);
-  const merged: Interval[] = [];
-  for (const interval of sorted) {
-    if (!merged.length) {
-      merged.push({ ...interval });
-      continue;
+function applyMaintenanceExclusion(
+  hostIntervals: Map<string, Interval[]>,
+  maintenanceWindows: Map<string, MaintenanceWindow[]>,
+  calendar: BusinessCalendar
+): {
+  remaining: Map<string, Interval[]>;
+  exclusions: Map<
+    string,
+    Array<{ maintenanceId: string; name: string; total: number; business: number }>
+  >;
+} {
+  const remaining = new Map<string, Interval[]>();
+  const exclusions = new Map<
+    string,
+    Array<{ maintenanceId: string; name: string; total: number; business: number }>
+  >();
+  for (const [hostId, intervals] of hostIntervals.entries()) {
+    const windows = maintenanceWindows.get(hostId) ?? [];
+    const result = excludeMaintenanceWindows(intervals, windows);
+    remaining.set(hostId, result.remaining);
+    if (!result.exclusions.length) continue;
+    exclusions.set(
+      hostId,
+      result.exclusions.map((exclusion) => {
+        let total = 0;
+        let business = 0;
+        for (const interval of exclusion.intervals) {
+          total += interval.end - interval.start;
+          business += calendar.splitSeconds(interval.start, interval.end).business;
+        }
+        return {
+          maintenanceId: exclusion.maintenanceId,
+          name: exclusion.name,
+          total,
+          business,
+        };
+      })
+    );
+  }
+  return { remaining, exclusions };
+}
+
+/**
+ * Recalcula o downtime dos hosts de um grupo cujo calendário comercial difere
+ * do calendário do escopo (o total não muda, só a fatia comercial).
+ */
+function buildCalendarDowntime({
+  hostIds,
+  hostIntervals,
+  reachabilityIntervals,
+  collateralRemaining,
+  closedHostIntervals,
+  maintenanceWindows,
+  calendar,
+}: {
+  hostIds: Set<string>;
+  hostIntervals: Map<string, Interval[]>;
+  reachabilityIntervals: Map<string, Interval[]>;
+  collateralRemaining: Map<string, Interval[]>;
+  closedHostIntervals?: Map<string, Interval[]>;
+  maintenanceWindows: Map<string, MaintenanceWindow[]>;
+  calendar: BusinessCalendar;
+}) {
+  const pick = (source: Map<string, Interval[]>) =>
+    new Map(
+      Array.from(hostIds)
+        .filter((hostId) => source.has(hostId))
+        .map((hostId) => [hostId, source.get(hostId) ?? []])
+    );
+  const groupIntervals = pick(hostIntervals);
+  const maintenanceAdjustment = applyMaintenanceExclusion(
+    groupIntervals,
+    maintenanceWindows,
+    calendar
+  );
+  return {
+    hostDowntime: buildHostDowntime(groupIntervals, calendar),
+    reachabilityHostDowntime: buildHostDowntime(
+      pick(reachabilityIntervals),
+      calendar
+    ),
+    adjustedHostDowntime: buildHostDowntime(
+      maintenanceAdjustment.remaining,
+      calendar
+    ),
+    collateralAdjustedHostDowntime: buildHostDowntime(
+      pick(collateralRemaining),
+      calendar
+    ),
+    closedHostDowntime: closedHostIntervals
+      ? buildHostDowntime(pick(closedHostIntervals), calendar)
+      : undefined,
+    maintenanceExclusions: maintenanceAdjustment.exclusions,
+  };
+}
+
+/** Downtime de cada host sem os trechos colaterais (queda do pai). */
+function excludeCollateral(
+  hostIntervals: Map<string, Interval[]>,
+  collateralIntervals: Map<string, Interval[]>
+): Map<string, Interval[]> {
+  const remaining = new Map<string, Interval[]>();
+  for (const [hostId, intervals] of hostIntervals.entries()) {
+    const collateral = collateralIntervals.get(hostId);
+    remaining.set(
+      hostId,
+      collateral?.length ? subtractIntervals(intervals, collateral) : intervals
+    );
+  }
+  return remaining;
+}
+
+function buildRootCauseImpact({
+  hostIds,
+  rootCauseIntervals,
+  hostNameMap,
+  calendar,
+}: {
+  hostIds: Set<string>;
+  rootCauseIntervals: Map<
+    string,
+    { cause: RootCauseOutage; hostIntervals: Map<string, Interval[]> }
+  >;
+  hostNameMap: Map<string, string>;
+  calendar: BusinessCalendar;
+}): Map<string, RootCauseImpactAccumulator> {
+  const result = new Map<string, RootCauseImpactAccumulator>();
+  for (const [key, entry] of rootCauseIntervals.entries()) {
+    const impact: RootCauseImpactAccumulator = {
+      cause: entry.cause,
+      total: 0,
+      business: 0,
+      hostNames: new Set<string>(),
+    };
+    for (const [hostId, intervals] of entry.hostIntervals.entries()) {
+      if (!hostIds.has(hostId)) continue;
+      for (const interval of mergeIntervals(intervals)) {
+        impact.total += interval.end - interval.start;
+        impact.business += calendar.splitSeconds(
+          interval.start,
+          interval.end
+        ).business;
+      }
+      impact.hostNames.add(hostNameMap.get(hostId) ?? hostId);
     }
-    const last = merged[merged.length - 1];
-    if (interval.start <= last.end) {
-      last.end = Math.max(last.end, interval.end);
-    } else {
-      merged.push({ ...interval });
+    if (impact.total > 0) {
+      result.set(key, impact);
     }
   }
-  return merged;
+  return result;
 }
 
 function buildAvailabilityInsights({
@@ -1362,6 +2066,10 @@ function buildAvailabilityInsights({
   windowLabel,
   triggerTypeMap,
   filterAlertType,
+  maintenanceImpact,
+  rootCauseImpact,
+  collateralSeconds,
+  rootCauseByEvent,
 }: {
   hostDowntime: Map<string, HostImpactAccumulator>;
   alertImpact: Map<string, AlertImpactAccumulator>;
@@ -1371,6 +2079,10 @@ function buildAvailabilityInsights({
   windowLabel: string;
   triggerTypeMap: Map<string, TriggerTypeInfo>;
   filterAlertType?: (info: TriggerTypeInfo) => boolean;
+  maintenanceImpact?: Map<string, MaintenanceImpactAccumulator>;
+  rootCauseImpact?: Map<string, RootCauseImpactAccumulator>;
+  collateralSeconds?: number;
+  rootCauseByEvent?: Map<string, string>;
 }): AvailabilityInsights {
   const windowKey: "business" | "total" =
     windowType === "business" ? "business" : "total";
@@ -1431,6 +2143,7 @@ function buildAvailabilityInsights({
         hostNames,
         alertType: info.alertType,
         itemKeys,
+        rootCause: rootCauseByEvent?.get(entry.eventId) ?? null,
       };
     })
     .filter(
@@ -1438,15 +2151,75 @@ function buildAvailabilityInsights({
     )
     .slice(0, MAX_INSIGHT_ITEMS);
 
+  const maintenanceExclusions: AvailabilityMaintenanceExclusion[] | undefined =
+    maintenanceImpact
+      ? Array.from(maintenanceImpact.values())
+          .filter((entry) => entry.total > 0)
+          .sort((a, b) => b[windowKey] - a[windowKey] || b.total - a.total)
+          .map((entry) => ({
+            maintenanceId: entry.maintenanceId,
+            name: entry.name,
+            windowExcludedMinutes: secondsToMinutes(entry[windowKey]),
+            totalExcludedMinutes: secondsToMinutes(entry.total),
+            hostNames: Array.from(entry.hostNames).sort((a, b) =>
+              a.localeCompare(b, "pt-BR")
+            ),
+          }))
+      : undefined;
+
+  const rootCauses: AvailabilityRootCause[] | undefined = rootCauseImpact
+    ? Array.from(rootCauseImpact.values())
+        .sort((a, b) => b[windowKey] - a[windowKey] || b.total - a.total)
+        .map((entry) => ({
+          key: entry.cause.key,
+          kind: entry.cause.kind,
+          name: entry.cause.name,
+          hostName: entry.cause.hostName,
+          windowCollateralMinutes: secondsToMinutes(entry[windowKey]),
+          totalCollateralMinutes: secondsToMinutes(entry.total),
+          hostNames: Array.from(entry.hostNames).sort((a, b) =>
+            a.localeCompare(b, "pt-BR")
+          ),
+        }))
+    : undefined;
+
   return {
     windowType,
     windowLabel,
     groupDowntimeMinutes,
     topHosts,
     topAlerts,
+    ...(rootCauses
+      ? {
+          rootCauses,
+          collateralMinutes: secondsToMinutes(collateralSeconds ?? 0),
+        }
+      : {}),
+    ...(maintenanceExclusions
+      ? {
+          maintenanceExclusions,
+          excludedMaintenanceMinutes: maintenanceExclusions.reduce(
+            (acc, entry) => acc + entry.windowExcludedMinutes,
+            0
+          ),
+        }
+      : {}),
   };
 }
 
+/** Filtra os problemas de alcançabilidade (tipos de `DASHBOARD_REACHABILITY_ALERT_TYPES`). */
+export async function selectReachabilityProblems(
+  problems: ZabbixProblem[]
+): Promise<ZabbixProblem[]> {
+  const triggerTypes = await buildTriggerTypeMapFromProblems(problems);
+  return problems.filter((problem) =>
+    isReachabilityAlertType(
+      (problem.objectid ? triggerTypes.get(problem.objectid) : null) ??
+        deriveAlertType([], problem.name)
+    )
+  );
+}
+
 async function buildTriggerTypeMapFromProblems(
   problems: ZabbixProblem[]
 ): Promise<Map<string, TriggerTypeInfo>> {
@@ -1566,9 +2339,3 @@ function isSnmpTrapSignal(itemKeys: string[], haystack: string): boolean {
   if (keyHit) return true;
   return haystack.includes("snmptrap") || haystack.includes("snmp trap");
 }
-
-function formatBusinessWindowLabel(): string {
-  const startLabel = `${BUSINESS_START_HOUR}h`;
-  const endLabel = BUSINESS_END_HOUR >= 24 ? "23:59" : `${BUSINESS_END_HOUR}h`;
-  return `${startLabel}-${endLabel} (${DEFAULT_TIMEZONE})`;
-}
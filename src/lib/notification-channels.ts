@@ -0,0 +1,85 @@
+import "server-only";
+import { sendMail } from "@/lib/smtp";
+import { NotificationAlert, NotificationChannel } from "@/types/dashboard";
+
+const WEBHOOK_TIMEOUT_MS = 10_000;
+const LEVEL_COLORS: Record<NotificationAlert["level"], string> = {
+  warning: "F59E0B",
+  critical: "E11D48",
+};
+
+/** Entrega um alerta por um canal; falhas sobem como Error com o motivo. */
+export async function deliverNotification(
+  channel: NotificationChannel,
+  alert: NotificationAlert
+): Promise<void> {
+  switch (channel.type) {
+    case "email":
+      await sendMail({
+        to: channel.to,
+        subject: `[NOC] ${alert.title}`,
+        text: [alert.message, alert.url ? `\n${alert.url}` : ""]
+          .join("\n")
+          .trim(),
+      });
+      return;
+    case "slack":
+      await postJson(channel.url, {
+        text: [
+          `*${alert.title}*`,
+          alert.message,
+          alert.url ? `<${alert.url}|Abrir no dashboard>` : "",
+        ]
+          .filter(Boolean)
+          .join("\n"),
+      });
+      return;
+    case "teams":
+      await postJson(channel.url, {
+        "@type": "MessageCard",
+        "@context": "https://schema.org/extensions",
+        summary: alert.title,
+        themeColor: LEVEL_COLORS[alert.level],
+        title: alert.title,
+        text: alert.message.replace(/\n/g, "\n\n"),
+        potentialAction: alert.url
+          ? [
+              {
+                "@type": "OpenUri",
+                name: "Abrir no dashboard",
+                targets: [{ os: "default", uri: alert.url }],
+              },
+            ]
+          : [],
+      });
+      return;
+    case "webhook":
+      await postJson(
+        channel.url,
+        {
+          event: "noc-dashboard.notification",
+          sentAt: new Date().toISOString(),
+          ...alert,
+        },
+        channel.headers
+      );
+      return;
+  }
+}
+
+async function postJson(
+  url: string,
+  body: unknown,
+  headers?: Record<string, string>
+) {
+  const response = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", ...headers },
+    body: JSON.stringify(body),
+    cache: "no-store",
+    signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+  });
+  if (!response.ok) {
+    throw new Error(`Webhook respondeu HTTP ${response.status}.`);
+  }
+}
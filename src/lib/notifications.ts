@@ -0,0 +1,645 @@
+import "server-only";
+import { formatInTimeZone } from "date-fns-tz";
+import { z } from "zod";
+import { readJsonFile, updateJsonFile } from "@/lib/data-store";
+import { buildDashboardMetrics, getRangeFromMonth } from "@/lib/metrics";
+import { deliverNotification } from "@/lib/notification-channels";
+import { listOpenProblems } from "@/lib/open-problems";
+import { formatDurationMinutes } from "@/lib/time-format";
+import { fetchHostGroups } from "@/lib/zabbix";
+import {
+  NotificationAlert,
+  NotificationConfig,
+  NotificationDelivery,
+  NotificationRule,
+  NotificationRunResult,
+  OpenProblemDetail,
+} from "@/types/dashboard";
+
+const DEFAULT_TIMEZONE = process.env.DASHBOARD_TIMEZONE ?? "America/Sao_Paulo";
+const CHECK_INTERVAL_MINUTES = Math.max(
+  0,
+  Number(process.env.DASHBOARD_NOTIFICATIONS_INTERVAL_MINUTES ?? "5") || 0
+);
+const PUBLIC_URL = (process.env.DASHBOARD_PUBLIC_URL ?? "").replace(/\/$/, "");
+const CONFIG_FILE = "notifications.json";
+const STATE_FILE = "notification-state.json";
+const LOG_FILE = "notification-log.json";
+const LOG_LIMIT = 500;
+// Reserva de um alerta em envio; expira caso o processo caia no meio do envio.
+const SENDING_CLAIM_MINUTES = 10;
+
+const percentFormatter = new Intl.NumberFormat("pt-BR", {
+  minimumFractionDigits: 2,
+  maximumFractionDigits: 2,
+});
+
+const idSchema = z
+  .string()
+  .trim()
+  .regex(/^[\w.-]{1,64}$/, "Use letras, números, '.', '-' ou '_'");
+const timeSchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Use HH:mm");
+const severitySchema = z.number().int().min(0).max(5);
+
+const channelSchema = z.discriminatedUnion("type", [
+  z.object({
+    id: idSchema,
+    type: z.literal("webhook"),
+    url: z.url(),
+    headers: z.record(z.string(), z.string()).optional(),
+  }),
+  z.object({
+    id: idSchema,
+    type: z.enum(["slack", "teams"]),
+    url: z.url(),
+  }),
+  z.object({
+    id: idSchema,
+    type: z.literal("email"),
+    to: z.array(z.email()).min(1).max(20),
+  }),
+]);
+
+const ruleBase = {
+  id: idSchema,
+  name: z.string().trim().min(1).max(200),
+  enabled: z.boolean().default(true),
+  channelIds: z.array(idSchema).min(1),
+  groupIds: z.array(z.string().regex(/^\d+$/)).default([]),
+  repeatMinutes: z.number().int().min(1).nullable().default(null),
+  ignoreQuietHours: z.boolean().default(false),
+};
+
+const ruleSchema = z.discriminatedUnion("type", [
+  z.object({
+    ...ruleBase,
+    type: z.literal("availability_projection"),
+    metric: z
+      .enum(["availabilityPct", "businessAvailabilityPct"])
+      .default("businessAvailabilityPct"),
+    targetPct: z.number().min(0).max(100).nullable().default(null),
+  }),
+  z.object({
+    ...ruleBase,
+    type: z.literal("unacknowledged_problem"),
+    minSeverity: severitySchema.default(5),
+    minMinutes: z.number().min(0).default(30),
+  }),
+  z.object({
+    ...ruleBase,
+    type: z.literal("open_problem_count"),
+    minSeverity: severitySchema.default(0),
+    maxOpen: z.number().int().min(0),
+  }),
+]);
+
+export const notificationConfigSchema = z
+  .object({
+    channels: z.array(channelSchema).max(50).default([]),
+    rules: z.array(ruleSchema).max(100).default([]),
+    quietHours: z
+      .object({ start: timeSchema, end: timeSchema })
+      .nullable()
+      .default(null),
+  })
+  .superRefine((config, context) => {
+    const channelIds = new Set<string>();
+    config.channels.forEach((channel, index) => {
+      if (channelIds.has(channel.id)) {
+        context.addIssue({
+          code: "custom",
+          path: ["channels", index, "id"],
+          message: `Canal duplicado: ${channel.id}`,
+        });
+      }
+      channelIds.add(channel.id);
+    });
+    const ruleIds = new Set<string>();
+    config.rules.forEach((rule, index) => {
+      if (ruleIds.has(rule.id)) {
+        context.addIssue({
+          code: "custom",
+          path: ["rules", index, "id"],
+          message: `Regra duplicada: ${rule.id}`,
+        });
+      }
+      ruleIds.add(rule.id);
+      rule.channelIds
+        .filter((channelId) => !channelIds.has(channelId))
+        .forEach((channelId) =>
+          context.addIssue({
+            code: "custom",
+            path: ["rules", index, "channelIds"],
+            message: `Canal inexistente: ${channelId}`,
+          })
+        );
+    });
+  });
+
+export type NotificationConfigInput = z.infer<typeof notificationConfigSchema>;
+
+type NotificationState = {
+  alerts: Record<
+    string,
+    {
+      firstSeenAt: string;
+      lastSentAt: string | null;
+      sendingAt?: string | null;
+    }
+  >;
+};
+
+type NotificationLog = {
+  deliveries: NotificationDelivery[];
+};
+
+type SchedulerState = {
+  timer: ReturnType<typeof setInterval> | null;
+  running: boolean;
+};
+
+const schedulerGlobal = globalThis as typeof globalThis & {
+  __notificationScheduler?: SchedulerState;
+};
+
+export async function getNotificationConfig(): Promise<NotificationConfig> {
+  const stored = await readJsonFile<NotificationConfig>(CONFIG_FILE);
+  return {
+    channels: stored?.channels ?? [],
+    rules: stored?.rules ?? [],
+    quietHours: stored?.quietHours ?? null,
+    updatedAt: stored?.updatedAt ?? null,
+  };
+}
+
+export async function saveNotificationConfig(
+  input: NotificationConfigInput
+): Promise<NotificationConfig> {
+  const config: NotificationConfig = {
+    ...input,
+    updatedAt: new Date().toISOString(),
+  };
+  await updateJsonFile<NotificationConfig | null>(
+    CONFIG_FILE,
+    null,
+    () => config
+  );
+  return config;
+}
+
+export async function listNotificationDeliveries(
+  limit = 100
+): Promise<NotificationDelivery[]> {
+  const log = await readJsonFile<NotificationLog>(LOG_FILE);
+  return (log?.deliveries ?? []).slice(0, limit);
+}
+
+/**
+ * Avalia as regras ativas e envia os alertas novos. Cada alerta tem uma chave
+ * (regra + grupo ou evento): só é reenviado após `repeatMinutes` e volta a ser
+ * avisado do zero quando a condição some e reaparece. No horário de silêncio
+ * os alertas ficam pendentes e saem na primeira rodada depois dele.
+ */
+export async function runNotifications(options?: {
+  dryRun?: boolean;
+}): Promise<NotificationRunResult> {
+  const dryRun = options?.dryRun ?? false;
+  const config = await getNotificationConfig();
+  const rules = config.rules.filter((rule) => rule.enabled);
+  const now = new Date();
+  const quietHours = isQuietHours(config.quietHours, now);
+
+  const { alerts, failedRuleIds } = await evaluateRules(rules);
+  const ruleMap = new Map(rules.map((rule) => [rule.id, rule]));
+  const channelMap = new Map(
+    config.channels.map((channel) => [channel.id, channel])
+  );
+  const deliveries: NotificationDelivery[] = [];
+  const dueAlerts: NotificationAlert[] = [];
+  let deduplicated = 0;
+  let deferred = 0;
+
+  const planAlerts = (state: NotificationState) => {
+    const next: NotificationState = { alerts: {} };
+    // Regras que falharam nesta rodada mantêm o estado anterior.
+    for (const [key, entry] of Object.entries(state.alerts)) {
+      if (failedRuleIds.has(key.split(":")[0])) {
+        next.alerts[key] = entry;
+      }
+    }
+
+    for (const alert of alerts) {
+      const rule = ruleMap.get(alert.ruleId);
+      if (!rule) continue;
+      const previous = state.alerts[alert.key];
+      const entry = {
+        firstSeenAt: previous?.firstSeenAt ?? now.toISOString(),
+        lastSentAt: previous?.lastSentAt ?? null,
+        sendingAt: previous?.sendingAt ?? null,
+      };
+      next.alerts[alert.key] = entry;
+
+      // Outra rodada (agendada ou manual) já está enviando este alerta.
+      const claimed =
+        entry.sendingAt !== null &&
+        now.getTime() - new Date(entry.sendingAt).getTime() <
+          SENDING_CLAIM_MINUTES * 60_000;
+      const due =
+        !claimed &&
+        (!entry.lastSentAt ||
+          (rule.repeatMinutes !== null &&
+            now.getTime() - new Date(entry.lastSentAt).getTime() >=
+              rule.repeatMinutes * 60_000));
+      if (!due) {
+        deduplicated += 1;
+        continue;
+      }
+      if (quietHours && !rule.ignoreQuietHours) {
+        deferred += 1;
+        continue;
+      }
+      entry.sendingAt = now.toISOString();
+      dueAlerts.push(alert);
+    }
+    return next;
+  };
+
+  if (dryRun) {
+    planAlerts(
+      (await readJsonFile<NotificationState>(STATE_FILE)) ?? {
+        alerts: {},
+      }
+    );
+  } else {
+    // Os envios ficam fora da trava do arquivo de estado: um webhook lento
+    // não pode segurar as outras rodadas.
+    await updateJsonFile<NotificationState>(
+      STATE_FILE,
+      { alerts: {} },
+      planAlerts
+    );
+
+    const sentKeys = new Set<string>();
+    for (const alert of dueAlerts) {
+      const rule = ruleMap.get(alert.ruleId);
+      for (const channelId of rule?.channelIds ?? []) {
+        const channel = channelMap.get(channelId);
+        if (!channel) continue;
+        const delivery = await deliver(channel, alert);
+        deliveries.push(delivery);
+        if (delivery.ok) sentKeys.add(alert.key);
+      }
+    }
+
+    // Libera as reservas; sem nenhuma entrega com sucesso, o alerta é tentado
+    // de novo na próxima rodada.
+    if (dueAlerts.length) {
+      await updateJsonFile<NotificationState>(
+        STATE_FILE,
+        { alerts: {} },
+        (state) => {
+          for (const alert of dueAlerts) {
+            const entry = state.alerts[alert.key];
+            if (!entry) continue;
+            entry.sendingAt = null;
+            if (sentKeys.has(alert.key)) entry.lastSentAt = now.toISOString();
+          }
+          return state;
+        }
+      );
+    }
+    await appendDeliveries(deliveries);
+  }
+
+  return {
+    evaluatedAt: now.toISOString(),
+    dryRun,
+    quietHours,
+    alerts,
+    deliveries,
+    deduplicated,
+    deferred,
+  };
+}
+
+/** Envia um alerta de exemplo para conferir URL, credenciais e formato. */
+export async function sendTestNotification(
+  channelId: string
+): Promise<NotificationDelivery | null> {
+  const config = await getNotificationConfig();
+  const channel = config.channels.find((entry) => entry.id === channelId);
+  if (!channel) {
+    return null;
+  }
+  const delivery = await deliver(channel, {
+    key: `test:${Date.now()}`,
+    ruleId: "test",
+    ruleName: "Teste de canal",
+    level: "warning",
+    title: "Teste de notificação do NOC Dashboard",
+    message: `Canal ${channel.id} (${channel.type}) configurado corretamente.`,
+    groupId: null,
+    eventId: null,
+    url: PUBLIC_URL || null,
+  });
+  await appendDeliveries([delivery]);
+  return delivery;
+}
+
+/** Roda as regras a cada `DASHBOARD_NOTIFICATIONS_INTERVAL_MINUTES` (0 desliga). */
+export function startNotificationScheduler() {
+  if (!CHECK_INTERVAL_MINUTES || schedulerGlobal.__notificationScheduler) {
+    return;
+  }
+  const state: SchedulerState = { timer: null, running: false };
+  schedulerGlobal.__notificationScheduler = state;
+
+  const tick = async () => {
+    if (state.running) return;
+    state.running = true;
+    try {
+      const result = await runNotifications();
+      const failures = result.deliveries.filter((entry) => !entry.ok);
+      if (result.deliveries.length) {
+        console.info(
+          `[notifications] ${result.deliveries.length} envio(s), ${failures.length} falha(s)`
+        );
+      }
+    } catch (error) {
+      console.error("[notifications] Failed to run scheduled check", error);
+    } finally {
+      state.running = false;
+    }
+  };
+
+  state.timer = setInterval(tick, CHECK_INTERVAL_MINUTES * 60 * 1000);
+  state.timer.unref?.();
+  void tick();
+}
+
+async function evaluateRules(rules: NotificationRule[]): Promise<{
+  alerts: NotificationAlert[];
+  failedRuleIds: Set<string>;
+}> {
+  const alerts: NotificationAlert[] = [];
+  const failedRuleIds = new Set<string>();
+  if (!rules.length) {
+    return { alerts, failedRuleIds };
+  }
+
+  // Fontes carregadas uma vez por rodada e só quando alguma regra precisa.
+  let groupsPromise: ReturnType<typeof fetchHostGroups> | null = null;
+  let problemsPromise: Promise<OpenProblemDetail[]> | null = null;
+  let metricsPromise: ReturnType<typeof loadMonthMetrics> | null = null;
+  const loadGroups = () => (groupsPromise ??= fetchHostGroups());
+  const loadProblems = () =>
+    (problemsPromise ??= listOpenProblems({ fresh: true }).then(
+      (response) => response.problems
+    ));
+  const loadMetrics = () => (metricsPromise ??= loadMonthMetrics());
+
+  for (const rule of rules) {
+    try {
+      switch (rule.type) {
+        case "availability_projection":
+          alerts.push(...evaluateAvailability(rule, await loadMetrics()));
+          break;
+        case "unacknowledged_problem":
+          alerts.push(
+            ...evaluateUnacknowledged(
+              rule,
+              await loadProblems(),
+              await loadGroups()
+            )
+          );
+          break;
+        case "open_problem_count":
+          alerts.push(
+            ...evaluateOpenCount(rule, await loadProblems(), await loadGroups())
+          );
+          break;
+      }
+    } catch (error) {
+      failedRuleIds.add(rule.id);
+      console.error(
+        `[notifications] Failed to evaluate rule ${rule.id}`,
+        error
+      );
+    }
+  }
+  return { alerts, failedRuleIds };
+}
+
+async function loadMonthMetrics() {
+  const month = formatInTimeZone(new Date(), DEFAULT_TIMEZONE, "yyyy-MM");
+  const { label } = getRangeFromMonth(month);
+  const metrics = await buildDashboardMetrics(
+    { month },
+    { includeGroupStats: true }
+  );
+  return {
+    month,
+    label,
+    groups: metrics.groupSummaries ?? [],
+  };
+}
+
+/**
+ * Projeção de fechamento abaixo da meta gera aviso. Se nem o restante do mês
+ * sem quedas alcança a meta, o alerta vira crítico. A fração decorrida é de
+ * tempo corrido, mesmo para a disponibilidade comercial.
+ */
+function evaluateAvailability(
+  rule: Extract<NotificationRule, { type: "availability_projection" }>,
+  data: Awaited<ReturnType<typeof loadMonthMetrics>>
+): NotificationAlert[] {
+  const metricLabel =
+    rule.metric === "businessAvailabilityPct"
+      ? "disponibilidade comercial"
+      : "disponibilidade";
+  return data.groups
+    .filter(
+      (group) =>
+        group.hosts > 0 &&
+        (!rule.groupIds.length || rule.groupIds.includes(group.groupid))
+    )
+    .flatMap((group): NotificationAlert[] => {
+      const current = group[rule.metric];
+      const target = rule.targetPct ?? group.sla?.targets[rule.metric] ?? null;
+      const forecast = group.forecast;
+      const projected = forecast
+        ? rule.metric === "businessAvailabilityPct"
+          ? forecast.projectedBusinessAvailabilityPct
+          : forecast.projectedAvailabilityPct
+        : current;
+      if (target === null || projected >= target) {
+        return [];
+      }
+      const elapsedRatio = (forecast?.elapsedPct ?? 100) / 100;
+      const bestCase = 100 - (100 - current) * elapsedRatio;
+      const level = bestCase < target ? "critical" : "warning";
+      return [
+        {
+          key: `${rule.id}:${group.groupid}:${data.month}:${level}`,
+          ruleId: rule.id,
+          ruleName: rule.name,
+          level,
+          title: `${group.name}: ${metricLabel} abaixo da meta em ${data.label}`,
+          message: [
+            `No ritmo atual o mês fecha em ${percentFormatter.format(projected)}% (meta ${percentFormatter.format(target)}%); até agora ${percentFormatter.format(current)}%.`,
+            level === "critical"
+              ? `Mesmo sem novas quedas o mês não passa de ${percentFormatter.format(bestCase)}%.`
+              : `Sem novas quedas o mês ainda fecha em ${percentFormatter.format(bestCase)}%.`,
+          ].join("\n"),
+          groupId: group.groupid,
+          eventId: null,
+          url: PUBLIC_URL
+            ? `${PUBLIC_URL}/?month=${data.month}&groupId=${group.groupid}`
+            : null,
+        },
+      ];
+    });
+}
+
+function evaluateUnacknowledged(
+  rule: Extract<NotificationRule, { type: "unacknowledged_problem" }>,
+  problems: OpenProblemDetail[],
+  groups: Array<{ groupid: string; name: string }>
+): NotificationAlert[] {
+  const groupNames = resolveGroupNames(rule.groupIds, groups);
+  return problems
+    .filter(
+      (problem) =>
+        !problem.acknowledged &&
+        problem.severity >= rule.minSeverity &&
+        problem.durationMinutes >= rule.minMinutes &&
+        (!groupNames || problem.groupNames.some((name) => groupNames.has(name)))
+    )
+    .map((problem) => ({
+      key: `${rule.id}:${problem.eventId}`,
+      ruleId: rule.id,
+      ruleName: rule.name,
+      level: problem.severity >= 5 ? "critical" : "warning",
+      title: `${problem.severityLabel} sem ACK há ${formatDurationMinutes(problem.durationMinutes)}: ${problem.name}`,
+      message: [
+        `Hosts: ${problem.hosts.map((host) => host.name).join(", ") || "—"}`,
+        `Grupos: ${problem.groupNames.join(", ") || "—"}`,
+        `Aberto em ${formatInTimeZone(new Date(problem.openedAt), DEFAULT_TIMEZONE, "dd/MM/yyyy HH:mm")} (evento ${problem.eventId})`,
+      ].join("\n"),
+      groupId: null,
+      eventId: problem.eventId,
+      url: PUBLIC_URL ? `${PUBLIC_URL}/open-problems` : null,
+    }));
+}
+
+function evaluateOpenCount(
+  rule: Extract<NotificationRule, { type: "open_problem_count" }>,
+  problems: OpenProblemDetail[],
+  groups: Array<{ groupid: string; name: string }>
+): NotificationAlert[] {
+  const selected = rule.groupIds.length
+    ? groups.filter((group) => rule.groupIds.includes(group.groupid))
+    : groups;
+  const relevant = problems.filter(
+    (problem) => problem.severity >= rule.minSeverity
+  );
+
+  return selected.flatMap((group): NotificationAlert[] => {
+    const groupProblems = relevant.filter((problem) =>
+      problem.groupNames.includes(group.name)
+    );
+    if (groupProblems.length <= rule.maxOpen) {
+      return [];
+    }
+    const listed = groupProblems
+      .slice(0, 5)
+      .map((problem) => `- [${problem.severityLabel}] ${problem.name}`);
+    const remaining = groupProblems.length - listed.length;
+    return [
+      {
+        key: `${rule.id}:${group.groupid}`,
+        ruleId: rule.id,
+        ruleName: rule.name,
+        level: groupProblems.some((problem) => problem.severity >= 5)
+          ? "critical"
+          : "warning",
+        title: `${group.name}: ${groupProblems.length} problemas em aberto (limite ${rule.maxOpen})`,
+        message: [...listed, remaining > 0 ? `… e mais ${remaining}` : ""]
+          .filter(Boolean)
+          .join("\n"),
+        groupId: group.groupid,
+        eventId: null,
+        url: PUBLIC_URL ? `${PUBLIC_URL}/open-problems` : null,
+      },
+    ];
+  });
+}
+
+function resolveGroupNames(
+  groupIds: string[],
+  groups: Array<{ groupid: string; name: string }>
+): Set<string> | null {
+  if (!groupIds.length) {
+    return null;
+  }
+  return new Set(
+    groups
+      .filter((group) => groupIds.includes(group.groupid))
+      .map((group) => group.name)
+  );
+}
+
+function isQuietHours(
+  window: NotificationConfig["quietHours"],
+  now: Date
+): boolean {
+  if (!window || window.start === window.end) {
+    return false;
+  }
+  const time = formatInTimeZone(now, DEFAULT_TIMEZONE, "HH:mm");
+  // Janela pode atravessar a meia-noite (ex.: 22:00–07:00).
+  return window.start < window.end
+    ? time >= window.start && time < window.end
+    : time >= window.start || time < window.end;
+}
+
+async function deliver(
+  channel: NotificationConfig["channels"][number],
+  alert: NotificationAlert
+): Promise<NotificationDelivery> {
+  const base = {
+    at: new Date().toISOString(),
+    key: alert.key,
+    ruleId: alert.ruleId,
+    channelId: channel.id,
+    title: alert.title,
+  };
+  try {
+    await deliverNotification(channel, alert);
+    return { ...base, ok: true, error: null };
+  } catch (error) {
+    console.error(
+      `[notifications] Failed to deliver ${alert.key} via ${channel.id}`,
+      error
+    );
+    return {
+      ...base,
+      ok: false,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
+async function appendDeliveries(deliveries: NotificationDelivery[]) {
+  if (!deliveries.length) return;
+  await updateJsonFile<NotificationLog>(
+    LOG_FILE,
+    { deliveries: [] },
+    (log) => ({
+      deliveries: [...deliveries]
+        .reverse()
+        .concat(log.deliveries)
+        .slice(0, LOG_LIMIT),
+    })
+  );
+}
@@ -0,0 +1,159 @@
+import "server-only";
+
+import { listOpenProblems } from "@/lib/open-problems";
+import {
+  OpenProblemChange,
+  OpenProblemDetail,
+  OpenProblemsFeedMessage,
+  OpenProblemsResponse,
+} from "@/types/dashboard";
+
+const POLL_INTERVAL_MS =
+  Math.max(
+    2,
+    Number(process.env.DASHBOARD_OPEN_PROBLEMS_POLL_SECONDS ?? "10") || 10
+  ) * 1000;
+
+type FeedListener = (message: OpenProblemsFeedMessage) => void;
+
+type FeedState = {
+  listeners: Set<FeedListener>;
+  current: OpenProblemsResponse | null;
+  timer: ReturnType<typeof setTimeout> | null;
+  polling: boolean;
+};
+
+// Um único poller por processo, compartilhado por todas as conexões SSE.
+const feedGlobal = globalThis as typeof globalThis & {
+  __openProblemsFeed?: FeedState;
+};
+const feedState: FeedState = (feedGlobal.__openProblemsFeed ??= {
+  listeners: new Set(),
+  current: null,
+  timer: null,
+  polling: false,
+});
+
+/**
+ * Registra um ouvinte do feed. O ouvinte recebe o estado atual (`snapshot`)
+ * assim que houver um e, depois, apenas as diferenças de cada consulta.
+ */
+export function subscribeOpenProblems(listener: FeedListener): () => void {
+  feedState.listeners.add(listener);
+  if (feedState.current) {
+    listener({ type: "snapshot", data: feedState.current });
+  }
+  if (!feedState.timer && !feedState.polling) {
+    void poll();
+  }
+
+  return () => {
+    feedState.listeners.delete(listener);
+    if (!feedState.listeners.size) {
+      if (feedState.timer) {
+        clearTimeout(feedState.timer);
+      }
+      feedState.timer = null;
+      feedState.current = null;
+    }
+  };
+}
+
+export function diffOpenProblems(
+  previous: OpenProblemDetail[],
+  next: OpenProblemDetail[]
+): OpenProblemChange[] {
+  const previousById = new Map(
+    previous.map((problem) => [problem.eventId, problem])
+  );
+  const nextIds = new Set(next.map((problem) => problem.eventId));
+  const changes: OpenProblemChange[] = [];
+
+  for (const problem of next) {
+    const before = previousById.get(problem.eventId);
+    if (!before) {
+      changes.push({ type: "opened", eventId: problem.eventId, problem });
+      continue;
+    }
+    if (before.severity !== problem.severity) {
+      changes.push({
+        type: "severity_changed",
+        eventId: problem.eventId,
+        problem,
+        previousSeverity: before.severity,
+      });
+    }
+    if (!before.acknowledged && problem.acknowledged) {
+      changes.push({ type: "acknowledged", eventId: problem.eventId, problem });
+    }
+  }
+
+  for (const problem of previous) {
+    if (!nextIds.has(problem.eventId)) {
+      changes.push({
+        type: "resolved",
+        eventId: problem.eventId,
+        problem: null,
+      });
+    }
+  }
+
+  return changes;
+}
+
+async function poll() {
+  feedState.timer = null;
+  feedState.polling = true;
+  try {
+    const next = await listOpenProblems({ fresh: true });
+    if (!feedState.listeners.size) {
+      return;
+    }
+    const previous = feedState.current;
+    feedState.current = next;
+    if (!previous) {
+      broadcast({ type: "snapshot", data: next });
+    } else {
+      const changes = diffOpenProblems(previous.problems, next.problems);
+      if (changes.length) {
+        broadcast({
+          type: "changes",
+          data: { generatedAt: next.generatedAt, changes },
+        });
+      }
+    }
+    broadcast({
+      type: "status",
+      data: { ok: true, at: next.generatedAt },
+    });
+  } catch (error) {
+    console.error("[open-problems-feed] Failed to poll problems", error);
+    broadcast({
+      type: "status",
+      data: {
+        ok: false,
+        error:
+          error instanceof Error
+            ? error.message
+            : "Não foi possível consultar os problemas em aberto.",
+        at: new Date().toISOString(),
+      },
+    });
+  } finally {
+    feedState.polling = false;
+    if (feedState.listeners.size) {
+      feedState.timer = setTimeout(poll, POLL_INTERVAL_MS);
+      feedState.timer.unref?.();
+    }
+  }
+}
+
+function broadcast(message: OpenProblemsFeedMessage) {
+  for (const listener of feedState.listeners) {
+    try {
+      listener(message);
+    } catch (error) {
+      console.warn("[open-problems-feed] Listener failed", error);
+    }
+  }
+}
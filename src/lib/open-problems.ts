@@ -9,17 +9,21 @@ import {
 } from "@/lib/zabbix";
 import { OpenProblemDetail, OpenProblemsResponse } from "@/types/dashboard";
 import { SEVERITY_LEVELS } from "@/lib/metrics";
+import { buildIncidentLifecycle, secondsUntil } from "@/lib/incident-lifecycle";
+import { resolveAlertVerdict } from "@/lib/alert-verdicts";
 
 const severityLabelMap = new Map(
   SEVERITY_LEVELS.map((level) => [level.key, level.label])
 );
 
-export async function listOpenProblems(): Promise<OpenProblemsResponse> {
+export async function listOpenProblems(options?: {
+  fresh?: boolean;
+}): Promise<OpenProblemsResponse> {
   const nowSeconds = Math.floor(Date.now() / 1000);
 
   const [hosts, problems] = await Promise.all([
     fetchHosts(),
-    fetchCurrentProblems(),
+    fetchCurrentProblems({ fresh: options?.fresh }),
   ]);
 
   const hostMap = new Map<string, ZabbixHost>();
@@ -69,14 +73,9 @@ function mapProblem(
   nowSeconds: number
 ): OpenProblemDetail {
   const startSeconds = Number(problem.clock);
-  const acknowledges = [...(problem.acknowledges ?? [])].sort(
-    (a, b) => Number(a.clock) - Number(b.clock)
-  );
-  const detectionDelta =
-    acknowledges.length > 0
-      ? Math.max(0, Number(acknowledges[0].clock) - startSeconds)
-      : null;
-  const responseDelta = detectionDelta;
+  const lifecycle = buildIncidentLifecycle(problem);
+  const detectionDelta = secondsUntil(lifecycle.acknowledgedAt, startSeconds);
+  const responseDelta = secondsUntil(lifecycle.respondedAt, startSeconds);
 
   const severity = Number(problem.severity ?? 0);
   const severityLabel =
@@ -102,15 +101,17 @@ function mapProblem(
     name: problem.name,
     severity,
     severityLabel,
+    acknowledged: problem.acknowledged === "1",
     openedAt: new Date(startSeconds * 1000).toISOString(),
     durationMinutes,
     detectionMinutes:
       detectionDelta !== null ? secondsToMinutes(detectionDelta) : null,
     responseMinutes:
-      responseDelta !== null ? secondsToMinutes(responseDelta ?? 0) : null,
+      responseDelta !== null ? secondsToMinutes(responseDelta) : null,
     hosts: hostInfos,
     groupNames: Array.from(groupSet),
     tags: problem.tags ?? [],
+    verdict: resolveAlertVerdict(problem.acknowledges),
   };
 }
 
@@ -0,0 +1,264 @@
+import { addMonths } from "date-fns";
+import { formatInTimeZone } from "date-fns-tz";
+import { ptBR } from "date-fns/locale";
+import { z } from "zod";
+import { PeriodPreset, PeriodQuery, PeriodRange } from "@/types/dashboard";
+
+const DEFAULT_TIMEZONE = process.env.DASHBOARD_TIMEZONE ?? "America/Sao_Paulo";
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_PERIOD_DAYS = 366;
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+const ISO_DATE_TIME =
+  /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:\d{2})$/;
+
+export type ResolvedPeriod = {
+  preset: PeriodPreset;
+  key: string;
+  label: string;
+  startSeconds: number;
+  /** Fim da apuração: períodos em andamento param em "agora". */
+  endSeconds: number;
+  periodEndSeconds: number;
+  previous: PeriodQuery;
+};
+
+/** Campos de query aceitos pelas rotas de métricas. */
+export const periodQueryFields = {
+  preset: z.enum(["month", "week", "quarter", "ytd", "custom"]).optional(),
+  month: z
+    .string()
+    .regex(/^\d{4}-\d{2}$/)
+    .optional(),
+  date: z.string().regex(ISO_DATE, "Use AAAA-MM-DD").optional(),
+  from: z.string().optional(),
+  to: z.string().optional(),
+};
+
+/** `superRefine` que reaproveita as validações de `resolvePeriod`. */
+export function refinePeriodQuery(value: PeriodQuery, ctx: z.RefinementCtx) {
+  try {
+    resolvePeriod(value);
+  } catch (error) {
+    ctx.addIssue({
+      code: "custom",
+      message: error instanceof Error ? error.message : "Período inválido.",
+    });
+  }
+}
+
+export function readPeriodQuery(
+  get: (key: string) => string | null | undefined
+): PeriodQuery {
+  const query: PeriodQuery = {};
+  const preset = get("preset");
+  if (preset) query.preset = preset as PeriodPreset;
+  for (const key of ["month", "date", "from", "to"] as const) {
+    const value = get(key);
+    if (value) query[key] = value;
+  }
+  return query;
+}
+
+/**
+ * Resolve o período pedido. Os dias começam às 00:00 UTC, o mesmo corte já
+ * usado nos meses, para que trimestre e ano batam com a soma dos meses.
+ * `from`/`to` só com data incluem o dia final; com hora, `to` é exclusivo.
+ */
+export function resolvePeriod(
+  query: PeriodQuery,
+  now = new Date()
+): ResolvedPeriod {
+  const preset: PeriodPreset =
+    query.preset ?? (query.from || query.to ? "custom" : "month");
+  const today = formatInTimeZone(now, DEFAULT_TIMEZONE, "yyyy-MM-dd");
+
+  let startMs: number;
+  let endMs: number;
+  let key: string;
+  let label: string;
+  let previous: PeriodQuery;
+
+  switch (preset) {
+    case "month": {
+      const month = query.month ?? today.slice(0, 7);
+      const [year, monthNumber] = month.split("-").map(Number);
+      if (!/^\d{4}-\d{2}$/.test(month) || monthNumber < 1 || monthNumber > 12) {
+        throw new Error("Formato de mês inválido. Use AAAA-MM.");
+      }
+      startMs = Date.UTC(year, monthNumber - 1, 1);
+      endMs = addMonths(startMs, 1).getTime();
+      key = month;
+      // Meio-dia do dia 1º: o nome do mês não muda com o fuso.
+      const labelDate = startMs + DAY_MS / 2;
+      label = formatInTimeZone(labelDate, DEFAULT_TIMEZONE, "MMMM yyyy", {
+        locale: ptBR,
+      });
+      previous = {
+        preset: "month",
+        month: formatUtc(addMonths(startMs, -1).getTime(), "yyyy-MM"),
+      };
+      break;
+    }
+    case "week": {
+      const anchor = parseDate(query.date ?? today);
+      startMs = anchor - ((new Date(anchor).getUTCDay() + 6) % 7) * DAY_MS;
+      endMs = startMs + 7 * DAY_MS;
+      // Semana ISO: pertence ao ano da sua quinta-feira.
+      const thursday = new Date(startMs + 3 * DAY_MS);
+      const weekYear = thursday.getUTCFullYear();
+      const week =
+        Math.floor(
+          (thursday.getTime() - Date.UTC(weekYear, 0, 1)) / (7 * DAY_MS)
+        ) + 1;
+      key = `${weekYear}-W${String(week).padStart(2, "0")}`;
+      label = `Semana ${week} · ${formatUtc(startMs, "dd/MM")} a ${formatUtc(
+        endMs - DAY_MS,
+        "dd/MM/yyyy"
+      )}`;
+      previous = {
+        preset: "week",
+        date: formatUtc(startMs - 7 * DAY_MS, "yyyy-MM-dd"),
+      };
+      break;
+    }
+    case "quarter": {
+      const anchor = new Date(parseDate(query.date ?? today));
+      const year = anchor.getUTCFullYear();
+      const quarter = Math.floor(anchor.getUTCMonth() / 3) + 1;
+      startMs = Date.UTC(year, (quarter - 1) * 3, 1);
+      endMs = addMonths(startMs, 3).getTime();
+      key = `${year}-Q${quarter}`;
+      label = `${quarter}º trimestre de ${year}`;
+      previous = {
+        preset: "quarter",
+        date: formatUtc(addMonths(startMs, -3).getTime(), "yyyy-MM-dd"),
+      };
+      break;
+    }
+    case "ytd": {
+      const anchorMs = parseDate(query.date ?? today);
+      const anchor = new Date(anchorMs);
+      const year = anchor.getUTCFullYear();
+      startMs = Date.UTC(year, 0, 1);
+      endMs = anchorMs + DAY_MS;
+      key = `${year}-YTD-${formatUtc(anchorMs, "MM-dd")}`;
+      label = `${year} até ${formatUtc(anchorMs, "dd/MM")}`;
+      // 29/02 vira 28/02 no ano anterior.
+      const previousDay = Math.min(
+        anchor.getUTCDate(),
+        new Date(Date.UTC(year - 1, anchor.getUTCMonth() + 1, 0)).getUTCDate()
+      );
+      previous = {
+        preset: "ytd",
+        date: formatUtc(
+          Date.UTC(year - 1, anchor.getUTCMonth(), previousDay),
+          "yyyy-MM-dd"
+        ),
+      };
+      break;
+    }
+    case "custom": {
+      if (!query.from || !query.to) {
+        throw new Error("Informe from e to para o período personalizado.");
+      }
+      const from = parseBoundary(query.from, false);
+      const to = parseBoundary(query.to, true);
+      startMs = from.ms;
+      endMs = to.ms;
+      if (endMs <= startMs) {
+        throw new Error("A data inicial deve ser anterior à data final.");
+      }
+      const dateOnly = from.dateOnly && to.dateOnly;
+      key = `${query.from}_${query.to}`;
+      label = dateOnly
+        ? `${formatUtc(startMs, "dd/MM/yyyy")} a ${formatUtc(
+            endMs - DAY_MS,
+            "dd/MM/yyyy"
+          )}`
+        : `${formatLocal(startMs)} a ${formatLocal(endMs)}`;
+      const span = endMs - startMs;
+      previous = dateOnly
+        ? {
+            preset: "custom",
+            from: formatUtc(startMs - span, "yyyy-MM-dd"),
+            to: formatUtc(startMs - DAY_MS, "yyyy-MM-dd"),
+          }
+        : {
+            preset: "custom",
+            from: new Date(startMs - span).toISOString(),
+            to: new Date(startMs).toISOString(),
+          };
+      break;
+    }
+    default:
+      throw new Error(
+        "Período inválido. Use month, week, quarter, ytd ou custom."
+      );
+  }
+
+  if (endMs - startMs > MAX_PERIOD_DAYS * DAY_MS) {
+    throw new Error(`O período máximo é de ${MAX_PERIOD_DAYS} dias.`);
+  }
+
+  // "Agora" arredondado ao minuto: telas abertas ao mesmo tempo geram as
+  // mesmas consultas e reaproveitam o cache do Zabbix.
+  const nowMs = Math.floor(now.getTime() / 60000) * 60000;
+  const effectiveEndMs = endMs > nowMs ? Math.max(startMs, nowMs) : endMs;
+
+  return {
+    preset,
+    key,
+    label,
+    startSeconds: Math.floor(startMs / 1000),
+    endSeconds: Math.floor(effectiveEndMs / 1000),
+    periodEndSeconds: Math.floor(endMs / 1000),
+    previous,
+  };
+}
+
+export function toPeriodRange(period: ResolvedPeriod): PeriodRange {
+  return {
+    preset: period.preset,
+    key: period.key,
+    label: period.label,
+    from: new Date(period.startSeconds * 1000).toISOString(),
+    to: new Date(period.periodEndSeconds * 1000).toISOString(),
+    asOf: new Date(period.endSeconds * 1000).toISOString(),
+    previous: {
+      query: period.previous,
+      label: resolvePeriod(period.previous).label,
+    },
+  };
+}
+
+function parseDate(value: string) {
+  const ms = Date.parse(`${value}T00:00:00Z`);
+  if (!ISO_DATE.test(value) || Number.isNaN(ms)) {
+    throw new Error("Data inválida. Use AAAA-MM-DD.");
+  }
+  return ms;
+}
+
+function parseBoundary(value: string, isEnd: boolean) {
+  if (ISO_DATE.test(value)) {
+    return { ms: parseDate(value) + (isEnd ? DAY_MS : 0), dateOnly: true };
+  }
+  const ms = Date.parse(value);
+  if (!ISO_DATE_TIME.test(value) || Number.isNaN(ms)) {
+    throw new Error(
+      "Datas inválidas. Use AAAA-MM-DD ou data e hora ISO 8601 com fuso."
+    );
+  }
+  return { ms, dateOnly: false };
+}
+
+function formatUtc(ms: number, pattern: string) {
+  return formatInTimeZone(ms, "UTC", pattern, { locale: ptBR });
+}
+
+function formatLocal(ms: number) {
+  return formatInTimeZone(ms, DEFAULT_TIMEZONE, "dd/MM/yyyy HH:mm", {
+    locale: ptBR,
+  });
+}
@@ -0,0 +1,184 @@
+import "server-only";
+
+import { createHmac, timingSafeEqual } from "node:crypto";
+import { formatInTimeZone } from "date-fns-tz";
+import { subMonths } from "date-fns";
+import { fetchHostGroups } from "@/lib/zabbix";
+import { getDashboardMetrics } from "@/lib/metrics-snapshots";
+import { listOpenProblems } from "@/lib/open-problems";
+import { RequestError } from "@/lib/request-error";
+import { buildTrends } from "@/lib/trends";
+import {
+  PortalHistoryMonth,
+  PortalLink,
+  PortalView,
+  TrendKpi,
+} from "@/types/dashboard";
+
+const DEFAULT_TIMEZONE = process.env.DASHBOARD_TIMEZONE ?? "America/Sao_Paulo";
+
+export const DEFAULT_PORTAL_LINK_DAYS = Math.max(
+  1,
+  Number(process.env.DASHBOARD_PORTAL_LINK_DAYS ?? "30") || 30
+);
+export const MAX_PORTAL_LINK_DAYS = 365;
+export const PORTAL_HISTORY_MONTHS = 6;
+
+type PortalTokenPayload = {
+  groupId: string;
+  exp: number;
+};
+
+function getPortalSecret() {
+  return (
+    process.env.DASHBOARD_PORTAL_SECRET ?? process.env.DASHBOARD_AUTH_SECRET
+  );
+}
+
+/** Links só são emitidos com `DASHBOARD_PORTAL_SECRET` (ou o segredo do login). */
+export function isPortalEnabled(): boolean {
+  return Boolean(getPortalSecret());
+}
+
+/**
+ * Gera o link assinado do portal de um host group. O token carrega apenas o
+ * grupo e a expiração; trocar o segredo invalida todos os links emitidos.
+ */
+export async function createPortalLink(
+  groupId: string,
+  days = DEFAULT_PORTAL_LINK_DAYS
+): Promise<PortalLink> {
+  if (!isPortalEnabled()) {
+    throw new Error(
+      "Defina DASHBOARD_PORTAL_SECRET para gerar links do portal."
+    );
+  }
+  const group = (await fetchHostGroups()).find(
+    (entry) => entry.groupid === groupId
+  );
+  if (!group) {
+    throw new RequestError(
+      `Host group ${groupId} não encontrado no Zabbix.`,
+      404
+    );
+  }
+
+  const validDays = Math.min(MAX_PORTAL_LINK_DAYS, Math.max(1, days));
+  const exp = Math.floor(Date.now() / 1000) + validDays * 24 * 60 * 60;
+  const payload: PortalTokenPayload = { groupId, exp };
+  const body = Buffer.from(JSON.stringify(payload)).toString("base64url");
+  return {
+    groupId,
+    groupName: group.name,
+    path: `/portal/${body}.${sign(body)}`,
+    expiresAt: new Date(exp * 1000).toISOString(),
+  };
+}
+
+export function verifyPortalToken(token: string): PortalTokenPayload | null {
+  if (!isPortalEnabled()) return null;
+  const [body, signature] = token.split(".");
+  if (!body || !signature) return null;
+
+  const expected = Buffer.from(sign(body));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  try {
+    const payload = JSON.parse(
+      Buffer.from(body, "base64url").toString("utf8")
+    ) as PortalTokenPayload;
+    if (!payload.groupId || payload.exp * 1000 <= Date.now()) return null;
+    return payload;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Monta o que o portal mostra: KPIs e disponibilidade do mês, problemas em
+ * aberto do grupo e o histórico dos últimos meses. Nada de ids de trigger,
+ * ACKs ou links para o Zabbix.
+ */
+export async function buildPortalView(input: {
+  groupId: string;
+  month: string;
+  expiresAt: number;
+}): Promise<PortalView> {
+  const historyFrom = formatInTimeZone(
+    subMonths(
+      new Date(`${input.month}-15T12:00:00Z`),
+      PORTAL_HISTORY_MONTHS - 1
+    ),
+    DEFAULT_TIMEZONE,
+    "yyyy-MM"
+  );
+  const [groups, metrics, openProblems] = await Promise.all([
+    fetchHostGroups(),
+    getDashboardMetrics({ month: input.month, groupId: input.groupId }),
+    listOpenProblems(),
+  ]);
+  const group = groups.find((entry) => entry.groupid === input.groupId);
+  if (!group) {
+    throw new Error("Host group não encontrado.");
+  }
+  // Tendências depois das métricas: o mês pedido já sai do snapshot/cache.
+  const trends = await buildTrends({
+    from: historyFrom,
+    to: input.month,
+    groupIds: [input.groupId],
+  });
+
+  const groupTrend = trends.groups.find(
+    (entry) => entry.groupid === input.groupId
+  );
+  const valueAt = (kpi: TrendKpi, index: number) =>
+    groupTrend?.series.find((series) => series.kpi === kpi)?.values[index] ??
+    null;
+  const history: PortalHistoryMonth[] = trends.months
+    .map((month, index) => ({
+      month: month.month,
+      label: month.label,
+      availabilityPct: valueAt("availabilityPct", index),
+      detectionMinutes: valueAt("detectionMinutes", index),
+      responseMinutes: valueAt("responseMinutes", index),
+      resolutionMinutes: valueAt("resolutionMinutes", index),
+      alerts: valueAt("alerts", index),
+      impactIncidents: valueAt("impactIncidents", index),
+    }))
+    .reverse();
+
+  return {
+    group: { groupid: group.groupid, name: group.name },
+    month: input.month,
+    period: metrics.meta.period,
+    kpis: metrics.kpis,
+    availability: metrics.availability,
+    totals: metrics.groupTotals,
+    severitySummary: metrics.severitySummary,
+    sla: metrics.sla ?? null,
+    openProblems: openProblems.problems
+      .filter((problem) => problem.groupNames.includes(group.name))
+      .map((problem) => ({
+        eventId: problem.eventId,
+        name: problem.name,
+        severity: problem.severity,
+        severityLabel: problem.severityLabel,
+        acknowledged: problem.acknowledged,
+        openedAt: problem.openedAt,
+        durationMinutes: problem.durationMinutes,
+        hosts: problem.hosts.map((host) => host.name),
+      })),
+    history,
+    generatedAt: new Date().toISOString(),
+    expiresAt: new Date(input.expiresAt * 1000).toISOString(),
+  };
+}
+
+function sign(value: string) {
+  return createHmac("sha256", `portal:${getPortalSecret() ?? ""}`)
+    .update(value)
+    .digest("base64url");
+}
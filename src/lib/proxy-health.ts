@@ -0,0 +1,249 @@
+import "server-only";
+
+import {
+  fetchCurrentProblems,
+  fetchHostsByProxyIds,
+  fetchProxies,
+  fetchProxiesByIds,
+  ZabbixProblem,
+  ZabbixProxy,
+  ZabbixProxyHost,
+} from "@/lib/zabbix";
+import { selectReachabilityProblems } from "@/lib/metrics";
+import { listOpenProblems } from "@/lib/open-problems";
+import {
+  ProxyDetailResponse,
+  ProxyHealthResponse,
+  ProxyHostRow,
+  ProxySummary,
+} from "@/types/dashboard";
+
+export const PROXY_STALE_MINUTES = Math.max(
+  1,
+  Number(process.env.DASHBOARD_PROXY_STALE_MINUTES ?? "5") || 5
+);
+export const PROXY_OUTAGE_WINDOW_MINUTES = Math.max(
+  1,
+  Number(process.env.DASHBOARD_PROXY_OUTAGE_WINDOW_MINUTES ?? "5") || 5
+);
+
+// Com um único host ativo não dá para distinguir queda do proxy e do host.
+const MIN_OUTAGE_HOSTS = 2;
+
+type OpenProblemIndex = {
+  problemsByHost: Map<string, Set<string>>;
+  unreachableSince: Map<string, number>;
+};
+
+export async function buildProxyHealth(): Promise<ProxyHealthResponse> {
+  const [proxies, problemIndex] = await Promise.all([
+    fetchProxies({ fresh: true }),
+    loadOpenProblemIndex(),
+  ]);
+  const hosts = await fetchHostsByProxyIds(
+    proxies.map((proxy) => proxy.proxyid)
+  );
+  const hostsByProxy = new Map<string, ZabbixProxyHost[]>();
+  for (const host of hosts) {
+    if (!host.proxy_hostid) continue;
+    const list = hostsByProxy.get(host.proxy_hostid) ?? [];
+    list.push(host);
+    hostsByProxy.set(host.proxy_hostid, list);
+  }
+
+  const nowSeconds = Math.floor(Date.now() / 1000);
+  const summaries = proxies
+    .map((proxy) =>
+      summarizeProxy(
+        proxy,
+        hostsByProxy.get(proxy.proxyid) ?? [],
+        problemIndex,
+        nowSeconds
+      )
+    )
+    .sort(
+      (a, b) =>
+        Number(Boolean(b.massOutage)) - Number(Boolean(a.massOutage)) ||
+        Number(b.lastSeenStatus !== "online") -
+          Number(a.lastSeenStatus !== "online") ||
+        a.name.localeCompare(b.name)
+    );
+
+  return {
+    proxies: summaries,
+    totals: {
+      proxies: summaries.length,
+      stale: summaries.filter((proxy) => proxy.lastSeenStatus !== "online")
+        .length,
+      massOutages: summaries.filter((proxy) => proxy.massOutage).length,
+      hosts: summaries.reduce((total, proxy) => total + proxy.hostCount, 0),
+      items: summaries.reduce((total, proxy) => total + proxy.itemCount, 0),
+      openProblems: summaries.reduce(
+        (total, proxy) => total + proxy.openProblemCount,
+        0
+      ),
+    },
+    staleAfterMinutes: PROXY_STALE_MINUTES,
+    outageWindowMinutes: PROXY_OUTAGE_WINDOW_MINUTES,
+    generatedAt: new Date().toISOString(),
+  };
+}
+
+export async function buildProxyDetail(
+  proxyid: string
+): Promise<ProxyDetailResponse | null> {
+  const [proxies, hosts, problemIndex, openProblems] = await Promise.all([
+    fetchProxiesByIds([proxyid], { fresh: true }),
+    fetchHostsByProxyIds([proxyid]),
+    loadOpenProblemIndex(),
+    listOpenProblems(),
+  ]);
+  const proxy = proxies[0];
+  if (!proxy) {
+    return null;
+  }
+
+  const hostIds = new Set(hosts.map((host) => host.hostid));
+  const hostRows: ProxyHostRow[] = hosts
+    .map((host) => {
+      const since = problemIndex.unreachableSince.get(host.hostid);
+      return {
+        hostid: host.hostid,
+        name: host.name,
+        alias:
+          host.inventory?.alias ||
+          host.inventory?.type_full ||
+          host.inventory?.os ||
+          null,
+        active: isActive(host),
+        groups: (host.groups ?? []).map((group) => group.name),
+        itemCount: Number(host.items ?? 0) || 0,
+        openProblemCount:
+          problemIndex.problemsByHost.get(host.hostid)?.size ?? 0,
+        unreachableSince:
+          since !== undefined ? new Date(since * 1000).toISOString() : null,
+      };
+    })
+    .sort(
+      (a, b) =>
+        Number(b.active) - Number(a.active) ||
+        Number(Boolean(b.unreachableSince)) -
+          Number(Boolean(a.unreachableSince)) ||
+        b.openProblemCount - a.openProblemCount ||
+        a.name.localeCompare(b.name)
+    );
+
+  return {
+    proxy: summarizeProxy(
+      proxy,
+      hosts,
+      problemIndex,
+      Math.floor(Date.now() / 1000)
+    ),
+    hosts: hostRows,
+    openProblems: openProblems.problems.filter((problem) =>
+      problem.hosts.some((host) => hostIds.has(host.hostid))
+    ),
+    staleAfterMinutes: PROXY_STALE_MINUTES,
+    outageWindowMinutes: PROXY_OUTAGE_WINDOW_MINUTES,
+    generatedAt: new Date().toISOString(),
+  };
+}
+
+function summarizeProxy(
+  proxy: ZabbixProxy,
+  hosts: ZabbixProxyHost[],
+  problemIndex: OpenProblemIndex,
+  nowSeconds: number
+): ProxySummary {
+  const activeHosts = hosts.filter(isActive);
+  const openProblems = new Set<string>();
+  for (const host of hosts) {
+    problemIndex.problemsByHost
+      .get(host.hostid)
+      ?.forEach((eventId) => openProblems.add(eventId));
+  }
+  const unreachable = activeHosts
+    .map((host) => problemIndex.unreachableSince.get(host.hostid))
+    .filter((since): since is number => since !== undefined);
+
+  // Queda em massa: todos os hosts ativos inalcançáveis, com início próximo.
+  let massOutage: ProxySummary["massOutage"] = null;
+  if (
+    activeHosts.length >= MIN_OUTAGE_HOSTS &&
+    unreachable.length === activeHosts.length
+  ) {
+    const first = Math.min(...unreachable);
+    const last = Math.max(...unreachable);
+    if (last - first <= PROXY_OUTAGE_WINDOW_MINUTES * 60) {
+      massOutage = {
+        since: new Date(first * 1000).toISOString(),
+        hostCount: activeHosts.length,
+      };
+    }
+  }
+
+  const lastAccess = Number(proxy.lastaccess ?? 0);
+  return {
+    proxyid: proxy.proxyid,
+    name: proxy.host,
+    mode: proxy.status === "6" ? "passive" : "active",
+    lastSeenAt:
+      lastAccess > 0 ? new Date(lastAccess * 1000).toISOString() : null,
+    lastSeenStatus:
+      lastAccess <= 0
+        ? "never"
+        : nowSeconds - lastAccess > PROXY_STALE_MINUTES * 60
+          ? "stale"
+          : "online",
+    hostCount: hosts.length,
+    activeHostCount: activeHosts.length,
+    disabledHostCount: hosts.length - activeHosts.length,
+    itemCount: activeHosts.reduce(
+      (total, host) => total + (Number(host.items ?? 0) || 0),
+      0
+    ),
+    openProblemCount: openProblems.size,
+    unreachableHostCount: unreachable.length,
+    massOutage,
+  };
+}
+
+async function loadOpenProblemIndex(): Promise<OpenProblemIndex> {
+  const problems = (await fetchCurrentProblems()).filter(
+    (problem) => !problem.r_eventid || problem.r_eventid === "0"
+  );
+  const reachability = await selectReachabilityProblems(problems);
+
+  const problemsByHost = new Map<string, Set<string>>();
+  forEachHost(problems, (hostid, problem) => {
+    const set = problemsByHost.get(hostid) ?? new Set<string>();
+    set.add(problem.eventid);
+    problemsByHost.set(hostid, set);
+  });
+  const unreachableSince = new Map<string, number>();
+  forEachHost(reachability, (hostid, problem) => {
+    const clock = Number(problem.clock);
+    if (!Number.isFinite(clock)) return;
+    unreachableSince.set(
+      hostid,
+      Math.min(unreachableSince.get(hostid) ?? clock, clock)
+    );
+  });
+  return { problemsByHost, unreachableSince };
+}
+
+function forEachHost(
+  problems: ZabbixProblem[],
+  callback: (hostid: string, problem: ZabbixProblem) => void
+) {
+  for (const problem of problems) {
+    for (const host of problem.hosts ?? []) {
+      if (host.hostid) callback(host.hostid, problem);
+    }
+  }
+}
+
+function isActive(host: ZabbixProxyHost) {
+  return host.status === undefined || host.status === "0";
+}
@@ -1,8 +1,5 @@
 import "server-only";
 
-import { addMonths } from "date-fns";
-import { formatInTimeZone } from "date-fns-tz";
-import { ptBR } from "date-fns/locale";
 import {
   fetchHostGroups,
   fetchHostsByIds,
@@ -14,21 +11,9 @@ import {
   ZabbixTrigger,
 } from "@/lib/zabbix";
 import { SEVERITY_LEVELS } from "@/lib/metrics";
-
-const DEFAULT_TIMEZONE =
-  process.env.DASHBOARD_TIMEZONE ?? "America/Sao_Paulo";
-const BUSINESS_START_HOUR = Number(
-  process.env.DASHBOARD_BUSINESS_START_HOUR ?? "7"
-);
-const BUSINESS_END_HOUR = Number(
-  process.env.DASHBOARD_BUSINESS_END_HOUR ?? "24"
-);
-const SHIFT_STEP_MINUTES = Number(
-  process.env.DASHBOARD_SHIFT_STEP_MINUTES ?? "5"
-);
-const SHIFT_STEP_MS = SHIFT_STEP_MINUTES * 60 * 1000;
-const BUSINESS_START_MINUTES = BUSINESS_START_HOUR * 60;
-const BUSINESS_END_MINUTES = BUSINESS_END_HOUR * 60;
+import { loadBusinessCalendarResolver } from "@/lib/business-calendar";
+import { resolvePeriod, toPeriodRange } from "@/lib/periods";
+import { PeriodQuery, PeriodRange } from "@/types/dashboard";
 
 const DEFAULT_REACHABILITY_ALERT_TYPES = [
   "ICMP",
@@ -76,7 +61,9 @@ export type ReachabilityReport = {
   scope: ReachabilityScope;
   groupId: string;
   groupLabel: string;
+  /** Rotulo do periodo (mes, semana, trimestre...); nome mantido por compatibilidade. */
   monthLabel: string;
+  range: PeriodRange;
   window: ReachabilityWindow;
   windowLabel: string;
   page: number;
@@ -96,13 +83,15 @@ export async function buildReachabilityReport(params: {
   groupId?: string;
   groupIds?: string[];
   scope?: ReachabilityScope;
-  month: string;
+  month?: string;
+  period?: PeriodQuery;
   window: ReachabilityWindow;
   page: number;
   pageSize: number;
 }): Promise<ReachabilityReport> {
-  const { groupId, month, window, page, pageSize } = params;
-  const { startSeconds, endSeconds, label } = getRangeFromMonth(month);
+  const { groupId, window, page, pageSize } = params;
+  const period = resolvePeriod(params.period ?? { month: params.month });
+  const { startSeconds, endSeconds, label } = period;
   const isAllScope = params.scope === "all" || groupId === "all";
   const selectedGroupIds = (params.groupIds ?? [])
     .map((value) => value.trim())
@@ -113,7 +102,13 @@ export async function buildReachabilityReport(params: {
     throw new Error("Host group nao informado.");
   }
 
-  const groups = await fetchHostGroups();
+  const [groups, resolveBusinessCalendar] = await Promise.all([
+    fetchHostGroups(),
+    loadBusinessCalendarResolver(),
+  ]);
+  const groupIdByName = new Map(
+    groups.map((entry) => [entry.name, entry.groupid])
+  );
   const relevantGroups = groups.filter((entry) =>
     isRelevantGroupName(entry.name)
   );
@@ -180,11 +175,6 @@ export async function buildReachabilityReport(params: {
     const totalSeconds = Math.max(0, problemEnd - problemStart);
     if (!totalSeconds) continue;
 
-    const split = splitSecondsByShift(problemStart, problemEnd);
-    const businessSeconds = split.business;
-    const windowSeconds = window === "business" ? businessSeconds : totalSeconds;
-    if (windowSeconds <= 0) continue;
-
     const severity = Number(problem.severity ?? 0);
     const severityLabel =
       severityLabelMap.get(severity) ?? `Severidade ${severity}`;
@@ -204,6 +194,17 @@ export async function buildReachabilityReport(params: {
     const targetGroupNames = isAllScope ? groupNames : [undefined];
 
     for (const groupName of targetGroupNames) {
+      const calendar = resolveBusinessCalendar(
+        groupName ? groupIdByName.get(groupName) : groupId
+      );
+      const businessSeconds = calendar.splitSeconds(
+        problemStart,
+        problemEnd
+      ).business;
+      const windowSeconds =
+        window === "business" ? businessSeconds : totalSeconds;
+      if (windowSeconds <= 0) continue;
+
       alerts.push({
         eventId: String(problem.eventid),
         triggerId,
@@ -216,9 +217,7 @@ export async function buildReachabilityReport(params: {
             ? new Date(resolvedSeconds * 1000).toISOString()
             : null,
         isOpen: !problem.r_eventid || problem.r_eventid === "0",
-        openedInBusinessWindow: isWithinBusinessWindow(
-          new Date(problemStart * 1000)
-        ),
+        openedInBusinessWindow: calendar.isBusinessTime(problemStart),
         groupName,
         alertType: info.alertType,
         itemKeys: [...info.itemKeys].sort((a, b) => a.localeCompare(b)),
@@ -256,9 +255,12 @@ export async function buildReachabilityReport(params: {
       selectionLabel ??
       "Todos os host groups",
     monthLabel: label,
+    range: toPeriodRange(period),
     window,
     windowLabel:
-      window === "business" ? formatBusinessWindowLabel() : "Periodo completo",
+      window === "business"
+        ? resolveBusinessCalendar(isAllScope ? undefined : groupId).label
+        : "Periodo completo",
     page: safePage,
     pageSize: safePageSize,
     total,
@@ -279,90 +281,6 @@ function secondsToMinutes(value: number): number {
   return value / 60;
 }
 
-function getRangeFromMonth(month: string): {
-  startSeconds: number;
-  endSeconds: number;
-  label: string;
-} {
-  const [yearStr, monthStr] = month.split("-");
-  const year = Number(yearStr);
-  const monthIndex = Number(monthStr) - 1;
-  if (Number.isNaN(year) || Number.isNaN(monthIndex)) {
-    throw new Error("Formato de mes invalido. Use AAAA-MM.");
-  }
-
-  const startDate = new Date(Date.UTC(year, monthIndex, 1, 0, 0, 0));
-  const endDate = addMonths(startDate, 1);
-  const now = new Date();
-  const currentMonth = formatInTimeZone(now, DEFAULT_TIMEZONE, "yyyy-MM");
-  const isCurrentMonth = `${yearStr}-${monthStr}` === currentMonth;
-  const effectiveEndMs = isCurrentMonth
-    ? Math.min(endDate.getTime(), now.getTime())
-    : endDate.getTime();
-  const labelDate = new Date(Date.UTC(year, monthIndex, 1, 12, 0, 0));
-
-  return {
-    startSeconds: Math.floor(startDate.getTime() / 1000),
-    endSeconds: Math.floor(effectiveEndMs / 1000),
-    label: formatInTimeZone(labelDate, DEFAULT_TIMEZONE, "MMMM yyyy", {
-      locale: ptBR,
-    }),
-  };
-}
-
-function formatBusinessWindowLabel(): string {
-  const startLabel = `${BUSINESS_START_HOUR}h`;
-  const endLabel = BUSINESS_END_HOUR >= 24 ? "23:59" : `${BUSINESS_END_HOUR}h`;
-  return `${startLabel}-${endLabel} (${DEFAULT_TIMEZONE})`;
-}
-
-function splitSecondsByShift(
-  startSeconds: number,
-  endSeconds: number
-): { business: number; off: number } {
-  if (endSeconds <= startSeconds) {
-    return { business: 0, off: 0 };
-  }
-
-  let business = 0;
-  let offHours = 0;
-  let cursor = startSeconds * 1000;
-  const limit = endSeconds * 1000;
-
-  while (cursor < limit) {
-    const next = Math.min(cursor + SHIFT_STEP_MS, limit);
-    const duration = next - cursor;
-    const minutesOfDay = getMinutesOfDay(new Date(cursor));
-    const isBusiness =
-      minutesOfDay >= BUSINESS_START_MINUTES &&
-      minutesOfDay < BUSINESS_END_MINUTES;
-
-    if (isBusiness) {
-      business += duration / 1000;
-    } else {
-      offHours += duration / 1000;
-    }
-
-    cursor = next;
-  }
-
-  return { business, off: offHours };
-}
-
-function getMinutesOfDay(date: Date) {
-  const hours = Number(formatInTimeZone(date, DEFAULT_TIMEZONE, "H"));
-  const minutes = Number(formatInTimeZone(date, DEFAULT_TIMEZONE, "m"));
-  return hours * 60 + minutes;
-}
-
-function isWithinBusinessWindow(date: Date): boolean {
-  const minutesOfDay = getMinutesOfDay(date);
-  return (
-    minutesOfDay >= BUSINESS_START_MINUTES &&
-    minutesOfDay < BUSINESS_END_MINUTES
-  );
-}
-
 function isRelevantGroupName(name: string) {
   const normalized = name.trim().toLowerCase();
   if (!normalized) return false;
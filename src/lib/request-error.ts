@@ -0,0 +1,13 @@
+/**
+ * Erro causado pelos parâmetros da requisição (e não pelo Zabbix): as rotas
+ * devolvem `status` em vez de 500.
+ */
+export class RequestError extends Error {
+  readonly status: 400 | 404;
+
+  constructor(message: string, status: 400 | 404 = 400) {
+    super(message);
+    this.name = "RequestError";
+    this.status = status;
+  }
+}
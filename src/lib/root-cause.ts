@@ -0,0 +1,226 @@
+import "server-only";
+import {
+  fetchHostsByTechnicalNames,
+  fetchProblems,
+  fetchProxiesByIds,
+  fetchRecoveryEvents,
+  fetchTriggerDependencies,
+  ZabbixHost,
+  ZabbixProblem,
+} from "@/lib/zabbix";
+import { Interval, mergeIntervals } from "@/lib/intervals";
+
+const ROOT_CAUSE_ENABLED =
+  process.env.DASHBOARD_ROOT_CAUSE_ATTRIBUTION !== "false";
+
+// Limite de níveis seguidos na cadeia de dependências (switch → roteador → ...).
+const MAX_DEPENDENCY_DEPTH = 5;
+
+export type RootCauseOutage = {
+  key: string;
+  kind: "trigger" | "proxy";
+  name: string;
+  hostName: string | null;
+  intervals: Interval[];
+};
+
+export type RootCauseResolver = {
+  /**
+   * Causas que explicam um problema do host: triggers dos quais o trigger do
+   * problema depende e, para alertas de alcançabilidade, o proxy do host.
+   */
+  causesFor(params: {
+    triggerId?: string;
+    hostid: string;
+    reachability: boolean;
+  }): RootCauseOutage[];
+};
+
+const EMPTY_RESOLVER: RootCauseResolver = { causesFor: () => [] };
+
+/**
+ * Carrega as quedas "pai" do período: problemas dos triggers dos quais os
+ * triggers em `triggerIds` dependem (em qualquer nível) e quedas dos proxies
+ * que monitoram `hosts`. A queda de um proxy é medida pelos problemas do host
+ * com o mesmo nome técnico do proxy que `selectOutages` considerar queda.
+ */
+export async function loadRootCauseResolver(params: {
+  hosts: ZabbixHost[];
+  triggerIds: string[];
+  timeFrom: number;
+  timeTill: number;
+  selectOutages: (problems: ZabbixProblem[]) => Promise<ZabbixProblem[]>;
+}): Promise<RootCauseResolver> {
+  if (!ROOT_CAUSE_ENABLED) {
+    return EMPTY_RESOLVER;
+  }
+
+  const proxyIds = Array.from(
+    new Set(
+      params.hosts
+        .map((host) => host.proxy_hostid)
+        .filter((id): id is string => Boolean(id && id !== "0"))
+    )
+  );
+  const [ancestors, proxyHosts] = await Promise.all([
+    loadTriggerAncestors(params.triggerIds),
+    loadProxyHosts(proxyIds),
+  ]);
+  const parentTriggerIds = Array.from(
+    new Set(Array.from(ancestors.values()).flat())
+  );
+  if (!parentTriggerIds.length && !proxyHosts.size) {
+    return EMPTY_RESOLVER;
+  }
+
+  const [parentProblems, proxyProblems] = await Promise.all([
+    parentTriggerIds.length
+      ? fetchProblems({
+          triggerIds: parentTriggerIds,
+          timeFrom: params.timeFrom,
+          timeTill: params.timeTill,
+        })
+      : Promise.resolve([]),
+    proxyHosts.size
+      ? fetchProblems({
+          hostIds: Array.from(proxyHosts.values()).map((host) => host.hostid),
+          timeFrom: params.timeFrom,
+          timeTill: params.timeTill,
+        }).then(params.selectOutages)
+      : Promise.resolve([]),
+  ]);
+  const recoveryMap = await fetchRecoveryEvents(
+    [...parentProblems, ...proxyProblems]
+      .map((problem) => problem.r_eventid)
+      .filter((id): id is string => Boolean(id && id !== "0"))
+  );
+  const toInterval = (problem: ZabbixProblem): Interval | null => {
+    const start = Math.max(Number(problem.clock), params.timeFrom);
+    const rawEnd = problem.r_eventid
+      ? Number(recoveryMap[problem.r_eventid]?.clock)
+      : NaN;
+    const end = Math.min(
+      Number.isFinite(rawEnd) ? rawEnd : params.timeTill,
+      params.timeTill
+    );
+    return Number.isFinite(start) && end > start ? { start, end } : null;
+  };
+
+  const triggerOutages = new Map<string, RootCauseOutage>();
+  for (const problem of parentProblems) {
+    const interval = toInterval(problem);
+    if (!interval || !problem.objectid) continue;
+    const outage = triggerOutages.get(problem.objectid) ?? {
+      key: `trigger:${problem.objectid}`,
+      kind: "trigger" as const,
+      name: problem.name,
+      hostName: problem.hosts?.[0]?.name ?? null,
+      intervals: [],
+    };
+    outage.intervals.push(interval);
+    triggerOutages.set(problem.objectid, outage);
+  }
+
+  const proxyOutages = new Map<string, RootCauseOutage>();
+  for (const [proxyId, proxyHost] of proxyHosts.entries()) {
+    const intervals = proxyProblems
+      .filter((problem) =>
+        problem.hosts?.some((host) => host.hostid === proxyHost.hostid)
+      )
+      .map(toInterval)
+      .filter((interval): interval is Interval => interval !== null);
+    if (!intervals.length) continue;
+    proxyOutages.set(proxyId, {
+      key: `proxy:${proxyId}`,
+      kind: "proxy",
+      name: `Proxy ${proxyHost.host ?? proxyHost.name}`,
+      hostName: proxyHost.name,
+      intervals: mergeIntervals(intervals),
+    });
+  }
+  for (const outage of triggerOutages.values()) {
+    outage.intervals = mergeIntervals(outage.intervals);
+  }
+
+  const hostProxy = new Map<string, string>();
+  const proxyHostIds = new Set(
+    Array.from(proxyHosts.values()).map((host) => host.hostid)
+  );
+  for (const host of params.hosts) {
+    if (host.proxy_hostid && host.proxy_hostid !== "0") {
+      hostProxy.set(host.hostid, host.proxy_hostid);
+    }
+  }
+
+  return {
+    causesFor({ triggerId, hostid, reachability }) {
+      const causes: RootCauseOutage[] = [];
+      for (const parentId of triggerId
+        ? (ancestors.get(triggerId) ?? [])
+        : []) {
+        const outage = triggerOutages.get(parentId);
+        if (outage) causes.push(outage);
+      }
+      // O próprio host do proxy não é colateral da sua queda.
+      const proxyId = hostProxy.get(hostid);
+      if (reachability && proxyId && !proxyHostIds.has(hostid)) {
+        const outage = proxyOutages.get(proxyId);
+        if (outage) causes.push(outage);
+      }
+      return causes;
+    },
+  };
+}
+
+async function loadTriggerAncestors(
+  triggerIds: string[]
+): Promise<Map<string, string[]>> {
+  const parents = new Map<string, string[]>();
+  let pending = Array.from(new Set(triggerIds));
+  for (let depth = 0; depth < MAX_DEPENDENCY_DEPTH && pending.length; depth++) {
+    const triggers = await fetchTriggerDependencies(pending);
+    const next: string[] = [];
+    for (const trigger of triggers) {
+      const direct = (trigger.dependencies ?? []).map((dep) => dep.triggerid);
+      parents.set(trigger.triggerid, direct);
+      next.push(...direct.filter((id) => !parents.has(id)));
+    }
+    pending = Array.from(new Set(next));
+  }
+
+  const ancestors = new Map<string, string[]>();
+  const collect = (triggerId: string, seen: Set<string>) => {
+    for (const parentId of parents.get(triggerId) ?? []) {
+      if (seen.has(parentId)) continue;
+      seen.add(parentId);
+      collect(parentId, seen);
+    }
+    return seen;
+  };
+  for (const triggerId of triggerIds) {
+    const found = collect(triggerId, new Set<string>());
+    if (found.size) {
+      ancestors.set(triggerId, Array.from(found));
+    }
+  }
+  return ancestors;
+}
+
+async function loadProxyHosts(
+  proxyIds: string[]
+): Promise<Map<string, ZabbixHost>> {
+  if (!proxyIds.length) return new Map();
+  const proxies = await fetchProxiesByIds(proxyIds);
+  const hosts = await fetchHostsByTechnicalNames(
+    proxies.map((proxy) => proxy.host)
+  );
+  const hostByName = new Map(hosts.map((host) => [host.host, host]));
+  const result = new Map<string, ZabbixHost>();
+  for (const proxy of proxies) {
+    const host = hostByName.get(proxy.host);
+    if (host) {
+      result.set(proxy.proxyid, host);
+    }
+  }
+  return result;
+}
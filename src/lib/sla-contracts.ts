@@ -0,0 +1,197 @@
+import "server-only";
+import { readJsonFile, updateJsonFile } from "@/lib/data-store";
+import {
+  SlaCheck,
+  SlaContract,
+  SlaEvaluation,
+  SlaTargetKey,
+  SlaTargets,
+} from "@/types/dashboard";
+
+const SLA_CONTRACTS_FILE = "sla-contracts.json";
+
+export const SLA_TARGET_KEYS: SlaTargetKey[] = [
+  "availabilityPct",
+  "businessAvailabilityPct",
+  "reachabilityPct",
+  "detectionMinutes",
+  "responseMinutes",
+  "resolutionMinutes",
+];
+
+const LOWER_IS_BETTER = new Set<SlaTargetKey>([
+  "detectionMinutes",
+  "responseMinutes",
+  "resolutionMinutes",
+]);
+
+const DEFAULT_SLA_TARGETS: SlaTargets = {
+  availabilityPct: parseTarget(process.env.DASHBOARD_SLA_AVAILABILITY_PCT, 99.5),
+  businessAvailabilityPct: parseTarget(
+    process.env.DASHBOARD_SLA_BUSINESS_AVAILABILITY_PCT,
+    99.0
+  ),
+  reachabilityPct: parseTarget(process.env.DASHBOARD_SLA_REACHABILITY_PCT, 99.5),
+  detectionMinutes: parseTarget(process.env.DASHBOARD_SLA_DETECTION_MINUTES, 5),
+  responseMinutes: parseTarget(process.env.DASHBOARD_SLA_RESPONSE_MINUTES, 15),
+  resolutionMinutes: parseTarget(
+    process.env.DASHBOARD_SLA_RESOLUTION_MINUTES,
+    60
+  ),
+};
+
+type StoredContract = {
+  name: string | null;
+  targets: Partial<SlaTargets>;
+  updatedAt: string;
+};
+
+type ContractStore = {
+  contracts: Record<string, StoredContract>;
+};
+
+export type SlaActuals = Record<SlaTargetKey, number>;
+
+export function getDefaultSlaTargets(): SlaTargets {
+  return { ...DEFAULT_SLA_TARGETS };
+}
+
+export async function listSlaContracts(): Promise<SlaContract[]> {
+  const store = await readStore();
+  return Object.entries(store.contracts)
+    .map(([groupid, contract]) => toContract(groupid, contract))
+    .sort((a, b) => (a.name ?? a.groupid).localeCompare(b.name ?? b.groupid));
+}
+
+export async function getSlaContract(groupid: string): Promise<SlaContract> {
+  const store = await readStore();
+  return toContract(groupid, store.contracts[groupid]);
+}
+
+/**
+ * Carrega todos os contratos de uma vez para o cálculo de métricas, evitando
+ * reler o arquivo para cada host group.
+ */
+export async function loadSlaContractResolver(): Promise<
+  (groupid: string | null | undefined) => SlaContract
+> {
+  const store = await readStore();
+  return (groupid) =>
+    groupid
+      ? toContract(groupid, store.contracts[groupid])
+      : toContract("", undefined);
+}
+
+export async function saveSlaContract(
+  groupid: string,
+  input: { name?: string | null; targets: Partial<SlaTargets> }
+): Promise<SlaContract> {
+  const updated = await updateJsonFile<ContractStore>(
+    SLA_CONTRACTS_FILE,
+    { contracts: {} },
+    (store) => {
+      const previous = store.contracts[groupid];
+      return {
+        contracts: {
+          ...store.contracts,
+          [groupid]: {
+            name: input.name ?? previous?.name ?? null,
+            targets: sanitizeTargets({
+              ...(previous?.targets ?? {}),
+              ...input.targets,
+            }),
+            updatedAt: new Date().toISOString(),
+          },
+        },
+      };
+    }
+  );
+  return toContract(groupid, updated.contracts[groupid]);
+}
+
+export async function deleteSlaContract(groupid: string): Promise<boolean> {
+  let removed = false;
+  await updateJsonFile<ContractStore>(
+    SLA_CONTRACTS_FILE,
+    { contracts: {} },
+    (store) => {
+      if (!store.contracts[groupid]) {
+        return store;
+      }
+      removed = true;
+      const contracts = { ...store.contracts };
+      delete contracts[groupid];
+      return { contracts };
+    }
+  );
+  return removed;
+}
+
+export function evaluateSla(
+  contract: SlaContract,
+  actuals: SlaActuals
+): SlaEvaluation {
+  const checks: SlaCheck[] = [];
+  for (const key of SLA_TARGET_KEYS) {
+    const target = contract.targets[key];
+    const actual = actuals[key];
+    if (target === null || !Number.isFinite(actual)) {
+      continue;
+    }
+    const met = LOWER_IS_BETTER.has(key) ? actual <= target : actual >= target;
+    checks.push({ key, target, actual, met });
+  }
+  const breaches = checks.filter((check) => !check.met).map((check) => check.key);
+
+  return {
+    status: breaches.length ? "breached" : "met",
+    targets: contract.targets,
+    checks,
+    breaches,
+    isDefaultContract: contract.isDefault,
+  };
+}
+
+async function readStore(): Promise<ContractStore> {
+  const store = await readJsonFile<ContractStore>(SLA_CONTRACTS_FILE);
+  return store?.contracts ? store : { contracts: {} };
+}
+
+function toContract(
+  groupid: string,
+  stored: StoredContract | undefined
+): SlaContract {
+  const overrides = sanitizeTargets(stored?.targets ?? {});
+  return {
+    groupid,
+    name: stored?.name ?? null,
+    targets: { ...DEFAULT_SLA_TARGETS, ...overrides },
+    overrides,
+    updatedAt: stored?.updatedAt ?? null,
+    isDefault: !stored,
+  };
+}
+
+function sanitizeTargets(targets: Partial<SlaTargets>): Partial<SlaTargets> {
+  const sanitized: Partial<SlaTargets> = {};
+  for (const key of SLA_TARGET_KEYS) {
+    const value = targets[key];
+    if (value === null) {
+      sanitized[key] = null;
+    } else if (typeof value === "number" && Number.isFinite(value)) {
+      sanitized[key] = value;
+    }
+  }
+  return sanitized;
+}
+
+function parseTarget(value: string | undefined, fallback: number) {
+  if (value === undefined || value === "") {
+    return fallback;
+  }
+  if (value === "none") {
+    return null;
+  }
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : fallback;
+}
@@ -0,0 +1,227 @@
+import "server-only";
+import { randomUUID } from "node:crypto";
+import net from "node:net";
+import os from "node:os";
+import tls from "node:tls";
+
+const SMTP_HOST = process.env.DASHBOARD_SMTP_HOST ?? "";
+// 465 usa TLS implícito; nas demais portas o STARTTLS é usado quando oferecido.
+const SMTP_SECURE = process.env.DASHBOARD_SMTP_SECURE === "true";
+const SMTP_PORT =
+  Number(process.env.DASHBOARD_SMTP_PORT ?? (SMTP_SECURE ? "465" : "25")) || 25;
+const SMTP_STARTTLS = process.env.DASHBOARD_SMTP_STARTTLS !== "false";
+const SMTP_USER = process.env.DASHBOARD_SMTP_USER ?? "";
+const SMTP_PASSWORD = process.env.DASHBOARD_SMTP_PASSWORD ?? "";
+const SMTP_FROM = process.env.DASHBOARD_SMTP_FROM ?? "";
+const SMTP_TIMEOUT_MS = 15_000;
+
+type SmtpReply = {
+  code: number;
+  lines: string[];
+};
+
+type SmtpSocket = net.Socket | tls.TLSSocket;
+
+export type MailMessage = {
+  to: string[];
+  subject: string;
+  text: string;
+};
+
+export function isSmtpConfigured() {
+  return Boolean(SMTP_HOST && SMTP_FROM);
+}
+
+/**
+ * Cliente SMTP mínimo (EHLO, STARTTLS, AUTH PLAIN, uma mensagem por conexão)
+ * para os avisos do dashboard, sem depender de biblioteca de e-mail.
+ */
+export async function sendMail(message: MailMessage): Promise<void> {
+  if (!isSmtpConfigured()) {
+    throw new Error(
+      "SMTP não configurado (DASHBOARD_SMTP_HOST e DASHBOARD_SMTP_FROM)."
+    );
+  }
+  if (!message.to.length) {
+    throw new Error("Nenhum destinatário informado.");
+  }
+
+  let socket = await openSocket();
+  try {
+    let session = createSession(socket);
+    await session.expect([220], "saudação");
+    const helo = `EHLO ${os.hostname() || "localhost"}`;
+    const ehlo = await session.command(helo, [250]);
+
+    if (
+      !SMTP_SECURE &&
+      SMTP_STARTTLS &&
+      ehlo.lines.some((line) => /^STARTTLS\b/i.test(line))
+    ) {
+      await session.command("STARTTLS", [220]);
+      session.dispose();
+      socket = await upgradeSocket(socket);
+      session = createSession(socket);
+      await session.command(helo, [250]);
+    }
+
+    if (SMTP_USER) {
+      const credentials = Buffer.from(
+        `\0${SMTP_USER}\0${SMTP_PASSWORD}`,
+        "utf8"
+      ).toString("base64");
+      await session.command(`AUTH PLAIN ${credentials}`, [235], "AUTH");
+    }
+
+    await session.command(`MAIL FROM:<${extractAddress(SMTP_FROM)}>`, [250]);
+    for (const recipient of message.to) {
+      await session.command(`RCPT TO:<${recipient}>`, [250, 251]);
+    }
+    await session.command("DATA", [354]);
+    await session.command(`${buildMessage(message)}\r\n.`, [250], "DATA");
+    await session.command("QUIT", [221]).catch(() => undefined);
+    session.dispose();
+  } finally {
+    socket.destroy();
+  }
+}
+
+function openSocket(): Promise<SmtpSocket> {
+  return new Promise((resolve, reject) => {
+    const socket: SmtpSocket = SMTP_SECURE
+      ? tls.connect({ host: SMTP_HOST, port: SMTP_PORT, servername: SMTP_HOST })
+      : net.connect({ host: SMTP_HOST, port: SMTP_PORT });
+    watchTimeout(socket);
+    socket.once("error", reject);
+    socket.once(SMTP_SECURE ? "secureConnect" : "connect", () => {
+      socket.off("error", reject);
+      resolve(socket);
+    });
+  });
+}
+
+function upgradeSocket(socket: SmtpSocket): Promise<SmtpSocket> {
+  return new Promise((resolve, reject) => {
+    const secure = tls.connect({ socket, servername: SMTP_HOST });
+    watchTimeout(secure);
+    secure.once("error", reject);
+    secure.once("secureConnect", () => {
+      secure.off("error", reject);
+      resolve(secure);
+    });
+  });
+}
+
+function watchTimeout(socket: SmtpSocket) {
+  socket.setTimeout(SMTP_TIMEOUT_MS, () =>
+    socket.destroy(new Error("Tempo esgotado na conversa com o servidor SMTP."))
+  );
+}
+
+function createSession(socket: SmtpSocket) {
+  let buffer = "";
+  let pendingLines: string[] = [];
+  let failure: Error | null = null;
+  const replies: SmtpReply[] = [];
+  const waiters: Array<{
+    resolve: (reply: SmtpReply) => void;
+    reject: (error: Error) => void;
+  }> = [];
+
+  const onData = (chunk: Buffer) => {
+    buffer += chunk.toString("utf8");
+    let index = buffer.indexOf("\n");
+    while (index >= 0) {
+      const line = buffer.slice(0, index).replace(/\r$/, "");
+      buffer = buffer.slice(index + 1);
+      pendingLines.push(line);
+      // Respostas com várias linhas usam "250-" até a última ("250 ").
+      if (line.charAt(3) !== "-") {
+        const reply = {
+          code: Number(line.slice(0, 3)),
+          lines: pendingLines.map((entry) => entry.slice(4)),
+        };
+        pendingLines = [];
+        const waiter = waiters.shift();
+        if (waiter) {
+          waiter.resolve(reply);
+        } else {
+          replies.push(reply);
+        }
+      }
+      index = buffer.indexOf("\n");
+    }
+  };
+  const onError = (error: Error) => {
+    failure = error;
+    waiters.splice(0).forEach((waiter) => waiter.reject(error));
+  };
+  const onClose = () =>
+    onError(failure ?? new Error("O servidor SMTP encerrou a conexão."));
+
+  socket.on("data", onData);
+  socket.on("error", onError);
+  socket.on("close", onClose);
+
+  const read = (): Promise<SmtpReply> => {
+    const reply = replies.shift();
+    if (reply) return Promise.resolve(reply);
+    if (failure) return Promise.reject(failure);
+    return new Promise((resolve, reject) => waiters.push({ resolve, reject }));
+  };
+
+  const expect = async (codes: number[], label: string) => {
+    const reply = await read();
+    if (!codes.includes(reply.code)) {
+      throw new Error(
+        `Servidor SMTP recusou ${label}: ${reply.code} ${reply.lines.join(" ")}`.trim()
+      );
+    }
+    return reply;
+  };
+
+  return {
+    expect,
+    command(line: string, codes: number[], label = line.split(/[ :]/)[0]) {
+      socket.write(`${line}\r\n`);
+      return expect(codes, label);
+    },
+    dispose() {
+      socket.off("data", onData);
+      socket.off("error", onError);
+      socket.off("close", onClose);
+    },
+  };
+}
+
+function buildMessage(message: MailMessage) {
+  // Corpo em base64: linhas curtas e sem risco de "." isolado no DATA.
+  const body =
+    Buffer.from(message.text, "utf8")
+      .toString("base64")
+      .match(/.{1,76}/g)
+      ?.join("\r\n") ?? "";
+  const domain = extractAddress(SMTP_FROM).split("@")[1] ?? "localhost";
+  const headers = [
+    `From: ${SMTP_FROM}`,
+    `To: ${message.to.join(", ")}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: <${randomUUID()}@${domain}>`,
+    "MIME-Version: 1.0",
+    "Content-Type: text/plain; charset=utf-8",
+    "Content-Transfer-Encoding: base64",
+  ];
+  return `${headers.join("\r\n")}\r\n\r\n${body}`;
+}
+
+function encodeHeader(value: string) {
+  const singleLine = value.replace(/[\r\n]+/g, " ");
+  return /^[\x20-\x7e]*$/.test(singleLine)
+    ? singleLine
+    : `=?UTF-8?B?${Buffer.from(singleLine, "utf8").toString("base64")}?=`;
+}
+
+function extractAddress(value: string) {
+  return value.match(/<([^>]+)>/)?.[1] ?? value.trim();
+}
@@ -0,0 +1,515 @@
+import type { ReachabilityAlertRecord } from "@/lib/reachability-report";
+import {
+  AlertNoiseEntry,
+  AvailabilityInsights,
+  CriticalAlertHighlight,
+  ExportColumn,
+  ExportSheet,
+  GroupAlertDetail,
+  GroupAlertRecord,
+  HostGroupMetric,
+  HostMetric,
+  OpenProblemDetail,
+} from "@/types/dashboard";
+
+/**
+ * Definições das planilhas exportadas. O módulo não depende do servidor: a
+ * tela monta as mesmas planilhas com os dados já filtrados e as envia para
+ * `POST /api/exports/xlsx`, enquanto as rotas de relatório usam direto.
+ */
+
+const SEVERITY_COLUMN: ExportColumn = {
+  key: "severity",
+  header: "Severidade",
+  type: "integer",
+  width: 11,
+};
+
+export function buildGroupSummarySheet(groups: HostGroupMetric[]): ExportSheet {
+  return {
+    name: "Host groups",
+    columns: [
+      { key: "name", header: "Host group", type: "text", width: 36 },
+      { key: "hosts", header: "Hosts ativos", type: "integer" },
+      { key: "inactiveHosts", header: "Hosts inativos", type: "integer" },
+      { key: "alerts", header: "Alertas", type: "integer" },
+      { key: "openAlerts", header: "Alertas em aberto", type: "integer" },
+      {
+        key: "impactIncidents",
+        header: "Incidentes com impacto",
+        type: "integer",
+      },
+      { key: "detectionMinutes", header: "Detecção", type: "duration" },
+      { key: "responseMinutes", header: "Resposta", type: "duration" },
+      { key: "resolutionMinutes", header: "Resolução", type: "duration" },
+      { key: "availabilityPct", header: "Disponibilidade", type: "percent" },
+      {
+        key: "businessAvailabilityPct",
+        header: "Disponibilidade comercial",
+        type: "percent",
+      },
+      {
+        key: "reachabilityPct",
+        header: "Disponibilidade host",
+        type: "percent",
+      },
+      {
+        key: "businessReachabilityPct",
+        header: "Disponibilidade host comercial",
+        type: "percent",
+      },
+      {
+        key: "maintenanceExcludedMinutes",
+        header: "Manutenção excluída",
+        type: "duration",
+      },
+      { key: "slaStatus", header: "SLA", type: "text", width: 14 },
+    ],
+    rows: groups.map((group) => ({
+      name: group.name,
+      hosts: group.hosts,
+      inactiveHosts: group.inactiveHosts,
+      alerts: group.alerts,
+      openAlerts: group.openAlerts,
+      impactIncidents: group.impactIncidents,
+      detectionMinutes: group.detectionMinutes,
+      responseMinutes: group.responseMinutes,
+      resolutionMinutes: group.resolutionMinutes,
+      availabilityPct: group.availabilityPct,
+      businessAvailabilityPct: group.businessAvailabilityPct,
+      reachabilityPct: group.reachabilityPct,
+      businessReachabilityPct: group.businessReachabilityPct,
+      maintenanceExcludedMinutes: group.maintenanceExcludedMinutes ?? null,
+      slaStatus: group.sla
+        ? group.sla.status === "breached"
+          ? "Violado"
+          : "Cumprido"
+        : null,
+    })),
+  };
+}
+
+export function buildHostsSheet(hosts: HostMetric[]): ExportSheet {
+  return {
+    name: "Hosts",
+    columns: [
+      { key: "name", header: "Host", type: "text", width: 36 },
+      { key: "eventCount", header: "Alertas", type: "integer" },
+      { key: "openEventCount", header: "Alertas em aberto", type: "integer" },
+      { key: "detectionMinutes", header: "Detecção", type: "duration" },
+      { key: "responseMinutes", header: "Resposta", type: "duration" },
+      { key: "resolutionMinutes", header: "Resolução", type: "duration" },
+      { key: "availabilityPct", header: "Disponibilidade", type: "percent" },
+      {
+        key: "businessAvailabilityPct",
+        header: "Disponibilidade comercial",
+        type: "percent",
+      },
+      {
+        key: "reachabilityPct",
+        header: "Disponibilidade host",
+        type: "percent",
+      },
+      {
+        key: "businessReachabilityPct",
+        header: "Disponibilidade host comercial",
+        type: "percent",
+      },
+    ],
+    rows: hosts.map((host) => ({
+      name: host.name,
+      eventCount: host.eventCount,
+      openEventCount: host.openEventCount,
+      detectionMinutes: host.detectionMinutes,
+      responseMinutes: host.responseMinutes,
+      resolutionMinutes: host.resolutionMinutes,
+      availabilityPct: host.availabilityPct,
+      businessAvailabilityPct: host.businessAvailabilityPct,
+      reachabilityPct: host.reachabilityPct,
+      businessReachabilityPct: host.businessReachabilityPct,
+    })),
+  };
+}
+
+export function buildHostRosterSheet(
+  hosts: Array<{
+    name: string;
+    status: string;
+    ip: string;
+    proxy: string;
+    groups: string[];
+  }>
+): ExportSheet {
+  return {
+    name: "Hosts",
+    columns: [
+      { key: "name", header: "Host", type: "text", width: 36 },
+      { key: "status", header: "Status", type: "text", width: 12 },
+      { key: "ip", header: "IP", type: "text", width: 16 },
+      { key: "proxy", header: "Proxy", type: "text", width: 24 },
+      { key: "groups", header: "Host groups", type: "text", width: 48 },
+    ],
+    rows: hosts.map((host) => ({
+      name: host.name,
+      status: host.status === "0" ? "Ativo" : "Inativo",
+      ip: host.ip,
+      proxy: host.proxy,
+      groups: host.groups.join(" | "),
+    })),
+  };
+}
+
+export function buildCriticalAlertsSheet(
+  alerts: CriticalAlertHighlight[],
+  name = "Alertas"
+): ExportSheet {
+  return {
+    name,
+    columns: [
+      { key: "eventId", header: "Evento", type: "text", width: 12 },
+      { key: "name", header: "Alerta", type: "text", width: 48 },
+      SEVERITY_COLUMN,
+      { key: "hosts", header: "Hosts", type: "text", width: 32 },
+      { key: "groups", header: "Host groups", type: "text", width: 32 },
+      { key: "openedAt", header: "Abertura", type: "datetime" },
+      { key: "closedAt", header: "Encerramento", type: "datetime" },
+      { key: "status", header: "Status", type: "text", width: 12 },
+      { key: "detectionMinutes", header: "Detecção", type: "duration" },
+      { key: "responseMinutes", header: "Resposta", type: "duration" },
+      { key: "resolutionMinutes", header: "Resolução", type: "duration" },
+      { key: "businessMinutes", header: "Horário comercial", type: "duration" },
+      { key: "verdict", header: "Veredito", type: "text", width: 10 },
+    ],
+    rows: alerts.map((alert) => ({
+      eventId: alert.eventId,
+      name: alert.name,
+      severity: alert.severity,
+      hosts: alert.hostNames.join(" | "),
+      groups: alert.groupNames.join(" | "),
+      openedAt: alert.openedAt,
+      closedAt: alert.isOpen ? null : alert.closedAt,
+      status: alert.isOpen ? "Em aberto" : "Resolvido",
+      detectionMinutes: alert.detectionMinutes,
+      responseMinutes: alert.responseMinutes,
+      resolutionMinutes: alert.resolutionMinutes,
+      businessMinutes: alert.businessMinutes,
+      verdict: alert.verdict?.verdict.toUpperCase() ?? null,
+    })),
+  };
+}
+
+export function buildGroupAlertDetailsSheet(
+  alerts: GroupAlertDetail[]
+): ExportSheet {
+  return {
+    name: "Alertas",
+    columns: [
+      { key: "eventId", header: "Evento", type: "text", width: 12 },
+      { key: "name", header: "Alerta", type: "text", width: 48 },
+      SEVERITY_COLUMN,
+      { key: "hosts", header: "Hosts", type: "text", width: 32 },
+      { key: "openedAt", header: "Abertura", type: "datetime" },
+      { key: "firstAckAt", header: "1º ACK", type: "datetime" },
+      { key: "respondedAt", header: "Marco de resposta", type: "datetime" },
+      { key: "closedAt", header: "Fechamento", type: "datetime" },
+      { key: "detectionMinutes", header: "Detecção", type: "duration" },
+      { key: "responseMinutes", header: "Resposta", type: "duration" },
+      { key: "resolutionMinutes", header: "Resolução", type: "duration" },
+      { key: "status", header: "Status", type: "text", width: 12 },
+      { key: "verdict", header: "Veredito", type: "text", width: 10 },
+    ],
+    rows: alerts.map((alert) => ({
+      eventId: alert.eventId,
+      name: alert.name,
+      severity: alert.severity,
+      hosts: alert.hosts.join(" | "),
+      openedAt: alert.openedAt,
+      firstAckAt: alert.firstAckAt,
+      respondedAt: alert.respondedAt,
+      closedAt: alert.closedAt,
+      detectionMinutes: alert.detectionMinutes,
+      responseMinutes: alert.responseMinutes,
+      resolutionMinutes: alert.resolutionMinutes,
+      status: alert.isOpen ? "Em aberto" : "Resolvido",
+      verdict: alert.verdict?.verdict.toUpperCase() ?? null,
+    })),
+  };
+}
+
+export function buildOpenProblemsSheet(
+  problems: OpenProblemDetail[]
+): ExportSheet {
+  return {
+    name: "Alertas em aberto",
+    columns: [
+      { key: "eventId", header: "Evento", type: "text", width: 12 },
+      { key: "name", header: "Alerta", type: "text", width: 48 },
+      { key: "severityLabel", header: "Severidade", type: "text", width: 16 },
+      { key: "hosts", header: "Hosts", type: "text", width: 32 },
+      { key: "groups", header: "Host groups", type: "text", width: 32 },
+      { key: "openedAt", header: "Abertura", type: "datetime" },
+      { key: "durationMinutes", header: "Tempo aberto", type: "duration" },
+      { key: "acknowledged", header: "ACK", type: "text", width: 8 },
+    ],
+    rows: problems.map((problem) => ({
+      eventId: problem.eventId,
+      name: problem.name,
+      severityLabel: problem.severityLabel,
+      hosts: problem.hosts.map((host) => host.name).join(" | "),
+      groups: problem.groupNames.join(" | "),
+      openedAt: problem.openedAt,
+      durationMinutes: problem.durationMinutes,
+      acknowledged: problem.acknowledged ? "Sim" : "Não",
+    })),
+  };
+}
+
+/** Uma planilha de hosts e outra de alertas; `groupName` identifica a origem. */
+export function buildAvailabilityInsightsSheets(
+  entries: Array<{ groupName: string; insights: AvailabilityInsights }>
+): ExportSheet[] {
+  return [
+    {
+      name: "Disponibilidade - hosts",
+      columns: [
+        { key: "groupName", header: "Host group", type: "text", width: 32 },
+        { key: "window", header: "Janela", type: "text", width: 20 },
+        { key: "name", header: "Host", type: "text", width: 36 },
+        {
+          key: "windowDowntimeMinutes",
+          header: "Downtime na janela",
+          type: "duration",
+        },
+        {
+          key: "totalDowntimeMinutes",
+          header: "Downtime total",
+          type: "duration",
+        },
+        {
+          key: "windowAvailabilityPct",
+          header: "Disponibilidade na janela",
+          type: "percent",
+        },
+        {
+          key: "shareOfGroupWindowDowntimePct",
+          header: "Participação no downtime",
+          type: "percent",
+        },
+      ],
+      rows: entries.flatMap(({ groupName, insights }) =>
+        insights.topHosts.map((host) => ({
+          groupName,
+          window: insights.windowLabel,
+          name: host.name,
+          windowDowntimeMinutes: host.windowDowntimeMinutes,
+          totalDowntimeMinutes: host.totalDowntimeMinutes,
+          windowAvailabilityPct: host.windowAvailabilityPct,
+          shareOfGroupWindowDowntimePct: host.shareOfGroupWindowDowntimePct,
+        }))
+      ),
+    },
+    {
+      name: "Disponibilidade - alertas",
+      columns: [
+        { key: "groupName", header: "Host group", type: "text", width: 32 },
+        { key: "window", header: "Janela", type: "text", width: 20 },
+        { key: "eventId", header: "Evento", type: "text", width: 12 },
+        { key: "name", header: "Alerta", type: "text", width: 48 },
+        SEVERITY_COLUMN,
+        { key: "alertType", header: "Tipo", type: "text", width: 16 },
+        { key: "hosts", header: "Hosts", type: "text", width: 32 },
+        { key: "openedAt", header: "Abertura", type: "datetime" },
+        { key: "closedAt", header: "Encerramento", type: "datetime" },
+        {
+          key: "windowDowntimeMinutes",
+          header: "Downtime na janela",
+          type: "duration",
+        },
+        {
+          key: "totalDowntimeMinutes",
+          header: "Downtime total",
+          type: "duration",
+        },
+        {
+          key: "shareOfGroupWindowDowntimePct",
+          header: "Participação no downtime",
+          type: "percent",
+        },
+      ],
+      rows: entries.flatMap(({ groupName, insights }) =>
+        insights.topAlerts.map((alert) => ({
+          groupName,
+          window: insights.windowLabel,
+          eventId: alert.eventId,
+          name: alert.name,
+          severity: alert.severity,
+          alertType: alert.alertType,
+          hosts: alert.hostNames.join(" | "),
+          openedAt: alert.openedAt,
+          closedAt: alert.closedAt,
+          windowDowntimeMinutes: alert.windowDowntimeMinutes,
+          totalDowntimeMinutes: alert.totalDowntimeMinutes,
+          shareOfGroupWindowDowntimePct: alert.shareOfGroupWindowDowntimePct,
+        }))
+      ),
+    },
+  ];
+}
+
+export function buildGroupAlertRecordsSheet(
+  alerts: GroupAlertRecord[]
+): ExportSheet {
+  return {
+    name: "Alertas",
+    columns: [
+      { key: "eventId", header: "Evento", type: "text", width: 12 },
+      { key: "name", header: "Alerta", type: "text", width: 48 },
+      { key: "severityLabel", header: "Severidade", type: "text", width: 16 },
+      { key: "hosts", header: "Hosts", type: "text", width: 32 },
+      { key: "openedAt", header: "Abertura", type: "datetime" },
+      { key: "closedAt", header: "Fechamento", type: "datetime" },
+      { key: "detectionMinutes", header: "Detecção", type: "duration" },
+      { key: "responseMinutes", header: "Resposta", type: "duration" },
+      { key: "resolutionMinutes", header: "Resolução", type: "duration" },
+      { key: "firstAckAt", header: "1º ACK", type: "datetime" },
+      { key: "respondedAt", header: "Marco de resposta", type: "datetime" },
+      { key: "ticketOpened", header: "Ticket ITSM", type: "text", width: 12 },
+    ],
+    rows: alerts.map((alert) => ({
+      eventId: alert.eventId,
+      name: alert.name,
+      severityLabel: alert.severityLabel,
+      hosts: alert.hosts.map((host) => host.name).join(" | "),
+      openedAt: alert.openedAt,
+      closedAt: alert.closedAt,
+      detectionMinutes: alert.detectionMinutes,
+      responseMinutes: alert.responseMinutes,
+      resolutionMinutes: alert.resolutionMinutes,
+      firstAckAt: alert.firstAckAt,
+      respondedAt: alert.respondedAt,
+      ticketOpened: alert.ticketOpened ? "Sim" : "Não",
+    })),
+  };
+}
+
+export function buildReachabilityAlertsSheet(
+  alerts: ReachabilityAlertRecord[],
+  includeGroup: boolean
+): ExportSheet {
+  const columns: ExportColumn[] = [
+    { key: "eventId", header: "Evento", type: "text", width: 12 },
+    { key: "name", header: "Alerta", type: "text", width: 48 },
+    { key: "severityLabel", header: "Severidade", type: "text", width: 16 },
+    { key: "alertType", header: "Tipo", type: "text", width: 16 },
+    { key: "itemKeys", header: "Item keys", type: "text", width: 32 },
+    { key: "hosts", header: "Hosts", type: "text", width: 32 },
+    { key: "openedAt", header: "Abertura", type: "datetime" },
+    { key: "businessWindow", header: "Janela de abertura", type: "text" },
+    { key: "closedAt", header: "Fechamento", type: "datetime" },
+    { key: "windowMinutes", header: "Downtime na janela", type: "duration" },
+    { key: "totalMinutes", header: "Downtime total", type: "duration" },
+    { key: "status", header: "Status", type: "text", width: 12 },
+  ];
+  return {
+    name: "Alertas",
+    columns: includeGroup
+      ? [
+          { key: "groupName", header: "Host group", type: "text", width: 32 },
+          ...columns,
+        ]
+      : columns,
+    rows: alerts.map((alert) => ({
+      groupName: alert.groupName ?? "Não informado",
+      eventId: alert.eventId,
+      name: alert.name,
+      severityLabel: alert.severityLabel,
+      alertType: alert.alertType,
+      itemKeys: alert.itemKeys.join(" | "),
+      hosts: alert.hostNames.join(" | "),
+      openedAt: alert.openedAt,
+      businessWindow: alert.openedInBusinessWindow ? "7h-23:59" : "Fora",
+      closedAt: alert.closedAt,
+      windowMinutes: alert.windowMinutes,
+      totalMinutes: alert.totalMinutes,
+      status: alert.isOpen ? "Em aberto" : "Resolvido",
+    })),
+  };
+}
+
+export function buildAlertNoiseSheet(entries: AlertNoiseEntry[]): ExportSheet {
+  return {
+    name: "Triggers ruidosos",
+    columns: [
+      { key: "rank", header: "#", type: "integer", width: 6 },
+      { key: "name", header: "Alerta", type: "text", width: 48 },
+      { key: "hostName", header: "Host", type: "text", width: 32 },
+      { key: "triggerId", header: "Trigger", type: "text", width: 12 },
+      { key: "itemKeys", header: "Item keys", type: "text", width: 32 },
+      { key: "severityLabel", header: "Severidade", type: "text", width: 16 },
+      { key: "fires", header: "Disparos", type: "integer" },
+      { key: "flaps", header: "Flaps", type: "integer" },
+      { key: "openNow", header: "Em aberto", type: "integer" },
+      {
+        key: "medianDurationMinutes",
+        header: "Duração mediana",
+        type: "duration",
+      },
+      { key: "shortAlertPct", header: "Alertas curtos", type: "percent" },
+      { key: "ackRatePct", header: "Taxa de ACK", type: "percent" },
+      { key: "lastFiredAt", header: "Último disparo", type: "datetime" },
+    ],
+    rows: entries.map((entry, index) => ({
+      rank: index + 1,
+      name: entry.name,
+      hostName: entry.hostName,
+      triggerId: entry.triggerId,
+      itemKeys: entry.itemKeys.join(" | "),
+      severityLabel: entry.severityLabel,
+      fires: entry.fires,
+      flaps: entry.flaps,
+      openNow: entry.openNow,
+      medianDurationMinutes: entry.medianDurationMinutes,
+      shortAlertPct: entry.shortAlertPct,
+      ackRatePct: entry.ackRatePct,
+      lastFiredAt: entry.lastFiredAt,
+    })),
+  };
+}
+
+/** Período e filtros da tela; a data de geração é adicionada no servidor. */
+export function buildExportMetadata(params: {
+  month?: string | null;
+  scope?: string[];
+  extra?: Array<{ label: string; value: string }>;
+}): Array<{ label: string; value: string }> {
+  return [
+    ...(params.month ? [{ label: "Mês", value: params.month }] : []),
+    {
+      label: "Escopo",
+      value: params.scope?.length
+        ? params.scope.join(", ")
+        : "Todos os clientes",
+    },
+    ...(params.extra ?? []),
+  ];
+}
+
+export function csvSafe(value: string): string {
+  if (!value) return "";
+  const normalized = value.replace(/"/g, '""');
+  if (normalized.includes(",") || normalized.includes('"')) {
+    return `"${normalized}"`;
+  }
+  return normalized;
+}
+
+export function slugifyFileName(value: string, fallback: string) {
+  return (
+    value
+      .normalize("NFD")
+      .replace(/[\u0300-\u036f]/g, "")
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, "-")
+      .replace(/^-+|-+$/g, "") || fallback
+  );
+}
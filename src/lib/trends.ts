@@ -0,0 +1,179 @@
+import "server-only";
+import { formatInTimeZone } from "date-fns-tz";
+import { getGroupMetricsOverview } from "@/lib/metrics-snapshots";
+import { RequestError } from "@/lib/request-error";
+import {
+  GroupTrendSeries,
+  HostGroupMetric,
+  TrendKpi,
+  TrendSeries,
+  TrendsApiResponse,
+} from "@/types/dashboard";
+
+const DEFAULT_TIMEZONE =
+  process.env.DASHBOARD_TIMEZONE ?? "America/Sao_Paulo";
+const MAX_TREND_MONTHS = Number(process.env.DASHBOARD_TREND_MAX_MONTHS ?? "24");
+
+type OverviewPayload = Awaited<ReturnType<typeof getGroupMetricsOverview>>;
+
+type KpiDefinition = {
+  kpi: TrendKpi;
+  label: string;
+  unit: TrendSeries["unit"];
+  fromOverview: (overview: OverviewPayload) => number;
+  fromGroup: (group: HostGroupMetric) => number;
+};
+
+const KPI_DEFINITIONS: KpiDefinition[] = [
+  {
+    kpi: "detectionMinutes",
+    label: "Tempo médio de detecção",
+    unit: "minutes",
+    fromOverview: (overview) => overview.kpis.detectionMinutes,
+    fromGroup: (group) => group.detectionMinutes,
+  },
+  {
+    kpi: "responseMinutes",
+    label: "Tempo médio de resposta",
+    unit: "minutes",
+    fromOverview: (overview) => overview.kpis.responseMinutes,
+    fromGroup: (group) => group.responseMinutes,
+  },
+  {
+    kpi: "resolutionMinutes",
+    label: "Tempo médio de resolução",
+    unit: "minutes",
+    fromOverview: (overview) => overview.kpis.resolutionMinutes,
+    fromGroup: (group) => group.resolutionMinutes,
+  },
+  {
+    kpi: "availabilityPct",
+    label: "Disponibilidade",
+    unit: "percent",
+    fromOverview: (overview) => overview.availability.overallPct,
+    fromGroup: (group) => group.availabilityPct,
+  },
+  {
+    kpi: "reachabilityPct",
+    label: "Alcançabilidade",
+    unit: "percent",
+    fromOverview: (overview) => overview.reachability.overallPct,
+    fromGroup: (group) => group.reachabilityPct,
+  },
+  {
+    kpi: "alerts",
+    label: "Alertas",
+    unit: "count",
+    fromOverview: (overview) => overview.totals.alerts,
+    fromGroup: (group) => group.alerts,
+  },
+  {
+    kpi: "impactIncidents",
+    label: "Incidentes com impacto",
+    unit: "count",
+    fromOverview: (overview) => overview.totals.impactIncidents,
+    fromGroup: (group) => group.impactIncidents,
+  },
+];
+
+export async function buildTrends(input: {
+  from: string;
+  to: string;
+  groupIds?: string[];
+}): Promise<TrendsApiResponse> {
+  const months = enumerateMonths(input.from, input.to);
+  if (!months.length) {
+    throw new RequestError("Intervalo de meses inválido.");
+  }
+  if (months.length > MAX_TREND_MONTHS) {
+    throw new RequestError(
+      `O intervalo máximo para tendências é de ${MAX_TREND_MONTHS} meses.`
+    );
+  }
+
+  // Meses processados em sequência: os fechados vêm do snapshot e o mês
+  // corrente evita disparar várias consultas pesadas ao Zabbix em paralelo.
+  const overviews: OverviewPayload[] = [];
+  for (const month of months) {
+    overviews.push(
+      await getGroupMetricsOverview({ month, groupIds: input.groupIds })
+    );
+  }
+
+  const groupNames = new Map<string, string>();
+  const groupsByMonth = overviews.map((overview) => {
+    const map = new Map<string, HostGroupMetric>();
+    for (const group of overview.groups) {
+      map.set(group.groupid, group);
+      groupNames.set(group.groupid, group.name);
+    }
+    return map;
+  });
+
+  const groups: GroupTrendSeries[] = Array.from(groupNames.entries())
+    .map(([groupid, name]) => ({
+      groupid,
+      name,
+      series: KPI_DEFINITIONS.map((definition) => ({
+        kpi: definition.kpi,
+        label: definition.label,
+        unit: definition.unit,
+        values: groupsByMonth.map((map) => {
+          const group = map.get(groupid);
+          return group ? roundValue(definition.fromGroup(group)) : null;
+        }),
+      })),
+    }))
+    .sort((a, b) => a.name.localeCompare(b.name, "pt-BR"));
+
+  return {
+    months: months.map((month, index) => ({
+      month,
+      label: overviews[index]?.meta.period ?? month,
+    })),
+    series: KPI_DEFINITIONS.map((definition) => ({
+      kpi: definition.kpi,
+      label: definition.label,
+      unit: definition.unit,
+      values: overviews.map((overview) =>
+        roundValue(definition.fromOverview(overview))
+      ),
+    })),
+    groups,
+    generatedAt: new Date().toISOString(),
+  };
+}
+
+function enumerateMonths(from: string, to: string): string[] {
+  const currentMonth = formatInTimeZone(new Date(), DEFAULT_TIMEZONE, "yyyy-MM");
+  const last = to > currentMonth ? currentMonth : to;
+  const [startYear, startMonth] = from.split("-").map(Number);
+  const [endYear, endMonth] = last.split("-").map(Number);
+  if (
+    [startYear, startMonth, endYear, endMonth].some((value) =>
+      Number.isNaN(value)
+    )
+  ) {
+    return [];
+  }
+
+  const months: string[] = [];
+  let year = startYear;
+  let month = startMonth;
+  while (year < endYear || (year === endYear && month <= endMonth)) {
+    months.push(`${year}-${String(month).padStart(2, "0")}`);
+    if (months.length > MAX_TREND_MONTHS) {
+      break;
+    }
+    month += 1;
+    if (month > 12) {
+      month = 1;
+      year += 1;
+    }
+  }
+  return months;
+}
+
+function roundValue(value: number) {
+  return Number.isFinite(value) ? Number(value.toFixed(2)) : 0;
+}
@@ -0,0 +1,175 @@
+import "server-only";
+import ExcelJS from "exceljs";
+import { formatInTimeZone } from "date-fns-tz";
+import {
+  ExportCellValue,
+  ExportColumn,
+  ExportColumnType,
+  ExportWorkbook,
+} from "@/types/dashboard";
+
+const DEFAULT_TIMEZONE = process.env.DASHBOARD_TIMEZONE ?? "America/Sao_Paulo";
+
+export const XLSX_CONTENT_TYPE =
+  "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet";
+
+const NUMBER_FORMATS: Record<ExportColumnType, string | undefined> = {
+  text: undefined,
+  integer: "0",
+  number: "0.00",
+  percent: "0.00%",
+  duration: "[h]:mm:ss",
+  datetime: "dd/mm/yyyy hh:mm",
+};
+
+const DEFAULT_WIDTHS: Record<ExportColumnType, number> = {
+  text: 20,
+  integer: 12,
+  number: 14,
+  percent: 16,
+  duration: 14,
+  datetime: 18,
+};
+
+const HEADER_FILL: ExcelJS.Fill = {
+  type: "pattern",
+  pattern: "solid",
+  fgColor: { argb: "FF0F172A" },
+};
+
+/**
+ * Gera o XLSX com uma planilha por tabela (cabeçalho congelado e filtro) e uma
+ * planilha "Metadados" ao final com o período, os filtros e a data de geração.
+ * Datas saem no fuso do dashboard, durações como tempo do Excel ([h]:mm:ss) e
+ * percentuais como fração formatada.
+ */
+export async function buildXlsxWorkbook(
+  input: ExportWorkbook
+): Promise<Buffer> {
+  const workbook = new ExcelJS.Workbook();
+  workbook.creator = "NOC Dashboard";
+  workbook.created = new Date();
+  workbook.title = input.title;
+
+  const usedNames = new Set<string>();
+  for (const sheet of input.sheets) {
+    const worksheet = workbook.addWorksheet(
+      uniqueSheetName(sheet.name, usedNames),
+      {
+        views: [{ state: "frozen", ySplit: 1 }],
+      }
+    );
+    worksheet.columns = sheet.columns.map((column) => ({
+      header: column.header,
+      key: column.key,
+      width: column.width ?? DEFAULT_WIDTHS[column.type],
+      style: NUMBER_FORMATS[column.type]
+        ? { numFmt: NUMBER_FORMATS[column.type] }
+        : undefined,
+    }));
+    for (const row of sheet.rows) {
+      worksheet.addRow(
+        Object.fromEntries(
+          sheet.columns.map((column) => [
+            column.key,
+            toCellValue(column, row[column.key]),
+          ])
+        )
+      );
+    }
+    styleHeader(worksheet.getRow(1));
+    if (sheet.columns.length) {
+      worksheet.autoFilter = {
+        from: { row: 1, column: 1 },
+        to: { row: 1, column: sheet.columns.length },
+      };
+    }
+  }
+
+  const metadata = workbook.addWorksheet(
+    uniqueSheetName("Metadados", usedNames),
+    {
+      views: [{ state: "frozen", ySplit: 1 }],
+    }
+  );
+  metadata.columns = [
+    { header: "Campo", key: "label", width: 24 },
+    { header: "Valor", key: "value", width: 60 },
+  ];
+  metadata.addRow({ label: "Relatório", value: input.title });
+  for (const entry of input.metadata) {
+    metadata.addRow(entry);
+  }
+  metadata.addRow({
+    label: "Gerado em",
+    value: formatInTimeZone(
+      new Date(),
+      DEFAULT_TIMEZONE,
+      "dd/MM/yyyy HH:mm:ss"
+    ),
+  });
+  metadata.addRow({ label: "Fuso horário", value: DEFAULT_TIMEZONE });
+  styleHeader(metadata.getRow(1));
+
+  const buffer = await workbook.xlsx.writeBuffer();
+  return Buffer.from(buffer as ArrayBuffer);
+}
+
+function toCellValue(column: ExportColumn, value: ExportCellValue | undefined) {
+  if (value === null || value === undefined || value === "") {
+    return null;
+  }
+  switch (column.type) {
+    case "integer":
+    case "number":
+      return toNumber(value);
+    case "percent": {
+      const numeric = toNumber(value);
+      return numeric === null ? null : numeric / 100;
+    }
+    case "duration": {
+      const numeric = toNumber(value);
+      return numeric === null ? null : numeric / (24 * 60);
+    }
+    case "datetime": {
+      const date = new Date(String(value));
+      if (Number.isNaN(date.getTime())) return String(value);
+      // O Excel não guarda fuso: grava o horário local do dashboard como UTC.
+      return new Date(
+        `${formatInTimeZone(date, DEFAULT_TIMEZONE, "yyyy-MM-dd'T'HH:mm:ss")}Z`
+      );
+    }
+    default:
+      return String(value);
+  }
+}
+
+function toNumber(value: ExportCellValue) {
+  const numeric = typeof value === "number" ? value : Number(value);
+  return Number.isFinite(numeric) ? numeric : null;
+}
+
+function styleHeader(row: ExcelJS.Row) {
+  row.eachCell((cell) => {
+    cell.font = { bold: true, color: { argb: "FFFFFFFF" } };
+    cell.fill = HEADER_FILL;
+    cell.alignment = { vertical: "middle" };
+  });
+}
+
+// Nomes de planilha: até 31 caracteres, sem []:*?/\ e sem repetição.
+function uniqueSheetName(name: string, used: Set<string>) {
+  const base =
+    name
+      .replace(/[[\]:*?/\\]/g, " ")
+      .trim()
+      .slice(0, 31) || "Planilha";
+  let candidate = base;
+  let counter = 2;
+  while (used.has(candidate.toLowerCase())) {
+    const suffix = ` (${counter++})`;
+    candidate = `${base.slice(0, 31 - suffix.length)}${suffix}`;
+  }
+  used.add(candidate.toLowerCase());
+  return candidate;
+}
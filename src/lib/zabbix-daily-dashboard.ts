@@ -8,6 +8,7 @@ import {
   ZabbixProblem,
   ZabbixEvent,
 } from "@/lib/zabbix";
+import { buildIncidentLifecycle, secondsUntil } from "@/lib/incident-lifecycle";
 
 const DASHBOARD_TIMEZONE = process.env.DASHBOARD_TIMEZONE ?? "America/Sao_Paulo";
 
@@ -108,18 +109,13 @@ function mapProblem(
   const recoverySeconds = problem.r_eventid
     ? Number(recoveryMap[problem.r_eventid]?.clock)
     : null;
-  const endSeconds =
-    recoverySeconds && recoverySeconds > 0
-      ? Math.min(recoverySeconds, periodEndSeconds)
-      : periodEndSeconds;
-  const durationSeconds = Math.max(0, endSeconds - startSeconds);
-  const acknowledges = [...(problem.acknowledges ?? [])].sort(
-    (a, b) => Number(a.clock) - Number(b.clock)
+  const lifecycle = buildIncidentLifecycle(problem, recoverySeconds);
+  const resolutionSeconds = Math.max(
+    0,
+    Math.min(lifecycle.resolvedAt ?? periodEndSeconds, periodEndSeconds) -
+      startSeconds
   );
-  const detectionDelta =
-    acknowledges.length > 0
-      ? Math.max(0, Number(acknowledges[0].clock) - startSeconds)
-      : null;
+  const detectionDelta = secondsUntil(lifecycle.acknowledgedAt, startSeconds);
 
   return {
     eventId: String(problem.eventid),
@@ -130,7 +126,7 @@ function mapProblem(
         : null,
     detectionMinutes:
       detectionDelta !== null ? secondsToMinutes(detectionDelta) : null,
-    resolutionMinutes: secondsToMinutes(durationSeconds),
+    resolutionMinutes: secondsToMinutes(resolutionSeconds),
   };
 }
 
@@ -26,10 +26,18 @@ export type ZabbixHostGroup = {
 
 export type ZabbixHost = {
   hostid: string;
+  host?: string;
   name: string;
   status?: string;
   proxy_hostid?: string;
-  interfaces?: Array<{ ip?: string; dns?: string; port?: string }>;
+  interfaces?: Array<{
+    ip?: string;
+    dns?: string;
+    port?: string;
+    type?: string;
+    main?: string;
+    available?: string;
+  }>;
   inventory?: {
     type?: string;
     type_full?: string;
@@ -40,12 +48,20 @@ export type ZabbixHost = {
   items?: Array<{ itemid: string }>;
   tags?: Array<{ tag: string; value: string }>;
   groups?: ZabbixHostGroup[];
+  parentTemplates?: Array<{ templateid: string; name: string }>;
 };
 
 export type ZabbixProxy = {
   proxyid: string;
   host: string;
+  // 5 = ativo, 6 = passivo
   status?: string;
+  lastaccess?: string;
+};
+
+/** Host de um proxy com `selectItems: "count"` (a API devolve só o total). */
+export type ZabbixProxyHost = Omit<ZabbixHost, "items"> & {
+  items?: string;
 };
 
 export type ZabbixAcknowledge = {
@@ -91,6 +107,29 @@ export type ZabbixTrigger = {
   description?: string;
   comments?: string;
   items?: ZabbixItem[];
+  dependencies?: Array<{ triggerid: string }>;
+};
+
+export type ZabbixMaintenanceTimePeriod = {
+  timeperiod_type: string;
+  every?: string;
+  month?: string;
+  dayofweek?: string;
+  day?: string;
+  start_time?: string;
+  period: string;
+  start_date?: string;
+};
+
+export type ZabbixMaintenance = {
+  maintenanceid: string;
+  name: string;
+  maintenance_type?: string;
+  active_since: string;
+  active_till: string;
+  hosts?: Array<{ hostid: string; name: string }>;
+  groups?: ZabbixHostGroup[];
+  timeperiods?: ZabbixMaintenanceTimePeriod[];
 };
 
 const API_URL =
@@ -123,6 +162,28 @@ const RETRY_DELAY_MS = Math.max(
   parseNumber(process.env.ZABBIX_RETRY_DELAY_MS, 1000)
 );
 
+const CACHE_ENABLED = process.env.ZABBIX_CACHE_ENABLED !== "false";
+const CACHE_DEFAULT_TTL_MS =
+  Math.max(0, parseNumber(process.env.ZABBIX_CACHE_TTL_SECONDS, 30)) * 1000;
+const CACHE_MAX_ENTRIES = Math.max(
+  1,
+  Math.floor(parseNumber(process.env.ZABBIX_CACHE_MAX_ENTRIES, 300))
+);
+// TTL padrão por método (segundos); ZABBIX_CACHE_TTLS="host.get=60,event.get=15"
+// sobrescreve, e 0 desliga o cache daquele método.
+const CACHE_METHOD_TTL_MS = new Map<string, number>(
+  Object.entries({
+    "hostgroup.get": 300,
+    "host.get": 120,
+    "proxy.get": 300,
+    "trigger.get": 600,
+    "maintenance.get": 120,
+    "event.get": 60,
+    "problem.get": 15,
+    ...parseMethodTtls(process.env.ZABBIX_CACHE_TTLS),
+  }).map(([method, seconds]) => [method, Math.max(0, seconds) * 1000])
+);
+
 const RETRYABLE_ERROR_CODES = new Set([
   "UND_ERR_CONNECT_TIMEOUT",
   "UND_ERR_HEADERS_TIMEOUT",
@@ -141,6 +202,48 @@ const dispatcher = new Agent({
   },
 });
 
+type CacheEntry = {
+  method: string;
+  value: unknown;
+  expiresAt: number;
+};
+
+type MethodCacheStats = {
+  hits: number;
+  misses: number;
+  coalesced: number;
+  errors: number;
+};
+
+export type ZabbixCacheStats = {
+  enabled: boolean;
+  entries: number;
+  inFlight: number;
+  maxEntries: number;
+  hits: number;
+  misses: number;
+  coalesced: number;
+  errors: number;
+  methods: Record<string, MethodCacheStats & { entries: number; ttlSeconds: number }>;
+};
+
+type ZabbixCacheState = {
+  entries: Map<string, CacheEntry>;
+  inFlight: Map<string, Promise<unknown>>;
+  stats: Map<string, MethodCacheStats>;
+};
+
+// Guardado no globalThis para que todas as rotas (e o HMR em dev) compartilhem
+// o mesmo cache dentro do processo.
+const cacheGlobal = globalThis as typeof globalThis & {
+  __zabbixCache?: ZabbixCacheState;
+};
+const cacheState: ZabbixCacheState = (cacheGlobal.__zabbixCache ??= {
+  entries: new Map(),
+  inFlight: new Map(),
+  stats: new Map(),
+});
+
 export function getZabbixBaseUrl(): string | null {
   const source = UI_URL ?? API_URL;
   if (!source) return null;
@@ -157,9 +260,112 @@ export function getZabbixBaseUrl(): string | null {
   }
 }
 
+/**
+ * Chamadas de leitura passam pelo cache: respostas ficam guardadas pelo TTL do
+ * método e chamadas idênticas em andamento compartilham a mesma requisição.
+ * Cada chamador recebe uma cópia, já que alguns consumidores alteram os arrays.
+ */
 async function callZabbix<T>(
   method: string,
   params: Record<string, unknown>
+): Promise<T> {
+  const ttlMs = resolveCacheTtl(method);
+  if (!ttlMs) {
+    return requestZabbix<T>(method, params);
+  }
+
+  const key = `${method}:${stableStringify(params)}`;
+  const stats = getMethodStats(method);
+  const cached = cacheState.entries.get(key);
+  if (cached && cached.expiresAt > Date.now()) {
+    stats.hits += 1;
+    cacheState.entries.delete(key);
+    cacheState.entries.set(key, cached);
+    return structuredClone(cached.value) as T;
+  }
+  if (cached) {
+    cacheState.entries.delete(key);
+  }
+
+  const pending = cacheState.inFlight.get(key);
+  if (pending) {
+    stats.coalesced += 1;
+    return structuredClone(await pending) as T;
+  }
+
+  stats.misses += 1;
+  const request = requestZabbix<T>(method, params);
+  cacheState.inFlight.set(key, request);
+  try {
+    const value = await request;
+    storeCacheEntry(key, { method, value, expiresAt: Date.now() + ttlMs });
+    return structuredClone(value);
+  } catch (error) {
+    stats.errors += 1;
+    throw error;
+  } finally {
+    cacheState.inFlight.delete(key);
+  }
+}
+
+export function getZabbixCacheStats(): ZabbixCacheStats {
+  const now = Date.now();
+  const methods: ZabbixCacheStats["methods"] = {};
+  const ensureMethod = (method: string) =>
+    (methods[method] ??= {
+      ...getMethodStats(method),
+      entries: 0,
+      ttlSeconds: resolveCacheTtl(method) / 1000,
+    });
+
+  for (const method of cacheState.stats.keys()) {
+    ensureMethod(method);
+  }
+  let entries = 0;
+  for (const [key, entry] of cacheState.entries.entries()) {
+    if (entry.expiresAt <= now) {
+      cacheState.entries.delete(key);
+      continue;
+    }
+    entries += 1;
+    ensureMethod(entry.method).entries += 1;
+  }
+
+  const totals = Object.values(methods).reduce(
+    (acc, method) => ({
+      hits: acc.hits + method.hits,
+      misses: acc.misses + method.misses,
+      coalesced: acc.coalesced + method.coalesced,
+      errors: acc.errors + method.errors,
+    }),
+    { hits: 0, misses: 0, coalesced: 0, errors: 0 }
+  );
+
+  return {
+    enabled: CACHE_ENABLED,
+    entries,
+    inFlight: cacheState.inFlight.size,
+    maxEntries: CACHE_MAX_ENTRIES,
+    ...totals,
+    methods,
+  };
+}
+
+/** Remove entradas do cache (todas ou só as do método informado). */
+export function invalidateZabbixCache(method?: string): number {
+  let removed = 0;
+  for (const [key, entry] of cacheState.entries.entries()) {
+    if (!method || entry.method === method) {
+      cacheState.entries.delete(key);
+      removed += 1;
+    }
+  }
+  return removed;
+}
+
+async function requestZabbix<T>(
+  method: string,
+  params: Record<string, unknown>
 ): Promise<T> {
   if (!API_TOKEN) {
     throw new Error(
@@ -240,11 +446,12 @@ export async function fetchHosts(
         : undefined;
 
   return callZabbix<ZabbixHost[]>("host.get", {
-    output: ["hostid", "name", "status"],
+    output: ["hostid", "name", "status", "proxy_hostid"],
     selectInventory: ["type", "type_full", "hardware", "os", "alias"],
     selectTags: ["tag", "value"],
     selectGroups: ["groupid", "name"],
     selectInterfaces: ["ip", "dns", "port"],
+    selectParentTemplates: ["templateid", "name"],
     groupids: groupIds,
     limit: Number(process.env.ZABBIX_HOST_LIMIT ?? 10000),
   });
@@ -254,7 +461,7 @@ export async function fetchProxyByHost(
   host: string
 ): Promise<ZabbixProxy | null> {
   const proxies = await callZabbix<ZabbixProxy[]>("proxy.get", {
-    output: ["proxyid", "host", "status"],
+    output: ["proxyid", "host", "status", "lastaccess"],
     filter: {
       host: [host],
     },
@@ -265,41 +472,68 @@ export async function fetchProxyByHost(
 
 export async function fetchHostsMonitoredByProxy(
   proxyHost: string
-): Promise<{ proxy: ZabbixProxy | null; hosts: ZabbixHost[] }> {
+): Promise<{ proxy: ZabbixProxy | null; hosts: ZabbixProxyHost[] }> {
   const proxy = await fetchProxyByHost(proxyHost);
   if (!proxy) {
     return { proxy: null, hosts: [] };
   }
 
-  const hosts = await callZabbix<ZabbixHost[]>("host.get", {
+  const hosts = await fetchHostsByProxyIds([proxy.proxyid]);
+  return { proxy, hosts };
+}
+
+/** Hosts (ativos e desabilitados) monitorados pelos proxies informados. */
+export async function fetchHostsByProxyIds(
+  proxyIds: string[]
+): Promise<ZabbixProxyHost[]> {
+  if (!proxyIds.length) return [];
+  return callZabbix<ZabbixProxyHost[]>("host.get", {
     output: ["hostid", "name", "status", "proxy_hostid"],
     selectInventory: ["type", "type_full", "hardware", "os", "alias"],
     selectTags: ["tag", "value"],
     selectGroups: ["groupid", "name"],
-    selectInterfaces: ["ip"],
-    selectItems: ["itemid"],
-    proxyids: [proxy.proxyid],
+    selectInterfaces: ["ip", "available"],
+    selectItems: "count",
+    proxyids: proxyIds,
     templated_hosts: 0,
-    filter: {
-      status: ["0"],
-    },
     sortfield: "name",
     limit: Number(process.env.ZABBIX_HOST_LIMIT ?? 10000),
   });
+}
 
-  return { proxy, hosts };
+export async function fetchProxies(options?: {
+  fresh?: boolean;
+}): Promise<ZabbixProxy[]> {
+  const call = options?.fresh ? requestZabbix : callZabbix;
+  return call<ZabbixProxy[]>("proxy.get", {
+    output: ["proxyid", "host", "status", "lastaccess"],
+    sortfield: "host",
+  });
 }
 
 export async function fetchProxiesByIds(
-  proxyIds: string[]
+  proxyIds: string[],
+  options?: { fresh?: boolean }
 ): Promise<ZabbixProxy[]> {
   if (!proxyIds.length) return [];
-  return callZabbix<ZabbixProxy[]>("proxy.get", {
-    output: ["proxyid", "host", "status"],
+  const call = options?.fresh ? requestZabbix : callZabbix;
+  return call<ZabbixProxy[]>("proxy.get", {
+    output: ["proxyid", "host", "status", "lastaccess"],
     proxyids: proxyIds,
   });
 }
 
+/** Hosts pelo nome técnico (`host`), ex.: o host que monitora um proxy. */
+export async function fetchHostsByTechnicalNames(
+  names: string[]
+): Promise<ZabbixHost[]> {
+  if (!names.length) return [];
+  return callZabbix<ZabbixHost[]>("host.get", {
+    output: ["hostid", "host", "name", "status"],
+    filter: { host: names },
+  });
+}
+
 export async function fetchHostsByIds(hostIds: string[]): Promise<ZabbixHost[]> {
   if (!hostIds.length) {
     return [];
@@ -313,11 +547,12 @@ export async function fetchHostsByIds(hostIds: string[]): Promise<ZabbixHost[]>
   const results = await Promise.all(
     chunks.map((batch) =>
       callZabbix<ZabbixHost[]>("host.get", {
-        output: ["hostid", "name", "status"],
+        output: ["hostid", "name", "status", "proxy_hostid"],
         selectInventory: ["type", "type_full", "hardware", "os", "alias"],
         selectTags: ["tag", "value"],
         selectGroups: ["groupid", "name"],
         selectInterfaces: ["ip"],
+        selectParentTemplates: ["templateid", "name"],
         hostids: batch,
       })
     )
@@ -326,6 +561,22 @@ export async function fetchHostsByIds(hostIds: string[]): Promise<ZabbixHost[]>
   return results.flat();
 }
 
+export async function fetchHostDetail(
+  hostId: string
+): Promise<ZabbixHost | null> {
+  const hosts = await callZabbix<ZabbixHost[]>("host.get", {
+    output: ["hostid", "name", "status", "proxy_hostid"],
+    selectInventory: ["type", "type_full", "hardware", "os", "alias"],
+    selectTags: ["tag", "value"],
+    selectGroups: ["groupid", "name"],
+    selectInterfaces: ["type", "main", "ip", "dns", "port", "available"],
+    selectParentTemplates: ["templateid", "name"],
+    hostids: [hostId],
+    limit: 1,
+  });
+  return hosts.length ? hosts[0] : null;
+}
+
 export async function fetchProblemsByIds(
   eventIds: string[]
 ): Promise<ZabbixProblem[]> {
@@ -367,6 +618,8 @@ export async function fetchProblemsByIds(
 export async function fetchProblems(params: {
   groupId?: string;
   groupIds?: string[];
+  hostIds?: string[];
+  triggerIds?: string[];
   timeFrom: number;
   timeTill: number;
 }): Promise<ZabbixProblem[]> {
@@ -409,6 +662,8 @@ export async function fetchProblems(params: {
       selectTags: ["tag", "value"],
       select_acknowledges: "extend",
       groupids: groupIds,
+      hostids: params.hostIds?.length ? params.hostIds : undefined,
+      objectids: params.triggerIds?.length ? params.triggerIds : undefined,
       time_from: params.timeFrom,
       time_till: cursorTimeTill,
       source: 0, // trigger events
@@ -443,8 +698,12 @@ export async function fetchProblems(params: {
   return all;
 }
 
-export async function fetchCurrentProblems(): Promise<ZabbixProblem[]> {
-  return callZabbix<ZabbixProblem[]>("problem.get", {
+/** `fresh` ignora o cache (usado pelo feed ao vivo de problemas em aberto). */
+export async function fetchCurrentProblems(options?: {
+  fresh?: boolean;
+}): Promise<ZabbixProblem[]> {
+  const call = options?.fresh ? requestZabbix : callZabbix;
+  return call<ZabbixProblem[]>("problem.get", {
     output: [
       "eventid",
       "name",
@@ -452,6 +711,7 @@ export async function fetchCurrentProblems(): Promise<ZabbixProblem[]> {
       "severity",
       "acknowledged",
       "r_eventid",
+      "objectid",
     ],
     selectHosts: ["hostid", "name"],
     selectTags: "extend",
@@ -462,6 +722,20 @@ export async function fetchCurrentProblems(): Promise<ZabbixProblem[]> {
   });
 }
 
+// action 4 = adicionar mensagem (não reconhece nem fecha o problema).
+export async function addEventMessage(
+  eventId: string,
+  message: string
+): Promise<void> {
+  await callZabbix<{ eventids: string[] }>("event.acknowledge", {
+    eventids: [eventId],
+    action: 4,
+    message,
+  });
+  invalidateZabbixCache("problem.get");
+  invalidateZabbixCache("event.get");
+}
+
 export async function fetchRecoveryEvents(
   eventIds: string[]
 ): Promise<Record<string, ZabbixEvent>> {
@@ -529,6 +803,59 @@ export async function fetchTriggersByIds(
   return results.flat();
 }
 
+/** Triggers com as dependências diretas (triggers dos quais dependem). */
+export async function fetchTriggerDependencies(
+  triggerIds: string[]
+): Promise<ZabbixTrigger[]> {
+  if (!triggerIds.length) return [];
+
+  const batches: string[][] = [];
+  for (let i = 0; i < triggerIds.length; i += 100) {
+    batches.push(triggerIds.slice(i, i + 100));
+  }
+
+  const results = await Promise.all(
+    batches.map((batch) =>
+      callZabbix<ZabbixTrigger[]>("trigger.get", {
+        output: ["triggerid", "description"],
+        selectDependencies: ["triggerid"],
+        triggerids: batch,
+      })
+    )
+  );
+
+  return results.flat();
+}
+
+export async function fetchMaintenances(params: {
+  timeFrom: number;
+  timeTill: number;
+}): Promise<ZabbixMaintenance[]> {
+  // maintenance.get não filtra por período: buscamos tudo e descartamos o que
+  // não estava ativo na janela consultada.
+  const maintenances = await callZabbix<ZabbixMaintenance[]>(
+    "maintenance.get",
+    {
+      output: [
+        "maintenanceid",
+        "name",
+        "maintenance_type",
+        "active_since",
+        "active_till",
+      ],
+      selectHosts: ["hostid", "name"],
+      selectGroups: ["groupid", "name"],
+      selectTimeperiods: "extend",
+    }
+  );
+
+  return maintenances.filter((maintenance) => {
+    const since = Number(maintenance.active_since);
+    const till = Number(maintenance.active_till);
+    return since < params.timeTill && till > params.timeFrom;
+  });
+}
+
 function parseNumber(value: string | undefined, fallback: number): number {
   if (!value) {
     return fallback;
@@ -537,6 +864,64 @@ function parseNumber(value: string | undefined, fallback: number): number {
   return Number.isFinite(parsed) ? parsed : fallback;
 }
 
+function resolveCacheTtl(method: string): number {
+  if (!CACHE_ENABLED || !method.endsWith(".get")) {
+    return 0;
+  }
+  return CACHE_METHOD_TTL_MS.get(method) ?? CACHE_DEFAULT_TTL_MS;
+}
+
+function getMethodStats(method: string): MethodCacheStats {
+  let stats = cacheState.stats.get(method);
+  if (!stats) {
+    stats = { hits: 0, misses: 0, coalesced: 0, errors: 0 };
+    cacheState.stats.set(method, stats);
+  }
+  return stats;
+}
+
+function storeCacheEntry(key: string, entry: CacheEntry) {
+  cacheState.entries.delete(key);
+  cacheState.entries.set(key, entry);
+  // Map mantém a ordem de inserção: a primeira chave é a menos usada.
+  while (cacheState.entries.size > CACHE_MAX_ENTRIES) {
+    const oldest = cacheState.entries.keys().next().value;
+    if (oldest === undefined) break;
+    cacheState.entries.delete(oldest);
+  }
+}
+
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(",")}]`;
+  }
+  if (value && typeof value === "object") {
+    return `{${Object.keys(value)
+      .filter((key) => (value as Record<string, unknown>)[key] !== undefined)
+      .sort()
+      .map(
+        (key) =>
+          `${JSON.stringify(key)}:${stableStringify(
+            (value as Record<string, unknown>)[key]
+          )}`
+      )
+      .join(",")}}`;
+  }
+  return JSON.stringify(value) ?? "null";
+}
+
+function parseMethodTtls(value: string | undefined): Record<string, number> {
+  const ttls: Record<string, number> = {};
+  for (const entry of (value ?? "").split(",")) {
+    const [method, seconds] = entry.split("=").map((part) => part.trim());
+    const parsed = Number(seconds);
+    if (method && seconds && Number.isFinite(parsed)) {
+      ttls[method] = parsed;
+    }
+  }
+  return ttls;
+}
+
 function wait(ms: number) {
   return new Promise((resolve) => setTimeout(resolve, ms));
 }
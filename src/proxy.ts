@@ -0,0 +1,65 @@
+import { NextResponse, type NextRequest } from "next/server";
+import {
+  canAccessPath,
+  isAuthEnabled,
+  SESSION_COOKIE,
+  verifySession,
+} from "@/lib/auth-session";
+
+const PUBLIC_PATHS = [
+  /^\/login$/,
+  /^\/api\/auth\/(login|logout)$/,
+  /^\/api\/auth\/oidc\//,
+  // Portal do cliente: o acesso vem do token assinado no próprio link.
+  /^\/portal\//,
+  /^\/api\/portal\//,
+];
+
+/**
+ * Exige sessão em todas as páginas e APIs (exceto login) e barra rotas fora do
+ * perfil. O recorte por host group fica nas rotas, que consultam o cadastro.
+ */
+export async function proxy(request: NextRequest) {
+  if (!isAuthEnabled()) {
+    return NextResponse.next();
+  }
+
+  const { pathname, search } = request.nextUrl;
+  if (PUBLIC_PATHS.some((pattern) => pattern.test(pathname))) {
+    return NextResponse.next();
+  }
+
+  const isApi = pathname.startsWith("/api/");
+  const session = await verifySession(
+    request.cookies.get(SESSION_COOKIE)?.value
+  );
+  if (!session) {
+    if (isApi) {
+      return NextResponse.json(
+        { error: "Sessão expirada. Faça login." },
+        { status: 401 }
+      );
+    }
+    const loginUrl = new URL("/login", request.url);
+    loginUrl.searchParams.set("next", `${pathname}${search}`);
+    return NextResponse.redirect(loginUrl);
+  }
+
+  if (!canAccessPath(session.role, pathname, request.method)) {
+    if (isApi) {
+      return NextResponse.json(
+        { error: "Seu perfil não tem acesso a este recurso." },
+        { status: 403 }
+      );
+    }
+    return NextResponse.redirect(new URL("/", request.url));
+  }
+
+  return NextResponse.next();
+}
+
+export const config = {
+  matcher: [
+    "/((?!_next/static|_next/image|favicon.ico|.*\\.(?:png|jpg|jpeg|svg|ico|webp)$).*)",
+  ],
+};
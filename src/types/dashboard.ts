@@ -47,6 +47,27 @@ export type AvailabilityAlertImpact = {
   hostNames: string[];
   alertType: string;
   itemKeys: string[];
+  /** Causa raiz quando o downtime do alerta foi colateral (queda do pai). */
+  rootCause?: string | null;
+};
+
+export type AvailabilityMaintenanceExclusion = {
+  maintenanceId: string;
+  name: string;
+  windowExcludedMinutes: number;
+  totalExcludedMinutes: number;
+  hostNames: string[];
+};
+
+/** Queda "pai" (trigger do qual outros dependem ou proxy) e seus colaterais. */
+export type AvailabilityRootCause = {
+  key: string;
+  kind: "trigger" | "proxy";
+  name: string;
+  hostName: string | null;
+  windowCollateralMinutes: number;
+  totalCollateralMinutes: number;
+  hostNames: string[];
 };
 
 export type AvailabilityInsights = {
@@ -55,6 +76,10 @@ export type AvailabilityInsights = {
   groupDowntimeMinutes: number;
   topHosts: AvailabilityHostImpact[];
   topAlerts: AvailabilityAlertImpact[];
+  excludedMaintenanceMinutes?: number;
+  maintenanceExclusions?: AvailabilityMaintenanceExclusion[];
+  collateralMinutes?: number;
+  rootCauses?: AvailabilityRootCause[];
 };
 
 export type CriticalAlertHighlight = {
@@ -72,6 +97,7 @@ export type CriticalAlertHighlight = {
   responseMinutes: number | null;
   resolutionMinutes: number;
   businessMinutes: number;
+  verdict: AlertVerdict | null;
 };
 
 export type OpenProblemDetail = {
@@ -79,6 +105,7 @@ export type OpenProblemDetail = {
   name: string;
   severity: number;
   severityLabel: string;
+  acknowledged: boolean;
   openedAt: string;
   durationMinutes: number;
   detectionMinutes: number | null;
@@ -86,6 +113,7 @@ export type OpenProblemDetail = {
   hosts: Array<{ hostid: string; name: string }>;
   groupNames: string[];
   tags: Array<{ tag: string; value: string }>;
+  verdict: AlertVerdict | null;
 };
 
 export type EventSeveritySample = {
@@ -118,9 +146,178 @@ export type HostGroupMetric = {
   businessAvailabilityPct: number;
   reachabilityPct: number;
   businessReachabilityPct: number;
+  availabilityExcludingMaintenancePct?: number;
+  businessAvailabilityExcludingMaintenancePct?: number;
+  maintenanceExcludedMinutes?: number;
+  availabilityExcludingCollateralPct?: number;
+  businessAvailabilityExcludingCollateralPct?: number;
+  collateralMinutes?: number;
   availabilityInsights?: AvailabilityInsights;
   reachabilityInsights?: AvailabilityInsights;
   reachabilityOverallInsights?: AvailabilityInsights;
+  sla?: SlaEvaluation;
+  forecast?: AvailabilityForecast;
+  errorBudget?: ErrorBudget;
+};
+
+export type PeriodPreset = "month" | "week" | "quarter" | "ytd" | "custom";
+
+/**
+ * Período pedido pelas APIs: `month` (AAAA-MM), `week`/`quarter`/`ytd`
+ * ancorados em `date` (AAAA-MM-DD, padrão hoje) ou `custom` com `from`/`to`.
+ */
+export type PeriodQuery = {
+  preset?: PeriodPreset;
+  month?: string;
+  date?: string;
+  from?: string;
+  to?: string;
+};
+
+export type PeriodRange = {
+  preset: PeriodPreset;
+  key: string;
+  label: string;
+  from: string;
+  /** Fim do período (exclusivo), mesmo que a apuração pare em `asOf`. */
+  to: string;
+  asOf: string;
+  /** Período equivalente imediatamente anterior, para comparações. */
+  previous: { query: PeriodQuery; label: string };
+};
+
+/** Projeção de fechamento do mês em andamento (ausente em meses fechados). */
+export type AvailabilityForecast = {
+  /** Fim efetivo da apuração: o mês em andamento é medido até agora. */
+  asOf: string;
+  periodEnd: string;
+  elapsedPct: number;
+  projectedAvailabilityPct: number;
+  projectedBusinessAvailabilityPct: number;
+  /**
+   * Downtime (em host·minutos) que ainda cabe na meta até o fim do mês;
+   * negativo quando a meta já não pode ser atingida. Null sem meta.
+   */
+  remainingBudgetMinutes: number | null;
+  remainingBusinessBudgetMinutes: number | null;
+  atRisk: boolean;
+};
+
+/**
+ * Orçamento de erro de uma janela (período completo ou horário comercial),
+ * em host·minutos sobre o mês inteiro. Sem meta, os campos derivados dela
+ * ficam null.
+ */
+export type ErrorBudgetWindow = {
+  targetPct: number | null;
+  allowedMinutes: number | null;
+  consumedMinutes: number;
+  remainingMinutes: number | null;
+  burnedPct: number | null;
+  /** Consumo dividido pela fração do período já decorrida (1 = no limite). */
+  burnRate: number | null;
+  exhaustedAt: string | null;
+};
+
+export type ErrorBudgetIncident = {
+  eventId: string;
+  name: string;
+  severity: number;
+  openedAt: string;
+  closedAt: string | null;
+  hostNames: string[];
+  /** Downtime somado dos hosts do grupo afetados pelo incidente. */
+  downtimeMinutes: number;
+  businessDowntimeMinutes: number;
+};
+
+export type ErrorBudget = {
+  overall: ErrorBudgetWindow;
+  business: ErrorBudgetWindow;
+  /** Só com `includeErrorBudgetIncidents`; maior consumo comercial primeiro. */
+  incidents?: ErrorBudgetIncident[];
+};
+
+export type ErrorBudgetRankingResponse = {
+  month: string;
+  label: string;
+  groups: Array<{
+    groupid: string;
+    name: string;
+    hosts: number;
+    errorBudget: ErrorBudget;
+  }>;
+};
+
+export type ExecutiveSummaryPeriodKind = "quarter" | "year";
+
+export type ExecutiveSummaryMonthMetrics = {
+  hosts: number;
+  availabilityPct: number;
+  businessAvailabilityPct: number;
+  reachabilityPct: number;
+  detectionMinutes: number;
+  responseMinutes: number;
+  resolutionMinutes: number;
+  alerts: number;
+  disasters: number;
+  impactIncidents: number;
+  targets: SlaTargets | null;
+  slaStatus: SlaEvaluation["status"] | null;
+};
+
+export type ExecutiveSummaryMonth = {
+  month: string;
+  label: string;
+  /** Mês em andamento, apurado só até o momento da geração. */
+  partial: boolean;
+  /** Null quando o host group não aparece nas métricas do mês. */
+  metrics: ExecutiveSummaryMonthMetrics | null;
+};
+
+export type ExecutiveSummaryOutage = {
+  eventId: string;
+  name: string;
+  severity: number;
+  month: string;
+  openedAt: string;
+  closedAt: string | null;
+  isOpen: boolean;
+  durationMinutes: number;
+  hosts: string[];
+};
+
+export type ExecutiveSummary = {
+  groupId: string;
+  groupName: string;
+  period: {
+    kind: ExecutiveSummaryPeriodKind;
+    key: string;
+    label: string;
+    from: string;
+    to: string;
+  };
+  targets: SlaTargets;
+  totals: {
+    /** Médias ponderadas por host·tempo de cada mês. */
+    availabilityPct: number | null;
+    businessAvailabilityPct: number | null;
+    reachabilityPct: number | null;
+    /** Média ponderada pelo número de alertas de cada mês. */
+    resolutionMinutes: number | null;
+    alerts: number;
+    disasters: number;
+    impactIncidents: number;
+    monthsMet: number;
+    monthsEvaluated: number;
+    /** Hosts ativos no último mês apurado. */
+    hosts: number;
+    contractedHosts: number | null;
+    coveragePct: number | null;
+  };
+  months: ExecutiveSummaryMonth[];
+  topOutages: ExecutiveSummaryOutage[];
+  generatedAt: string;
 };
 
 export type DashboardMetrics = {
@@ -136,6 +333,19 @@ export type DashboardMetrics = {
     offHoursPct: number;
     overallPct: number;
   };
+  availabilityExcludingMaintenance?: {
+    businessPct: number;
+    offHoursPct: number;
+    overallPct: number;
+    excludedMinutes: number;
+  };
+  /** Disponibilidade sem o downtime colateral (causado por queda do pai). */
+  availabilityExcludingCollateral?: {
+    businessPct: number;
+    offHoursPct: number;
+    overallPct: number;
+    collateralMinutes: number;
+  };
   reachability: {
     businessPct: number;
     offHoursPct: number;
@@ -150,10 +360,15 @@ export type DashboardMetrics = {
   }>;
   severitySummary: SeveritySummary[];
   hosts: HostMetric[];
+  /** Calculado apenas a partir de vereditos explícitos (TP/FP/FN). */
   accuracy: {
     falsePositivePct: number;
     falseNegativePct: number;
     precisionPct: number;
+    coveragePct: number;
+    classifiedAlerts: number;
+    totalAlerts: number;
+    counts: Record<AlertVerdictCode, number>;
   };
   totals: {
     hosts: number;
@@ -169,27 +384,37 @@ export type DashboardMetrics = {
   };
   groupSummaries?: HostGroupMetric[];
   criticalAlerts: CriticalAlertHighlight[];
+  sla?: SlaEvaluation;
+  forecast?: AvailabilityForecast;
   meta: {
     period: string;
+    range?: PeriodRange;
     groupId?: string;
     groupName?: string;
     generatedAt: string;
+    snapshotAt?: string;
   };
 };
 
 export type GroupMetricsApiResponse = {
   meta: {
     period: string;
+    range?: PeriodRange;
     generatedAt: string;
+    snapshotAt?: string;
     zabbixBaseUrl?: string;
   };
   kpis: DashboardMetrics["kpis"];
   availability: DashboardMetrics["availability"];
+  availabilityExcludingMaintenance?: DashboardMetrics["availabilityExcludingMaintenance"];
+  availabilityExcludingCollateral?: DashboardMetrics["availabilityExcludingCollateral"];
   reachability: DashboardMetrics["reachability"];
   totals: DashboardMetrics["groupTotals"];
   groups: HostGroupMetric[];
   severitySummary: SeveritySummary[];
   criticalAlerts: CriticalAlertHighlight[];
+  sla?: SlaEvaluation;
+  forecast?: AvailabilityForecast;
 };
 
 export type SeveritySummary = {
@@ -204,6 +429,27 @@ export type OpenProblemsResponse = {
   generatedAt: string;
 };
 
+export type OpenProblemChangeType =
+  | "opened"
+  | "acknowledged"
+  | "severity_changed"
+  | "resolved";
+
+export type OpenProblemChange = {
+  type: OpenProblemChangeType;
+  eventId: string;
+  problem: OpenProblemDetail | null;
+  previousSeverity?: number;
+};
+
+export type OpenProblemsFeedMessage =
+  | { type: "snapshot"; data: OpenProblemsResponse }
+  | {
+      type: "changes";
+      data: { generatedAt: string; changes: OpenProblemChange[] };
+    }
+  | { type: "status"; data: { ok: boolean; error?: string; at: string } };
+
 export type GroupAlertRecord = {
   eventId: string;
   name: string;
@@ -218,8 +464,8 @@ export type GroupAlertRecord = {
   openDurationMinutes: number;
   ticketOpened: boolean;
   firstAckAt: string | null;
-  secondAckAt: string | null;
-  secondAckMinutes: number | null;
+  /** Marco de resposta (`DASHBOARD_RESPONSE_MILESTONE`). */
+  respondedAt: string | null;
 };
 
 export type GroupAlertDetail = {
@@ -229,10 +475,565 @@ export type GroupAlertDetail = {
   openedAt: string;
   closedAt: string | null;
   firstAckAt: string | null;
-  secondAckAt: string | null;
+  respondedAt: string | null;
   detectionMinutes: number | null;
   responseMinutes: number | null;
   resolutionMinutes: number;
   hosts: string[];
   isOpen: boolean;
+  verdict: AlertVerdict | null;
+};
+
+export type TrendKpi =
+  | "detectionMinutes"
+  | "responseMinutes"
+  | "resolutionMinutes"
+  | "availabilityPct"
+  | "reachabilityPct"
+  | "alerts"
+  | "impactIncidents";
+
+export type TrendSeries = {
+  kpi: TrendKpi;
+  label: string;
+  unit: "minutes" | "percent" | "count";
+  values: Array<number | null>;
+};
+
+export type GroupTrendSeries = {
+  groupid: string;
+  name: string;
+  series: TrendSeries[];
+};
+
+export type TrendsApiResponse = {
+  months: Array<{ month: string; label: string }>;
+  series: TrendSeries[];
+  groups: GroupTrendSeries[];
+  generatedAt: string;
+};
+
+export type SlaTargetKey =
+  | "availabilityPct"
+  | "businessAvailabilityPct"
+  | "reachabilityPct"
+  | "detectionMinutes"
+  | "responseMinutes"
+  | "resolutionMinutes";
+
+export type SlaTargets = Record<SlaTargetKey, number | null>;
+
+export type SlaContract = {
+  groupid: string;
+  name: string | null;
+  targets: SlaTargets;
+  overrides: Partial<SlaTargets>;
+  updatedAt: string | null;
+  isDefault: boolean;
+};
+
+export type SlaCheck = {
+  key: SlaTargetKey;
+  target: number;
+  actual: number;
+  met: boolean;
+};
+
+export type SlaEvaluation = {
+  status: "met" | "breached";
+  targets: SlaTargets;
+  checks: SlaCheck[];
+  breaches: SlaTargetKey[];
+  isDefaultContract: boolean;
+};
+
+export type BusinessWeekday = "mon" | "tue" | "wed" | "thu" | "fri" | "sat" | "sun";
+
+export type BusinessHoursWindow = {
+  start: string;
+  end: string;
+};
+
+export type BusinessCalendarException = {
+  date: string;
+  label: string | null;
+  windows: BusinessHoursWindow[];
+};
+
+export type BusinessCalendarConfig = {
+  groupid: string | null;
+  name: string | null;
+  timezone: string;
+  weekly: Record<BusinessWeekday, BusinessHoursWindow[]>;
+  holidaySets: string[];
+  exceptions: BusinessCalendarException[];
+  label: string;
+  updatedAt: string | null;
+  isDefault: boolean;
+};
+
+export type HolidayEntry = {
+  date: string;
+  name: string;
+};
+
+export type HolidaySet = {
+  id: string;
+  name: string;
+  holidays: HolidayEntry[];
+};
+
+export type GroupAlertReportDefinition = {
+  id: string;
+  name: string;
+  groupId: string;
+  groupName: string | null;
+  from: string | null;
+  to: string | null;
+  lastDays: number | null;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type ActionPlanStatus = "em_andamento" | "concluido";
+
+export type ActionPlanItem = {
+  what: string;
+  why: string;
+  where: string;
+  when: string;
+  who: string;
+  how: string;
+  howMuch: string;
+  status: ActionPlanStatus;
+  dueDate?: string | null;
+};
+
+export type ActionPlanStatusChange = {
+  status: ActionPlanStatus;
+  at: string;
+  by: string | null;
+};
+
+/** Item 5W2H salvo no servidor; `who` é o responsável. */
+export type ActionPlanEntry = ActionPlanItem & {
+  id: string;
+  dueDate: string | null;
+  eventIds: string[];
+  groupIds: string[];
+  history: ActionPlanStatusChange[];
+  createdAt: string;
+  createdBy: string | null;
+  updatedAt: string;
+};
+
+export type ClientReportFile = {
+  month: string;
+  groupId: string;
+  groupName: string;
+  fileName: string;
+  generatedAt: string;
+};
+
+export type HostCategoryDefinition = {
+  id: string;
+  label: string;
+};
+
+export type HostClassificationMatch = {
+  tags?: Array<{ tag: string; value?: string }>;
+  inventoryType?: string[];
+  templates?: string[];
+  groups?: string[];
+  hostName?: string[];
+};
+
+export type HostClassificationRule = {
+  id: string;
+  category: string;
+  description?: string;
+  match: HostClassificationMatch;
+};
+
+export type HostClassificationConfig = {
+  defaultCategory: string;
+  categories: HostCategoryDefinition[];
+  rules: HostClassificationRule[];
+};
+
+export type HostClassificationResult = {
+  hostid: string;
+  name: string;
+  categoryId: string;
+  categoryLabel: string;
+  ruleId: string | null;
+  ruleDescription: string | null;
+  matchedOn: string[];
+};
+
+export type AlertVerdictCode = "tp" | "fp" | "fn";
+
+export type AlertVerdict = {
+  verdict: AlertVerdictCode;
+  reason: string | null;
+  at: string;
+  userid: string | null;
+};
+
+export type HostTimelineSegment = {
+  start: string;
+  end: string;
+  shift: "business" | "off";
+  minutes: number;
+};
+
+export type HostDowntimeInterval = {
+  start: string;
+  end: string;
+  totalMinutes: number;
+  businessMinutes: number;
+  offMinutes: number;
+  maintenanceMinutes: number;
+  eventIds: string[];
+};
+
+export type HostAlertAcknowledge = {
+  at: string;
+  userid: string | null;
+  user: string | null;
+  actions: Array<
+    "close" | "acknowledge" | "message" | "severity" | "unacknowledge"
+  >;
+  message: string | null;
+};
+
+export type HostAlertDetail = {
+  eventId: string;
+  name: string;
+  severity: number;
+  openedAt: string;
+  closedAt: string | null;
+  isOpen: boolean;
+  durationMinutes: number;
+  detectionMinutes: number | null;
+  responseMinutes: number | null;
+  /** Até a recuperação ou o fechamento manual; null enquanto não resolvido. */
+  resolutionMinutes: number | null;
+  acknowledges: HostAlertAcknowledge[];
+  verdict: AlertVerdict | null;
+};
+
+export type HostDetailResponse = {
+  meta: {
+    month: string;
+    period: { label: string; start: string; end: string };
+    generatedAt: string;
+    calendar: { id: string; label: string };
+  };
+  host: {
+    hostid: string;
+    name: string;
+    active: boolean;
+    proxy: string | null;
+    groups: Array<{ groupid: string; name: string }>;
+    interfaces: Array<{
+      type: string;
+      ip: string;
+      dns: string;
+      port: string;
+      main: boolean;
+      available: string | null;
+    }>;
+    templates: string[];
+    tags: Array<{ tag: string; value: string }>;
+    inventory: { type: string | null; os: string | null; hardware: string | null };
+  };
+  downtime: {
+    totalMinutes: number;
+    businessMinutes: number;
+    offMinutes: number;
+    availabilityPct: number;
+    businessAvailabilityPct: number;
+  };
+  intervals: HostDowntimeInterval[];
+  timeline: HostTimelineSegment[];
+  maintenance: Array<{ name: string; start: string; end: string }>;
+  alerts: HostAlertDetail[];
+};
+
+/**
+ * Planilhas exportadas: `percent` vem em 0-100, `duration` em minutos e
+ * `datetime` em ISO; a conversão para os formatos do Excel fica no servidor.
+ */
+export type ExportColumnType =
+  | "text"
+  | "integer"
+  | "number"
+  | "percent"
+  | "duration"
+  | "datetime";
+
+export type ExportColumn = {
+  key: string;
+  header: string;
+  type: ExportColumnType;
+  width?: number;
+};
+
+export type ExportCellValue = string | number | boolean | null;
+
+export type ExportSheet = {
+  name: string;
+  columns: ExportColumn[];
+  rows: Array<Record<string, ExportCellValue>>;
+};
+
+export type ExportWorkbook = {
+  fileName: string;
+  title: string;
+  metadata: Array<{ label: string; value: string }>;
+  sheets: ExportSheet[];
+};
+
+/** Uma linha do ranking de ruído: eventos de um trigger em um host. */
+export type AlertNoiseEntry = {
+  triggerId: string;
+  hostid: string;
+  hostName: string;
+  name: string;
+  triggerDescription: string | null;
+  itemKeys: string[];
+  maxSeverity: number;
+  severityLabel: string;
+  fires: number;
+  flaps: number;
+  openNow: number;
+  medianDurationMinutes: number | null;
+  shortAlerts: number;
+  shortAlertPct: number;
+  acknowledged: number;
+  ackRatePct: number;
+  lastFiredAt: string;
+};
+
+export type AlertNoiseReport = {
+  groupId: string | null;
+  groupLabel: string;
+  range: { from: string; to: string };
+  flapWindowMinutes: number;
+  shortAlertMinutes: number;
+  totals: {
+    events: number;
+    pairs: number;
+    flappingPairs: number;
+    flaps: number;
+    shortAlerts: number;
+    shortAlertPct: number;
+    ackRatePct: number;
+  };
+  entries: AlertNoiseEntry[];
+};
+
+/**
+ * Perfis de acesso: `operator` (NOC), `manager` (também administra usuários e
+ * configurações) e `client`, que só enxerga os host groups em `groupIds`.
+ */
+export type UserRole = "operator" | "manager" | "client";
+
+export type DashboardUser = {
+  id: string;
+  username: string;
+  name: string;
+  email: string | null;
+  role: UserRole;
+  groupIds: string[];
+  hasPassword: boolean;
+  updatedAt: string;
+};
+
+export type DashboardSession = {
+  sub: string;
+  name: string;
+  role: UserRole;
+  groupIds: string[];
+  exp: number;
+};
+
+export type PortalLink = {
+  groupId: string;
+  groupName: string;
+  path: string;
+  expiresAt: string;
+};
+
+export type PortalOpenProblem = {
+  eventId: string;
+  name: string;
+  severity: number;
+  severityLabel: string;
+  acknowledged: boolean;
+  openedAt: string;
+  durationMinutes: number;
+  hosts: string[];
+};
+
+export type PortalHistoryMonth = {
+  month: string;
+  label: string;
+  availabilityPct: number | null;
+  detectionMinutes: number | null;
+  responseMinutes: number | null;
+  resolutionMinutes: number | null;
+  alerts: number | null;
+  impactIncidents: number | null;
+};
+
+/** Visão somente leitura de um host group para o portal do cliente. */
+export type PortalView = {
+  group: { groupid: string; name: string };
+  month: string;
+  period: string;
+  kpis: DashboardMetrics["kpis"];
+  availability: DashboardMetrics["availability"];
+  totals: DashboardMetrics["groupTotals"];
+  severitySummary: SeveritySummary[];
+  sla: SlaEvaluation | null;
+  openProblems: PortalOpenProblem[];
+  history: PortalHistoryMonth[];
+  generatedAt: string;
+  expiresAt: string;
+};
+
+export type ProxyMode = "active" | "passive";
+
+/** online = contato recente; stale = sem contato além do limite. */
+export type ProxyLastSeenStatus = "online" | "stale" | "never";
+
+export type ProxySummary = {
+  proxyid: string;
+  name: string;
+  mode: ProxyMode;
+  lastSeenAt: string | null;
+  lastSeenStatus: ProxyLastSeenStatus;
+  hostCount: number;
+  activeHostCount: number;
+  disabledHostCount: number;
+  itemCount: number;
+  openProblemCount: number;
+  unreachableHostCount: number;
+  /** Todos os hosts ativos ficaram inalcançáveis dentro da mesma janela. */
+  massOutage: { since: string; hostCount: number } | null;
+};
+
+export type ProxyHealthResponse = {
+  proxies: ProxySummary[];
+  totals: {
+    proxies: number;
+    stale: number;
+    massOutages: number;
+    hosts: number;
+    items: number;
+    openProblems: number;
+  };
+  staleAfterMinutes: number;
+  outageWindowMinutes: number;
+  generatedAt: string;
+};
+
+export type ProxyHostRow = {
+  hostid: string;
+  name: string;
+  alias: string | null;
+  active: boolean;
+  groups: string[];
+  itemCount: number;
+  openProblemCount: number;
+  unreachableSince: string | null;
+};
+
+export type ProxyDetailResponse = {
+  proxy: ProxySummary;
+  hosts: ProxyHostRow[];
+  openProblems: OpenProblemDetail[];
+  staleAfterMinutes: number;
+  outageWindowMinutes: number;
+  generatedAt: string;
+};
+
+export type NotificationChannel =
+  | {
+      id: string;
+      type: "webhook";
+      url: string;
+      headers?: Record<string, string>;
+    }
+  | { id: string; type: "slack" | "teams"; url: string }
+  | { id: string; type: "email"; to: string[] };
+
+export type NotificationRuleType =
+  | "availability_projection"
+  | "unacknowledged_problem"
+  | "open_problem_count";
+
+export type NotificationRule = {
+  id: string;
+  name: string;
+  enabled: boolean;
+  channelIds: string[];
+  /** Host groups avaliados; vazio vale para todos. */
+  groupIds: string[];
+  /** Reenvio enquanto a condição persistir; null avisa uma única vez. */
+  repeatMinutes: number | null;
+  ignoreQuietHours: boolean;
+} & (
+  | {
+      type: "availability_projection";
+      metric: "availabilityPct" | "businessAvailabilityPct";
+      /** Meta fixa; null usa a meta do contrato de SLA do grupo. */
+      targetPct: number | null;
+    }
+  | { type: "unacknowledged_problem"; minSeverity: number; minMinutes: number }
+  | { type: "open_problem_count"; minSeverity: number; maxOpen: number }
+);
+
+export type NotificationConfig = {
+  channels: NotificationChannel[];
+  rules: NotificationRule[];
+  /** Janela HH:mm no fuso do dashboard; alertas ficam retidos até o fim. */
+  quietHours: { start: string; end: string } | null;
+  updatedAt: string | null;
+};
+
+export type NotificationAlert = {
+  key: string;
+  ruleId: string;
+  ruleName: string;
+  level: "warning" | "critical";
+  title: string;
+  message: string;
+  groupId: string | null;
+  eventId: string | null;
+  url: string | null;
+};
+
+export type NotificationDelivery = {
+  at: string;
+  key: string;
+  ruleId: string;
+  channelId: string;
+  title: string;
+  ok: boolean;
+  error: string | null;
+};
+
+export type NotificationRunResult = {
+  evaluatedAt: string;
+  dryRun: boolean;
+  quietHours: boolean;
+  alerts: NotificationAlert[];
+  deliveries: NotificationDelivery[];
+  /** Alertas já enviados e ainda dentro do intervalo de reenvio. */
+  deduplicated: number;
+  /** Alertas retidos pelo horário de silêncio. */
+  deferred: number;
 };